@@ -2,6 +2,7 @@
 
 import { z } from "zod"
 import prismadb from "@/lib/prismadb"
+import { enqueueSearchSync, requestSearchSync } from "@/lib/search-outbox"
 import { revalidatePath } from "next/cache"
 
 // Define the product schema for validation
@@ -95,23 +96,30 @@ export async function importProducts(
     for (let i = 0; i < validatedProducts.length; i += 500) {
       const batch = validatedProducts.slice(i, i + 500)
 
-      await prismadb.products.createMany({
-        data: batch.map((product) => ({
-          id: crypto.randomUUID(),
-          storeId,
-          categoryId: product.categoryId,
-          name: product.name,
-          description: product.description,
-          price: product.price,
-          keywords: product.keywords,
-          downloadUrl: product.downloadUrl,
-          isFeatured: product.isFeatured,
-          isArchived: product.isArchived,
-          updatedAt: new Date(),
-        })),
-        skipDuplicates: true,
-      })
+      const rows = batch.map((product) => ({
+        id: crypto.randomUUID(),
+        storeId,
+        categoryId: product.categoryId,
+        name: product.name,
+        description: product.description,
+        price: product.price,
+        keywords: product.keywords,
+        downloadUrl: product.downloadUrl,
+        isFeatured: product.isFeatured,
+        isArchived: product.isArchived,
+        updatedAt: new Date(),
+      }))
+
+      await prismadb.$transaction([
+        prismadb.products.createMany({
+          data: rows,
+          skipDuplicates: true,
+        }),
+        enqueueSearchSync(storeId, rows.map((row) => row.id), "UPSERT"),
+      ])
     }
+
+    await requestSearchSync()
   } catch (error) {
     console.error("Database error:", error)
     throw new Error("Failed to import products to database")
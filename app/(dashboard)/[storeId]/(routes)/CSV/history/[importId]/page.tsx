@@ -0,0 +1,124 @@
+import Link from "next/link"
+import { notFound } from "next/navigation"
+import { format } from "date-fns"
+import { formatImportDuration, getImportDetail, getImportUserLabels } from "@/lib/import-history"
+import { ROLLBACK_IMPORT_STATUS } from "@/lib/import-rollback"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Separator } from "@/components/ui/separator"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ArrowLeft, FileText } from "lucide-react"
+import { ImportStatusBadge } from "../_components/columns"
+import { ImportActions } from "../_components/import-actions"
+
+interface ImportDetailPageProps {
+  params: Promise<{ storeId: string; importId: string }>
+}
+
+const Stat = ({ label, value }: { label: string; value: React.ReactNode }) => (
+  <div className="bg-card rounded-lg border p-4">
+    <p className="text-sm text-muted-foreground">{label}</p>
+    <p className="text-2xl font-bold">{value}</p>
+  </div>
+)
+
+const ImportDetailPage = async ({ params }: ImportDetailPageProps) => {
+  const { storeId, importId } = await params
+
+  const detail = await getImportDetail(storeId, importId)
+
+  if (!detail) {
+    notFound()
+  }
+
+  const { log, failedRows } = detail
+  const users = await getImportUserLabels([log.userId])
+  const startedAt = log.startedAt ?? log.createdAt
+
+  return (
+    <div className="flex flex-col min-h-screen bg-background">
+      <main className="flex-1 p-4 md:p-8 space-y-6">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="icon" asChild>
+              <Link href={`/${storeId}/CSV/history`}>
+                <ArrowLeft className="h-5 w-5" />
+              </Link>
+            </Button>
+            <div className="rounded-full bg-primary/10 p-2">
+              <FileText className="h-5 w-5 text-primary" />
+            </div>
+            <div>
+              <div className="flex items-center gap-2">
+                <h2 className="text-lg font-medium">{log.fileName}</h2>
+                <ImportStatusBadge status={log.status} />
+              </div>
+              <p className="text-sm text-muted-foreground">
+                By {users.get(log.userId)} · {format(startedAt, "MMM d, yyyy h:mm a")}
+              </p>
+            </div>
+          </div>
+          <ImportActions
+            storeId={storeId}
+            importId={log.id}
+            failedRows={failedRows.map((failure) => failure.row)}
+            canRollback={ROLLBACK_IMPORT_STATUS.includes(log.status) && log._count.changes > 0}
+            canCancel={log.status === "PROCESSING"}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <Stat label="Total Rows" value={log.totalRows} />
+          <Stat label="Imported" value={log.processedRows ?? 0} />
+          <Stat label="Failed" value={log.failedRows ?? 0} />
+          <Stat label="Duration" value={formatImportDuration(log)} />
+        </div>
+        {log.completedAt && (
+          <p className="text-sm text-muted-foreground">Finished {format(log.completedAt, "MMM d, yyyy h:mm a")}</p>
+        )}
+        {log.rolledBackAt && (
+          <p className="text-sm text-muted-foreground">Rolled back {format(log.rolledBackAt, "MMM d, yyyy h:mm a")}</p>
+        )}
+        {log.errorMessage && <p className="text-sm text-destructive">{log.errorMessage}</p>}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Failed Rows</CardTitle>
+            <CardDescription>Download them as CSV, fix the errors and import the file again</CardDescription>
+          </CardHeader>
+          <Separator />
+          <CardContent className="pt-4">
+            {failedRows.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Row</TableHead>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Error</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {failedRows.map((failure) => (
+                    <TableRow key={failure.rowNumber}>
+                      <TableCell className="text-muted-foreground">{failure.rowNumber}</TableCell>
+                      <TableCell className="font-medium">{failure.name}</TableCell>
+                      <TableCell className="text-sm text-destructive break-all">{failure.error}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                {(log.failedRows ?? 0) > 0
+                  ? "This import ran before failed rows were recorded."
+                  : "No rows failed"}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  )
+}
+
+export default ImportDetailPage
@@ -0,0 +1,64 @@
+"use client";
+
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Heading } from "@/components/ui/heading";
+import { Separator } from "@/components/ui/separator";
+import { ArrowLeft, History, Import } from "lucide-react";
+import { ImportHistoryColumn, columns } from "./columns";
+import { DataTable } from "@/components/data-table";
+
+interface ImportHistoryClientProps {
+  data: ImportHistoryColumn[];
+  storeId: string;
+}
+
+export const ImportHistoryClient: React.FC<ImportHistoryClientProps> = ({ data, storeId }) => {
+  return (
+    <div className="flex flex-col min-h-screen bg-background">
+      <main className="flex-1 p-4 md:p-8">
+        <div className="rounded-lg border bg-card shadow-sm transition-all">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between p-4 md:p-6">
+            <div className="flex items-center gap-2 mb-4 md:mb-0">
+              <Button variant="ghost" size="icon" asChild>
+                <Link href={`/${storeId}/CSV`}>
+                  <ArrowLeft className="w-5 h-5" />
+                </Link>
+              </Button>
+              <History className="w-5 h-5 text-primary" />
+              <h2 className="text-lg font-medium">Import History</h2>
+            </div>
+            <div className="text-sm text-muted-foreground">
+              Total: {data.length} import{data.length === 1 ? "" : "s"}
+            </div>
+          </div>
+
+          <Separator />
+
+          {data.length > 0 ? (
+            <div className="p-4">
+              <div className="pb-5">
+                <Heading
+                  title={`Imports (${data.length})`}
+                  description="Every bulk import run for this store, newest first"
+                />
+              </div>
+              <Separator />
+              <DataTable searchKey="fileName" columns={columns} data={data} />
+            </div>
+          ) : (
+            <div className="flex flex-col items-center justify-center py-12 px-4 text-center">
+              <div className="rounded-full bg-primary/10 p-3 mb-4">
+                <Import className="w-8 h-8 text-primary" />
+              </div>
+              <h3 className="text-lg font-medium mb-2">No imports yet</h3>
+              <p className="text-muted-foreground max-w-sm">
+                Runs appear here once you import products from a CSV file.
+              </p>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
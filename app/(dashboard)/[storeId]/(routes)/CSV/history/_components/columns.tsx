@@ -0,0 +1,96 @@
+"use client"
+
+import Link from "next/link"
+import { useParams } from "next/navigation"
+import { ColumnDef } from "@tanstack/react-table"
+import { format } from "date-fns"
+import { AlertTriangle, Ban, CheckCircle2, Loader2, Undo2, XCircle } from "lucide-react"
+import type { ImportStatus } from "@prisma/client"
+import { Badge } from "@/components/ui/badge"
+
+export type ImportHistoryColumn = {
+  id: string
+  fileName: string
+  user: string
+  status: ImportStatus
+  totalRows: number
+  processedRows: number
+  failedRows: number
+  startedAt: string
+  duration: string
+}
+
+const STATUS_BADGES: Record<ImportStatus, { label: string; className: string; icon: typeof CheckCircle2 }> = {
+  PROCESSING: { label: "Processing", className: "bg-blue-500/10 text-blue-500 border-blue-500/20", icon: Loader2 },
+  COMPLETED: { label: "Completed", className: "bg-green-500/10 text-green-500 border-green-500/20", icon: CheckCircle2 },
+  COMPLETED_WITH_ERRORS: {
+    label: "Completed with errors",
+    className: "bg-amber-500/10 text-amber-500 border-amber-500/20",
+    icon: AlertTriangle,
+  },
+  FAILED: { label: "Failed", className: "bg-destructive/10 text-destructive border-destructive/20", icon: XCircle },
+  CANCELLING: { label: "Cancelling", className: "bg-muted text-muted-foreground", icon: Loader2 },
+  CANCELLED: { label: "Cancelled", className: "bg-muted text-muted-foreground", icon: Ban },
+  ROLLED_BACK: { label: "Rolled back", className: "bg-muted text-muted-foreground", icon: Undo2 },
+}
+
+export const ImportStatusBadge = ({ status }: { status: ImportStatus }) => {
+  const { label, className, icon: Icon } = STATUS_BADGES[status]
+
+  return (
+    <Badge variant="outline" className={className}>
+      <Icon className="h-3 w-3 mr-1" />
+      {label}
+    </Badge>
+  )
+}
+
+const FileCell = ({ data }: { data: ImportHistoryColumn }) => {
+  const params = useParams()
+
+  return (
+    <Link href={`/${params.storeId}/CSV/history/${data.id}`} className="font-medium hover:underline">
+      {data.fileName}
+    </Link>
+  )
+}
+
+export const columns: ColumnDef<ImportHistoryColumn>[] = [
+  {
+    accessorKey: "fileName",
+    header: "File",
+    cell: ({ row }) => <FileCell data={row.original} />,
+  },
+  {
+    accessorKey: "user",
+    header: "User",
+  },
+  {
+    accessorKey: "status",
+    header: "Status",
+    cell: ({ row }) => <ImportStatusBadge status={row.original.status} />,
+  },
+  {
+    accessorKey: "totalRows",
+    header: "Rows",
+    cell: ({ row }) => (
+      <div className="flex flex-col text-sm">
+        <span>
+          {row.original.processedRows} / {row.original.totalRows} imported
+        </span>
+        {row.original.failedRows > 0 && (
+          <span className="text-xs text-destructive">{row.original.failedRows} failed</span>
+        )}
+      </div>
+    ),
+  },
+  {
+    accessorKey: "startedAt",
+    header: "Started",
+    cell: ({ row }) => format(new Date(row.original.startedAt), "MMM d, yyyy h:mm a"),
+  },
+  {
+    accessorKey: "duration",
+    header: "Duration",
+  },
+]
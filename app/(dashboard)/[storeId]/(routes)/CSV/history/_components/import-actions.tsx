@@ -0,0 +1,76 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import axios from "axios";
+import { toast } from "react-hot-toast";
+import { Ban, Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { RollbackImportButton } from "@/components/csv-import/rollback-import-button";
+import { exportFailedRowsAsCsv } from "@/lib/utils/export-failed-rows";
+import type { ProductImportRow } from "@/lib/validation/product-import-schema";
+
+interface ImportActionsProps {
+  storeId: string;
+  importId: string;
+  failedRows: ProductImportRow[];
+  canRollback: boolean;
+  canCancel: boolean;
+}
+
+export const ImportActions: React.FC<ImportActionsProps> = ({
+  storeId,
+  importId,
+  failedRows,
+  canRollback,
+  canCancel,
+}) => {
+  const router = useRouter();
+  const [cancelling, setCancelling] = useState(false);
+
+  const onCancel = async () => {
+    try {
+      setCancelling(true);
+      const { data } = await axios.post(`/api/${storeId}/import-status/${importId}/cancel`);
+      toast.success(`Cancelling import. ${data.processedRows ?? 0} of ${data.totalRows} rows were already applied.`);
+      router.refresh();
+    } catch (error) {
+      const message = axios.isAxiosError(error) && typeof error.response?.data === "string"
+        ? error.response.data
+        : "Something went wrong";
+      toast.error(message);
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  const onDownload = () => {
+    try {
+      exportFailedRowsAsCsv(failedRows);
+      toast.success("Failed rows exported successfully.");
+    } catch (error) {
+      console.error("Export error:", error);
+      toast.error("Failed to export rows. Please try again.");
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      {failedRows.length > 0 && (
+        <Button variant="outline" onClick={onDownload}>
+          <Download className="mr-2 h-4 w-4" />
+          Download Failed Rows ({failedRows.length})
+        </Button>
+      )}
+      {canCancel && (
+        <Button variant="outline" onClick={onCancel} disabled={cancelling}>
+          <Ban className="mr-2 h-4 w-4" />
+          Cancel Import
+        </Button>
+      )}
+      {canRollback && (
+        <RollbackImportButton storeId={storeId} importId={importId} onRolledBack={() => router.refresh()} />
+      )}
+    </div>
+  );
+};
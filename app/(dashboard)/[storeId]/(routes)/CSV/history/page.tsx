@@ -0,0 +1,26 @@
+import { ImportHistoryClient } from "./_components/client"
+import { formatImportDuration, getImportHistory, getImportUserLabels } from "@/lib/import-history"
+import type { ImportHistoryColumn } from "./_components/columns"
+
+const ImportHistoryPage = async ({ params }: { params: Promise<{ storeId: string }> }) => {
+  const { storeId } = await params
+
+  const imports = await getImportHistory(storeId)
+  const users = await getImportUserLabels(imports.map((item) => item.userId))
+
+  const formattedImports: ImportHistoryColumn[] = imports.map((item) => ({
+    id: item.id,
+    fileName: item.fileName,
+    user: users.get(item.userId) ?? item.userId,
+    status: item.status,
+    totalRows: item.totalRows,
+    processedRows: item.processedRows ?? 0,
+    failedRows: item.failedRows ?? 0,
+    startedAt: (item.startedAt ?? item.createdAt).toISOString(),
+    duration: formatImportDuration(item),
+  }))
+
+  return <ImportHistoryClient data={formattedImports} storeId={storeId} />
+}
+
+export default ImportHistoryPage
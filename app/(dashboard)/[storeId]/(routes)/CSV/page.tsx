@@ -1,10 +1,12 @@
+import Link from "next/link";
 import { auth } from "@clerk/nextjs/server";
 import { redirect } from "next/navigation";
 import prismadb from "@/lib/prismadb";
 import CsvImportPage from "@/components/csv-import/csv-import-page";
 import CsvMakerPage from "@/components/csv-maker/csv-maker-page";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Import, Wand2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { History, Import, Wand2 } from "lucide-react";
 
 interface ImportPageProps {
   params: Promise<{
@@ -32,29 +34,44 @@ export default async function ImportPage({ params }: ImportPageProps) {
     redirect("/dashboard");
   }
 
-  // Fetch categories for CSV Maker
+  // Categories for CSV Maker, and for resolving category names in imports
   const categories = await prismadb.category.findMany({
     where: { storeId },
-    select: { id: true, name: true },
+    select: { id: true, name: true, parentId: true, position: true },
     orderBy: { name: "asc" },
   });
 
+  // Billboards for categories created during an import
+  const billboards = await prismadb.billboard.findMany({
+    where: { storeId },
+    select: { id: true, label: true },
+    orderBy: { createdAt: "desc" },
+  });
+
   return (
     <div className="flex-col">
       <div className="flex-1 space-y-4 p-8 pt-6">
         <Tabs defaultValue="import" className="w-full">
-          <TabsList className="grid w-full max-w-md grid-cols-2">
-            <TabsTrigger value="import" className="flex items-center gap-2">
-              <Import className="h-4 w-4" />
-              Bulk Import
-            </TabsTrigger>
-            <TabsTrigger value="maker" className="flex items-center gap-2">
-              <Wand2 className="h-4 w-4" />
-              CSV Maker (AI)
-            </TabsTrigger>
-          </TabsList>
+          <div className="flex items-center justify-between gap-4">
+            <TabsList className="grid w-full max-w-md grid-cols-2">
+              <TabsTrigger value="import" className="flex items-center gap-2">
+                <Import className="h-4 w-4" />
+                Bulk Import
+              </TabsTrigger>
+              <TabsTrigger value="maker" className="flex items-center gap-2">
+                <Wand2 className="h-4 w-4" />
+                CSV Maker (AI)
+              </TabsTrigger>
+            </TabsList>
+            <Button variant="outline" asChild>
+              <Link href={`/${storeId}/CSV/history`}>
+                <History className="h-4 w-4 mr-2" />
+                Import History
+              </Link>
+            </Button>
+          </div>
           <TabsContent value="import" className="mt-6">
-            <CsvImportPage storeId={storeId} />
+            <CsvImportPage storeId={storeId} categories={categories} billboards={billboards} />
           </TabsContent>
           <TabsContent value="maker" className="mt-6">
             <CsvMakerPage storeId={storeId} categories={categories} />
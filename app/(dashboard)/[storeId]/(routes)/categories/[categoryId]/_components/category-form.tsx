@@ -19,19 +19,29 @@ import { useParams, useRouter } from "next/navigation"
 import { AleartModal } from "@/components/modals/alert-modal"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 
+export interface ParentCategoryOption {
+  id: string;
+  label: string;
+}
+
 interface CategoryFormProps {
   initialData: Category | null;
   billboards:Billboard[];
+  parentOptions: ParentCategoryOption[];
 }
 
+// Radix Select items can't have an empty value
+const NO_PARENT = "none"
+
 const formSchema = z.object({
   name: z.string().min(1, "Label is required"),
   billboardId: z.string().min(1, "Image is required"),
+  parentId: z.string(),
 })
 
 type CategoryFormValues = z.infer<typeof formSchema>
 
-export const CategoryForm: React.FC<CategoryFormProps> = ({ initialData , billboards}) => {
+export const CategoryForm: React.FC<CategoryFormProps> = ({ initialData , billboards, parentOptions}) => {
   const [open, setOpen] = useState(false)
   const [loading, setLoading] = useState(false)
 
@@ -50,18 +60,20 @@ export const CategoryForm: React.FC<CategoryFormProps> = ({ initialData , billbo
   const form = useForm<CategoryFormValues>({
     resolver: zodResolver(formSchema),
     defaultValues: initialData
-      ? { name: initialData.name, billboardId: initialData.billboardId }
-      : { name: "", billboardId: "" },
+      ? { name: initialData.name, billboardId: initialData.billboardId, parentId: initialData.parentId ?? NO_PARENT }
+      : { name: "", billboardId: "", parentId: NO_PARENT },
   })
 
   const onSubmit = async (data: CategoryFormValues) => {
     try {
       setLoading(true)
 
+      const payload = { ...data, parentId: data.parentId === NO_PARENT ? null : data.parentId }
+
       if (initialData) {
-        await axios.patch(`/api/${params.storeId}/categories/${params.categoryId}`, data)
+        await axios.patch(`/api/${params.storeId}/categories/${params.categoryId}`, payload)
       } else {
-        await axios.post(`/api/${params.storeId}/categories`, data)
+        await axios.post(`/api/${params.storeId}/categories`, payload)
       }
       router.refresh();
       router.push(`/${params.storeId}/categories`);
@@ -69,8 +81,11 @@ export const CategoryForm: React.FC<CategoryFormProps> = ({ initialData , billbo
       if (!initialData) {
         router.push(`/${params.storeId}/categories`)
       }
-    } catch {
-      toast.error("Something went wrong")
+    } catch (error) {
+      const message = axios.isAxiosError(error)
+        ? error.response?.data?.error ?? (typeof error.response?.data === "string" ? error.response.data : null)
+        : null
+      toast.error(message ?? "Something went wrong")
     } finally {
       setLoading(false)
     }
@@ -84,7 +99,7 @@ export const CategoryForm: React.FC<CategoryFormProps> = ({ initialData , billbo
       router.push(`/${params.storeId}/categories`)
       toast.success("Category deleted.")
     } catch  {
-      toast.error("Make sure you removed all products using this category first.")
+      toast.error("Make sure you removed all products and subcategories using this category first.")
     } finally {
       setLoading(false)
       setOpen(false)
@@ -174,6 +189,31 @@ export const CategoryForm: React.FC<CategoryFormProps> = ({ initialData , billbo
                 </FormItem>
               )}
             />
+            <FormField
+              control={form.control}
+              name="parentId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-base">Parent category</FormLabel>
+                  <Select disabled={loading} onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a parent category" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={NO_PARENT}>None (top level)</SelectItem>
+                      {parentOptions.map((option) => (
+                        <SelectItem key={option.id} value={option.id}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
           </div>
 
           <div className="fixed bottom-0 left-0 right-0 bg-background border-t border-border p-4 md:relative md:border-0 md:p-0 md:bg-transparent flex justify-end gap-x-2 z-10">
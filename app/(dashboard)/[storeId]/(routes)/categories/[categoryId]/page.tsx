@@ -1,5 +1,6 @@
 import prismadb from "@/lib/prismadb";
-import { CategoryForm } from "./_components/category-form";
+import { collectDescendantIds, getCategoryBreadcrumbs } from "@/lib/category-tree";
+import { CategoryForm, type ParentCategoryOption } from "./_components/category-form";
 
 const CategoryPage = async ({
                                 params,
@@ -20,10 +21,27 @@ const CategoryPage = async ({
         },
     });
 
+    const categories = await prismadb.category.findMany({
+        where: {
+            storeId: storeId,
+        },
+    });
+
+    // A category can't be nested under itself or its own subcategories
+    const excluded = new Set(category ? collectDescendantIds(categories, category.id) : []);
+
+    const parentOptions: ParentCategoryOption[] = categories
+        .filter((item) => !excluded.has(item.id))
+        .map((item) => ({
+            id: item.id,
+            label: getCategoryBreadcrumbs(categories, item.id).map((crumb) => crumb.name).join(" › "),
+        }))
+        .sort((a, b) => a.label.localeCompare(b.label));
+
     return (
         <div className="flex-col">
             <div className="flex-1 space-y-4 p-8 pt-6">
-                <CategoryForm initialData={category} billboards={billboards} />
+                <CategoryForm initialData={category} billboards={billboards} parentOptions={parentOptions} />
             </div>
         </div>
     );
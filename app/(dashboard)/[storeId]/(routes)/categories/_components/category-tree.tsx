@@ -0,0 +1,251 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import axios from "axios";
+import toast from "react-hot-toast";
+import { ChevronRight, Edit, FolderTree, GripVertical } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import {
+  buildCategoryTree,
+  collectDescendantIds,
+  compareCategorySiblings,
+  type CategoryTreeNode,
+} from "@/lib/category-tree";
+
+export type CategoryTreeEditorItem = {
+  id: string
+  name: string
+  parentId: string | null
+  position: number
+  productCount: number
+}
+
+type DropPlacement = "before" | "after" | "inside";
+
+interface DropTarget {
+  id: string | null
+  placement: DropPlacement
+}
+
+interface CategoryTreeProps {
+  items: CategoryTreeEditorItem[]
+  storeId: string
+}
+
+/**
+ * Place a dragged category relative to a target and renumber its new siblings
+ *
+ * @returns The reordered items, or null when the drop would nest a category inside itself
+ */
+function applyDrop(
+  items: CategoryTreeEditorItem[],
+  draggedId: string,
+  target: DropTarget
+): CategoryTreeEditorItem[] | null {
+  const dragged = items.find((item) => item.id === draggedId);
+  const targetItem = target.id ? items.find((item) => item.id === target.id) : undefined;
+
+  if (!dragged || (target.id && !targetItem)) {
+    return null;
+  }
+
+  const parentId = target.placement === "inside" ? target.id : targetItem?.parentId ?? null;
+
+  if (parentId && collectDescendantIds(items, draggedId).includes(parentId)) {
+    return null;
+  }
+
+  const siblings = items
+    .filter((item) => item.parentId === parentId && item.id !== draggedId)
+    .sort(compareCategorySiblings);
+
+  let index = siblings.length;
+  if (targetItem && target.placement !== "inside") {
+    index = siblings.findIndex((item) => item.id === targetItem.id) + (target.placement === "after" ? 1 : 0);
+  }
+  siblings.splice(index, 0, { ...dragged, parentId });
+
+  const positions = new Map(siblings.map((item, position) => [item.id, position]));
+
+  return items.map((item) =>
+    positions.has(item.id)
+      ? { ...item, parentId: item.id === draggedId ? parentId : item.parentId, position: positions.get(item.id)! }
+      : item
+  );
+}
+
+export const CategoryTree: React.FC<CategoryTreeProps> = ({ items, storeId }) => {
+  const router = useRouter();
+  const [tree, setTree] = useState(items);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setTree(items);
+  }, [items]);
+
+  const roots = useMemo(() => buildCategoryTree(tree), [tree]);
+
+  const onDragOver = (event: React.DragEvent<HTMLDivElement>, id: string) => {
+    if (!draggedId || draggedId === id) return;
+    event.preventDefault();
+
+    // Top and bottom quarters drop beside the row, the middle nests inside it
+    const rect = event.currentTarget.getBoundingClientRect();
+    const offset = (event.clientY - rect.top) / rect.height;
+    const placement: DropPlacement = offset < 0.25 ? "before" : offset > 0.75 ? "after" : "inside";
+
+    if (dropTarget?.id !== id || dropTarget.placement !== placement) {
+      setDropTarget({ id, placement });
+    }
+  };
+
+  const onDrop = async (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    const target = dropTarget;
+    const id = draggedId;
+    setDraggedId(null);
+    setDropTarget(null);
+
+    if (!id || !target) return;
+
+    const next = applyDrop(tree, id, target);
+    if (!next) {
+      toast.error("A category cannot be moved inside its own subcategories.");
+      return;
+    }
+
+    const previous = tree;
+    const moves = next
+      .filter((item) => {
+        const before = previous.find((prev) => prev.id === item.id);
+        return before?.parentId !== item.parentId || before?.position !== item.position;
+      })
+      .map(({ id, parentId, position }) => ({ id, parentId, position }));
+
+    if (moves.length === 0) return;
+
+    setTree(next);
+    if (target.placement === "inside" && target.id) {
+      setCollapsed((current) => {
+        const expanded = new Set(current);
+        expanded.delete(target.id!);
+        return expanded;
+      });
+    }
+
+    try {
+      setSaving(true);
+      await axios.patch(`/api/${storeId}/categories/reorder`, { moves });
+      router.refresh();
+    } catch (error) {
+      setTree(previous);
+      const message = axios.isAxiosError(error) && typeof error.response?.data === "string"
+        ? error.response.data
+        : "Something went wrong";
+      toast.error(message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggle = (id: string) => {
+    setCollapsed((current) => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const renderNode = (node: CategoryTreeNode<CategoryTreeEditorItem>, depth: number): React.ReactNode => {
+    const isTarget = dropTarget?.id === node.id;
+    const isCollapsed = collapsed.has(node.id);
+
+    return (
+      <div key={node.id}>
+        <div
+          draggable={!saving}
+          onDragStart={(event) => {
+            event.dataTransfer.effectAllowed = "move";
+            setDraggedId(node.id);
+          }}
+          onDragEnd={() => {
+            setDraggedId(null);
+            setDropTarget(null);
+          }}
+          onDragOver={(event) => onDragOver(event, node.id)}
+          onDrop={onDrop}
+          style={{ paddingLeft: `${depth * 1.5 + 0.5}rem` }}
+          className={cn(
+            "flex items-center gap-2 rounded-md border border-transparent py-2 pr-2 text-sm transition-colors hover:bg-muted/50",
+            draggedId === node.id && "opacity-50",
+            isTarget && dropTarget?.placement === "inside" && "border-primary bg-primary/10",
+            isTarget && dropTarget?.placement === "before" && "border-t-primary",
+            isTarget && dropTarget?.placement === "after" && "border-b-primary"
+          )}
+        >
+          <GripVertical className="h-4 w-4 cursor-grab text-muted-foreground" />
+          <button
+            type="button"
+            onClick={() => toggle(node.id)}
+            className={cn("rounded p-0.5 hover:bg-muted", node.children.length === 0 && "invisible")}
+          >
+            <ChevronRight className={cn("h-4 w-4 transition-transform", !isCollapsed && "rotate-90")} />
+          </button>
+          <span className="font-medium">{node.name}</span>
+          <span className="text-xs text-muted-foreground">
+            {node.productCount} {node.productCount === 1 ? "product" : "products"}
+            {node.children.length > 0 && ` · ${node.children.length} subcategories`}
+          </span>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="ml-auto h-7 w-7"
+            onClick={() => router.push(`/${storeId}/categories/${node.id}`)}
+          >
+            <Edit className="h-4 w-4" />
+          </Button>
+        </div>
+        {!isCollapsed && node.children.map((child) => renderNode(child, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="py-4">
+      <div className="flex items-center gap-2 pb-2">
+        <FolderTree className="h-4 w-4 text-primary" />
+        <h3 className="text-sm font-medium">Category Tree</h3>
+        <span className="text-xs text-muted-foreground">
+          Drag to reorder. Drop onto the middle of a category to nest it.
+        </span>
+      </div>
+      <div className="space-y-0.5">{roots.map((node) => renderNode(node, 0))}</div>
+      {draggedId && (
+        <div
+          onDragOver={(event) => {
+            event.preventDefault();
+            if (dropTarget?.id !== null) {
+              setDropTarget({ id: null, placement: "inside" });
+            }
+          }}
+          onDrop={onDrop}
+          className={cn(
+            "mt-2 rounded-md border border-dashed p-3 text-center text-xs text-muted-foreground",
+            dropTarget?.id === null && "border-primary bg-primary/10 text-primary"
+          )}
+        >
+          Drop here to move to the top level
+        </div>
+      )}
+    </div>
+  );
+};
@@ -36,7 +36,7 @@ export const CellAction: React.FC<CellActionProps> = ({
           router.refresh();
           toast.success("Category deleted.")
         } catch {
-          toast.error("Make sure you removed all products using this category first.")
+          toast.error("Make sure you removed all products and subcategories using this category first.")
         } finally {
           setLoading(false)
           setOpen(false)
@@ -7,14 +7,16 @@ import { CalendarIcon, ListIcon, Plus } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { CategoryColumn, columns } from "./columns";
 import { DataTable } from "@/components/data-table";
+import { CategoryTree, CategoryTreeEditorItem } from "./category-tree";
 
 interface CategoyClientProps {
     data: CategoryColumn[]
+    treeItems: CategoryTreeEditorItem[]
     storeId: string;
 }
 
 export const CategoyClient: React.FC<CategoyClientProps> = ({
-    data, storeId
+    data, treeItems, storeId
 }) =>{
   const router = useRouter();
 
@@ -50,6 +52,8 @@ export const CategoyClient: React.FC<CategoyClientProps> = ({
                   </Button>
                 </div>
                 <Separator />
+                <CategoryTree items={treeItems} storeId={storeId} />
+                <Separator />
                 <DataTable searchKey="name" columns={columns} data={data} />
               </div>
             ) : (
@@ -6,6 +6,7 @@ import { CellAction } from "./cell-action"
 export type CategoryColumn = {
   id: string
   name: string
+  path: string
   billboardLabel: string
   createdAt: string
 }
@@ -15,6 +16,11 @@ export const columns: ColumnDef<CategoryColumn>[] = [
     accessorKey: "name",
     header: "Name",
   },
+  {
+    accessorKey: "path",
+    header: "Parent",
+    cell: ({ row }) => row.original.path || <span className="text-muted-foreground">Top level</span>,
+  },
   {
     accessorKey: "billboard",
     header: "Billboard",
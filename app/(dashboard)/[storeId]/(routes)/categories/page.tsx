@@ -1,26 +1,42 @@
 import { CategoyClient } from "./_components/client"
 import prismadb from "@/lib/prismadb"
 import { format } from "date-fns"
+import { getCategoryBreadcrumbs } from "@/lib/category-tree"
 import type { CategoryColumn } from "./_components/columns"
+import type { CategoryTreeEditorItem } from "./_components/category-tree"
 
 const CategoriesPage = async ({ params }: { params: Promise<{ storeId: string }> }) => {
   const { storeId } = await params
 
   const categories = await prismadb.category.findMany({
     where: { storeId },
-    include: { Billboard: true },
+    include: {
+      Billboard: true,
+      _count: { select: { products: true } },
+    },
     orderBy: { createdAt: "desc" },
   })
 
   const formattedCategories: CategoryColumn[] = categories.map((item) => ({
     id: item.id,
     name: item.name,
+    path: getCategoryBreadcrumbs(categories, item.id)
+      .slice(0, -1)
+      .map((crumb) => crumb.name)
+      .join(" › "),
     billboardLabel: item.Billboard.label,
     createdAt: format(item.createdAt, "MMMM do, yyyy"),
   }))
 
-  return <CategoyClient data={formattedCategories} storeId={storeId} />
+  const treeItems: CategoryTreeEditorItem[] = categories.map((item) => ({
+    id: item.id,
+    name: item.name,
+    parentId: item.parentId,
+    position: item.position,
+    productCount: item._count.products,
+  }))
+
+  return <CategoyClient data={formattedCategories} treeItems={treeItems} storeId={storeId} />
 }
 
 export default CategoriesPage
-
@@ -0,0 +1,362 @@
+"use client"
+
+import type React from "react"
+
+import { Button } from "@/components/ui/button"
+import { Heading } from "@/components/ui/heading"
+import { Separator } from "@/components/ui/separator"
+import type { Category, Coupon } from "@prisma/client"
+import * as z from "zod"
+import { Trash, ArrowLeft } from "lucide-react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { useState } from "react"
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import toast from "react-hot-toast"
+import axios from "axios"
+import { format } from "date-fns"
+import { useParams, useRouter } from "next/navigation"
+import { AleartModal } from "@/components/modals/alert-modal"
+
+interface CouponFormProps {
+  initialData: (Omit<Coupon, "amount"> & { amount: number }) | null
+  categories: Category[]
+}
+
+const formSchema = z
+  .object({
+    code: z
+      .string()
+      .min(3, "Code must be at least 3 characters")
+      .regex(/^[A-Za-z0-9_-]+$/, "Letters, numbers, dashes and underscores only"),
+    type: z.enum(["PERCENTAGE", "FIXED"]),
+    amount: z.string().regex(/^\d+(\.\d{1,2})?$/, "Must be a number"),
+    startsAt: z.string().optional(),
+    expiresAt: z.string().optional(),
+    maxRedemptions: z.string().regex(/^\d*$/, "Must be a whole number").optional(),
+    maxPerCustomer: z.string().regex(/^\d*$/, "Must be a whole number").optional(),
+    productIds: z.string().optional(),
+    categoryIds: z.array(z.string()),
+    isActive: z.boolean(),
+  })
+  .refine((data) => data.type !== "PERCENTAGE" || Number(data.amount) <= 100, {
+    message: "Percentage discounts cannot exceed 100",
+    path: ["amount"],
+  })
+
+type CouponFormValues = z.infer<typeof formSchema>
+
+const toDateInput = (value: Date | null | undefined) => (value ? format(value, "yyyy-MM-dd") : "")
+
+export const CouponForm: React.FC<CouponFormProps> = ({ initialData, categories }) => {
+  const [open, setOpen] = useState(false)
+  const [loading, setLoading] = useState(false)
+
+  const params = useParams()
+  const router = useRouter()
+
+  const title = initialData ? "Edit Coupon" : "Create Coupon"
+  const description = initialData ? "Edit a discount code" : "Add a new discount code"
+  const toastMessage = initialData ? "Coupon updated" : "Coupon created"
+  const action = initialData ? "Save changes" : "Create"
+
+  const form = useForm<CouponFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      code: initialData?.code ?? "",
+      type: initialData?.type ?? "PERCENTAGE",
+      amount: initialData?.amount.toString() ?? "",
+      startsAt: toDateInput(initialData?.startsAt),
+      expiresAt: toDateInput(initialData?.expiresAt),
+      maxRedemptions: initialData?.maxRedemptions?.toString() ?? "",
+      maxPerCustomer: initialData?.maxPerCustomer?.toString() ?? "",
+      productIds: initialData?.productIds.join(", ") ?? "",
+      categoryIds: initialData?.categoryIds ?? [],
+      isActive: initialData?.isActive ?? true,
+    },
+  })
+
+  const couponType = form.watch("type")
+
+  const onSubmit = async (data: CouponFormValues) => {
+    try {
+      setLoading(true)
+
+      const payload = {
+        ...data,
+        amount: Number(data.amount),
+        startsAt: data.startsAt || null,
+        // Expiry dates include the whole selected day
+        expiresAt: data.expiresAt ? `${data.expiresAt}T23:59:59` : null,
+        maxRedemptions: data.maxRedemptions ? Number(data.maxRedemptions) : null,
+        maxPerCustomer: data.maxPerCustomer ? Number(data.maxPerCustomer) : null,
+        productIds: (data.productIds ?? "")
+          .split(",")
+          .map((id) => id.trim())
+          .filter(Boolean),
+      }
+
+      if (initialData) {
+        await axios.patch(`/api/${params.storeId}/coupons/${params.couponId}`, payload)
+      } else {
+        await axios.post(`/api/${params.storeId}/coupons`, payload)
+      }
+      router.refresh()
+      router.push(`/${params.storeId}/coupons`)
+      toast.success(toastMessage)
+    } catch (error) {
+      const message = axios.isAxiosError(error) && typeof error.response?.data === "string"
+        ? error.response.data
+        : "Something went wrong"
+      toast.error(message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const onDelete = async () => {
+    try {
+      setLoading(true)
+      await axios.delete(`/api/${params.storeId}/coupons/${params.couponId}`)
+      router.refresh()
+      router.push(`/${params.storeId}/coupons`)
+      toast.success("Coupon deleted.")
+    } catch {
+      toast.error("Something went wrong.")
+    } finally {
+      setLoading(false)
+      setOpen(false)
+    }
+  }
+
+  return (
+    <>
+      <AleartModal isOpen={open} onClose={() => setOpen(false)} onConfirm={onDelete} loading={loading} />
+
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-y-4 sm:gap-y-0">
+        <div className="flex items-center">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="mr-2 md:hidden"
+            onClick={() => router.push(`/${params.storeId}/coupons`)}
+          >
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <Heading title={title} description={description} />
+        </div>
+        {initialData && (
+          <Button
+            disabled={loading}
+            variant="destructive"
+            onClick={() => setOpen(true)}
+            className="self-start sm:self-auto"
+          >
+            <Trash className="h-4 w-4 mr-2" />
+            Delete
+          </Button>
+        )}
+      </div>
+
+      <Separator className="my-4" />
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8 w-full">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+            <FormField
+              control={form.control}
+              name="code"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-base">Code</FormLabel>
+                  <FormControl>
+                    <Input
+                      disabled={loading}
+                      placeholder="SUMMER20"
+                      {...field}
+                      onChange={(e) => field.onChange(e.target.value.toUpperCase())}
+                      className="h-12 text-base font-mono"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="type"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-base">Discount type</FormLabel>
+                  <Select disabled={loading} onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger className="h-12 text-base">
+                        <SelectValue placeholder="Select a type" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="PERCENTAGE">Percentage</SelectItem>
+                      <SelectItem value="FIXED">Fixed amount</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="amount"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-base">{couponType === "PERCENTAGE" ? "Percent off" : "Amount off ($)"}</FormLabel>
+                  <FormControl>
+                    <Input
+                      disabled={loading}
+                      inputMode="decimal"
+                      placeholder={couponType === "PERCENTAGE" ? "20" : "5.00"}
+                      {...field}
+                      className="h-12 text-base"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="isActive"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
+                  <FormControl>
+                    <Checkbox checked={field.value} onCheckedChange={field.onChange} disabled={loading} />
+                  </FormControl>
+                  <div className="space-y-1 leading-none">
+                    <FormLabel>Active</FormLabel>
+                    <FormDescription>Inactive coupons are rejected at checkout</FormDescription>
+                  </div>
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="startsAt"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-base">Starts on</FormLabel>
+                  <FormControl>
+                    <Input type="date" disabled={loading} {...field} className="h-12 text-base" />
+                  </FormControl>
+                  <FormDescription>Leave empty to start immediately</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="expiresAt"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-base">Expires on</FormLabel>
+                  <FormControl>
+                    <Input type="date" disabled={loading} {...field} className="h-12 text-base" />
+                  </FormControl>
+                  <FormDescription>Leave empty to never expire</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="maxRedemptions"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-base">Total redemptions</FormLabel>
+                  <FormControl>
+                    <Input disabled={loading} inputMode="numeric" placeholder="Unlimited" {...field} className="h-12 text-base" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="maxPerCustomer"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-base">Redemptions per customer</FormLabel>
+                  <FormControl>
+                    <Input disabled={loading} inputMode="numeric" placeholder="Unlimited" {...field} className="h-12 text-base" />
+                  </FormControl>
+                  <FormDescription>Customers must be signed in to use limited coupons</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <FormField
+            control={form.control}
+            name="productIds"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-base">Product IDs</FormLabel>
+                <FormControl>
+                  <Input disabled={loading} placeholder="Comma-separated product IDs" {...field} className="h-12 text-base" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="categoryIds"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-base">Categories</FormLabel>
+                <FormDescription>Leave products and categories empty to apply the coupon to the whole catalog</FormDescription>
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 pt-2">
+                  {categories.map((category) => (
+                    <label key={category.id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        disabled={loading}
+                        checked={field.value.includes(category.id)}
+                        onCheckedChange={(checked) =>
+                          field.onChange(
+                            checked
+                              ? [...field.value, category.id]
+                              : field.value.filter((id) => id !== category.id)
+                          )
+                        }
+                      />
+                      {category.name}
+                    </label>
+                  ))}
+                </div>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <div className="fixed bottom-0 left-0 right-0 bg-background border-t border-border p-4 md:relative md:border-0 md:p-0 md:bg-transparent flex justify-end gap-x-2 z-10">
+            <Button
+              type="button"
+              variant="outline"
+              disabled={loading}
+              onClick={() => router.push(`/${params.storeId}/coupons`)}
+              className="flex-1 md:flex-none"
+            >
+              Cancel
+            </Button>
+            <Button disabled={loading} type="submit" className="flex-1 md:flex-none">
+              {loading ? "Loading..." : action}
+            </Button>
+          </div>
+        </form>
+      </Form>
+    </>
+  )
+}
@@ -0,0 +1,44 @@
+import prismadb from "@/lib/prismadb";
+import { CouponForm } from "./_components/coupon-form";
+
+const CouponPage = async ({
+  params,
+}: {
+  params: Promise<{ couponId: string; storeId: string }>;
+}) => {
+  const { couponId, storeId } = await params;
+
+  const coupon = await prismadb.coupon.findFirst({
+    where: {
+      id: couponId,
+      storeId,
+    },
+  });
+
+  const categories = await prismadb.category.findMany({
+    where: {
+      storeId,
+    },
+    orderBy: { name: "asc" },
+  });
+
+  return (
+    <div className="flex-col">
+      <div className="flex-1 space-y-4 p-8 pt-6">
+        <CouponForm
+          initialData={
+            coupon
+              ? {
+                  ...coupon,
+                  amount: coupon.amount.toNumber(),
+                }
+              : null
+          }
+          categories={categories}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default CouponPage;
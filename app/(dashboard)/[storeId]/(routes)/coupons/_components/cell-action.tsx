@@ -0,0 +1,83 @@
+"use client";
+
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { CouponColumn } from "./columns";
+import { Button } from "@/components/ui/button";
+import { Copy, Edit, MoreHorizontal, Trash2 } from "lucide-react";
+import toast from "react-hot-toast";
+import { useParams, useRouter } from "next/navigation";
+import axios from "axios";
+import { useState } from "react";
+import { AleartModal } from "@/components/modals/alert-modal";
+
+interface CellActionProps {
+    data: CouponColumn;
+};
+
+export const CellAction: React.FC<CellActionProps> = ({
+    data
+}) => {
+
+    const [open, setOpen] = useState(false)
+    const [loading, setLoading] = useState(false)
+
+    const params = useParams();
+    const router = useRouter();
+
+    const onCopy = (id: string) => {
+        navigator.clipboard.writeText(id);
+        toast.success("Coupon ID copied to the clipboard");
+    }
+
+    const onDelete = async () => {
+        try {
+          setLoading(true)
+          await axios.delete(`/api/${params.storeId}/coupons/${data.id}`);
+          router.refresh();
+          toast.success("Coupon deleted.")
+        } catch {
+          toast.error("Something went wrong.")
+        } finally {
+          setLoading(false)
+          setOpen(false)
+        }
+      }
+
+    return (
+        <>
+            <AleartModal
+                isOpen={open}
+                onClose={() => setOpen(false)}
+                onConfirm={onDelete}
+                loading={loading}
+            />
+            <div>
+                <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" className="h-8 w-8 p-0">
+                            <span className="sr-only">Open Menu</span>
+                            <MoreHorizontal className="h-4 w-4"/>
+                        </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                        <DropdownMenuLabel>
+                            Actions
+                        </DropdownMenuLabel>
+                        <DropdownMenuItem onClick={() => router.push(`/${params.storeId}/coupons/${data.id}`)}>
+                            <Edit className="mr-2 h-4 w-4"/>
+                            Update
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => onCopy(data.id)}>
+                            <Copy className="mr-2 h-4 w-4"/>
+                            Copy ID
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={()=> setOpen(true)}>
+                            <Trash2 className="mr-2 h-4 w-4"/>
+                            Delete
+                        </DropdownMenuItem>
+                    </DropdownMenuContent>
+                </DropdownMenu>
+            </div>
+        </>
+    );
+};
@@ -0,0 +1,74 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Heading } from "@/components/ui/heading";
+import { Separator } from "@/components/ui/separator";
+import { ListIcon, Plus, TicketPercent } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { CouponColumn, columns } from "./columns";
+import { DataTable } from "@/components/data-table";
+
+interface CouponClientProps {
+  data: CouponColumn[];
+  storeId: string;
+}
+
+export const CouponClient: React.FC<CouponClientProps> = ({ data, storeId }) => {
+  const router = useRouter();
+
+  const handleCreate = () => {
+    router.push(`/${storeId}/coupons/new`);
+  };
+
+  return (
+    <div className="flex flex-col min-h-screen bg-background">
+      <main className="flex-1 p-4 md:p-8">
+        <div className="rounded-lg border bg-card shadow-sm transition-all">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between p-4 md:p-6">
+            <div className="flex items-center gap-2 mb-4 md:mb-0">
+              <ListIcon className="w-5 h-5 text-primary" />
+              <h2 className="text-lg font-medium">Coupon List</h2>
+            </div>
+            <div className="text-sm text-muted-foreground">
+              Total: {data.length} coupon{data.length === 1 ? "" : "s"}
+            </div>
+          </div>
+
+          <Separator />
+
+          {data.length > 0 ? (
+            <div className="p-4">
+              <div className="flex items-center justify-between pb-5">
+                <Heading
+                  title={`Coupons (${data.length})`}
+                  description="Manage discount codes for product checkout"
+                />
+                <Button onClick={handleCreate}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add New
+                </Button>
+              </div>
+              <Separator />
+              <DataTable searchKey="code" columns={columns} data={data} />
+            </div>
+          ) : (
+            <div className="flex flex-col items-center justify-center py-12 px-4 text-center">
+              <div className="rounded-full bg-primary/10 p-3 mb-4">
+                <TicketPercent className="w-8 h-8 text-primary" />
+              </div>
+              <h3 className="text-lg font-medium mb-2">No coupons found</h3>
+              <p className="text-muted-foreground max-w-sm mb-6">
+                You haven&apos;t created any coupons yet. Coupons give customers a percentage or fixed
+                discount at checkout.
+              </p>
+              <Button onClick={handleCreate}>
+                <Plus className="h-4 w-4 mr-2" />
+                Create Coupon
+              </Button>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
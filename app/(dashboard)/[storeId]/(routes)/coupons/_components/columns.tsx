@@ -0,0 +1,58 @@
+"use client"
+
+import { ColumnDef } from "@tanstack/react-table"
+import { Badge } from "@/components/ui/badge"
+import { CellAction } from "./cell-action"
+
+export type CouponColumn = {
+  id: string
+  code: string
+  discount: string
+  redemptions: string
+  restrictions: string
+  expiresAt: string
+  status: "active" | "inactive" | "expired" | "scheduled"
+}
+
+export const columns: ColumnDef<CouponColumn>[] = [
+  {
+    accessorKey: "code",
+    header: "Code",
+    cell: ({ row }) => <span className="font-mono font-medium">{row.original.code}</span>,
+  },
+  {
+    accessorKey: "discount",
+    header: "Discount",
+  },
+  {
+    accessorKey: "redemptions",
+    header: "Redemptions",
+  },
+  {
+    accessorKey: "restrictions",
+    header: "Applies To",
+  },
+  {
+    accessorKey: "expiresAt",
+    header: "Expires",
+  },
+  {
+    accessorKey: "status",
+    header: "Status",
+    cell: ({ row }) => {
+      const status = row.original.status
+      return (
+        <Badge
+          variant={status === "active" ? "default" : "outline"}
+          className={status === "active" ? "bg-green-500/10 text-green-500 border-green-500/20 hover:bg-green-500/20" : ""}
+        >
+          {status.charAt(0).toUpperCase() + status.slice(1)}
+        </Badge>
+      )
+    },
+  },
+  {
+    id: "actions",
+    cell: ({ row }) => <CellAction data={row.original} />,
+  },
+]
@@ -0,0 +1,56 @@
+import { CouponClient } from "./_components/client"
+import prismadb from "@/lib/prismadb"
+import { format } from "date-fns"
+import { formatter } from "@/lib/utils"
+import type { CouponColumn } from "./_components/columns"
+
+const CouponsPage = async ({ params }: { params: Promise<{ storeId: string }> }) => {
+  const { storeId } = await params
+
+  const coupons = await prismadb.coupon.findMany({
+    where: { storeId },
+    include: {
+      _count: {
+        select: {
+          Order: { where: { isPaid: true } },
+        },
+      },
+    },
+    orderBy: { createdAt: "desc" },
+  })
+
+  const now = new Date()
+
+  const formattedCoupons: CouponColumn[] = coupons.map((item) => {
+    let status: CouponColumn["status"] = "active"
+    if (!item.isActive) {
+      status = "inactive"
+    } else if (item.expiresAt && item.expiresAt < now) {
+      status = "expired"
+    } else if (item.startsAt && item.startsAt > now) {
+      status = "scheduled"
+    }
+
+    return {
+      id: item.id,
+      code: item.code,
+      discount:
+        item.type === "PERCENTAGE"
+          ? `${item.amount.toNumber()}%`
+          : formatter.format(item.amount.toNumber()),
+      redemptions: item.maxRedemptions !== null
+        ? `${item._count.Order} / ${item.maxRedemptions}`
+        : item._count.Order.toString(),
+      restrictions:
+        item.productIds.length + item.categoryIds.length > 0
+          ? `${item.productIds.length} products, ${item.categoryIds.length} categories`
+          : "All products",
+      expiresAt: item.expiresAt ? format(item.expiresAt, "MMM d, yyyy") : "Never",
+      status,
+    }
+  })
+
+  return <CouponClient data={formattedCoupons} storeId={storeId} />
+}
+
+export default CouponsPage
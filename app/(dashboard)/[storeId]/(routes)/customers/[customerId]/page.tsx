@@ -0,0 +1,153 @@
+import Link from "next/link"
+import { notFound } from "next/navigation"
+import { format } from "date-fns"
+import { getCustomerProfile } from "@/lib/customers"
+import { getSubscriptionStatusInfo } from "@/lib/subscription"
+import { formatter } from "@/lib/utils"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Separator } from "@/components/ui/separator"
+import { ArrowLeft, User } from "lucide-react"
+import { OrderStatusBadge } from "../../orders/_components/columns"
+
+interface CustomerPageProps {
+  params: Promise<{ storeId: string; customerId: string }>
+}
+
+const Stat = ({ label, value }: { label: string; value: React.ReactNode }) => (
+  <div className="bg-card rounded-lg border p-4">
+    <p className="text-sm text-muted-foreground">{label}</p>
+    <p className="text-2xl font-bold">{value}</p>
+  </div>
+)
+
+const CustomerPage = async ({ params }: CustomerPageProps) => {
+  const { storeId, customerId } = await params
+
+  const profile = await getCustomerProfile(storeId, decodeURIComponent(customerId))
+
+  if (!profile) {
+    notFound()
+  }
+
+  const subscriptionInfo = profile.subscription ? getSubscriptionStatusInfo(profile.subscription) : null
+
+  return (
+    <div className="flex flex-col min-h-screen bg-background">
+      <main className="flex-1 p-4 md:p-8 space-y-6">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href={`/${storeId}/customers`}>
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+          </Button>
+          <div className="rounded-full bg-primary/10 p-2">
+            <User className="h-5 w-5 text-primary" />
+          </div>
+          <div>
+            <h2 className="text-lg font-medium">{profile.email ?? profile.userId}</h2>
+            <p className="text-sm text-muted-foreground">
+              {profile.userId ? `User ID: ${profile.userId}` : "Guest customer"}
+            </p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <Stat label="Lifetime Spend" value={formatter.format(profile.lifetimeSpend)} />
+          <Stat label="Orders" value={profile.orders.length} />
+          <Stat label="Downloads" value={profile.totalDownloads} />
+          <Stat
+            label="Customer Since"
+            value={<span className="text-base">{format(profile.firstSeen, "MMM d, yyyy")}</span>}
+          />
+        </div>
+        <p className="text-sm text-muted-foreground">Last seen {format(profile.lastSeen, "MMM d, yyyy h:mm a")}</p>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Subscription</CardTitle>
+              <CardDescription>{subscriptionInfo?.description ?? "Not subscribed"}</CardDescription>
+            </CardHeader>
+            {profile.subscription && (
+              <>
+                <Separator />
+                <CardContent className="pt-4 space-y-4">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{profile.subscription.status}</Badge>
+                    {profile.subscription.Plan && <span className="text-sm">{profile.subscription.Plan.name}</span>}
+                  </div>
+                  {profile.subscriptionEvents.length > 0 && (
+                    <ul className="divide-y">
+                      {profile.subscriptionEvents.map((event) => (
+                        <li key={event.id} className="flex items-center justify-between py-2 text-sm">
+                          <span className="font-mono">{event.type}</span>
+                          <span className="text-muted-foreground">{format(event.receivedAt, "MMM d, yyyy")}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </CardContent>
+              </>
+            )}
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Downloads by Category</CardTitle>
+            </CardHeader>
+            <Separator />
+            <CardContent className="pt-4">
+              {profile.downloadsByCategory.length > 0 ? (
+                <ul className="divide-y">
+                  {profile.downloadsByCategory.map((category) => (
+                    <li key={category.categoryId} className="flex items-center justify-between py-2 text-sm">
+                      <span className="font-medium">{category.name}</span>
+                      <span className="text-muted-foreground">
+                        {category.free} free · {category.premium} premium
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-muted-foreground">No downloads yet</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>Orders</CardTitle>
+            </CardHeader>
+            <Separator />
+            <CardContent className="pt-4">
+              {profile.orders.length > 0 ? (
+                <ul className="divide-y">
+                  {profile.orders.map((order) => (
+                    <li key={order.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 py-3">
+                      <Link href={`/${storeId}/orders/${order.id}`} className="flex flex-col hover:underline">
+                        <span className="text-sm font-medium">
+                          {order.OrderItem.map((item) => item.products.name).join(", ")}
+                        </span>
+                        <span className="text-xs text-muted-foreground">{format(order.createdAt, "MMM d, yyyy")}</span>
+                      </Link>
+                      <div className="flex items-center gap-3">
+                        <span className="text-sm">{order.price ? formatter.format(order.price.toNumber()) : "N/A"}</span>
+                        <OrderStatusBadge status={order.status} />
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-muted-foreground">No orders yet</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  )
+}
+
+export default CustomerPage
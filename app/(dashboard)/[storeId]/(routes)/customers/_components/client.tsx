@@ -0,0 +1,69 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Heading } from "@/components/ui/heading";
+import { Separator } from "@/components/ui/separator";
+import { FileDown, ListIcon, Users } from "lucide-react";
+import { CustomerColumn, columns } from "./columns";
+import { DataTable } from "@/components/data-table";
+
+interface CustomerClientProps {
+  data: CustomerColumn[];
+  storeId: string;
+}
+
+export const CustomerClient: React.FC<CustomerClientProps> = ({ data, storeId }) => {
+  const [search, setSearch] = useState("");
+  // The export applies the table's search, so it downloads the rows on screen
+  const exportHref = `/api/${storeId}/customers/export${search.trim() ? `?q=${encodeURIComponent(search.trim())}` : ""}`;
+
+  return (
+    <div className="flex flex-col min-h-screen bg-background">
+      <main className="flex-1 p-4 md:p-8">
+        <div className="rounded-lg border bg-card shadow-sm transition-all">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between p-4 md:p-6">
+            <div className="flex items-center gap-2 mb-4 md:mb-0">
+              <ListIcon className="w-5 h-5 text-primary" />
+              <h2 className="text-lg font-medium">Customer List</h2>
+            </div>
+            <div className="text-sm text-muted-foreground">
+              Total: {data.length} customer{data.length === 1 ? "" : "s"}
+            </div>
+          </div>
+
+          <Separator />
+
+          {data.length > 0 ? (
+            <div className="p-4">
+              <div className="flex items-center justify-between pb-5">
+                <Heading
+                  title={`Customers (${data.length})`}
+                  description="Everyone who has ordered, downloaded or subscribed"
+                />
+                <Button variant="outline" asChild>
+                  <a href={exportHref}>
+                    <FileDown className="w-4 h-4 mr-2" />
+                    Export CSV
+                  </a>
+                </Button>
+              </div>
+              <Separator />
+              <DataTable searchKey="customer" columns={columns} data={data} onSearchChange={setSearch} />
+            </div>
+          ) : (
+            <div className="flex flex-col items-center justify-center py-12 px-4 text-center">
+              <div className="rounded-full bg-primary/10 p-3 mb-4">
+                <Users className="w-8 h-8 text-primary" />
+              </div>
+              <h3 className="text-lg font-medium mb-2">No customers yet</h3>
+              <p className="text-muted-foreground max-w-sm">
+                Customers appear here once they place an order, download a product or subscribe.
+              </p>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
@@ -0,0 +1,67 @@
+"use client"
+
+import Link from "next/link"
+import { useParams } from "next/navigation"
+import { ColumnDef } from "@tanstack/react-table"
+import { format } from "date-fns"
+import { Badge } from "@/components/ui/badge"
+
+export type CustomerColumn = {
+  key: string
+  // Email and user ID joined, so the table search matches either
+  customer: string
+  email: string
+  userId: string
+  orders: number
+  lifetimeSpend: string
+  downloads: number
+  subscription: string
+  firstSeen: string
+  lastSeen: string
+}
+
+const CustomerCell = ({ data }: { data: CustomerColumn }) => {
+  const params = useParams()
+
+  return (
+    <Link
+      href={`/${params.storeId}/customers/${encodeURIComponent(data.key)}`}
+      className="flex flex-col hover:underline"
+    >
+      <span className="font-medium">{data.email || data.userId}</span>
+      {data.email && data.userId && <span className="text-xs text-muted-foreground">{data.userId}</span>}
+    </Link>
+  )
+}
+
+export const columns: ColumnDef<CustomerColumn>[] = [
+  {
+    accessorKey: "customer",
+    header: "Customer",
+    cell: ({ row }) => <CustomerCell data={row.original} />,
+  },
+  {
+    accessorKey: "lifetimeSpend",
+    header: "Lifetime Spend",
+    cell: ({ row }) => <span className="font-medium">{row.original.lifetimeSpend}</span>,
+  },
+  {
+    accessorKey: "orders",
+    header: "Orders",
+  },
+  {
+    accessorKey: "downloads",
+    header: "Downloads",
+  },
+  {
+    accessorKey: "subscription",
+    header: "Subscription",
+    cell: ({ row }) =>
+      row.original.subscription ? <Badge variant="outline">{row.original.subscription}</Badge> : "-",
+  },
+  {
+    accessorKey: "lastSeen",
+    header: "Last Seen",
+    cell: ({ row }) => format(new Date(row.original.lastSeen), "MMM d, yyyy"),
+  },
+]
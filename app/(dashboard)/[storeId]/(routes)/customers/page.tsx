@@ -0,0 +1,29 @@
+import { CustomerClient } from "./_components/client"
+import { getCustomers } from "@/lib/customers"
+import { formatter } from "@/lib/utils"
+import type { CustomerColumn } from "./_components/columns"
+
+const CustomersPage = async ({ params }: { params: Promise<{ storeId: string }> }) => {
+  const { storeId } = await params
+
+  const customers = await getCustomers(storeId)
+
+  const formattedCustomers: CustomerColumn[] = customers.map((item) => ({
+    key: item.key,
+    customer: [item.email, item.userId].filter(Boolean).join(" "),
+    email: item.email ?? "",
+    userId: item.userId ?? "",
+    orders: item.orders,
+    lifetimeSpend: formatter.format(item.lifetimeSpend),
+    downloads: item.downloads,
+    subscription: item.subscriptionStatus
+      ? `${item.planName ?? "Premium"} (${item.subscriptionStatus.toLowerCase()})`
+      : "",
+    firstSeen: item.firstSeen.toISOString(),
+    lastSeen: item.lastSeen.toISOString(),
+  }))
+
+  return <CustomerClient data={formattedCustomers} storeId={storeId} />
+}
+
+export default CustomersPage
@@ -0,0 +1,46 @@
+import { format } from "date-fns"
+import { AlertTriangle, CheckCircle2, Download, Mail, ShoppingCart, Undo2 } from "lucide-react"
+
+export type OrderTimelineEvent = {
+  type: "created" | "paid" | "emailed" | "downloaded" | "refunded" | "disputed"
+  title: string
+  description?: string
+  date: Date | null
+}
+
+const EVENT_ICONS = {
+  created: ShoppingCart,
+  paid: CheckCircle2,
+  emailed: Mail,
+  downloaded: Download,
+  refunded: Undo2,
+  disputed: AlertTriangle,
+}
+
+interface OrderTimelineProps {
+  events: OrderTimelineEvent[]
+}
+
+export const OrderTimeline: React.FC<OrderTimelineProps> = ({ events }) => {
+  return (
+    <ol className="relative border-l border-border ml-3 space-y-6">
+      {events.map((event, index) => {
+        const Icon = EVENT_ICONS[event.type]
+        return (
+          <li key={`${event.type}-${index}`} className="ml-6">
+            <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-primary/10 ring-4 ring-background">
+              <Icon className="h-3 w-3 text-primary" />
+            </span>
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-1">
+              <p className="text-sm font-medium">{event.title}</p>
+              <time className="text-xs text-muted-foreground">
+                {event.date ? format(event.date, "MMM d, yyyy h:mm a") : "Time not recorded"}
+              </time>
+            </div>
+            {event.description && <p className="text-sm text-muted-foreground">{event.description}</p>}
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
@@ -0,0 +1,225 @@
+import Link from "next/link"
+import { notFound } from "next/navigation"
+import prismadb from "@/lib/prismadb"
+import { formatter } from "@/lib/utils"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Separator } from "@/components/ui/separator"
+import { Button } from "@/components/ui/button"
+import { ArrowLeft, ClipboardListIcon } from "lucide-react"
+import { OrderStatusBadge } from "../_components/columns"
+import { OrderTimeline, type OrderTimelineEvent } from "./_components/order-timeline"
+
+interface OrderPageProps {
+  params: Promise<{ storeId: string; orderId: string }>
+}
+
+const DetailRow = ({ label, value }: { label: string; value: React.ReactNode }) => (
+  <div className="flex flex-col sm:flex-row sm:justify-between gap-1 py-2">
+    <span className="text-sm text-muted-foreground">{label}</span>
+    <span className="text-sm font-medium break-all sm:text-right">{value || "-"}</span>
+  </div>
+)
+
+const OrderPage = async ({ params }: OrderPageProps) => {
+  const { storeId, orderId } = await params
+
+  const order = await prismadb.order.findFirst({
+    where: { id: orderId, storeId },
+    include: {
+      OrderItem: {
+        include: {
+          products: {
+            select: { id: true, name: true, price: true },
+          },
+        },
+      },
+    },
+  })
+
+  if (!order) {
+    notFound()
+  }
+
+  const productIds = order.OrderItem.map((item) => item.productId)
+  const buyer = order.userId ? { userId: order.userId } : order.email ? { email: order.email } : null
+
+  // The downloads table has no order reference, so match the buyer's downloads
+  // of these products made after the order was placed
+  const downloads = buyer
+    ? await prismadb.downloads.findMany({
+        where: {
+          storeId,
+          productId: { in: productIds },
+          createdAt: { gte: order.createdAt },
+          ...buyer,
+        },
+        include: { products: { select: { name: true } } },
+        orderBy: { createdAt: "asc" },
+        take: 50,
+      })
+    : []
+
+  const events: OrderTimelineEvent[] = [
+    { type: "created", title: "Order created", date: order.createdAt },
+  ]
+
+  if (order.isPaid) {
+    events.push({
+      type: "paid",
+      title: "Payment received",
+      description: order.paymentProvider ? `via ${order.paymentProvider === "paypal" ? "PayPal" : "Stripe"}` : undefined,
+      date: order.paidAt,
+    })
+  }
+
+  if (order.emailedAt) {
+    events.push({ type: "emailed", title: "Order notification emailed", date: order.emailedAt })
+  }
+
+  for (const download of downloads) {
+    events.push({ type: "downloaded", title: "Downloaded", description: download.products.name, date: download.createdAt })
+  }
+
+  if (order.refundedAmount.toNumber() > 0) {
+    events.push({
+      type: "refunded",
+      title: order.status === "REFUNDED" ? "Refunded" : "Partially refunded",
+      description: `${formatter.format(order.refundedAmount.toNumber())} returned to the customer`,
+      date: order.refundedAt,
+    })
+  }
+
+  if (order.status === "DISPUTED") {
+    events.push({ type: "disputed", title: "Payment disputed", date: order.updatedAt })
+  }
+
+  // Events without a recorded time (e.g. orders paid before paidAt existed) go last
+  events.sort((a, b) => (a.date?.getTime() ?? Infinity) - (b.date?.getTime() ?? Infinity))
+
+  // Separately sold files carry their own price; products are listed at the product's price
+  const itemPrice = (item: (typeof order.OrderItem)[number]) =>
+    (item.fileId && item.price ? item.price : item.products.price).toNumber()
+  const subtotal = order.OrderItem.reduce((sum, item) => sum + itemPrice(item), 0)
+  // PayPal orders keep the PayPal order ID in sessionId and the capture ID in transactionId
+  const isPayPal = order.paymentProvider === "paypal"
+
+  return (
+    <div className="flex flex-col min-h-screen bg-background">
+      <main className="flex-1 p-4 md:p-8 space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="icon" asChild>
+              <Link href={`/${storeId}/orders`}>
+                <ArrowLeft className="h-5 w-5" />
+              </Link>
+            </Button>
+            <div className="rounded-full bg-primary/10 p-2">
+              <ClipboardListIcon className="h-5 w-5 text-primary" />
+            </div>
+            <div>
+              <h2 className="text-lg font-medium">Order {order.id.slice(0, 8)}</h2>
+              <p className="text-sm text-muted-foreground">Order ID: {order.id}</p>
+            </div>
+          </div>
+          <OrderStatusBadge status={order.status} />
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>Items</CardTitle>
+              <CardDescription>
+                {order.OrderItem.length} product{order.OrderItem.length === 1 ? "" : "s"}
+              </CardDescription>
+            </CardHeader>
+            <Separator />
+            <CardContent className="pt-4">
+              <ul className="divide-y">
+                {order.OrderItem.map((item) => (
+                  <li key={item.id} className="flex items-center justify-between py-3">
+                    <Link
+                      href={`/${storeId}/products/${item.productId}`}
+                      className="text-sm font-medium hover:underline"
+                    >
+                      {item.products.name}
+                      {item.fileId && <span className="text-muted-foreground font-normal"> (single file)</span>}
+                    </Link>
+                    <span className="text-sm">{formatter.format(itemPrice(item))}</span>
+                  </li>
+                ))}
+              </ul>
+              <Separator className="my-2" />
+              <DetailRow label="Subtotal" value={formatter.format(subtotal)} />
+              {order.discountAmount.toNumber() > 0 && (
+                <DetailRow
+                  label={`Discount${order.couponCode ? ` (${order.couponCode})` : ""}`}
+                  value={`-${formatter.format(order.discountAmount.toNumber())}`}
+                />
+              )}
+              <DetailRow label="Total" value={order.price ? formatter.format(order.price.toNumber()) : "N/A"} />
+              {order.refundedAmount.toNumber() > 0 && (
+                <DetailRow label="Refunded" value={formatter.format(order.refundedAmount.toNumber())} />
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Customer</CardTitle>
+            </CardHeader>
+            <Separator />
+            <CardContent className="pt-4 divide-y">
+              <DetailRow label="Email" value={order.email} />
+              <DetailRow label="Phone" value={order.phone} />
+              <DetailRow label="Address" value={order.address} />
+              <DetailRow label="User ID" value={order.userId} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Payment</CardTitle>
+            </CardHeader>
+            <Separator />
+            <CardContent className="pt-4 divide-y">
+              <DetailRow
+                label="Provider"
+                value={order.paymentProvider ? (isPayPal ? "PayPal" : "Stripe") : null}
+              />
+              <DetailRow label={isPayPal ? "Capture" : "Transaction ID"} value={order.transactionId} />
+              <DetailRow label={isPayPal ? "PayPal order" : "Checkout session"} value={order.sessionId} />
+              {!isPayPal && order.transactionId?.startsWith("pi_") && (
+                <DetailRow
+                  label="Stripe"
+                  value={
+                    <a
+                      href={`https://dashboard.stripe.com/payments/${order.transactionId}`}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="text-primary hover:underline"
+                    >
+                      View in Stripe
+                    </a>
+                  }
+                />
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>Timeline</CardTitle>
+              <CardDescription>Payment and download activity for this order</CardDescription>
+            </CardHeader>
+            <Separator />
+            <CardContent className="pt-6">
+              <OrderTimeline events={events} />
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  )
+}
+
+export default OrderPage
@@ -0,0 +1,87 @@
+"use client";
+
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { OrderColumn } from "./columns";
+import { Button } from "@/components/ui/button";
+import { Copy, Eye, MoreHorizontal, Undo2 } from "lucide-react";
+import toast from "react-hot-toast";
+import { useParams, useRouter } from "next/navigation";
+import axios from "axios";
+import { useState } from "react";
+import { RefundModal } from "@/components/modals/refund-modal";
+
+interface CellActionProps {
+    data: OrderColumn;
+};
+
+export const CellAction: React.FC<CellActionProps> = ({
+    data
+}) => {
+
+    const [open, setOpen] = useState(false)
+    const [loading, setLoading] = useState(false)
+
+    const params = useParams();
+    const router = useRouter();
+
+    const onCopy = (id: string) => {
+        navigator.clipboard.writeText(id);
+        toast.success("Order ID copied to the clipboard");
+    }
+
+    const onRefund = async (amount: number | undefined) => {
+        try {
+          setLoading(true)
+          await axios.post(`/api/${params.storeId}/orders/${data.id}/refund`, { amount });
+          router.refresh();
+          toast.success("Order refunded.")
+        } catch (error) {
+          const message = axios.isAxiosError(error) && typeof error.response?.data === "string"
+            ? error.response.data
+            : "Something went wrong."
+          toast.error(message)
+        } finally {
+          setLoading(false)
+          setOpen(false)
+        }
+      }
+
+    return (
+        <>
+            <RefundModal
+                isOpen={open}
+                onClose={() => setOpen(false)}
+                onConfirm={onRefund}
+                loading={loading}
+                remainingAmount={data.refundableAmount}
+            />
+            <div>
+                <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" className="h-8 w-8 p-0">
+                            <span className="sr-only">Open Menu</span>
+                            <MoreHorizontal className="h-4 w-4"/>
+                        </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                        <DropdownMenuLabel>
+                            Actions
+                        </DropdownMenuLabel>
+                        <DropdownMenuItem onClick={() => router.push(`/${params.storeId}/orders/${data.id}`)}>
+                            <Eye className="mr-2 h-4 w-4"/>
+                            View Details
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => onCopy(data.id)}>
+                            <Copy className="mr-2 h-4 w-4"/>
+                            Copy ID
+                        </DropdownMenuItem>
+                        <DropdownMenuItem disabled={data.refundableAmount <= 0} onClick={()=> setOpen(true)}>
+                            <Undo2 className="mr-2 h-4 w-4"/>
+                            Refund
+                        </DropdownMenuItem>
+                    </DropdownMenuContent>
+                </DropdownMenu>
+            </div>
+        </>
+    );
+};
@@ -4,16 +4,20 @@ import type { ColumnDef } from "@tanstack/react-table"
 import { useState, useEffect } from "react"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
 import { Badge } from "@/components/ui/badge"
-import { CheckCircle2, XCircle } from "lucide-react"
+import { AlertTriangle, CheckCircle2, Clock, Undo2 } from "lucide-react"
 import { useSidebarState } from "@/hooks/use-sidebar"
 import { format } from "date-fns"
+import type { OrderStatus } from "@prisma/client"
+import { CellAction } from "./cell-action"
 
 export type OrderColumn = {
   id: string
   phone: string
   address: string
-  isPaid: boolean
+  status: OrderStatus
   totalPrice: string
+  refundedAmount: string
+  refundableAmount: number
   products: string
   createdAt: string
   email?: string
@@ -35,6 +39,29 @@ const TruncatedCell = ({ value }: { value: string }) => {
   )
 }
 
+const STATUS_BADGES: Record<OrderStatus, { label: string; className: string; icon: typeof CheckCircle2 }> = {
+  PENDING: { label: "Unpaid", className: "bg-destructive/10 text-destructive border-destructive/20", icon: Clock },
+  PAID: { label: "Paid", className: "bg-green-500/10 text-green-500 border-green-500/20", icon: CheckCircle2 },
+  PARTIALLY_REFUNDED: {
+    label: "Partially Refunded",
+    className: "bg-amber-500/10 text-amber-500 border-amber-500/20",
+    icon: Undo2,
+  },
+  REFUNDED: { label: "Refunded", className: "bg-muted text-muted-foreground", icon: Undo2 },
+  DISPUTED: { label: "Disputed", className: "bg-orange-500/10 text-orange-500 border-orange-500/20", icon: AlertTriangle },
+}
+
+export const OrderStatusBadge = ({ status }: { status: OrderStatus }) => {
+  const { label, className, icon: Icon } = STATUS_BADGES[status]
+
+  return (
+    <Badge variant="outline" className={className}>
+      <Icon className="h-3 w-3 mr-1" />
+      {label}
+    </Badge>
+  )
+}
+
 export const useColumns = () => {
   // Get sidebar state from a custom hook
   const { isOpen } = useSidebarState()
@@ -60,7 +87,7 @@ export const useColumns = () => {
       if (isMobile) {
         return {
           products: true,
-          isPaid: true,
+          status: true,
           totalPrice: true,
           phone: false,
           address: false,
@@ -70,7 +97,7 @@ export const useColumns = () => {
       } else if (isTablet) {
         return {
           products: true,
-          isPaid: true,
+          status: true,
           totalPrice: true,
           phone: true,
           address: false,
@@ -83,7 +110,7 @@ export const useColumns = () => {
     // Default visibility for desktop or when sidebar is closed
     return {
       products: true,
-      isPaid: true,
+      status: true,
       totalPrice: true,
       phone: true,
       address: isDesktop || (isTablet && !isOpen),
@@ -101,35 +128,22 @@ export const useColumns = () => {
       cell: ({ row }) => <TruncatedCell value={row.original.products} />,
     },
     {
-      accessorKey: "isPaid",
+      accessorKey: "status",
       header: "Status",
-      cell: ({ row }) => {
-        const isPaid = row.original.isPaid
-        return (
-          <Badge
-            variant={isPaid ? "default" : "destructive"}
-            className={isPaid ? "bg-green-500/10 text-green-500 border-green-500/20 hover:bg-green-500/20" : ""}
-          >
-            {isPaid ? (
-              <>
-                <CheckCircle2 className="h-3 w-3 mr-1" />
-                Paid
-              </>
-            ) : (
-              <>
-                <XCircle className="h-3 w-3 mr-1" />
-                Unpaid
-              </>
-            )}
-          </Badge>
-        )
-      },
+      cell: ({ row }) => <OrderStatusBadge status={row.original.status} />,
     },
     {
       accessorKey: "totalPrice",
       header: "Total Price",
       cell: ({ row }) => {
-        return <span className="font-medium">{row.original.totalPrice}</span>
+        return (
+          <div className="flex flex-col">
+            <span className="font-medium">{row.original.totalPrice}</span>
+            {row.original.refundedAmount && (
+              <span className="text-xs text-muted-foreground">{row.original.refundedAmount} refunded</span>
+            )}
+          </div>
+        )
       },
     },
     {
@@ -164,6 +178,10 @@ export const useColumns = () => {
         }
       },
     },
+    {
+      id: "actions",
+      cell: ({ row }) => <CellAction data={row.original} />,
+    },
   ]
 
   return { columns, columnVisibility }
@@ -2,7 +2,8 @@ import { OrderClient } from "./_components/client"
 import prismadb from "@/lib/prismadb"
 import type { OrderColumn } from "./_components/columns"
 import { formatter } from "@/lib/utils"
-import { CheckCircle2, ClipboardListIcon, ShoppingCartIcon, XCircle } from "lucide-react"
+import { REFUNDABLE_ORDER_STATUS } from "@/lib/refunds"
+import { CheckCircle2, ClipboardListIcon, ShoppingCartIcon, Undo2, XCircle } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Separator } from "@/components/ui/separator"
 import { Badge } from "@/components/ui/badge"
@@ -36,22 +37,29 @@ const OrdersPage = async ({ params }: PageProps) => {
       phone: item.phone || "-",
       address: item.address ?? "-",
       email: item.email || "-",
-      isPaid: item.isPaid,
+      status: item.status,
       products: item.OrderItem.map((orderItem) => orderItem.products.name).join(", "),
       totalPrice: item.price ? formatter.format(item.price.toNumber()) : "N/A",
+      refundedAmount: item.refundedAmount.toNumber() > 0 ? formatter.format(item.refundedAmount.toNumber()) : "",
+      refundableAmount: REFUNDABLE_ORDER_STATUS.includes(item.status)
+        ? Math.max((item.price?.toNumber() ?? 0) - item.refundedAmount.toNumber(), 0)
+        : 0,
       createdAt: item.createdAt.toISOString(),
     }
   })
 
   // Calculate order statistics
   const totalOrders = formattedOrders.length
-  const paidOrders = formattedOrders.filter((order) => order.isPaid).length
+  const paidOrders = orders.filter((order) => order.isPaid).length
   const unpaidOrders = totalOrders - paidOrders
+  const refundedOrders = orders.filter(
+    (order) => order.status === "REFUNDED" || order.status === "PARTIALLY_REFUNDED"
+  ).length
 
-  // Calculate total revenue from paid orders (safe handling for price)
+  // Calculate total revenue from paid orders, net of refunds (safe handling for price)
   const totalRevenue = orders
     .filter((order) => order.isPaid && order.price !== null)
-    .reduce((total, order) => total + (order.price?.toNumber() || 0), 0)
+    .reduce((total, order) => total + (order.price?.toNumber() || 0) - order.refundedAmount.toNumber(), 0)
 
   return (
     <div className="flex flex-col min-h-screen bg-background">
@@ -107,6 +115,11 @@ const OrdersPage = async ({ params }: PageProps) => {
                 <Badge variant="outline" className="bg-green-500/10 text-green-500 border-green-500/20">
                   <CheckCircle2 className="h-3 w-3 mr-1" /> {paidOrders} Paid
                 </Badge>
+                {refundedOrders > 0 && (
+                  <Badge variant="outline" className="bg-muted text-muted-foreground">
+                    <Undo2 className="h-3 w-3 mr-1" /> {refundedOrders} Refunded
+                  </Badge>
+                )}
                 {unpaidOrders > 0 && (
                   <Badge variant="outline" className="bg-destructive/10 text-destructive border-destructive/20">
                     <XCircle className="h-3 w-3 mr-1" /> {unpaidOrders} Unpaid
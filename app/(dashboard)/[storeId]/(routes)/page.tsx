@@ -4,7 +4,10 @@ import { getStockCount } from "@/actions/get-stock-count"
 import { getTotalDownloads } from "@/actions/get-total-downloads"
 import { getTotalRevenue } from "@/actions/get-total-revenue"
 import { Overview } from "@/components/overview"
+import { SearchSyncStatus } from "@/components/search-sync-status"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { getSearchSyncStatus } from "@/lib/search-outbox"
+import { getLatestSearchReconciliation } from "@/lib/search-reconciliation"
 import { formatter } from "@/lib/utils"
 import { CreditCard, DollarSign, Download, Package } from "lucide-react"
 
@@ -16,12 +19,14 @@ export default async function DashboardPage({
   const { storeId } = await params
 
   // Parallel data fetching for faster page loads
-  const [totalRevenue, salesCount, stockCount, graphRevenue, totalDownloads] = await Promise.all([
+  const [totalRevenue, salesCount, stockCount, graphRevenue, totalDownloads, searchSyncStatus, searchReconciliation] = await Promise.all([
     getTotalRevenue(storeId),
     getSalesCount(storeId),
     getStockCount(storeId),
     getGraphRevenue(storeId),
     getTotalDownloads(storeId),
+    getSearchSyncStatus(storeId),
+    getLatestSearchReconciliation(storeId),
   ])
 
   return (
@@ -80,6 +85,12 @@ export default async function DashboardPage({
           </Card>
         </div>
 
+        <SearchSyncStatus
+          storeId={storeId}
+          initialStatus={searchSyncStatus}
+          initialReconciliation={searchReconciliation}
+        />
+
         <div className="mt-6">
           <Overview
             data={graphRevenue}
@@ -0,0 +1,298 @@
+"use client"
+
+import type React from "react"
+
+import { Button } from "@/components/ui/button"
+import { Heading } from "@/components/ui/heading"
+import { Separator } from "@/components/ui/separator"
+import type { Category, Plan } from "@prisma/client"
+import * as z from "zod"
+import { Trash, ArrowLeft } from "lucide-react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { useState } from "react"
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Checkbox } from "@/components/ui/checkbox"
+import toast from "react-hot-toast"
+import axios from "axios"
+import { useParams, useRouter } from "next/navigation"
+import { AleartModal } from "@/components/modals/alert-modal"
+
+interface PlanFormProps {
+  initialData: Plan | null
+  categories: Category[]
+}
+
+const formSchema = z
+  .object({
+    name: z.string().min(1, "Name is required"),
+    description: z.string().optional(),
+    stripeMonthlyPriceId: z.string().optional(),
+    stripeYearlyPriceId: z.string().optional(),
+    trialDays: z.string().regex(/^\d+$/, "Must be a whole number"),
+    downloadQuota: z.string().regex(/^\d*$/, "Must be a whole number").optional(),
+    categoryIds: z.array(z.string()),
+    isArchived: z.boolean(),
+  })
+  .refine((data) => !!data.stripeMonthlyPriceId || !!data.stripeYearlyPriceId, {
+    message: "Add at least one Stripe price ID",
+    path: ["stripeMonthlyPriceId"],
+  })
+
+type PlanFormValues = z.infer<typeof formSchema>
+
+export const PlanForm: React.FC<PlanFormProps> = ({ initialData, categories }) => {
+  const [open, setOpen] = useState(false)
+  const [loading, setLoading] = useState(false)
+
+  const params = useParams()
+  const router = useRouter()
+
+  const title = initialData ? "Edit Plan" : "Create Plan"
+  const description = initialData ? "Edit a subscription plan" : "Add a new subscription plan"
+  const toastMessage = initialData ? "Plan updated" : "Plan created"
+  const action = initialData ? "Save changes" : "Create"
+
+  const form = useForm<PlanFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: initialData?.name ?? "",
+      description: initialData?.description ?? "",
+      stripeMonthlyPriceId: initialData?.stripeMonthlyPriceId ?? "",
+      stripeYearlyPriceId: initialData?.stripeYearlyPriceId ?? "",
+      trialDays: initialData?.trialDays.toString() ?? "0",
+      downloadQuota: initialData?.downloadQuota?.toString() ?? "",
+      categoryIds: initialData?.categoryIds ?? [],
+      isArchived: initialData?.isArchived ?? false,
+    },
+  })
+
+  const onSubmit = async (data: PlanFormValues) => {
+    try {
+      setLoading(true)
+
+      const payload = {
+        ...data,
+        description: data.description || null,
+        stripeMonthlyPriceId: data.stripeMonthlyPriceId || null,
+        stripeYearlyPriceId: data.stripeYearlyPriceId || null,
+        downloadQuota: data.downloadQuota ? Number(data.downloadQuota) : null,
+        trialDays: Number(data.trialDays),
+      }
+
+      if (initialData) {
+        await axios.patch(`/api/${params.storeId}/plans/${params.planId}`, payload)
+      } else {
+        await axios.post(`/api/${params.storeId}/plans`, payload)
+      }
+      router.refresh()
+      router.push(`/${params.storeId}/plans`)
+      toast.success(toastMessage)
+    } catch (error) {
+      const message = axios.isAxiosError(error) && typeof error.response?.data === "string"
+        ? error.response.data
+        : "Something went wrong"
+      toast.error(message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const onDelete = async () => {
+    try {
+      setLoading(true)
+      await axios.delete(`/api/${params.storeId}/plans/${params.planId}`)
+      router.refresh()
+      router.push(`/${params.storeId}/plans`)
+      toast.success("Plan deleted.")
+    } catch {
+      toast.error("Plans with subscribers can't be deleted. Archive it instead.")
+    } finally {
+      setLoading(false)
+      setOpen(false)
+    }
+  }
+
+  return (
+    <>
+      <AleartModal isOpen={open} onClose={() => setOpen(false)} onConfirm={onDelete} loading={loading} />
+
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-y-4 sm:gap-y-0">
+        <div className="flex items-center">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="mr-2 md:hidden"
+            onClick={() => router.push(`/${params.storeId}/plans`)}
+          >
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <Heading title={title} description={description} />
+        </div>
+        {initialData && (
+          <Button
+            disabled={loading}
+            variant="destructive"
+            onClick={() => setOpen(true)}
+            className="self-start sm:self-auto"
+          >
+            <Trash className="h-4 w-4 mr-2" />
+            Delete
+          </Button>
+        )}
+      </div>
+
+      <Separator className="my-4" />
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8 w-full">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-base">Name</FormLabel>
+                  <FormControl>
+                    <Input disabled={loading} placeholder="Premium" {...field} className="h-12 text-base" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="trialDays"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-base">Trial days</FormLabel>
+                  <FormControl>
+                    <Input disabled={loading} inputMode="numeric" {...field} className="h-12 text-base" />
+                  </FormControl>
+                  <FormDescription>0 disables the free trial</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="stripeMonthlyPriceId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-base">Stripe monthly price ID</FormLabel>
+                  <FormControl>
+                    <Input disabled={loading} placeholder="price_..." {...field} className="h-12 text-base" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="stripeYearlyPriceId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-base">Stripe yearly price ID</FormLabel>
+                  <FormControl>
+                    <Input disabled={loading} placeholder="price_..." {...field} className="h-12 text-base" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="downloadQuota"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-base">Premium downloads per period</FormLabel>
+                  <FormControl>
+                    <Input disabled={loading} inputMode="numeric" placeholder="Unlimited" {...field} className="h-12 text-base" />
+                  </FormControl>
+                  <FormDescription>Overrides the store-wide period limit for this plan</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="isArchived"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
+                  <FormControl>
+                    <Checkbox checked={field.value} onCheckedChange={field.onChange} disabled={loading} />
+                  </FormControl>
+                  <div className="space-y-1 leading-none">
+                    <FormLabel>Archived</FormLabel>
+                    <FormDescription>Archived plans can&apos;t be purchased; existing subscribers keep access</FormDescription>
+                  </div>
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <FormField
+            control={form.control}
+            name="description"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-base">Description</FormLabel>
+                <FormControl>
+                  <Textarea disabled={loading} placeholder="What's included in this plan" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="categoryIds"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-base">Included categories</FormLabel>
+                <FormDescription>Leave all unchecked to include the whole catalog</FormDescription>
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 pt-2">
+                  {categories.map((category) => (
+                    <label key={category.id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        disabled={loading}
+                        checked={field.value.includes(category.id)}
+                        onCheckedChange={(checked) =>
+                          field.onChange(
+                            checked
+                              ? [...field.value, category.id]
+                              : field.value.filter((id) => id !== category.id)
+                          )
+                        }
+                      />
+                      {category.name}
+                    </label>
+                  ))}
+                </div>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <div className="fixed bottom-0 left-0 right-0 bg-background border-t border-border p-4 md:relative md:border-0 md:p-0 md:bg-transparent flex justify-end gap-x-2 z-10">
+            <Button
+              type="button"
+              variant="outline"
+              disabled={loading}
+              onClick={() => router.push(`/${params.storeId}/plans`)}
+              className="flex-1 md:flex-none"
+            >
+              Cancel
+            </Button>
+            <Button disabled={loading} type="submit" className="flex-1 md:flex-none">
+              {loading ? "Loading..." : action}
+            </Button>
+          </div>
+        </form>
+      </Form>
+    </>
+  )
+}
@@ -0,0 +1,34 @@
+import prismadb from "@/lib/prismadb";
+import { PlanForm } from "./_components/plan-form";
+
+const PlanPage = async ({
+  params,
+}: {
+  params: Promise<{ planId: string; storeId: string }>;
+}) => {
+  const { planId, storeId } = await params;
+
+  const plan = await prismadb.plan.findFirst({
+    where: {
+      id: planId,
+      storeId,
+    },
+  });
+
+  const categories = await prismadb.category.findMany({
+    where: {
+      storeId,
+    },
+    orderBy: { name: "asc" },
+  });
+
+  return (
+    <div className="flex-col">
+      <div className="flex-1 space-y-4 p-8 pt-6">
+        <PlanForm initialData={plan} categories={categories} />
+      </div>
+    </div>
+  );
+};
+
+export default PlanPage;
@@ -0,0 +1,74 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Heading } from "@/components/ui/heading";
+import { Separator } from "@/components/ui/separator";
+import { Crown, ListIcon, Plus } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { PlanColumn, columns } from "./columns";
+import { DataTable } from "@/components/data-table";
+
+interface PlanClientProps {
+  data: PlanColumn[];
+  storeId: string;
+}
+
+export const PlanClient: React.FC<PlanClientProps> = ({ data, storeId }) => {
+  const router = useRouter();
+
+  const handleCreate = () => {
+    router.push(`/${storeId}/plans/new`);
+  };
+
+  return (
+    <div className="flex flex-col min-h-screen bg-background">
+      <main className="flex-1 p-4 md:p-8">
+        <div className="rounded-lg border bg-card shadow-sm transition-all">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between p-4 md:p-6">
+            <div className="flex items-center gap-2 mb-4 md:mb-0">
+              <ListIcon className="w-5 h-5 text-primary" />
+              <h2 className="text-lg font-medium">Subscription Plans</h2>
+            </div>
+            <div className="text-sm text-muted-foreground">
+              Total: {data.length} plan{data.length === 1 ? "" : "s"}
+            </div>
+          </div>
+
+          <Separator />
+
+          {data.length > 0 ? (
+            <div className="p-4">
+              <div className="flex items-center justify-between pb-5">
+                <Heading
+                  title={`Plans (${data.length})`}
+                  description="Manage subscription tiers for your store"
+                />
+                <Button onClick={handleCreate}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add New
+                </Button>
+              </div>
+              <Separator />
+              <DataTable searchKey="name" columns={columns} data={data} />
+            </div>
+          ) : (
+            <div className="flex flex-col items-center justify-center py-12 px-4 text-center">
+              <div className="rounded-full bg-primary/10 p-3 mb-4">
+                <Crown className="w-8 h-8 text-primary" />
+              </div>
+              <h3 className="text-lg font-medium mb-2">No plans found</h3>
+              <p className="text-muted-foreground max-w-sm mb-6">
+                You haven&apos;t created any plans yet. Until you do, checkout uses the default premium
+                monthly and yearly prices.
+              </p>
+              <Button onClick={handleCreate}>
+                <Plus className="h-4 w-4 mr-2" />
+                Create Plan
+              </Button>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
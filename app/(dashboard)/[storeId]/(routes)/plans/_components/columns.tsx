@@ -0,0 +1,54 @@
+"use client"
+
+import { ColumnDef } from "@tanstack/react-table"
+import { Badge } from "@/components/ui/badge"
+import { CellAction } from "./cell-action"
+
+export type PlanColumn = {
+  id: string
+  name: string
+  trialDays: number
+  categories: string
+  downloadQuota: string
+  subscribers: number
+  isArchived: boolean
+  createdAt: string
+}
+
+export const columns: ColumnDef<PlanColumn>[] = [
+  {
+    accessorKey: "name",
+    header: "Name",
+    cell: ({ row }) => (
+      <div className="flex items-center gap-2">
+        <span className="font-medium">{row.original.name}</span>
+        {row.original.isArchived && <Badge variant="secondary">Archived</Badge>}
+      </div>
+    ),
+  },
+  {
+    accessorKey: "trialDays",
+    header: "Trial",
+    cell: ({ row }) => (row.original.trialDays > 0 ? `${row.original.trialDays} days` : "None"),
+  },
+  {
+    accessorKey: "categories",
+    header: "Categories",
+  },
+  {
+    accessorKey: "downloadQuota",
+    header: "Download Quota",
+  },
+  {
+    accessorKey: "subscribers",
+    header: "Subscribers",
+  },
+  {
+    accessorKey: "createdAt",
+    header: "Date",
+  },
+  {
+    id: "actions",
+    cell: ({ row }) => <CellAction data={row.original} />,
+  },
+]
@@ -0,0 +1,33 @@
+import { PlanClient } from "./_components/client"
+import prismadb from "@/lib/prismadb"
+import { format } from "date-fns"
+import type { PlanColumn } from "./_components/columns"
+
+const PlansPage = async ({ params }: { params: Promise<{ storeId: string }> }) => {
+  const { storeId } = await params
+
+  const plans = await prismadb.plan.findMany({
+    where: { storeId },
+    include: {
+      _count: {
+        select: { subscriptions: true },
+      },
+    },
+    orderBy: { createdAt: "desc" },
+  })
+
+  const formattedPlans: PlanColumn[] = plans.map((item) => ({
+    id: item.id,
+    name: item.name,
+    trialDays: item.trialDays,
+    categories: item.categoryIds.length > 0 ? `${item.categoryIds.length} selected` : "All",
+    downloadQuota: item.downloadQuota !== null ? item.downloadQuota.toString() : "Unlimited",
+    subscribers: item._count.subscriptions,
+    isArchived: item.isArchived,
+    createdAt: format(item.createdAt, "MMMM do, yyyy"),
+  }))
+
+  return <PlanClient data={formattedPlans} storeId={storeId} />
+}
+
+export default PlansPage
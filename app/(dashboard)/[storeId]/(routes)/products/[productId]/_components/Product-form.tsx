@@ -1,7 +1,7 @@
 "use client"
 
 import type React from "react"
-import type { Category, Image as ImageType, products } from "@prisma/client" // Assuming ImageType is from Prisma
+import type { Category, Image as ImageType, ProductFile, products } from "@prisma/client" // Assuming ImageType is from Prisma
 import { Button } from "@/components/ui/button"
 import { Heading } from "@/components/ui/heading"
 import { Separator } from "@/components/ui/separator"
@@ -18,8 +18,9 @@ import {
   FileDown,
   FileText,
   PlusCircle,
+  Files,
 } from "lucide-react"
-import { useForm } from "react-hook-form"
+import { useFieldArray, useForm } from "react-hook-form"
 import { zodResolver } from "@hookform/resolvers/zod"
 import { useState } from "react"
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
@@ -53,14 +54,27 @@ const formSchema = z.object({
   keywords: z.array(z.string().min(1, "Keyword cannot be empty")).min(1, "At least one keyword is required"),
   isFeatured: z.boolean().default(false),
   isArchived: z.boolean().default(false),
+  files: z.array(
+    z.object({
+      fileId: z.string().optional(),
+      label: z.string().min(1, "Label is required"),
+      format: z.string().min(1, "Format is required"),
+      url: z.string().url("File URL must be a valid URL"),
+      sizeMb: z.string().regex(/^(\d+(\.\d+)?)?$/, "Must be a number"),
+      price: z.string().regex(/^(\d+(\.\d{1,2})?)?$/, "Must be a number"),
+    })
+  ),
 })
 
 type ProductFormValues = z.infer<typeof formSchema>
 
+const BYTES_PER_MB = 1024 * 1024
+
 interface ProductFormProps {
   initialData:
   | (products & {
     Image: ImageType[] // Prisma's Image type
+    ProductFile: Array<Omit<ProductFile, "size"> & { size: number | null }>
   })
   | null
   categories: Category[]
@@ -97,6 +111,14 @@ export const ProductForm: React.FC<ProductFormProps> = ({ initialData, categorie
         downloadUrl: initialData.downloadUrl || "",
         keywords: initialData.keywords || [],
         videoUrl: initialData.videoUrl || "",
+        files: (initialData.ProductFile || []).map((file) => ({
+          fileId: file.id,
+          label: file.label,
+          format: file.format,
+          url: file.url,
+          sizeMb: file.size ? String(Math.round((file.size / BYTES_PER_MB) * 100) / 100) : "",
+          price: file.price !== null ? String(Number.parseFloat(String(file.price))) : "",
+        })),
       }
       : {
         name: "",
@@ -109,9 +131,12 @@ export const ProductForm: React.FC<ProductFormProps> = ({ initialData, categorie
         keywords: [],
         isFeatured: false,
         isArchived: false,
+        files: [],
       },
   })
 
+  const files = useFieldArray({ control: form.control, name: "files" })
+
   const onSubmit = async (data: ProductFormValues) => {
     try {
       setLoading(true)
@@ -124,6 +149,15 @@ export const ProductForm: React.FC<ProductFormProps> = ({ initialData, categorie
         downloadUrl: data.downloadUrl || "",
         videoUrl: data.videoUrl || "",
         keywords: data.keywords || [],
+        files: data.files.map((file) => ({
+          id: file.fileId,
+          label: file.label,
+          format: file.format,
+          url: file.url,
+          size: file.sizeMb ? Math.round(Number(file.sizeMb) * BYTES_PER_MB) : null,
+          // Empty price means the file comes with the product; a price sells it on its own
+          price: file.price ? Number(file.price) : null,
+        })),
       }
 
       if (initialData) {
@@ -586,6 +620,131 @@ export const ProductForm: React.FC<ProductFormProps> = ({ initialData, categorie
               </CardContent>
             </Card>
 
+            <Card className="border border-border bg-card shadow-sm">
+              <CardContent className="pt-6">
+                <div className="flex items-center justify-between mb-4">
+                  <div>
+                    <h3 className="text-lg font-medium">Files & Formats</h3>
+                    <p className="text-sm text-muted-foreground">
+                      Extra downloadable versions of this product, e.g. PSD, AI and Figma.
+                    </p>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    disabled={loading}
+                    onClick={() => files.append({ label: "", format: "", url: "", sizeMb: "", price: "" })}
+                  >
+                    <PlusCircle className="h-4 w-4 mr-2" />
+                    Add file
+                  </Button>
+                </div>
+                {files.fields.length === 0 ? (
+                  <div className="flex flex-col items-center justify-center border-2 border-dashed rounded-md p-6 text-muted-foreground">
+                    <Files className="h-8 w-8 mb-2 text-gray-400" />
+                    <p className="text-sm">No extra files. Downloads use the secure file link above.</p>
+                  </div>
+                ) : (
+                  <div className="space-y-4">
+                    {files.fields.map((item, index) => (
+                      <div key={item.id} className="grid gap-3 rounded-md border p-4 md:grid-cols-12">
+                        <FormField
+                          control={form.control}
+                          name={`files.${index}.label`}
+                          render={({ field }) => (
+                            <FormItem className="md:col-span-3">
+                              <FormLabel>Label</FormLabel>
+                              <FormControl>
+                                <Input disabled={loading} placeholder="Photoshop file" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name={`files.${index}.format`}
+                          render={({ field }) => (
+                            <FormItem className="md:col-span-2">
+                              <FormLabel>Format</FormLabel>
+                              <FormControl>
+                                <Input
+                                  disabled={loading}
+                                  placeholder="PSD"
+                                  {...field}
+                                  onChange={(e) => field.onChange(e.target.value.toUpperCase())}
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name={`files.${index}.sizeMb`}
+                          render={({ field }) => (
+                            <FormItem className="md:col-span-2">
+                              <FormLabel>Size (MB)</FormLabel>
+                              <FormControl>
+                                <Input disabled={loading} inputMode="decimal" placeholder="Optional" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name={`files.${index}.price`}
+                          render={({ field }) => (
+                            <FormItem className="md:col-span-2">
+                              <FormLabel>Price</FormLabel>
+                              <FormControl>
+                                <Input disabled={loading} inputMode="decimal" placeholder="With product" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <div className="flex items-end justify-end md:col-span-3">
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            disabled={loading}
+                            onClick={() => files.remove(index)}
+                          >
+                            <Trash className="h-4 w-4" />
+                            <span className="sr-only">Remove file</span>
+                          </Button>
+                        </div>
+                        <FormField
+                          control={form.control}
+                          name={`files.${index}.url`}
+                          render={({ field }) => (
+                            <FormItem className="md:col-span-12">
+                              <FormLabel>File URL</FormLabel>
+                              <FormControl>
+                                <div className="relative">
+                                  <FileDown className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                                  <Input
+                                    disabled={loading}
+                                    placeholder="https://your-cdn.com/mockup.psd"
+                                    {...field}
+                                    className="pl-9"
+                                  />
+                                </div>
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
             <Card className="border border-border bg-card shadow-sm">
               <CardContent className="pt-6">
                 <h3 className="text-lg font-medium mb-4">Product Status</h3>
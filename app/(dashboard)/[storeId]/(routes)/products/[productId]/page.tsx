@@ -14,6 +14,9 @@ const ProductPage = async ({ params }: PageProps) => {
         },
         include: {
             Image: true,
+            ProductFile: {
+                orderBy: { position: "asc" },
+            },
         },
     });
 
@@ -29,7 +32,20 @@ const ProductPage = async ({ params }: PageProps) => {
             <div className="flex-1 space-y-4 p-8 pt-6">
                 <ProductForm
                     categories={categories}
-                    initialData={product ? JSON.parse(JSON.stringify(product)) : null}
+                    initialData={
+                        product
+                            ? JSON.parse(
+                                  JSON.stringify({
+                                      ...product,
+                                      // BigInt doesn't serialize to JSON
+                                      ProductFile: product.ProductFile.map((file) => ({
+                                          ...file,
+                                          size: file.size === null ? null : Number(file.size),
+                                      })),
+                                  })
+                              )
+                            : null
+                    }
                 />
             </div>
         </div>
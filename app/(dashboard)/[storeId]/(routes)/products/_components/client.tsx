@@ -3,13 +3,14 @@
 import { Button } from "@/components/ui/button";
 import { Heading } from "@/components/ui/heading";
 import { Separator } from "@/components/ui/separator";
-import { CalendarIcon, ListIcon, Plus, DollarSign, X, Trash2, Filter } from "lucide-react";
+import { CalendarIcon, ListIcon, Plus, DollarSign, X, Trash2, Filter, Download } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { useState, useMemo } from "react";
 import { ProductColumn, columns } from "./columns";
 import { DataTable } from "@/components/data-table";
 import { BulkPriceUpdate } from "@/components/bulk-price-update";
 import { AleartModal } from "@/components/modals/alert-modal";
+import { ExportProductsModal } from "@/components/modals/export-products-modal";
 import { toast } from "react-hot-toast";
 import axios from "axios";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -31,6 +32,7 @@ export const ProductClient: React.FC<ProductClientProps> = ({
   const router = useRouter();
   const [showBulkUpdate, setShowBulkUpdate] = useState(false);
   const [showDeleteAllModal, setShowDeleteAllModal] = useState(false);
+  const [showExportModal, setShowExportModal] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [selectedCategory, setSelectedCategory] = useState<string>("all");
 
@@ -97,6 +99,10 @@ export const ProductClient: React.FC<ProductClientProps> = ({
                       <DollarSign className="w-4 h-4 mr-2" />
                       Bulk Price Update
                     </Button>
+                    <Button variant="outline" onClick={() => setShowExportModal(true)}>
+                      <Download className="w-4 h-4 mr-2" />
+                      Export
+                    </Button>
                     <Button variant="destructive" onClick={() => setShowDeleteAllModal(true)}>
                       <Trash2 className="w-4 h-4 mr-2" />
                       Delete All
@@ -174,6 +180,15 @@ export const ProductClient: React.FC<ProductClientProps> = ({
           </div>
         )}
 
+        {/* Export Products Modal */}
+        <ExportProductsModal
+          isOpen={showExportModal}
+          onClose={() => setShowExportModal(false)}
+          storeId={storeId}
+          categories={categories}
+          initialCategoryId={selectedCategory}
+        />
+
         {/* Delete All Products Modal */}
         <AleartModal
           isOpen={showDeleteAllModal}
@@ -0,0 +1,172 @@
+import Link from "next/link"
+import { notFound } from "next/navigation"
+import { MousePointerClick, Search, SearchX, TextCursorInput } from "lucide-react"
+import { getSearchAnalytics } from "@/lib/search-analytics"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Separator } from "@/components/ui/separator"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+
+const PERIODS = [7, 30, 90] as const
+
+interface SearchAnalyticsPageProps {
+  params: Promise<{ storeId: string }>
+  searchParams: Promise<{ days?: string }>
+}
+
+const formatRate = (value: number) => `${(value * 100).toFixed(1)}%`
+
+export default async function SearchAnalyticsPage({ params, searchParams }: SearchAnalyticsPageProps) {
+  const { storeId } = await params
+  const { days: daysParam } = await searchParams
+
+  if (!storeId) notFound()
+
+  const days = PERIODS.find((period) => String(period) === daysParam) ?? 30
+  const report = await getSearchAnalytics(storeId, days)
+
+  const zeroResultRate = report.searches > 0 ? report.zeroResultSearches / report.searches : 0
+  const clickThroughRate = report.searches > 0 ? report.clickedSearches / report.searches : 0
+
+  return (
+    <div className="flex-col">
+      <div className="flex-1 space-y-6 p-6 pt-6 md:p-8">
+        <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+          <div className="flex items-center gap-2">
+            <Search className="h-5 w-5 text-primary" />
+            <h2 className="text-lg font-medium">Search Insights</h2>
+          </div>
+          <div className="flex gap-2">
+            {PERIODS.map((period) => (
+              <Button key={period} variant={period === days ? "default" : "outline"} size="sm" asChild>
+                <Link href={`?days=${period}`}>Last {period} days</Link>
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          <Card className="border-l-4 border-l-primary">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Searches</CardTitle>
+              <div className="rounded-full bg-primary/10 p-2">
+                <Search className="h-4 w-4 text-primary" />
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{report.searches.toLocaleString()}</div>
+              <p className="text-xs text-muted-foreground mt-1">Storefront searches</p>
+            </CardContent>
+          </Card>
+
+          <Card className="border-l-4 border-l-destructive">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Zero Results</CardTitle>
+              <div className="rounded-full bg-destructive/10 p-2">
+                <SearchX className="h-4 w-4 text-destructive" />
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{formatRate(zeroResultRate)}</div>
+              <p className="text-xs text-muted-foreground mt-1">
+                {report.zeroResultSearches.toLocaleString()} searches found nothing
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card className="border-l-4 border-l-green-500">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Click-through Rate</CardTitle>
+              <div className="rounded-full bg-green-500/10 p-2">
+                <MousePointerClick className="h-4 w-4 text-green-500" />
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{formatRate(clickThroughRate)}</div>
+              <p className="text-xs text-muted-foreground mt-1">Searches followed by a product click</p>
+            </CardContent>
+          </Card>
+
+          <Card className="border-l-4 border-l-blue-500">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Autocomplete</CardTitle>
+              <div className="rounded-full bg-blue-500/10 p-2">
+                <TextCursorInput className="h-4 w-4 text-blue-500" />
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{report.autocompleteLookups.toLocaleString()}</div>
+              <p className="text-xs text-muted-foreground mt-1">Suggestion lookups while typing</p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="grid gap-4 lg:grid-cols-2">
+          <div className="rounded-lg border bg-card shadow-sm">
+            <div className="p-4 md:p-6">
+              <h3 className="font-medium">Top Queries</h3>
+              <p className="text-sm text-muted-foreground">What shoppers search for most</p>
+            </div>
+            <Separator />
+            {report.topQueries.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Query</TableHead>
+                    <TableHead className="text-right">Searches</TableHead>
+                    <TableHead className="text-right">Avg. results</TableHead>
+                    <TableHead className="text-right">CTR</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.topQueries.map((row) => (
+                    <TableRow key={row.query}>
+                      <TableCell className="font-medium">{row.query}</TableCell>
+                      <TableCell className="text-right">{row.searches.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">{row.averageResults.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">{formatRate(row.clickThroughRate)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="p-6 text-sm text-muted-foreground">No searches in this period.</p>
+            )}
+          </div>
+
+          <div className="rounded-lg border bg-card shadow-sm">
+            <div className="p-4 md:p-6">
+              <h3 className="font-medium">Zero-result Queries</h3>
+              <p className="text-sm text-muted-foreground">
+                Demand the catalog doesn&apos;t meet yet: add products or keywords for these
+              </p>
+            </div>
+            <Separator />
+            {report.zeroResultQueries.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Query</TableHead>
+                    <TableHead className="text-right">Searches</TableHead>
+                    <TableHead className="text-right">Last searched</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.zeroResultQueries.map((row) => (
+                    <TableRow key={row.query}>
+                      <TableCell className="font-medium">{row.query}</TableCell>
+                      <TableCell className="text-right">{row.searches.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">{row.lastSearchedAt?.toLocaleDateString() ?? "-"}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="p-6 text-sm text-muted-foreground">Every search found something.</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,131 @@
+"use client"
+
+import type React from "react"
+
+import { Button } from "@/components/ui/button"
+import type { DownloadQuota } from "@prisma/client"
+import * as z from "zod"
+import { Save } from "lucide-react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { useState } from "react"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
+import toast from "react-hot-toast"
+import axios from "axios"
+import { useParams, useRouter } from "next/navigation"
+
+interface DownloadQuotaFormProps {
+  initialData: DownloadQuota | null
+}
+
+const limitSchema = z
+  .string()
+  .regex(/^\d*$/, "Must be a whole number")
+  .optional()
+
+const formSchema = z.object({
+  isEnabled: z.boolean(),
+  premiumPerPeriod: limitSchema,
+  premiumPerDay: limitSchema,
+})
+
+type DownloadQuotaFormValues = z.infer<typeof formSchema>
+
+export const DownloadQuotaForm: React.FC<DownloadQuotaFormProps> = ({ initialData }) => {
+  const [loading, setLoading] = useState(false)
+  const params = useParams()
+  const router = useRouter()
+
+  const form = useForm<DownloadQuotaFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      isEnabled: initialData?.isEnabled ?? false,
+      premiumPerPeriod: initialData?.premiumPerPeriod?.toString() ?? "",
+      premiumPerDay: initialData?.premiumPerDay?.toString() ?? "",
+    },
+  })
+
+  const onSubmit = async (data: DownloadQuotaFormValues) => {
+    try {
+      setLoading(true)
+
+      await axios.patch(`/api/${params.storeId}/download-quota`, {
+        isEnabled: data.isEnabled,
+        premiumPerPeriod: data.premiumPerPeriod || null,
+        premiumPerDay: data.premiumPerDay || null,
+      })
+
+      router.refresh()
+      toast.success("Download quota updated")
+    } catch {
+      toast.error("Something went wrong")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <FormField
+          control={form.control}
+          name="isEnabled"
+          render={({ field }) => (
+            <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+              <div className="space-y-0.5">
+                <FormLabel>Enforce fair-use limits</FormLabel>
+                <FormDescription>
+                  Limit how many premium products a subscriber can download
+                </FormDescription>
+              </div>
+              <FormControl>
+                <Switch disabled={loading} checked={field.value} onCheckedChange={field.onChange} />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <FormField
+            control={form.control}
+            name="premiumPerPeriod"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Downloads per billing period</FormLabel>
+                <FormControl>
+                  <Input disabled={loading} inputMode="numeric" placeholder="Unlimited" {...field} />
+                </FormControl>
+                <FormDescription>Resets when the subscription renews</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="premiumPerDay"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Daily burst cap</FormLabel>
+                <FormControl>
+                  <Input disabled={loading} inputMode="numeric" placeholder="Unlimited" {...field} />
+                </FormControl>
+                <FormDescription>Maximum downloads in any 24 hours</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="flex justify-end">
+          <Button disabled={loading} type="submit" className="transition-all">
+            <Save className="h-4 w-4 mr-2" />
+            Save limits
+          </Button>
+        </div>
+      </form>
+    </Form>
+  )
+}
@@ -0,0 +1,128 @@
+"use client"
+
+import type React from "react"
+
+import { Button } from "@/components/ui/button"
+import type { GenerationSettings, VisionProvider } from "@prisma/client"
+import * as z from "zod"
+import { Save } from "lucide-react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { useState } from "react"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import toast from "react-hot-toast"
+import axios from "axios"
+import { useParams, useRouter } from "next/navigation"
+
+interface GenerationSettingsFormProps {
+  initialData: GenerationSettings | null
+  defaultModels: Record<VisionProvider, string>
+}
+
+const PROVIDERS: { value: VisionProvider; label: string; description: string }[] = [
+  { value: "OPENAI", label: "OpenAI", description: "Uses OPENAI_API_KEY" },
+  { value: "ANTHROPIC", label: "Anthropic", description: "Uses ANTHROPIC_API_KEY" },
+  { value: "LOCAL", label: "Local model", description: "Any OpenAI-compatible server at LOCAL_VISION_API_URL" },
+  { value: "MOCK", label: "Mock", description: "Placeholder products from file names, for testing" },
+]
+
+const formSchema = z.object({
+  provider: z.enum(["OPENAI", "ANTHROPIC", "LOCAL", "MOCK"]),
+  model: z.string().trim().max(100, "Model must be less than 100 characters").optional(),
+})
+
+type GenerationSettingsFormValues = z.infer<typeof formSchema>
+
+export const GenerationSettingsForm: React.FC<GenerationSettingsFormProps> = ({ initialData, defaultModels }) => {
+  const [loading, setLoading] = useState(false)
+  const params = useParams()
+  const router = useRouter()
+
+  const form = useForm<GenerationSettingsFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      provider: initialData?.provider ?? "OPENAI",
+      model: initialData?.model ?? "",
+    },
+  })
+
+  const provider = form.watch("provider")
+
+  const onSubmit = async (data: GenerationSettingsFormValues) => {
+    try {
+      setLoading(true)
+
+      await axios.patch(`/api/${params.storeId}/generation-settings`, {
+        provider: data.provider,
+        model: data.model || null,
+      })
+
+      router.refresh()
+      toast.success("Generation settings updated")
+    } catch {
+      toast.error("Something went wrong")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <FormField
+            control={form.control}
+            name="provider"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Vision provider</FormLabel>
+                <Select disabled={loading} onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a provider" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {PROVIDERS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>
+                  {PROVIDERS.find((option) => option.value === field.value)?.description}
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="model"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Model</FormLabel>
+                <FormControl>
+                  <Input disabled={loading || provider === "MOCK"} placeholder={defaultModels[provider]} {...field} />
+                </FormControl>
+                <FormDescription>Leave empty to use {defaultModels[provider]}</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="flex justify-end">
+          <Button disabled={loading} type="submit" className="transition-all">
+            <Save className="h-4 w-4 mr-2" />
+            Save settings
+          </Button>
+        </div>
+      </form>
+    </Form>
+  )
+}
@@ -0,0 +1,173 @@
+"use client"
+
+import type React from "react"
+
+import { Button } from "@/components/ui/button"
+import type { PromptTemplate } from "@prisma/client"
+import * as z from "zod"
+import { Save } from "lucide-react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { useState } from "react"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Badge } from "@/components/ui/badge"
+import toast from "react-hot-toast"
+import axios from "axios"
+import { useParams, useRouter } from "next/navigation"
+
+interface PromptTemplateFormProps {
+  initialData: PromptTemplate | null
+}
+
+const formSchema = z.object({
+  tone: z.string().max(200, "Tone must be less than 200 characters").optional(),
+  language: z.string().trim().min(1, "Language is required").max(50, "Language must be less than 50 characters"),
+  keywordCount: z.string().regex(/^\d+$/, "Must be a whole number"),
+  namingConvention: z.string().max(300, "Naming convention must be less than 300 characters").optional(),
+  forbiddenWords: z.string().optional(),
+})
+
+type PromptTemplateFormValues = z.infer<typeof formSchema>
+
+export const PromptTemplateForm: React.FC<PromptTemplateFormProps> = ({ initialData }) => {
+  const [loading, setLoading] = useState(false)
+  const params = useParams()
+  const router = useRouter()
+
+  const form = useForm<PromptTemplateFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      tone: initialData?.tone ?? "",
+      language: initialData?.language ?? "English",
+      keywordCount: String(initialData?.keywordCount ?? 8),
+      namingConvention: initialData?.namingConvention ?? "",
+      forbiddenWords: initialData?.forbiddenWords.join(", ") ?? "",
+    },
+  })
+
+  const onSubmit = async (data: PromptTemplateFormValues) => {
+    try {
+      setLoading(true)
+
+      const { data: template } = await axios.post<PromptTemplate>(`/api/${params.storeId}/prompt-templates`, {
+        tone: data.tone || null,
+        language: data.language,
+        keywordCount: Number(data.keywordCount),
+        namingConvention: data.namingConvention || null,
+        forbiddenWords: (data.forbiddenWords ?? "").split(",").map((word) => word.trim()).filter(Boolean),
+      })
+
+      router.refresh()
+      toast.success(`Prompt template saved as version ${template.version}`)
+    } catch (error) {
+      const message = axios.isAxiosError(error) && typeof error.response?.data === "string"
+        ? error.response.data
+        : "Something went wrong"
+      toast.error(message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          {initialData ? (
+            <>
+              <Badge variant="outline">v{initialData.version}</Badge>
+              Saved {new Date(initialData.createdAt).toLocaleString()}. Saving creates a new version.
+            </>
+          ) : (
+            "Using the built-in prompt. Saving creates version 1."
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <FormField
+            control={form.control}
+            name="tone"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Tone of voice</FormLabel>
+                <FormControl>
+                  <Input disabled={loading} placeholder="Friendly and concise" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="language"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Language</FormLabel>
+                <FormControl>
+                  <Input disabled={loading} placeholder="English" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="keywordCount"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Keywords per product</FormLabel>
+                <FormControl>
+                  <Input disabled={loading} inputMode="numeric" {...field} />
+                </FormControl>
+                <FormDescription>Between 1 and 20</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="namingConvention"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Naming convention</FormLabel>
+                <FormControl>
+                  <Input disabled={loading} placeholder="<Subject> <Style> Mockup" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="forbiddenWords"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Forbidden words</FormLabel>
+              <FormControl>
+                <Textarea disabled={loading} placeholder="cheap, best, free" rows={2} {...field} />
+              </FormControl>
+              <FormDescription>
+                Comma-separated. Dropped from keywords; images whose name or description uses one fail.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end">
+          <Button disabled={loading} type="submit" className="transition-all">
+            <Save className="h-4 w-4 mr-2" />
+            Save template
+          </Button>
+        </div>
+      </form>
+    </Form>
+  )
+}
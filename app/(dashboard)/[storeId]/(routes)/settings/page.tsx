@@ -2,6 +2,11 @@ import { auth } from "@clerk/nextjs/server"
 import { redirect } from "next/navigation"
 import prismadb from "@/lib/prismadb"
 import { SettingsForm } from "./_components/settings-form"
+import { DownloadQuotaForm } from "./_components/download-quota-form"
+import { GenerationSettingsForm } from "./_components/generation-settings-form"
+import { PromptTemplateForm } from "./_components/prompt-template-form"
+import { DEFAULT_VISION_MODELS } from "@/lib/vision"
+import { getCurrentPromptTemplate } from "@/lib/prompt-templates"
 import { Separator } from "@/components/ui/separator"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Store } from "lucide-react"
@@ -31,6 +36,16 @@ const SettingsPage = async ({ params }: SettingsPageProps) => {
     redirect("/")
   }
 
+  const [downloadQuota, generationSettings, promptTemplate] = await Promise.all([
+    prismadb.downloadQuota.findUnique({
+      where: { storeId },
+    }),
+    prismadb.generationSettings.findUnique({
+      where: { storeId },
+    }),
+    getCurrentPromptTemplate(storeId),
+  ])
+
   return (
     <div className="flex flex-col min-h-screen bg-background">
       <main className="flex-1 p-4 md:p-8">
@@ -56,6 +71,39 @@ const SettingsPage = async ({ params }: SettingsPageProps) => {
           </CardContent>
         </Card>
 
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle>Download Quotas</CardTitle>
+            <CardDescription>Fair-use limits for subscriber premium downloads</CardDescription>
+          </CardHeader>
+          <Separator />
+          <CardContent className="pt-6">
+            <DownloadQuotaForm initialData={downloadQuota} />
+          </CardContent>
+        </Card>
+
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle>AI Product Generation</CardTitle>
+            <CardDescription>The vision model the CSV Maker uses to describe product images</CardDescription>
+          </CardHeader>
+          <Separator />
+          <CardContent className="pt-6">
+            <GenerationSettingsForm initialData={generationSettings} defaultModels={DEFAULT_VISION_MODELS} />
+          </CardContent>
+        </Card>
+
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle>Prompt Template</CardTitle>
+            <CardDescription>Brand voice for AI-generated listings. Preview it on a sample image in the CSV Maker.</CardDescription>
+          </CardHeader>
+          <Separator />
+          <CardContent className="pt-6">
+            <PromptTemplateForm initialData={promptTemplate} />
+          </CardContent>
+        </Card>
+
         <div className="mt-6 text-sm text-muted-foreground text-center">
           <p>Last updated: {new Date(store.updatedAt).toLocaleDateString()}</p>
         </div>
@@ -0,0 +1,71 @@
+"use client";
+
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { WebhookEventColumn } from "./columns";
+import { Button } from "@/components/ui/button";
+import { Copy, MoreHorizontal, RotateCcw } from "lucide-react";
+import toast from "react-hot-toast";
+import { useParams, useRouter } from "next/navigation";
+import axios from "axios";
+import { useState } from "react";
+
+interface CellActionProps {
+    data: WebhookEventColumn;
+};
+
+export const CellAction: React.FC<CellActionProps> = ({
+    data
+}) => {
+
+    const [loading, setLoading] = useState(false)
+
+    const params = useParams();
+    const router = useRouter();
+
+    const onCopy = (eventId: string) => {
+        navigator.clipboard.writeText(eventId);
+        toast.success("Event ID copied to the clipboard");
+    }
+
+    const onReplay = async () => {
+        try {
+          setLoading(true)
+          await axios.post(`/api/${params.storeId}/webhook-events/${data.id}/replay`);
+          toast.success("Event replayed.")
+        } catch (error) {
+          const message = axios.isAxiosError(error) && typeof error.response?.data === "string"
+            ? `Replay failed: ${error.response.data}`
+            : "Something went wrong."
+          toast.error(message)
+        } finally {
+          setLoading(false)
+          router.refresh();
+        }
+      }
+
+    return (
+        <div>
+            <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" className="h-8 w-8 p-0" disabled={loading}>
+                        <span className="sr-only">Open Menu</span>
+                        <MoreHorizontal className="h-4 w-4"/>
+                    </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                    <DropdownMenuLabel>
+                        Actions
+                    </DropdownMenuLabel>
+                    <DropdownMenuItem disabled={loading} onClick={onReplay}>
+                        <RotateCcw className="mr-2 h-4 w-4"/>
+                        Replay
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => onCopy(data.eventId)}>
+                        <Copy className="mr-2 h-4 w-4"/>
+                        Copy Event ID
+                    </DropdownMenuItem>
+                </DropdownMenuContent>
+            </DropdownMenu>
+        </div>
+    );
+};
@@ -0,0 +1,61 @@
+"use client";
+
+import { Heading } from "@/components/ui/heading";
+import { Separator } from "@/components/ui/separator";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, ListIcon, Webhook } from "lucide-react";
+import { WebhookEventColumn, columns } from "./columns";
+import { DataTable } from "@/components/data-table";
+
+interface WebhookEventClientProps {
+  data: WebhookEventColumn[];
+}
+
+export const WebhookEventClient: React.FC<WebhookEventClientProps> = ({ data }) => {
+  const failedCount = data.filter((event) => event.status === "FAILED").length;
+
+  return (
+    <div className="flex flex-col min-h-screen bg-background">
+      <main className="flex-1 p-4 md:p-8">
+        <div className="rounded-lg border bg-card shadow-sm transition-all">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between p-4 md:p-6">
+            <div className="flex items-center gap-2 mb-4 md:mb-0">
+              <ListIcon className="w-5 h-5 text-primary" />
+              <h2 className="text-lg font-medium">Webhook Events</h2>
+            </div>
+            {failedCount > 0 && (
+              <Badge variant="outline" className="bg-destructive/10 text-destructive border-destructive/20">
+                <AlertTriangle className="h-3 w-3 mr-1" /> {failedCount} Failed
+              </Badge>
+            )}
+          </div>
+
+          <Separator />
+
+          {data.length > 0 ? (
+            <div className="p-4">
+              <div className="flex items-center justify-between pb-5">
+                <Heading
+                  title={`Events (${data.length})`}
+                  description="Stripe and PayPal events received by the payment webhooks"
+                />
+              </div>
+              <Separator />
+              <DataTable searchKey="type" columns={columns} data={data} />
+            </div>
+          ) : (
+            <div className="flex flex-col items-center justify-center py-12 px-4 text-center">
+              <div className="rounded-full bg-primary/10 p-3 mb-4">
+                <Webhook className="w-8 h-8 text-primary" />
+              </div>
+              <h3 className="text-lg font-medium mb-2">No webhook events yet</h3>
+              <p className="text-muted-foreground max-w-sm">
+                Events from Stripe and PayPal will appear here as payments, refunds and subscription changes come in.
+              </p>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
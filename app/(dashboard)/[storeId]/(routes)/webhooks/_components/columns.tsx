@@ -0,0 +1,88 @@
+"use client"
+
+import { ColumnDef } from "@tanstack/react-table"
+import { format } from "date-fns"
+import { Badge } from "@/components/ui/badge"
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
+import type { WebhookEventStatus } from "@prisma/client"
+import { CellAction } from "./cell-action"
+
+export type WebhookEventColumn = {
+  id: string
+  source: string
+  eventId: string
+  type: string
+  status: WebhookEventStatus
+  attempts: number
+  error: string
+  receivedAt: string
+  processedAt: string
+}
+
+const STATUS_CLASSES: Record<WebhookEventStatus, string> = {
+  RECEIVED: "bg-muted text-muted-foreground",
+  PROCESSED: "bg-green-500/10 text-green-500 border-green-500/20",
+  FAILED: "bg-destructive/10 text-destructive border-destructive/20",
+}
+
+export const columns: ColumnDef<WebhookEventColumn>[] = [
+  {
+    accessorKey: "type",
+    header: "Event",
+    cell: ({ row }) => (
+      <div className="flex flex-col">
+        <span className="font-mono text-sm">{row.original.type}</span>
+        <span className="text-xs text-muted-foreground">{row.original.eventId}</span>
+      </div>
+    ),
+  },
+  {
+    accessorKey: "source",
+    header: "Source",
+  },
+  {
+    accessorKey: "status",
+    header: "Status",
+    cell: ({ row }) => {
+      const badge = (
+        <Badge variant="outline" className={STATUS_CLASSES[row.original.status]}>
+          {row.original.status.charAt(0) + row.original.status.slice(1).toLowerCase()}
+        </Badge>
+      )
+
+      if (!row.original.error) {
+        return badge
+      }
+
+      return (
+        <TooltipProvider>
+          <Tooltip>
+            <TooltipTrigger asChild>{badge}</TooltipTrigger>
+            <TooltipContent>
+              <p className="max-w-xs break-words">{row.original.error}</p>
+            </TooltipContent>
+          </Tooltip>
+        </TooltipProvider>
+      )
+    },
+  },
+  {
+    accessorKey: "attempts",
+    header: "Attempts",
+  },
+  {
+    accessorKey: "receivedAt",
+    header: "Received",
+    cell: ({ row }) => format(new Date(row.original.receivedAt), "MMM d, yyyy h:mm a"),
+  },
+  {
+    accessorKey: "processedAt",
+    header: "Processed",
+    cell: ({ row }) =>
+      row.original.processedAt ? format(new Date(row.original.processedAt), "MMM d, yyyy h:mm a") : "-",
+  },
+  {
+    id: "actions",
+    cell: ({ row }) => <CellAction data={row.original} />,
+  },
+]
@@ -0,0 +1,50 @@
+import { WebhookEventClient } from "./_components/client"
+import prismadb from "@/lib/prismadb"
+import type { WebhookEventColumn } from "./_components/columns"
+
+// The log grows with every delivery; the dashboard only needs recent activity
+const WEBHOOK_EVENT_LIMIT = 200
+
+const SOURCE_LABELS = {
+  STRIPE: "Stripe (orders)",
+  STRIPE_SUBSCRIPTION: "Stripe (subscriptions)",
+  PAYPAL: "PayPal",
+} as const
+
+const WebhooksPage = async ({ params }: { params: Promise<{ storeId: string }> }) => {
+  const { storeId } = await params
+
+  // Only events about this store's orders and subscriptions
+  const events = await prismadb.webhookEvent.findMany({
+    where: { storeId },
+    select: {
+      id: true,
+      source: true,
+      eventId: true,
+      type: true,
+      status: true,
+      attempts: true,
+      error: true,
+      receivedAt: true,
+      processedAt: true,
+    },
+    orderBy: { receivedAt: "desc" },
+    take: WEBHOOK_EVENT_LIMIT,
+  })
+
+  const formattedEvents: WebhookEventColumn[] = events.map((item) => ({
+    id: item.id,
+    source: SOURCE_LABELS[item.source],
+    eventId: item.eventId,
+    type: item.type,
+    status: item.status,
+    attempts: item.attempts,
+    error: item.error ?? "",
+    receivedAt: item.receivedAt.toISOString(),
+    processedAt: item.processedAt?.toISOString() ?? "",
+  }))
+
+  return <WebhookEventClient data={formattedEvents} />
+}
+
+export default WebhooksPage
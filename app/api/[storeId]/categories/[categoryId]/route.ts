@@ -1,8 +1,11 @@
 import { NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import prismadb from '@/lib/prismadb';
+import { getNextCategoryPosition, validateCategoryParent } from '@/lib/categories';
+import { enqueueSearchSync, requestSearchSync } from '@/lib/search-outbox';
+import { buildCategoryTree, collectDescendantIds, getCategoryBreadcrumbs } from '@/lib/category-tree';
 
-// GET: Retrieve a specific category
+// GET: Retrieve a specific category with its breadcrumbs and subcategories
 export async function GET(
   req: Request,
   context: { params: Promise<{ storeId: string; categoryId: string }> }
@@ -17,16 +20,29 @@ export async function GET(
       );
     }
 
-    const category = await prismadb.category.findUnique({
-      where: { id: categoryId, storeId },
-      include: { Billboard: true },
-    });
+    const [category, categories] = await Promise.all([
+      prismadb.category.findUnique({
+        where: { id: categoryId, storeId },
+        include: { Billboard: true },
+      }),
+      prismadb.category.findMany({
+        where: { storeId },
+      }),
+    ]);
 
     if (!category) {
       return NextResponse.json({ error: 'Category not found' }, { status: 404 });
     }
 
-    return NextResponse.json(category);
+    // Without the category itself, its direct children become the roots of the subtree
+    const descendantIds = new Set(collectDescendantIds(categories, categoryId).slice(1));
+    const children = buildCategoryTree(categories.filter((item) => descendantIds.has(item.id)));
+
+    return NextResponse.json({
+      ...category,
+      breadcrumbs: getCategoryBreadcrumbs(categories, categoryId),
+      children,
+    });
   } catch (error) {
     console.error('[CATEGORY_GET]', error);
     return NextResponse.json(
@@ -44,7 +60,8 @@ export async function PATCH(
   try {
     const { userId } = await auth();
     const { storeId, categoryId } = await context.params;
-    const { name, billboardId } = await req.json();
+    const body = await req.json();
+    const { name, billboardId } = body;
 
     if (!userId) {
       return NextResponse.json({ error: 'Unauthenticated' }, { status: 401 });
@@ -72,11 +89,46 @@ export async function PATCH(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
     }
 
-    const updatedCategory = await prismadb.category.update({
-      where: { id: categoryId },
-      data: { name, billboardId },
+    // parentId is only changed when sent; null moves the category to the root
+    const parentId: string | null | undefined =
+      body.parentId === undefined ? undefined : body.parentId || null;
+
+    // A category moved to another parent goes to the end of its new siblings
+    let position: number | undefined;
+
+    if (parentId !== undefined) {
+      const parentCheck = await validateCategoryParent(storeId, categoryId, parentId);
+      if (!parentCheck.success) {
+        return NextResponse.json({ error: parentCheck.reason }, { status: 400 });
+      }
+
+      const current = await prismadb.category.findFirst({
+        where: { id: categoryId, storeId },
+        select: { parentId: true },
+      });
+      if (current && current.parentId !== parentId) {
+        position = await getNextCategoryPosition(storeId, parentId);
+      }
+    }
+
+    // Search documents carry the category name, so a rename reindexes its products
+    const products = await prismadb.products.findMany({
+      where: { categoryId, storeId, Category: { name: { not: name } } },
+      select: { id: true },
     });
 
+    const [updatedCategory] = await prismadb.$transaction([
+      prismadb.category.update({
+        where: { id: categoryId, storeId },
+        data: { name, billboardId, parentId, position, updatedAt: new Date() },
+      }),
+      enqueueSearchSync(storeId, products.map((product) => product.id), 'UPSERT'),
+    ]);
+
+    if (products.length > 0) {
+      await requestSearchSync();
+    }
+
     return NextResponse.json(updatedCategory);
   } catch (error) {
     console.error('[CATEGORY_PATCH]', error);
@@ -115,6 +167,17 @@ export async function DELETE(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
     }
 
+    const childCount = await prismadb.category.count({
+      where: { parentId: categoryId },
+    });
+
+    if (childCount > 0) {
+      return NextResponse.json(
+        { error: 'Move or delete the subcategories of this category first' },
+        { status: 400 }
+      );
+    }
+
     const deletedCategory = await prismadb.category.delete({
       where: { id: categoryId },
     });
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import prismadb from "@/lib/prismadb";
+import { createMissingCategories } from "@/lib/categories";
+import { categoryImportSchema } from "@/lib/validation/category-schema";
+
+// POST: Create the categories a CSV import refers to by name but that don't exist yet
+export async function POST(
+  req: Request,
+  context: { params: Promise<{ storeId: string }> }
+) {
+  try {
+    const { storeId } = await context.params;
+    const { userId } = await auth();
+    const body = await req.json().catch(() => ({}));
+
+    if (!userId) {
+      return new NextResponse("Unauthenticated", { status: 401 });
+    }
+
+    const parsed = categoryImportSchema.safeParse(body);
+    if (!parsed.success) {
+      return new NextResponse(parsed.error.errors[0]?.message ?? "Invalid categories", { status: 400 });
+    }
+
+    const store = await prismadb.store.findFirst({
+      where: { id: storeId, userId },
+    });
+
+    if (!store) {
+      return new NextResponse("Unauthorized", { status: 403 });
+    }
+
+    const billboard = await prismadb.billboard.findFirst({
+      where: { id: parsed.data.billboardId, storeId },
+    });
+
+    if (!billboard) {
+      return new NextResponse("Billboard not found", { status: 400 });
+    }
+
+    const result = await createMissingCategories(storeId, parsed.data.references, billboard.id);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("[CATEGORIES_IMPORT]", error);
+    return new NextResponse("Internal Server Error", { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import prismadb from "@/lib/prismadb";
+import { moveCategories } from "@/lib/categories";
+import { categoryReorderSchema } from "@/lib/validation/category-schema";
+
+// PATCH: Save parent and position changes from the category tree editor
+export async function PATCH(
+  req: Request,
+  context: { params: Promise<{ storeId: string }> }
+) {
+  try {
+    const { storeId } = await context.params;
+    const { userId } = await auth();
+    const body = await req.json().catch(() => ({}));
+
+    if (!userId) {
+      return new NextResponse("Unauthenticated", { status: 401 });
+    }
+
+    const parsed = categoryReorderSchema.safeParse(body);
+    if (!parsed.success) {
+      return new NextResponse(parsed.error.errors[0]?.message ?? "Invalid reorder", { status: 400 });
+    }
+
+    const store = await prismadb.store.findFirst({
+      where: { id: storeId, userId },
+    });
+
+    if (!store) {
+      return new NextResponse("Unauthorized", { status: 403 });
+    }
+
+    const result = await moveCategories(storeId, parsed.data.moves);
+
+    if (!result.success) {
+      return new NextResponse(result.reason, { status: 400 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("[CATEGORIES_REORDER]", error);
+    return new NextResponse("Internal Server Error", { status: 500 });
+  }
+}
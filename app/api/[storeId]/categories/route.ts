@@ -1,6 +1,8 @@
 import { NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import prismadb from "@/lib/prismadb";
+import { getNextCategoryPosition, validateCategoryParent } from "@/lib/categories";
+import { buildCategoryTree, getCategoryBreadcrumbs } from "@/lib/category-tree";
 
 // Dynamic CORS headers based on origin
 const getCorsHeaders = (origin: string | null) => {
@@ -43,6 +45,7 @@ export async function POST(
     const { userId } = await auth();
     const body = await req.json();
     const { name, billboardId } = body;
+    const parentId: string | null = body.parentId || null;
 
     if (!userId) {
       return new NextResponse("Unauthenticated", { status: 401, headers: corsHeaders });
@@ -62,8 +65,21 @@ export async function POST(
       return new NextResponse("Unauthorized", { status: 403, headers: corsHeaders });
     }
 
+    const parentCheck = await validateCategoryParent(storeId, null, parentId);
+    if (!parentCheck.success) {
+      return new NextResponse(parentCheck.reason, { status: 400, headers: corsHeaders });
+    }
+
     const category = await prismadb.category.create({
-      data: { id: crypto.randomUUID(), name, billboardId, storeId, updatedAt: new Date() },
+      data: {
+        id: crypto.randomUUID(),
+        name,
+        billboardId,
+        storeId,
+        parentId,
+        position: await getNextCategoryPosition(storeId, parentId),
+        updatedAt: new Date(),
+      },
     });
 
     return NextResponse.json(category, { headers: corsHeaders });
@@ -73,7 +89,7 @@ export async function POST(
   }
 }
 
-// GET: Fetch categories
+// GET: Fetch categories with their breadcrumbs (?tree=true nests them instead)
 export async function GET(
   req: Request,
   context: { params: Promise<{ storeId: string }> }
@@ -84,11 +100,23 @@ export async function GET(
   try {
     const { storeId } = await context.params; // Await params to access storeId
 
+    const { searchParams } = new URL(req.url);
+
     const categories = await prismadb.category.findMany({
       where: { storeId },
+      orderBy: [{ position: "asc" }, { name: "asc" }],
     });
 
-    return NextResponse.json(categories, { headers: corsHeaders });
+    if (searchParams.get("tree") === "true") {
+      return NextResponse.json(buildCategoryTree(categories), { headers: corsHeaders });
+    }
+
+    const withBreadcrumbs = categories.map((category) => ({
+      ...category,
+      breadcrumbs: getCategoryBreadcrumbs(categories, category.id),
+    }));
+
+    return NextResponse.json(withBreadcrumbs, { headers: corsHeaders });
   } catch (error) {
     console.error("[CATEGORY_GET]", error);
     return new NextResponse("Internal Server Error", { status: 500, headers: corsHeaders });
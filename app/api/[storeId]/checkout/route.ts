@@ -4,6 +4,8 @@ import { Prisma } from "@prisma/client";
 import { NextResponse } from "next/server";
 import { Stripe } from "stripe";
 import { verifyCustomerToken } from "@/lib/verify-customer-token";
+import { claimCouponRedemption, releaseCouponRedemption, validateCoupon } from "@/lib/coupons";
+import { buildCheckoutLines, getSellableFiles } from "@/lib/product-files";
 
 // Dynamic CORS headers based on origin
 const getCorsHeaders = (origin: string | null) => {
@@ -62,9 +64,11 @@ export async function POST(
       });
     }
 
-    const { productIds, email } = body;
+    const { productIds = [], email, couponCode } = body;
+    // Files sold on their own at their own price, e.g. just the Figma version of a mockup
+    const fileIds: string[] = Array.isArray(body.fileIds) ? body.fileIds : [];
 
-    if (!productIds || productIds.length === 0) {
+    if (productIds.length === 0 && fileIds.length === 0) {
       console.error("[CHECKOUT_ERROR] Missing productIds");
       return new NextResponse("Product IDs are required.", {
         status: 400,
@@ -125,7 +129,7 @@ export async function POST(
     console.log("[CHECKOUT_DEBUG] Found products:", products.map(p => ({ id: p.id, name: p.name })));
     console.log("[CHECKOUT_DEBUG] Missing product IDs:", productIds.filter((id: string) => !products.find(p => p.id === id)));
 
-    if (products.length === 0) {
+    if (productIds.length > 0 && products.length === 0) {
       console.error("[CHECKOUT_ERROR] No products found for the given IDs:", productIds);
       return new NextResponse("No valid products found", {
         status: 400,
@@ -144,35 +148,78 @@ export async function POST(
 
     console.log("[CHECKOUT_INFO] Found products:", products.length);
 
-    // Log individual product prices
-    products.forEach((product) => {
-      console.log(`[CHECKOUT_INFO] Product: ${product.name}, Price: $${product.price.toNumber()}, Price in cents: ${product.price.toNumber() * 100}`);
+    const files = fileIds.length > 0 ? await getSellableFiles(storeId, fileIds) : [];
+
+    if (files.length !== fileIds.length) {
+      const missingIds = fileIds.filter((id) => !files.find((file) => file.id === id));
+      console.error("[CHECKOUT_ERROR] Some files not found or not sold separately. IDs:", missingIds);
+      return new NextResponse(`Files not for sale: ${missingIds.join(', ')}`, {
+        status: 400,
+        headers: corsHeaders,
+      });
+    }
+
+    const lines = buildCheckoutLines(products, files);
+
+    // Log individual line prices
+    lines.forEach((line) => {
+      console.log(`[CHECKOUT_INFO] Line: ${line.name}, Price: $${line.price.toNumber()}, Price in cents: ${line.price.toNumber() * 100}`);
     });
 
-    const totalPrice = products.reduce((total, product) => {
-      return total + product.price.toNumber();
+    const totalPrice = lines.reduce((total, line) => {
+      return total + line.price.toNumber();
     }, 0);
 
     console.log("[CHECKOUT_INFO] Total price (dollars):", totalPrice);
     console.log("[CHECKOUT_INFO] Total price (cents):", totalPrice * 100);
 
-    if (totalPrice < 0.6) {
-      console.error("[CHECKOUT_ERROR] Price below minimum:", totalPrice);
+    let discountAmount = 0;
+    let appliedCoupon: { id: string; code: string } | null = null;
+
+    if (couponCode) {
+      const couponResult = await validateCoupon({
+        storeId,
+        code: couponCode,
+        userId,
+        products: lines.map((line) => ({
+          id: line.productId,
+          categoryId: line.categoryId,
+          price: line.price.toNumber(),
+        })),
+      });
+
+      if (!couponResult.valid) {
+        console.error("[CHECKOUT_ERROR] Coupon rejected:", couponCode, couponResult.reason);
+        return new NextResponse(couponResult.reason, {
+          status: 400,
+          headers: corsHeaders,
+        });
+      }
+
+      discountAmount = couponResult.discount;
+      appliedCoupon = { id: couponResult.coupon.id, code: couponResult.coupon.code };
+      console.log("[CHECKOUT_INFO] Coupon applied:", appliedCoupon.code, "Discount (dollars):", discountAmount);
+    }
+
+    const amountDue = Math.round((totalPrice - discountAmount) * 100) / 100;
+
+    if (amountDue < 0.6) {
+      console.error("[CHECKOUT_ERROR] Price below minimum:", amountDue);
       return new NextResponse("Minimun payment amount is 0.60", {
         status: 400,
         headers: corsHeaders,
       });
     }
 
-    const line_items: Stripe.Checkout.SessionCreateParams.LineItem[] = products.map((product) => {
-      const unitAmount = Math.round(product.price.toNumber() * 100);
-      console.log(`[CHECKOUT_INFO] Line item - Product: ${product.name}, Unit amount (cents): ${unitAmount}`);
+    const line_items: Stripe.Checkout.SessionCreateParams.LineItem[] = lines.map((line) => {
+      const unitAmount = Math.round(line.price.toNumber() * 100);
+      console.log(`[CHECKOUT_INFO] Line item - Product: ${line.name}, Unit amount (cents): ${unitAmount}`);
       return {
         quantity: 1,
         price_data: {
           currency: "USD",
           product_data: {
-            name: product.name,
+            name: line.name,
           },
           unit_amount: unitAmount,
         },
@@ -186,45 +233,94 @@ export async function POST(
 
     console.log("[CHECKOUT_INFO] Creating order in database");
     console.log("[CHECKOUT_DEBUG] Product IDs to connect:", productIds);
+    console.log("[CHECKOUT_DEBUG] File IDs to connect:", fileIds);
     console.log("[CHECKOUT_DEBUG] Found products count:", products.length);
     console.log("[CHECKOUT_DEBUG] Found product IDs:", products.map(p => p.id));
     
-    const order = await prismadb.order.create({
-      data: {
-        id: crypto.randomUUID(),
-        storeId,
-        isPaid: false,
-        email,
-        userId,
-        price: new Prisma.Decimal(totalPrice),
-        OrderItem: {
-          create: productIds.map((productId: string) => ({
-            id: crypto.randomUUID(),
-            products: { connect: { id: productId } },
-          })),
+    // The coupon redemption is claimed in the transaction that creates the
+    // order, so a failed create gives it back
+    const order = await prismadb.$transaction(async (tx) => {
+      if (appliedCoupon && !(await claimCouponRedemption(appliedCoupon.id, tx))) {
+        return null;
+      }
+
+      return tx.order.create({
+        data: {
+          id: crypto.randomUUID(),
+          storeId,
+          isPaid: false,
+          email,
+          userId,
+          price: new Prisma.Decimal(amountDue),
+          couponId: appliedCoupon?.id,
+          couponCode: appliedCoupon?.code,
+          discountAmount: new Prisma.Decimal(discountAmount),
+          OrderItem: {
+            create: lines.map((line) => ({
+              id: crypto.randomUUID(),
+              products: { connect: { id: line.productId } },
+              fileId: line.fileId,
+              price: line.price,
+            })),
+          },
+          updatedAt: new Date(),
         },
-        updatedAt: new Date(),
-      },
+      });
     });
 
+    if (!order) {
+      console.error("[CHECKOUT_ERROR] Coupon usage limit reached:", appliedCoupon?.code);
+      return new NextResponse("This coupon has reached its usage limit.", {
+        status: 400,
+        headers: corsHeaders,
+      });
+    }
+
     console.log("[CHECKOUT_INFO] Order created:", order.id);
     console.log("[CHECKOUT_INFO] Order total price:", order.price ? order.price.toNumber() : "N/A");
     console.log("[CHECKOUT_INFO] Creating Stripe checkout session");
 
-    const session = await stripe.checkout.sessions.create({
-      line_items,
-      mode: "payment",
-      billing_address_collection: "required",
-      phone_number_collection: { enabled: true },
-      customer_creation: "always",
-      success_url: `${process.env.FRONTEND_STORE_URL}/thank-you?session_id={CHECKOUT_SESSION_ID}`,
-      cancel_url: `${process.env.FRONTEND_STORE_URL}/cart?canceled=1`,
-      metadata: {
-        orderId: order.id,
-        email,
-        expectedTotal: totalPrice.toString(),
-      },
-    });
+    let session: Stripe.Checkout.Session;
+    try {
+      // One-off Stripe coupon so the discount shows on the Stripe checkout page and receipt
+      let discounts: Stripe.Checkout.SessionCreateParams.Discount[] | undefined;
+      if (appliedCoupon && discountAmount > 0) {
+        const stripeCoupon = await stripe.coupons.create({
+          amount_off: Math.round(discountAmount * 100),
+          currency: "usd",
+          duration: "once",
+          max_redemptions: 1,
+          name: appliedCoupon.code,
+          metadata: {
+            orderId: order.id,
+            couponId: appliedCoupon.id,
+          },
+        });
+        discounts = [{ coupon: stripeCoupon.id }];
+      }
+
+      session = await stripe.checkout.sessions.create({
+        line_items,
+        discounts,
+        mode: "payment",
+        billing_address_collection: "required",
+        phone_number_collection: { enabled: true },
+        customer_creation: "always",
+        success_url: `${process.env.FRONTEND_STORE_URL}/thank-you?session_id={CHECKOUT_SESSION_ID}`,
+        cancel_url: `${process.env.FRONTEND_STORE_URL}/cart?canceled=1`,
+        metadata: {
+          orderId: order.id,
+          email,
+          expectedTotal: amountDue.toString(),
+          couponCode: appliedCoupon?.code ?? "",
+          discountAmount: discountAmount.toString(),
+        },
+      });
+    } catch (stripeError) {
+      // The order can't be paid without a session, so its coupon redemption goes back
+      await releaseCouponRedemption(order.id);
+      throw stripeError;
+    }
 
     console.log("[CHECKOUT_INFO] Stripe session created:", session.id);
     console.log("[CHECKOUT_INFO] Stripe session amount_total (cents):", session.amount_total);
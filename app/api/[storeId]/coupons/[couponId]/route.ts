@@ -0,0 +1,93 @@
+import prismadb from "@/lib/prismadb";
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { couponSchema } from "@/lib/validation/coupon-schema";
+
+// PATCH: Update a specific coupon
+export async function PATCH(
+  req: Request,
+  context: { params: Promise<{ storeId: string; couponId: string }> }
+) {
+  try {
+    const { storeId, couponId } = await context.params;
+    const { userId } = await auth();
+    const body = await req.json();
+
+    if (!userId) {
+      return new NextResponse("Unauthenticated", { status: 401 });
+    }
+    if (!couponId) {
+      return new NextResponse("Coupon ID is required", { status: 400 });
+    }
+
+    const parsed = couponSchema.safeParse(body);
+    if (!parsed.success) {
+      return new NextResponse(parsed.error.errors[0]?.message ?? "Invalid coupon", { status: 400 });
+    }
+
+    const storeByUserId = await prismadb.store.findFirst({
+      where: { id: storeId, userId },
+    });
+
+    if (!storeByUserId) {
+      return new NextResponse("Unauthorized", { status: 403 });
+    }
+
+    const duplicate = await prismadb.coupon.findFirst({
+      where: { storeId, code: parsed.data.code, NOT: { id: couponId } },
+      select: { id: true },
+    });
+
+    if (duplicate) {
+      return new NextResponse("A coupon with this code already exists", { status: 400 });
+    }
+
+    const coupon = await prismadb.coupon.update({
+      where: { id: couponId, storeId },
+      data: {
+        ...parsed.data,
+        updatedAt: new Date(),
+      },
+    });
+
+    return NextResponse.json(coupon);
+  } catch (error) {
+    console.error("[COUPON_PATCH]", error);
+    return new NextResponse("Internal Server Error", { status: 500 });
+  }
+}
+
+// DELETE: Remove a specific coupon (orders keep the code they were placed with)
+export async function DELETE(
+  req: Request,
+  context: { params: Promise<{ storeId: string; couponId: string }> }
+) {
+  try {
+    const { storeId, couponId } = await context.params;
+    const { userId } = await auth();
+
+    if (!userId) {
+      return new NextResponse("Unauthenticated", { status: 401 });
+    }
+    if (!couponId) {
+      return new NextResponse("Coupon ID is required", { status: 400 });
+    }
+
+    const storeByUserId = await prismadb.store.findFirst({
+      where: { id: storeId, userId },
+    });
+
+    if (!storeByUserId) {
+      return new NextResponse("Unauthorized", { status: 403 });
+    }
+
+    const coupon = await prismadb.coupon.delete({
+      where: { id: couponId, storeId },
+    });
+
+    return NextResponse.json(coupon);
+  } catch (error) {
+    console.error("[COUPON_DELETE]", error);
+    return new NextResponse("Internal Server Error", { status: 500 });
+  }
+}
@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import prismadb from "@/lib/prismadb";
+import { couponSchema } from "@/lib/validation/coupon-schema";
+
+// POST: Create a coupon
+export async function POST(
+  req: Request,
+  context: { params: Promise<{ storeId: string }> }
+) {
+  try {
+    const { storeId } = await context.params;
+    const { userId } = await auth();
+    const body = await req.json();
+
+    if (!userId) {
+      return new NextResponse("Unauthenticated", { status: 401 });
+    }
+
+    const parsed = couponSchema.safeParse(body);
+    if (!parsed.success) {
+      return new NextResponse(parsed.error.errors[0]?.message ?? "Invalid coupon", { status: 400 });
+    }
+
+    const store = await prismadb.store.findFirst({
+      where: { id: storeId, userId },
+    });
+
+    if (!store) {
+      return new NextResponse("Unauthorized", { status: 403 });
+    }
+
+    const existing = await prismadb.coupon.findUnique({
+      where: { storeId_code: { storeId, code: parsed.data.code } },
+      select: { id: true },
+    });
+
+    if (existing) {
+      return new NextResponse("A coupon with this code already exists", { status: 400 });
+    }
+
+    const coupon = await prismadb.coupon.create({
+      data: {
+        id: crypto.randomUUID(),
+        storeId,
+        ...parsed.data,
+        updatedAt: new Date(),
+      },
+    });
+
+    return NextResponse.json(coupon);
+  } catch (error) {
+    console.error("[COUPON_POST]", error);
+    return new NextResponse("Internal Server Error", { status: 500 });
+  }
+}
+
+// GET: Fetch all coupons for a store
+export async function GET(
+  req: Request,
+  context: { params: Promise<{ storeId: string }> }
+) {
+  try {
+    const { storeId } = await context.params;
+    const { userId } = await auth();
+
+    if (!userId) {
+      return new NextResponse("Unauthenticated", { status: 401 });
+    }
+
+    const store = await prismadb.store.findFirst({
+      where: { id: storeId, userId },
+    });
+
+    if (!store) {
+      return new NextResponse("Unauthorized", { status: 403 });
+    }
+
+    const coupons = await prismadb.coupon.findMany({
+      where: { storeId },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json(coupons);
+  } catch (error) {
+    console.error("[COUPON_GET]", error);
+    return new NextResponse("Internal Server Error", { status: 500 });
+  }
+}
@@ -0,0 +1,123 @@
+import { NextResponse } from "next/server";
+import prismadb from "@/lib/prismadb";
+import { validateCoupon } from "@/lib/coupons";
+import { verifyCustomerToken } from "@/lib/verify-customer-token";
+
+// Dynamic CORS headers based on origin
+const getCorsHeaders = (origin: string | null) => {
+  const allowedOrigins = [
+    "https://brandexme.com",
+    "https://www.brandexme.com",
+    "http://localhost:3000",
+    "http://localhost:3001",
+  ];
+
+  const allowOrigin = origin && allowedOrigins.includes(origin) ? origin : "*";
+
+  return {
+    "Access-Control-Allow-Origin": allowOrigin,
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    "Access-Control-Allow-Credentials": allowOrigin !== "*" ? "true" : "false",
+    "Access-Control-Max-Age": "86400", // 24 hours
+  };
+};
+
+export async function OPTIONS(req: Request) {
+  const origin = req.headers.get("origin");
+  return new NextResponse(null, {
+    status: 200,
+    headers: getCorsHeaders(origin),
+  });
+}
+
+// POST: Check a coupon code against a cart before checkout
+export async function POST(
+  req: Request,
+  context: { params: Promise<{ storeId: string }> }
+) {
+  const origin = req.headers.get("origin");
+  const corsHeaders = getCorsHeaders(origin);
+
+  try {
+    const { storeId } = await context.params;
+
+    let body;
+    try {
+      body = await req.json();
+    } catch {
+      return new NextResponse("Invalid JSON in request body", {
+        status: 400,
+        headers: corsHeaders,
+      });
+    }
+
+    const { code, productIds } = body;
+
+    if (!code || typeof code !== "string") {
+      return new NextResponse("Coupon code is required.", { status: 400, headers: corsHeaders });
+    }
+
+    if (!Array.isArray(productIds) || productIds.length === 0) {
+      return new NextResponse("Product IDs are required.", { status: 400, headers: corsHeaders });
+    }
+
+    // Token is optional here; without it per-customer limits can't be checked
+    let userId: string | null = null;
+    const authHeader = req.headers.get("authorization");
+    if (authHeader?.startsWith("Bearer ")) {
+      try {
+        userId = await verifyCustomerToken(authHeader.replace("Bearer ", ""));
+      } catch (tokenError) {
+        console.warn("[COUPON_VALIDATE] Optional token verification failed, continuing as guest", tokenError);
+      }
+    }
+
+    const products = await prismadb.products.findMany({
+      where: {
+        id: { in: productIds },
+        storeId,
+      },
+      select: {
+        id: true,
+        categoryId: true,
+        price: true,
+      },
+    });
+
+    const result = await validateCoupon({
+      storeId,
+      code,
+      userId,
+      products: products.map((product) => ({
+        id: product.id,
+        categoryId: product.categoryId,
+        price: product.price.toNumber(),
+      })),
+    });
+
+    if (!result.valid) {
+      return NextResponse.json(
+        { valid: false, reason: result.reason },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        valid: true,
+        code: result.coupon.code,
+        type: result.coupon.type,
+        amount: result.coupon.amount.toNumber(),
+        eligibleProductIds: result.eligibleProductIds,
+        subtotal: result.subtotal,
+        discount: result.discount,
+        total: result.total,
+      },
+      { headers: corsHeaders }
+    );
+  } catch (error) {
+    console.error("[COUPON_VALIDATE]", error);
+    return new NextResponse("Internal Server Error", { status: 500, headers: corsHeaders });
+  }
+}
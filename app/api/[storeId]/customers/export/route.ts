@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import Papa from "papaparse";
+import prismadb from "@/lib/prismadb";
+import { getCustomers } from "@/lib/customers";
+
+// GET: Download the customer directory as CSV
+export async function GET(
+  req: Request,
+  context: { params: Promise<{ storeId: string }> }
+) {
+  try {
+    const { storeId } = await context.params;
+    const { userId } = await auth();
+
+    if (!userId) {
+      return new NextResponse("Unauthenticated", { status: 401 });
+    }
+
+    const store = await prismadb.store.findFirst({
+      where: { id: storeId, userId },
+    });
+
+    if (!store) {
+      return new NextResponse("Unauthorized", { status: 403 });
+    }
+
+    const search = new URL(req.url).searchParams.get("q")?.trim().toLowerCase();
+    const customers = (await getCustomers(storeId)).filter(
+      (customer) =>
+        !search ||
+        customer.email?.toLowerCase().includes(search) ||
+        customer.userId?.toLowerCase().includes(search)
+    );
+
+    const csv = Papa.unparse(
+      customers.map((customer) => ({
+        userId: customer.userId ?? "",
+        email: customer.email ?? "",
+        orders: customer.orders,
+        paidOrders: customer.paidOrders,
+        lifetimeSpend: customer.lifetimeSpend.toFixed(2),
+        downloads: customer.downloads,
+        subscriptionStatus: customer.subscriptionStatus ?? "",
+        plan: customer.planName ?? "",
+        firstSeen: customer.firstSeen.toISOString(),
+        lastSeen: customer.lastSeen.toISOString(),
+      })),
+      { header: true }
+    );
+
+    return new NextResponse(csv, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="customers-${new Date().toISOString().split("T")[0]}.csv"`,
+      },
+    });
+  } catch (error) {
+    console.error("[CUSTOMERS_EXPORT]", error);
+    return new NextResponse("Internal Server Error", { status: 500 });
+  }
+}
@@ -0,0 +1,102 @@
+import prismadb from "@/lib/prismadb";
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+
+const parseLimit = (value: unknown): number | null | undefined => {
+  if (value === undefined) return undefined;
+  if (value === null || value === "") return null;
+
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 0) return undefined;
+
+  return limit;
+};
+
+// GET: Retrieve the store's download quota rules
+export async function GET(
+  req: Request,
+  context: { params: Promise<{ storeId: string }> }
+) {
+  try {
+    const { storeId } = await context.params;
+    const { userId } = await auth();
+
+    if (!userId) {
+      return new NextResponse("Unauthenticated", { status: 401 });
+    }
+
+    const storeByUserId = await prismadb.store.findFirst({
+      where: { id: storeId, userId },
+    });
+
+    if (!storeByUserId) {
+      return new NextResponse("Unauthorized", { status: 403 });
+    }
+
+    const quota = await prismadb.downloadQuota.findUnique({
+      where: { storeId },
+    });
+
+    return NextResponse.json(quota);
+  } catch (error) {
+    console.error("[DownloadQuota_GET]", error);
+    return new NextResponse("Internal Server Error", { status: 500 });
+  }
+}
+
+// PATCH: Create or update the store's download quota rules
+export async function PATCH(
+  req: Request,
+  context: { params: Promise<{ storeId: string }> }
+) {
+  try {
+    const { storeId } = await context.params;
+    const { userId } = await auth();
+    const body = await req.json();
+
+    if (!userId) {
+      return new NextResponse("Unauthenticated", { status: 401 });
+    }
+
+    const premiumPerPeriod = parseLimit(body.premiumPerPeriod);
+    const premiumPerDay = parseLimit(body.premiumPerDay);
+
+    if (body.premiumPerPeriod !== undefined && premiumPerPeriod === undefined) {
+      return new NextResponse("Period limit must be a non-negative integer", { status: 400 });
+    }
+
+    if (body.premiumPerDay !== undefined && premiumPerDay === undefined) {
+      return new NextResponse("Daily limit must be a non-negative integer", { status: 400 });
+    }
+
+    const storeByUserId = await prismadb.store.findFirst({
+      where: { id: storeId, userId },
+    });
+
+    if (!storeByUserId) {
+      return new NextResponse("Unauthorized", { status: 403 });
+    }
+
+    const data = {
+      isEnabled: typeof body.isEnabled === "boolean" ? body.isEnabled : true,
+      premiumPerPeriod: premiumPerPeriod ?? null,
+      premiumPerDay: premiumPerDay ?? null,
+      updatedAt: new Date(),
+    };
+
+    const quota = await prismadb.downloadQuota.upsert({
+      where: { storeId },
+      create: {
+        id: crypto.randomUUID(),
+        storeId,
+        ...data,
+      },
+      update: data,
+    });
+
+    return NextResponse.json(quota);
+  } catch (error) {
+    console.error("[DownloadQuota_PATCH]", error);
+    return new NextResponse("Internal Server Error", { status: 500 });
+  }
+}
@@ -0,0 +1,86 @@
+import prismadb from "@/lib/prismadb";
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { generationSettingsSchema } from "@/lib/validation/generation-schema";
+
+// GET: Retrieve the store's AI generation settings
+export async function GET(
+  req: Request,
+  context: { params: Promise<{ storeId: string }> }
+) {
+  try {
+    const { storeId } = await context.params;
+    const { userId } = await auth();
+
+    if (!userId) {
+      return new NextResponse("Unauthenticated", { status: 401 });
+    }
+
+    const storeByUserId = await prismadb.store.findFirst({
+      where: { id: storeId, userId },
+    });
+
+    if (!storeByUserId) {
+      return new NextResponse("Unauthorized", { status: 403 });
+    }
+
+    const settings = await prismadb.generationSettings.findUnique({
+      where: { storeId },
+    });
+
+    return NextResponse.json(settings);
+  } catch (error) {
+    console.error("[GenerationSettings_GET]", error);
+    return new NextResponse("Internal Server Error", { status: 500 });
+  }
+}
+
+// PATCH: Choose the vision provider (and model) used to generate products from images
+export async function PATCH(
+  req: Request,
+  context: { params: Promise<{ storeId: string }> }
+) {
+  try {
+    const { storeId } = await context.params;
+    const { userId } = await auth();
+
+    if (!userId) {
+      return new NextResponse("Unauthenticated", { status: 401 });
+    }
+
+    const parsed = generationSettingsSchema.safeParse(await req.json());
+
+    if (!parsed.success) {
+      return new NextResponse(parsed.error.errors[0]?.message ?? "Invalid settings", { status: 400 });
+    }
+
+    const storeByUserId = await prismadb.store.findFirst({
+      where: { id: storeId, userId },
+    });
+
+    if (!storeByUserId) {
+      return new NextResponse("Unauthorized", { status: 403 });
+    }
+
+    const data = {
+      provider: parsed.data.provider,
+      model: parsed.data.model || null,
+      updatedAt: new Date(),
+    };
+
+    const settings = await prismadb.generationSettings.upsert({
+      where: { storeId },
+      create: {
+        id: crypto.randomUUID(),
+        storeId,
+        ...data,
+      },
+      update: data,
+    });
+
+    return NextResponse.json(settings);
+  } catch (error) {
+    console.error("[GenerationSettings_PATCH]", error);
+    return new NextResponse("Internal Server Error", { status: 500 });
+  }
+}
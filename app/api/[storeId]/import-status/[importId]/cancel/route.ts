@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import prismadb from "@/lib/prismadb";
+
+// POST: Cancel an import that is still processing; chunks already written stay applied.
+// The import is CANCELLING until its running chunks finish, then CANCELLED.
+export async function POST(
+  req: Request,
+  context: { params: Promise<{ storeId: string; importId: string }> }
+) {
+  try {
+    const { storeId, importId } = await context.params;
+    const { userId } = await auth();
+
+    if (!userId) {
+      return new NextResponse("Unauthenticated", { status: 401 });
+    }
+
+    const store = await prismadb.store.findFirst({
+      where: { id: storeId, userId },
+    });
+
+    if (!store) {
+      return new NextResponse("Unauthorized", { status: 403 });
+    }
+
+    // Only flip PROCESSING, so an import that just finished isn't marked cancelled.
+    // Chunks that haven't started see the status and skip their rows.
+    const { count } = await prismadb.product_import_logs.updateMany({
+      where: { id: importId, storeId, status: "PROCESSING" },
+      data: { status: "CANCELLING" },
+    });
+
+    const importLog = await prismadb.product_import_logs.findFirst({
+      where: { id: importId, storeId },
+    });
+
+    if (!importLog) {
+      return new NextResponse("Import log not found", { status: 404 });
+    }
+
+    if (count === 0) {
+      return new NextResponse(`Only imports that are processing can be cancelled (status: ${importLog.status})`, { status: 400 });
+    }
+
+    console.log(`[IMPORT_CANCEL] Import ${importId} cancelled by ${userId}`, {
+      processedRows: importLog.processedRows,
+      totalRows: importLog.totalRows,
+    });
+
+    return NextResponse.json(importLog);
+  } catch (error) {
+    console.error("[IMPORT_CANCEL]", error);
+    return new NextResponse("Internal error", { status: 500 });
+  }
+}
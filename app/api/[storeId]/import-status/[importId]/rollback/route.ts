@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import prismadb from "@/lib/prismadb";
+import { rollbackImport } from "@/lib/import-rollback";
+
+// POST: Undo a completed import (delete created products, restore updated ones)
+export async function POST(
+  req: Request,
+  context: { params: Promise<{ storeId: string; importId: string }> }
+) {
+  try {
+    const { storeId, importId } = await context.params;
+    const { userId } = await auth();
+
+    if (!userId) {
+      return new NextResponse("Unauthenticated", { status: 401 });
+    }
+
+    const store = await prismadb.store.findFirst({
+      where: { id: storeId, userId },
+    });
+
+    if (!store) {
+      return new NextResponse("Unauthorized", { status: 403 });
+    }
+
+    const importLog = await prismadb.product_import_logs.findFirst({
+      where: { id: importId, storeId },
+    });
+
+    if (!importLog) {
+      return new NextResponse("Import log not found", { status: 404 });
+    }
+
+    const result = await rollbackImport(importLog);
+
+    if (!result.success) {
+      return new NextResponse(result.reason, { status: 400 });
+    }
+
+    console.log(`[IMPORT_ROLLBACK] Import ${importId} rolled back by ${userId}`, {
+      deleted: result.deleted,
+      archived: result.archived,
+      restored: result.restored,
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("[IMPORT_ROLLBACK]", error);
+    return new NextResponse("Internal error", { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import prismadb from "@/lib/prismadb";
+import { refundOrder } from "@/lib/refunds";
+import { refundSchema } from "@/lib/validation/refund-schema";
+
+// POST: Refund an order (fully, or partially when an amount is given)
+export async function POST(
+  req: Request,
+  context: { params: Promise<{ storeId: string; orderId: string }> }
+) {
+  try {
+    const { storeId, orderId } = await context.params;
+    const { userId } = await auth();
+    const body = await req.json().catch(() => ({}));
+
+    if (!userId) {
+      return new NextResponse("Unauthenticated", { status: 401 });
+    }
+
+    const parsed = refundSchema.safeParse(body);
+    if (!parsed.success) {
+      return new NextResponse(parsed.error.errors[0]?.message ?? "Invalid refund", { status: 400 });
+    }
+
+    const store = await prismadb.store.findFirst({
+      where: { id: storeId, userId },
+    });
+
+    if (!store) {
+      return new NextResponse("Unauthorized", { status: 403 });
+    }
+
+    const order = await prismadb.order.findFirst({
+      where: { id: orderId, storeId },
+    });
+
+    if (!order) {
+      return new NextResponse("Order not found", { status: 404 });
+    }
+
+    const result = await refundOrder(order, parsed.data.amount ?? undefined);
+
+    if (!result.success) {
+      return new NextResponse(result.reason, { status: 400 });
+    }
+
+    console.log(`[ORDER_REFUND] Order ${orderId} refunded by ${userId}`, {
+      amount: parsed.data.amount ?? "remaining",
+      reason: parsed.data.reason ?? null,
+      status: result.status,
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("[ORDER_REFUND]", error);
+    return new NextResponse(
+      error instanceof Error ? error.message : "Internal Server Error",
+      { status: 500 }
+    );
+  }
+}
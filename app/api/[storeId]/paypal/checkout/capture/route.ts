@@ -0,0 +1,132 @@
+import prismadb from "@/lib/prismadb";
+import { NextResponse } from "next/server";
+import { verifyCustomerToken } from "@/lib/verify-customer-token";
+import { capturePayPalOrder, isDeclinedPayPalCapture, type PayPalOrder } from "@/lib/paypal";
+import { markPayPalOrderPaid } from "@/lib/webhooks/paypal";
+
+// Dynamic CORS headers based on origin
+const getCorsHeaders = (origin: string | null) => {
+  const allowedOrigins = [
+    "https://brandexme.com",
+    "https://www.brandexme.com",
+    "http://localhost:3000",
+    "http://localhost:3001",
+  ];
+
+  const allowOrigin = origin && allowedOrigins.includes(origin) ? origin : "*";
+
+  return {
+    "Access-Control-Allow-Origin": allowOrigin,
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    "Access-Control-Allow-Credentials": allowOrigin !== "*" ? "true" : "false",
+    "Access-Control-Max-Age": "86400", // 24 hours
+  };
+};
+
+export async function OPTIONS(req: Request) {
+  const origin = req.headers.get("origin");
+  return new NextResponse(null, {
+    status: 200,
+    headers: getCorsHeaders(origin),
+  });
+}
+
+// POST: Capture an approved PayPal order after the buyer returns from PayPal
+export async function POST(
+  req: Request,
+  context: { params: Promise<{ storeId: string }> }
+) {
+  const origin = req.headers.get("origin");
+  const corsHeaders = getCorsHeaders(origin);
+
+  try {
+    const { storeId } = await context.params;
+    const { orderId } = await req.json().catch(() => ({}));
+
+    if (!orderId) {
+      return new NextResponse("Order ID is required.", { status: 400, headers: corsHeaders });
+    }
+
+    const authHeader = req.headers.get("authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return new NextResponse("Unauthorized - Missing or invalid authorization header", { status: 401, headers: corsHeaders });
+    }
+
+    let userId;
+    try {
+      userId = await verifyCustomerToken(authHeader.replace("Bearer ", ""));
+    } catch (tokenError) {
+      console.error("[PAYPAL_CAPTURE_ERROR] Token verification failed:", tokenError);
+      return new NextResponse("Invalid or expired token", { status: 401, headers: corsHeaders });
+    }
+
+    const order = await prismadb.order.findFirst({
+      where: { id: orderId, storeId, userId, paymentProvider: "paypal" },
+      include: {
+        OrderItem: {
+          include: {
+            products: {
+              select: { id: true, name: true },
+            },
+          },
+        },
+      },
+    });
+
+    if (!order || !order.sessionId) {
+      return new NextResponse("Order not found", { status: 404, headers: corsHeaders });
+    }
+
+    const orderItems = order.OrderItem.map((item) => ({
+      id: item.id,
+      productId: item.productId,
+      productName: item.products.name,
+      storeId: order.storeId,
+    }));
+
+    // The webhook may have captured it first
+    if (order.isPaid) {
+      return NextResponse.json({ status: "paid", orderItems }, { headers: corsHeaders });
+    }
+
+    let captured: PayPalOrder;
+    try {
+      captured = await capturePayPalOrder(order.sessionId);
+    } catch (captureError) {
+      if (!isDeclinedPayPalCapture(captureError)) {
+        throw captureError;
+      }
+
+      console.error("[PAYPAL_CAPTURE_ERROR] Capture declined for order:", order.id, captureError);
+      return NextResponse.json({ status: "unpaid", orderItems }, { status: 402, headers: corsHeaders });
+    }
+
+    const capture = captured.purchase_units?.[0]?.payments?.captures?.[0];
+
+    if (captured.status !== "COMPLETED" || !capture || capture.status !== "COMPLETED") {
+      console.error("[PAYPAL_CAPTURE_ERROR] Capture not completed:", captured.id, captured.status, capture?.status);
+      return NextResponse.json(
+        { status: capture?.status?.toLowerCase() ?? "unpaid", orderItems },
+        { status: 402, headers: corsHeaders }
+      );
+    }
+
+    await markPayPalOrderPaid(
+      order.id,
+      capture.id,
+      capture.amount?.value ? parseFloat(capture.amount.value) : undefined
+    );
+
+    return NextResponse.json({ status: "paid", orderItems }, { headers: corsHeaders });
+  } catch (error) {
+    console.error("[PAYPAL_CAPTURE_ERROR]", error);
+    return new NextResponse(
+      "Internal Server Error",
+      {
+        status: 500,
+        headers: corsHeaders
+      }
+    );
+  }
+}
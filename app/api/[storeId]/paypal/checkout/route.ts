@@ -0,0 +1,250 @@
+import prismadb from "@/lib/prismadb";
+import { Prisma } from "@prisma/client";
+import { NextResponse } from "next/server";
+import { verifyCustomerToken } from "@/lib/verify-customer-token";
+import { claimCouponRedemption, releaseCouponRedemption, validateCoupon } from "@/lib/coupons";
+import { createPayPalOrder } from "@/lib/paypal";
+import { buildCheckoutLines, getSellableFiles } from "@/lib/product-files";
+
+// Dynamic CORS headers based on origin
+const getCorsHeaders = (origin: string | null) => {
+  const allowedOrigins = [
+    "https://brandexme.com",
+    "https://www.brandexme.com",
+    "http://localhost:3000",
+    "http://localhost:3001",
+  ];
+
+  const allowOrigin = origin && allowedOrigins.includes(origin) ? origin : "*";
+
+  return {
+    "Access-Control-Allow-Origin": allowOrigin,
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    "Access-Control-Allow-Credentials": allowOrigin !== "*" ? "true" : "false",
+    "Access-Control-Max-Age": "86400", // 24 hours
+  };
+};
+
+export async function OPTIONS(req: Request) {
+  const origin = req.headers.get("origin");
+  return new NextResponse(null, {
+    status: 200,
+    headers: getCorsHeaders(origin),
+  });
+}
+
+// POST: Create our order and a matching PayPal order, returning the approval URL
+export async function POST(
+  req: Request,
+  context: { params: Promise<{ storeId: string }> }
+) {
+  const origin = req.headers.get("origin");
+  const corsHeaders = getCorsHeaders(origin);
+
+  try {
+    const { storeId } = await context.params;
+
+    let body;
+    try {
+      body = await req.json();
+    } catch {
+      return new NextResponse("Invalid JSON in request body", {
+        status: 400,
+        headers: corsHeaders,
+      });
+    }
+
+    const { email, couponCode } = body;
+    const productIds: string[] = Array.isArray(body.productIds) ? body.productIds : [];
+    // Files sold on their own at their own price
+    const fileIds: string[] = Array.isArray(body.fileIds) ? body.fileIds : [];
+
+    if (productIds.length === 0 && fileIds.length === 0) {
+      return new NextResponse("Product IDs are required.", {
+        status: 400,
+        headers: corsHeaders,
+      });
+    }
+
+    const authHeader = req.headers.get("authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return new NextResponse("Unauthorized - Missing or invalid authorization header", { status: 401, headers: corsHeaders });
+    }
+
+    let userId;
+    try {
+      userId = await verifyCustomerToken(authHeader.replace("Bearer ", ""));
+    } catch (tokenError) {
+      console.error("[PAYPAL_CHECKOUT_ERROR] Token verification failed:", tokenError);
+      return new NextResponse("Invalid or expired token", { status: 401, headers: corsHeaders });
+    }
+
+    if (!userId) {
+      return new NextResponse("Invalid or expired token", { status: 401, headers: corsHeaders });
+    }
+
+    const products = await prismadb.products.findMany({
+      where: {
+        id: {
+          in: productIds,
+        },
+        storeId,
+      },
+    });
+
+    if (products.length !== productIds.length) {
+      const missingIds = productIds.filter((id) => !products.find(p => p.id === id));
+      console.error("[PAYPAL_CHECKOUT_ERROR] Some products not found. Missing IDs:", missingIds);
+      return new NextResponse(`Products not found: ${missingIds.join(', ')}`, {
+        status: 400,
+        headers: corsHeaders,
+      });
+    }
+
+    const files = fileIds.length > 0 ? await getSellableFiles(storeId, fileIds) : [];
+
+    if (files.length !== fileIds.length) {
+      const missingIds = fileIds.filter((id) => !files.find((file) => file.id === id));
+      console.error("[PAYPAL_CHECKOUT_ERROR] Some files not found or not sold separately. IDs:", missingIds);
+      return new NextResponse(`Files not for sale: ${missingIds.join(', ')}`, {
+        status: 400,
+        headers: corsHeaders,
+      });
+    }
+
+    const lines = buildCheckoutLines(products, files);
+
+    const totalPrice = lines.reduce((total, line) => {
+      return total + line.price.toNumber();
+    }, 0);
+
+    let discountAmount = 0;
+    let appliedCoupon: { id: string; code: string } | null = null;
+
+    if (couponCode) {
+      const couponResult = await validateCoupon({
+        storeId,
+        code: couponCode,
+        userId,
+        products: lines.map((line) => ({
+          id: line.productId,
+          categoryId: line.categoryId,
+          price: line.price.toNumber(),
+        })),
+      });
+
+      if (!couponResult.valid) {
+        return new NextResponse(couponResult.reason, {
+          status: 400,
+          headers: corsHeaders,
+        });
+      }
+
+      discountAmount = couponResult.discount;
+      appliedCoupon = { id: couponResult.coupon.id, code: couponResult.coupon.code };
+    }
+
+    const amountDue = Math.round((totalPrice - discountAmount) * 100) / 100;
+
+    if (amountDue < 0.6) {
+      return new NextResponse("Minimun payment amount is 0.60", {
+        status: 400,
+        headers: corsHeaders,
+      });
+    }
+
+    // The coupon redemption is claimed in the transaction that creates the
+    // order, so a failed create gives it back
+    const order = await prismadb.$transaction(async (tx) => {
+      if (appliedCoupon && !(await claimCouponRedemption(appliedCoupon.id, tx))) {
+        return null;
+      }
+
+      return tx.order.create({
+        data: {
+          id: crypto.randomUUID(),
+          storeId,
+          isPaid: false,
+          email,
+          userId,
+          price: new Prisma.Decimal(amountDue),
+          paymentProvider: "paypal",
+          couponId: appliedCoupon?.id,
+          couponCode: appliedCoupon?.code,
+          discountAmount: new Prisma.Decimal(discountAmount),
+          OrderItem: {
+            create: lines.map((line) => ({
+              id: crypto.randomUUID(),
+              products: { connect: { id: line.productId } },
+              fileId: line.fileId,
+              price: line.price,
+            })),
+          },
+          updatedAt: new Date(),
+        },
+      });
+    });
+
+    if (!order) {
+      return new NextResponse("This coupon has reached its usage limit.", {
+        status: 400,
+        headers: corsHeaders,
+      });
+    }
+
+    let paypalOrder;
+    try {
+      paypalOrder = await createPayPalOrder({
+        orderId: order.id,
+        items: lines.map((line) => ({
+          name: line.name,
+          price: line.price.toNumber(),
+        })),
+        discount: discountAmount,
+        returnUrl: `${process.env.FRONTEND_STORE_URL}/thank-you?provider=paypal&order_id=${order.id}`,
+        cancelUrl: `${process.env.FRONTEND_STORE_URL}/cart?canceled=1`,
+      });
+    } catch (paypalError) {
+      console.error("[PAYPAL_CHECKOUT_ERROR] PayPal order creation failed for order:", order.id, paypalError);
+
+      // Nothing can pay this order, so don't leave it behind as an unpaid order
+      await releaseCouponRedemption(order.id);
+      await prismadb.$transaction([
+        prismadb.orderItem.deleteMany({ where: { orderId: order.id } }),
+        prismadb.order.delete({ where: { id: order.id } }),
+      ]);
+
+      return new NextResponse("Could not start the PayPal checkout. Please try again.", {
+        status: 502,
+        headers: corsHeaders,
+      });
+    }
+
+    // The PayPal order ID plays the role of the Stripe checkout session
+    await prismadb.order.update({
+      where: { id: order.id },
+      data: { sessionId: paypalOrder.id },
+    });
+
+    const approveUrl = paypalOrder.links?.find(
+      (link) => link.rel === "payer-action" || link.rel === "approve"
+    )?.href;
+
+    console.log("[PAYPAL_CHECKOUT_INFO] PayPal order created:", paypalOrder.id, "for order:", order.id);
+
+    return NextResponse.json(
+      { orderId: order.id, paypalOrderId: paypalOrder.id, url: approveUrl ?? null },
+      { headers: corsHeaders }
+    );
+  } catch (error) {
+    console.error("[PAYPAL_CHECKOUT_ERROR]", error);
+    return new NextResponse(
+      "Internal Server Error",
+      {
+        status: 500,
+        headers: corsHeaders
+      }
+    );
+  }
+}
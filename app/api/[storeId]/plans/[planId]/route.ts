@@ -0,0 +1,141 @@
+import prismadb from "@/lib/prismadb";
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { planSchema } from "@/lib/validation/plan-schema";
+
+// GET: Retrieve a specific plan
+export async function GET(
+  req: Request,
+  context: { params: Promise<{ storeId: string; planId: string }> }
+) {
+  try {
+    const { storeId, planId } = await context.params;
+
+    if (!planId) {
+      return new NextResponse("Plan ID is required", { status: 400 });
+    }
+
+    const plan = await prismadb.plan.findFirst({
+      where: { id: planId, storeId },
+    });
+
+    return NextResponse.json(plan);
+  } catch (error) {
+    console.error("[PLAN_GET]", error);
+    return new NextResponse("Internal Server Error", { status: 500 });
+  }
+}
+
+// PATCH: Update a specific plan
+export async function PATCH(
+  req: Request,
+  context: { params: Promise<{ storeId: string; planId: string }> }
+) {
+  try {
+    const { storeId, planId } = await context.params;
+    const { userId } = await auth();
+    const body = await req.json();
+
+    if (!userId) {
+      return new NextResponse("Unauthenticated", { status: 401 });
+    }
+    if (!planId) {
+      return new NextResponse("Plan ID is required", { status: 400 });
+    }
+
+    const parsed = planSchema.safeParse(body);
+    if (!parsed.success) {
+      return new NextResponse(parsed.error.errors[0]?.message ?? "Invalid plan", { status: 400 });
+    }
+
+    const storeByUserId = await prismadb.store.findFirst({
+      where: { id: storeId, userId },
+    });
+
+    if (!storeByUserId) {
+      return new NextResponse("Unauthorized", { status: 403 });
+    }
+
+    const existingPlan = await prismadb.plan.findFirst({
+      where: { id: planId, storeId },
+      select: { id: true },
+    });
+
+    if (!existingPlan) {
+      return new NextResponse("Plan not found", { status: 404 });
+    }
+
+    const categoryCount = await prismadb.category.count({
+      where: { storeId, id: { in: parsed.data.categoryIds } },
+    });
+
+    if (categoryCount !== parsed.data.categoryIds.length) {
+      return new NextResponse("One or more categories do not belong to this store", { status: 400 });
+    }
+
+    const plan = await prismadb.plan.update({
+      where: { id: planId, storeId },
+      data: {
+        ...parsed.data,
+        updatedAt: new Date(),
+      },
+    });
+
+    return NextResponse.json(plan);
+  } catch (error) {
+    console.error("[PLAN_PATCH]", error);
+    return new NextResponse("Internal Server Error", { status: 500 });
+  }
+}
+
+// DELETE: Remove a plan that has never had subscribers
+export async function DELETE(
+  req: Request,
+  context: { params: Promise<{ storeId: string; planId: string }> }
+) {
+  try {
+    const { storeId, planId } = await context.params;
+    const { userId } = await auth();
+
+    if (!userId) {
+      return new NextResponse("Unauthenticated", { status: 401 });
+    }
+    if (!planId) {
+      return new NextResponse("Plan ID is required", { status: 400 });
+    }
+
+    const storeByUserId = await prismadb.store.findFirst({
+      where: { id: storeId, userId },
+    });
+
+    if (!storeByUserId) {
+      return new NextResponse("Unauthorized", { status: 403 });
+    }
+
+    const existingPlan = await prismadb.plan.findFirst({
+      where: { id: planId, storeId },
+      select: { id: true },
+    });
+
+    if (!existingPlan) {
+      return new NextResponse("Plan not found", { status: 404 });
+    }
+
+    const subscriberCount = await prismadb.subscriptions.count({
+      where: { planId },
+    });
+
+    if (subscriberCount > 0) {
+      return new NextResponse("This plan has subscribers. Archive it instead.", { status: 400 });
+    }
+
+    const plan = await prismadb.plan.delete({
+      where: { id: planId, storeId },
+    });
+
+    return NextResponse.json(plan);
+  } catch (error) {
+    console.error("[PLAN_DELETE]", error);
+    return new NextResponse("Internal Server Error", { status: 500 });
+  }
+}
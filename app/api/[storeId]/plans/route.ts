@@ -0,0 +1,115 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import prismadb from "@/lib/prismadb";
+import { planSchema } from "@/lib/validation/plan-schema";
+
+// Dynamic CORS headers based on origin
+const getCorsHeaders = (origin: string | null) => {
+  const allowedOrigins = [
+    "https://brandexme.com",
+    "https://www.brandexme.com",
+    "http://localhost:3000",
+    "http://localhost:3001",
+  ];
+
+  const allowOrigin = origin && allowedOrigins.includes(origin) ? origin : "*";
+
+  return {
+    "Access-Control-Allow-Origin": allowOrigin,
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    "Access-Control-Allow-Credentials": allowOrigin !== "*" ? "true" : "false",
+    "Access-Control-Max-Age": "86400", // 24 hours
+  };
+};
+
+export async function OPTIONS(req: Request) {
+  const origin = req.headers.get("origin");
+  return new NextResponse(null, {
+    status: 200,
+    headers: getCorsHeaders(origin),
+  });
+}
+
+// POST: Create a subscription plan
+export async function POST(
+  req: Request,
+  context: { params: Promise<{ storeId: string }> }
+) {
+  const origin = req.headers.get("origin");
+  const corsHeaders = getCorsHeaders(origin);
+
+  try {
+    const { storeId } = await context.params;
+    const { userId } = await auth();
+    const body = await req.json();
+
+    if (!userId) {
+      return new NextResponse("Unauthenticated", { status: 401, headers: corsHeaders });
+    }
+
+    const parsed = planSchema.safeParse(body);
+    if (!parsed.success) {
+      return new NextResponse(parsed.error.errors[0]?.message ?? "Invalid plan", {
+        status: 400,
+        headers: corsHeaders,
+      });
+    }
+
+    const store = await prismadb.store.findFirst({
+      where: { id: storeId, userId },
+    });
+
+    if (!store) {
+      return new NextResponse("Unauthorized", { status: 403, headers: corsHeaders });
+    }
+
+    const categoryCount = await prismadb.category.count({
+      where: { storeId, id: { in: parsed.data.categoryIds } },
+    });
+
+    if (categoryCount !== parsed.data.categoryIds.length) {
+      return new NextResponse("One or more categories do not belong to this store", {
+        status: 400,
+        headers: corsHeaders,
+      });
+    }
+
+    const plan = await prismadb.plan.create({
+      data: {
+        id: crypto.randomUUID(),
+        storeId,
+        ...parsed.data,
+        updatedAt: new Date(),
+      },
+    });
+
+    return NextResponse.json(plan, { headers: corsHeaders });
+  } catch (error) {
+    console.error("[PLAN_POST]", error);
+    return new NextResponse("Internal Server Error", { status: 500, headers: corsHeaders });
+  }
+}
+
+// GET: Fetch the store's active plans
+export async function GET(
+  req: Request,
+  context: { params: Promise<{ storeId: string }> }
+) {
+  const origin = req.headers.get("origin");
+  const corsHeaders = getCorsHeaders(origin);
+
+  try {
+    const { storeId } = await context.params;
+
+    const plans = await prismadb.plan.findMany({
+      where: { storeId, isArchived: false },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return NextResponse.json(plans, { headers: corsHeaders });
+  } catch (error) {
+    console.error("[PLAN_GET]", error);
+    return new NextResponse("Internal Server Error", { status: 500, headers: corsHeaders });
+  }
+}
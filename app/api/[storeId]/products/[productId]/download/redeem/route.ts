@@ -0,0 +1,88 @@
+import { NextResponse } from "next/server";
+import prismadb from "@/lib/prismadb";
+import { claimDownloadToken, verifyDownloadToken } from "@/lib/download-token";
+import { recordDownload } from "@/lib/downloads";
+import { buildQuotaExceededBody, checkDownloadQuota } from "@/lib/download-quota";
+import { resolveDownloadTarget } from "@/lib/product-files";
+
+// GET: Redeem a signed download token and redirect to the asset on the CDN
+export async function GET(
+  req: Request,
+  context: { params: Promise<{ storeId: string; productId: string }> }
+): Promise<Response> {
+  try {
+    const { storeId, productId } = await context.params;
+    const token = new URL(req.url).searchParams.get("token");
+
+    if (!token) {
+      return new NextResponse("Download token is required", { status: 400 });
+    }
+
+    let payload;
+    try {
+      payload = verifyDownloadToken(token);
+    } catch (tokenError) {
+      console.warn("[DOWNLOAD_REDEEM] Token rejected:", tokenError);
+      return new NextResponse(
+        tokenError instanceof Error ? tokenError.message : "Invalid download token",
+        { status: 401 }
+      );
+    }
+
+    if (payload.productId !== productId || payload.storeId !== storeId) {
+      return new NextResponse("Download token does not match this product", { status: 403 });
+    }
+
+    const product = await prismadb.products.findFirst({
+      where: { id: productId, storeId },
+      select: {
+        id: true,
+        price: true,
+        downloadUrl: true,
+      },
+    });
+
+    if (!product) {
+      return new NextResponse("Product Not Found", { status: 404 });
+    }
+
+    const target = await resolveDownloadTarget(product, payload.fileId);
+
+    if (!target) {
+      return new NextResponse("File Not Found", { status: 404 });
+    }
+
+    const isFreeDownload = target.isFree;
+
+    // Re-check the quota so a token can't be replayed past the limit
+    if (!isFreeDownload && payload.userId) {
+      const allowance = await checkDownloadQuota(
+        payload.userId,
+        productId,
+        storeId,
+        target.isSoldSeparately ? target.fileId : null
+      );
+
+      if (allowance?.exceeded) {
+        return NextResponse.json(buildQuotaExceededBody(allowance), { status: 429 });
+      }
+    }
+
+    if (!(await claimDownloadToken(payload))) {
+      return new NextResponse("Download token has already been used", { status: 410 });
+    }
+
+    await recordDownload({
+      productId,
+      storeId,
+      userId: payload.userId,
+      isFree: isFreeDownload,
+      fileId: target.fileId,
+    });
+
+    return NextResponse.redirect(target.url, 302);
+  } catch (error) {
+    console.error("[DownloadRedeemHandler] Error:", error);
+    return new NextResponse("Internal Server Error", { status: 500 });
+  }
+}
@@ -3,6 +3,10 @@ import prismadb from "@/lib/prismadb";
 import { verifyCustomerToken } from "@/lib/verify-customer-token";
 import { checkSubscriptionAccess } from "@/lib/subscription";
 import { buildDownloadFilename } from "@/lib/utils";
+import { createDownloadToken } from "@/lib/download-token";
+import { recordDownload } from "@/lib/downloads";
+import { buildQuotaExceededBody, checkDownloadQuota } from "@/lib/download-quota";
+import { resolveDownloadTarget } from "@/lib/product-files";
 
 const getCorsHeaders = (origin: string | null) => {
   const allowedOrigins = [
@@ -51,18 +55,31 @@ export async function GET(
       },
     });
 
-    if (!product?.downloadUrl) {
+    if (!product) {
       return new NextResponse("Product Not Found", {
         status: 404,
         headers: corsHeaders,
       });
     }
 
-    const isFreeProduct = product.price.equals(0);
+    // ?fileId= picks one of the product's files (e.g. the Figma version of a mockup)
+    const { searchParams } = new URL(req.url);
+    const target = await resolveDownloadTarget(product, searchParams.get("fileId"));
+
+    if (!target) {
+      return new NextResponse("File Not Found", {
+        status: 404,
+        headers: corsHeaders,
+      });
+    }
+
+    const isFreeDownload = target.isFree;
+    // A file with its own price needs its own purchase
+    const separateFileId = target.isSoldSeparately ? target.fileId : null;
 
     let userId: string | null = null;
 
-    if (!isFreeProduct) {
+    if (!isFreeDownload) {
       if (!authHeader?.startsWith("Bearer ")) {
         return new NextResponse("Unauthorized", { status: 401, headers: corsHeaders });
       }
@@ -79,7 +96,7 @@ export async function GET(
         });
       }
 
-      const hasAccess = await checkSubscriptionAccess(userId, productId, storeId);
+      const hasAccess = await checkSubscriptionAccess(userId, productId, storeId, separateFileId);
 
       if (!hasAccess) {
         console.log("[DOWNLOAD_ERROR] Access denied", {
@@ -92,6 +109,21 @@ export async function GET(
           headers: corsHeaders,
         });
       }
+
+      const allowance = await checkDownloadQuota(userId, productId, storeId, separateFileId);
+
+      if (allowance?.exceeded) {
+        console.log("[DOWNLOAD_ERROR] Quota exceeded", {
+          userId,
+          productId,
+          storeId,
+          scope: allowance.exceeded,
+        });
+        return NextResponse.json(buildQuotaExceededBody(allowance), {
+          status: 429,
+          headers: corsHeaders,
+        });
+      }
     } else {
       if (authHeader?.startsWith("Bearer ")) {
         const token = authHeader.replace("Bearer ", "");
@@ -107,13 +139,39 @@ export async function GET(
       }
     }
 
+    // ?mode=link issues a signed, short-lived, single-use URL to the redeem endpoint
+    // instead of proxying the file through this function
+    const mode = searchParams.get("mode");
+
+    if (mode === "link") {
+      const { token, expiresAt } = createDownloadToken({
+        userId,
+        productId,
+        fileId: target.fileId,
+        storeId,
+      });
+      const redeemUrl = new URL(
+        `/api/${storeId}/products/${productId}/download/redeem`,
+        req.url
+      );
+      redeemUrl.searchParams.set("token", token);
+
+      return NextResponse.json(
+        {
+          url: redeemUrl.toString(),
+          expiresAt: expiresAt.toISOString(),
+        },
+        { headers: corsHeaders }
+      );
+    }
+
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), 60000);
     
     let fileResponse: Response;
     
     try {
-      fileResponse = await fetch(product.downloadUrl, {
+      fileResponse = await fetch(target.url, {
         signal: controller.signal,
         headers: {
           'User-Agent': 'Mozilla/5.0 (compatible; Brandex/1.0)',
@@ -127,7 +185,7 @@ export async function GET(
         console.error('[DOWNLOAD_ERROR] CDN fetch failed:', {
           status: fileResponse.status,
           statusText: fileResponse.statusText,
-          url: product.downloadUrl,
+          url: target.url,
           productId,
           productName: product.name,
         });
@@ -148,7 +206,7 @@ export async function GET(
       clearTimeout(timeoutId);
       console.error('[DOWNLOAD_ERROR] CDN fetch exception:', {
         error: fetchError,
-        url: product.downloadUrl,
+        url: target.url,
         productId,
         productName: product.name,
       });
@@ -166,26 +224,19 @@ export async function GET(
       });
     }
 
-    await prismadb.products.update({
-      where: { id: productId },
-      data: {
-        downloadsCount: { increment: 1 },
-      },
-    });
-
-    await prismadb.downloads.create({
-      data: {
-        id: crypto.randomUUID(),
-        productId,
-        storeId,
-        userId: userId || null,
-        email: null,
-        isFree: product.price.equals(0),
-      },
+    await recordDownload({
+      productId,
+      storeId,
+      userId,
+      isFree: isFreeDownload,
+      fileId: target.fileId,
     });
 
     const categoryName = product.Category?.name || "Product";
-    const fileName = buildDownloadFilename(product.downloadUrl, `Brandex-${categoryName}`);
+    const fileName = buildDownloadFilename(
+      target.url,
+      target.label ? `Brandex-${categoryName}-${target.label}` : `Brandex-${categoryName}`
+    );
 
     const contentLength = fileResponse.headers.get("content-length");
     const responseHeaders: Record<string, string> = {
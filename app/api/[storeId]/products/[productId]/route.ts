@@ -2,8 +2,10 @@ import { NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import prismadb from "@/lib/prismadb";
 import { serializeProduct } from "@/lib/serialize-product";
-import { syncProductToTypesense, deleteProductFromTypesense } from "@/lib/sync-product-to-typesense";
+import { enqueueSearchSync, requestSearchSync } from "@/lib/search-outbox";
 import { hasValidMedia } from "@/lib/utils/check-image-url";
+import { syncProductFiles, toPublicProductFile } from "@/lib/product-files";
+import { productFilesSchema } from "@/lib/validation/product-file-schema";
 
 // GET a single product
 export async function GET(
@@ -22,6 +24,7 @@ export async function GET(
       include: {
         Image: true,
         Category: true,
+        ProductFile: { orderBy: { position: "asc" } },
       },
     });
 
@@ -35,7 +38,9 @@ export async function GET(
       return new NextResponse("Product not found", { status: 404 });
     }
 
-    return NextResponse.json(serializeProduct(product));
+    return NextResponse.json(
+      serializeProduct({ ...product, ProductFile: product.ProductFile.map(toPublicProductFile) })
+    );
   } catch (error) {
     console.error("[Product_GET]", error);
     return new NextResponse("Internal Server Error", { status: 500 });
@@ -76,6 +81,12 @@ export async function PATCH(
     if (typeof price !== "number" || price < 0) return new NextResponse("Price must be a non-negative number", { status: 400 });
     if (!categoryId) return new NextResponse("Category is required", { status: 400 });
 
+    // Files are only replaced when the form sends them
+    const files = body.files === undefined ? null : productFilesSchema.safeParse(body.files);
+    if (files && !files.success) {
+      return new NextResponse(files.error.errors[0]?.message ?? "Invalid files", { status: 400 });
+    }
+
     // Check if user owns the store
     const storeByUserId = await prismadb.store.findFirst({
       where: {
@@ -101,51 +112,56 @@ export async function PATCH(
     }
 
     // Update product
-    await prismadb.products.update({
-      where: {
-        id: productId,
-      },
-      data: {
-        name: name.trim(),
-        price,
-        categoryId,
-        Image: {
-          deleteMany: {},
+    const [, product] = await prismadb.$transaction([
+      prismadb.products.update({
+        where: {
+          id: productId,
         },
-        isFeatured,
-        isArchived,
-        description,
-        downloadUrl,
-        videoUrl,
-        keywords,
-        updatedAt: new Date(),
-      },
-    });
-
-    const product = await prismadb.products.update({
-      where: {
-        id: productId,
-      },
-      data: {
-        Image: {
-          createMany: {
-            data: [
-              ...Image.map((image: { url: string }) => ({
-                id: crypto.randomUUID(),
-                url: image.url,
-                updatedAt: new Date(),
-              })),
-            ],
+        data: {
+          name: name.trim(),
+          price,
+          categoryId,
+          Image: {
+            deleteMany: {},
           },
+          isFeatured,
+          isArchived,
+          description,
+          downloadUrl,
+          videoUrl,
+          keywords,
+          updatedAt: new Date(),
         },
-      },
-      include: {
-        Category: true,
-      },
-    });
+      }),
+      prismadb.products.update({
+        where: {
+          id: productId,
+        },
+        data: {
+          Image: {
+            createMany: {
+              data: [
+                ...Image.map((image: { url: string }) => ({
+                  id: crypto.randomUUID(),
+                  url: image.url,
+                  updatedAt: new Date(),
+                })),
+              ],
+            },
+          },
+        },
+        include: {
+          Category: true,
+        },
+      }),
+      enqueueSearchSync(storeId, [productId], "UPSERT"),
+    ]);
 
-    // Sync to Typesense (non-blocking)
-    syncProductToTypesense(productId).catch(console.error);
+    if (files) {
+      await syncProductFiles(productId, files.data);
+    }
+
+    await requestSearchSync();
 
     return NextResponse.json(product);
   } catch (error) {
@@ -192,14 +208,16 @@ export async function DELETE(
     }
 
     // Delete product
-    await prismadb.products.delete({
-      where: {
-        id: productId,
-      },
-    });
+    await prismadb.$transaction([
+      prismadb.products.delete({
+        where: {
+          id: productId,
+        },
+      }),
+      enqueueSearchSync(storeId, [productId], "DELETE"),
+    ]);
 
-    // Delete from Typesense (non-blocking)
-    deleteProductFromTypesense(productId).catch(console.error);
+    await requestSearchSync();
 
     return new NextResponse(null, { status: 204 });
   } catch (error) {
@@ -2,13 +2,15 @@ import { NextRequest, NextResponse } from "next/server";
 import { inngest } from "@/app/inngest/inngest";
 import prismadb from "@/lib/prismadb";
 import { auth } from "@clerk/nextjs/server";
+import { previewProductImport } from "@/lib/import-preview";
 
 export const maxDuration = 300; // 5 minutes
 
 export async function POST(req: NextRequest, { params }: { params: Promise<{ storeId: string }> }) {
   try {
     const body = await req.json();
-    const { items } = body;
+    const { dryRun, fileName } = body;
+    let { items } = body;
 
     if (!items || !Array.isArray(items)) {
       console.error("❌ Invalid payload: items is not an array");
@@ -22,13 +24,52 @@ export async function POST(req: NextRequest, { params }: { params: Promise<{ sto
       return new NextResponse("Unauthorized", { status: 401 });
     }
 
+    const store = await prismadb.store.findFirst({
+      where: { id: storeId, userId },
+    });
+
+    if (!store) {
+      return new NextResponse("Unauthorized", { status: 403 });
+    }
+
+    // Classify rows against the catalog: the dry run returns this as is, and
+    // the import only queues rows it accepts (schema, store category, unique name)
+    const preview = await previewProductImport(storeId, items);
+
+    if (dryRun) {
+      return NextResponse.json(preview);
+    }
+
+    const invalidRow = preview.rows.find((row) => row.action === "invalid");
+    if (invalidRow) {
+      return new NextResponse(`Row ${invalidRow.index + 1}: ${invalidRow.errors[0]}`, { status: 400 });
+    }
+
+    // Rows from the CSV Maker carry the prompt template they were generated with; keep only this store's
+    const templateIds = Array.from(
+      new Set(items.map((item) => item?.promptTemplateId).filter((id): id is string => typeof id === "string"))
+    );
+    const templates = templateIds.length > 0
+      ? await prismadb.promptTemplate.findMany({
+        where: { id: { in: templateIds }, storeId },
+        select: { id: true },
+      })
+      : [];
+    const knownIds = new Set(templates.map((template) => template.id));
+
+    // Queue the validated rows; the template reference isn't part of the row schema
+    items = preview.rows.map((row) => {
+      const promptTemplateId = items[row.index]?.promptTemplateId;
+      return { ...row.item, promptTemplateId: knownIds.has(promptTemplateId) ? promptTemplateId : null };
+    });
+
     // Create import log for tracking
     const importLog = await prismadb.product_import_logs.create({
       data: {
         id: crypto.randomUUID(),
         storeId,
         userId,
-        fileName: "bulk-import.csv", // We could pass this from frontend if needed
+        fileName: typeof fileName === "string" && fileName.trim() ? fileName.trim() : "bulk-import.csv",
         totalRows: items.length,
         status: "PROCESSING",
         startedAt: new Date(),
@@ -51,6 +92,7 @@ export async function POST(req: NextRequest, { params }: { params: Promise<{ sto
           storeId,
           items: chunk,
           importId: importLog.id,
+          startRow: i,
         },
       });
     }
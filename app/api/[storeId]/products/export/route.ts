@@ -0,0 +1,115 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { PassThrough, Readable } from "stream";
+import ExcelJS from "exceljs";
+import Papa from "papaparse";
+import prismadb from "@/lib/prismadb";
+import {
+  buildCatalogExportWhere,
+  parseCatalogExportFilters,
+  readCatalogExportRows,
+  type CatalogExportFormat,
+} from "@/lib/catalog-export";
+import { PRODUCT_IMPORT_COLUMNS } from "@/lib/validation/product-import-schema";
+import type { Prisma } from "@prisma/client";
+
+/**
+ * CSV with the importer's header row, written one batch of products at a time
+ */
+function streamCsv(storeId: string, where: Prisma.productsWhereInput): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const batches = readCatalogExportRows(storeId, where);
+
+  return new ReadableStream({
+    start(controller) {
+      controller.enqueue(encoder.encode(Papa.unparse([[...PRODUCT_IMPORT_COLUMNS]])));
+    },
+    async pull(controller) {
+      try {
+        const { value, done } = await batches.next();
+
+        if (done) {
+          controller.close();
+          return;
+        }
+
+        const csv = Papa.unparse(value, { header: false, columns: [...PRODUCT_IMPORT_COLUMNS] });
+        controller.enqueue(encoder.encode(`\r\n${csv}`));
+      } catch (error) {
+        console.error("[PRODUCTS_EXPORT] CSV stream failed", error);
+        controller.error(error);
+      }
+    },
+  });
+}
+
+/**
+ * XLSX workbook with one "Products" sheet in the importer's column order
+ */
+function streamXlsx(storeId: string, where: Prisma.productsWhereInput): ReadableStream<Uint8Array> {
+  const output = new PassThrough();
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useStyles: false, useSharedStrings: false });
+  const sheet = workbook.addWorksheet("Products");
+
+  sheet.columns = PRODUCT_IMPORT_COLUMNS.map((column) => ({ header: column, key: column }));
+
+  (async () => {
+    for await (const batch of readCatalogExportRows(storeId, where)) {
+      batch.forEach((row) => sheet.addRow(row).commit());
+    }
+    sheet.commit();
+    await workbook.commit();
+  })().catch((error) => {
+    console.error("[PRODUCTS_EXPORT] XLSX stream failed", error);
+    output.destroy(error);
+  });
+
+  return Readable.toWeb(output) as ReadableStream<Uint8Array>;
+}
+
+// GET: Download the catalog in the bulk import format (?format=csv|xlsx)
+export async function GET(
+  req: Request,
+  context: { params: Promise<{ storeId: string }> }
+) {
+  try {
+    const { storeId } = await context.params;
+    const { userId } = await auth();
+
+    if (!userId) {
+      return new NextResponse("Unauthenticated", { status: 401 });
+    }
+
+    const store = await prismadb.store.findFirst({
+      where: { id: storeId, userId },
+    });
+
+    if (!store) {
+      return new NextResponse("Unauthorized", { status: 403 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const format: CatalogExportFormat = searchParams.get("format") === "xlsx" ? "xlsx" : "csv";
+    const where = await buildCatalogExportWhere(storeId, parseCatalogExportFilters(searchParams));
+    const fileName = `products-${new Date().toISOString().split("T")[0]}.${format}`;
+
+    if (format === "xlsx") {
+      return new NextResponse(streamXlsx(storeId, where), {
+        headers: {
+          "Content-Type": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+          "Content-Disposition": `attachment; filename="${fileName}"`,
+        },
+      });
+    }
+
+    return new NextResponse(streamCsv(storeId, where), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error("[PRODUCTS_EXPORT]", error);
+    return new NextResponse("Internal Server Error", { status: 500 });
+  }
+}
@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@clerk/nextjs/server"
 import { inngest } from "@/app/inngest/inngest"
-import { setJob } from "@/lib/job-store"
+import { createGenerationJob } from "@/lib/generation-jobs"
+import { getCurrentPromptTemplate } from "@/lib/prompt-templates"
+import prismadb from "@/lib/prismadb"
+import { createVisionProvider, generateProductDetails, getVisionSettings } from "@/lib/vision"
 
 export async function POST(
   req: NextRequest,
@@ -8,6 +12,20 @@ export async function POST(
 ) {
   try {
     const { storeId } = await params
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 })
+    }
+
+    const store = await prismadb.store.findFirst({
+      where: { id: storeId, userId },
+    })
+
+    if (!store) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 })
+    }
+
     const body = await req.json()
     const { imageUrls, categoryId, price, useInngest } = body
 
@@ -31,34 +49,31 @@ export async function POST(
       return NextResponse.json({ error: "Category ID is required" }, { status: 400 })
     }
 
+    // The whole run uses the template version current when it starts
+    const promptTemplate = await getCurrentPromptTemplate(storeId)
+    const promptTemplateId = promptTemplate?.id ?? null
+
     // Use Inngest for large batches (100+ URLs) or if explicitly requested
     const USE_INNGEST_THRESHOLD = 100
     const shouldUseInngest = useInngest === true || imageUrls.length >= USE_INNGEST_THRESHOLD
 
     if (shouldUseInngest) {
+      // Results are stored per image, so each URL is only generated once
+      const uniqueUrls: string[] = Array.from(new Set(imageUrls.map((url: unknown) => String(url).trim()).filter(Boolean)))
+
       // Queue job to Inngest for background processing
-      const jobId = `job-${Date.now()}-${Math.random().toString(36).substring(7)}`
-      
-      // Initialize job status with all required fields
-      setJob(jobId, {
-        status: "pending",
-        total: imageUrls.length,
-        processed: 0,
-        failed: 0,
-        products: [],
-        createdAt: Date.now(),
-      })
+      const jobId = await createGenerationJob(storeId, userId, uniqueUrls.length, promptTemplateId)
 
       // Chunk image URLs to avoid state size limits (500 URLs per event)
       const CHUNK_SIZE = 500;
-      const totalChunks = Math.ceil(imageUrls.length / CHUNK_SIZE);
+      const totalChunks = Math.ceil(uniqueUrls.length / CHUNK_SIZE);
       
-      console.log(`📤 Queuing ${imageUrls.length} images to Inngest (job: ${jobId}) in ${totalChunks} chunks`)
+      console.log(`📤 Queuing ${uniqueUrls.length} images to Inngest (job: ${jobId}) in ${totalChunks} chunks`)
 
       // Send events in chunks
       const events = [];
-      for (let i = 0; i < imageUrls.length; i += CHUNK_SIZE) {
-        const chunk = imageUrls.slice(i, i + CHUNK_SIZE);
+      for (let i = 0; i < uniqueUrls.length; i += CHUNK_SIZE) {
+        const chunk = uniqueUrls.slice(i, i + CHUNK_SIZE);
         events.push({
           name: "products.generate-from-images" as const,
           data: {
@@ -67,6 +82,7 @@ export async function POST(
             categoryId,
             price: priceValue,
             jobId,
+            promptTemplateId,
           },
         });
       }
@@ -78,8 +94,8 @@ export async function POST(
         success: true,
         jobId,
         queued: true,
-        message: `Job queued successfully. Processing ${imageUrls.length} images in the background in ${totalChunks} batches.`,
-        total: imageUrls.length,
+        message: `Job queued successfully. Processing ${uniqueUrls.length} images in the background in ${totalChunks} batches.`,
+        total: uniqueUrls.length,
       })
     }
 
@@ -92,13 +108,11 @@ export async function POST(
       )
     }
 
-    const openaiApiKey = process.env.OPENAI_API_KEY
-    if (!openaiApiKey) {
-      return NextResponse.json(
-        { error: "OpenAI API key not configured. Please set OPENAI_API_KEY in your environment variables." },
-        { status: 500 }
-      )
+    const providerResult = createVisionProvider(await getVisionSettings(storeId))
+    if (!providerResult.success) {
+      return NextResponse.json({ error: providerResult.reason }, { status: 500 })
     }
+    const { provider } = providerResult
 
     type Product = {
       name: string
@@ -108,6 +122,7 @@ export async function POST(
       imageUrl: string
       downloadUrl: string
       keywords: string[]
+      promptTemplateId: string | null
     }
 
     const products: Product[] = []
@@ -116,102 +131,22 @@ export async function POST(
     // Process each image URL with concurrency control
     const processImage = async (imageUrl: string): Promise<{ success: boolean; url: string; error?: string }> => {
       try {
-        // Call OpenAI Vision API
-        const response = await fetch("https://api.openai.com/v1/chat/completions", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${openaiApiKey}`,
-          },
-          body: JSON.stringify({
-            model: "gpt-4o",
-            messages: [
-              {
-                role: "system",
-                content:
-                  "You are a product description generator for an e-commerce platform. Analyze the image and generate a product name, description, and relevant keywords. The product name should be concise (under 100 characters), the description should be detailed but under 1000 characters, and keywords should be comma-separated.",
-              },
-              {
-                role: "user",
-                content: [
-                  {
-                    type: "text",
-                    text: "Analyze this product image and provide:\n1. A product name (concise, under 100 characters)\n2. A detailed product description (under 1000 characters)\n3. Comma-separated keywords (5-10 keywords)\n\nReturn the response in JSON format: {\"name\": \"...\", \"description\": \"...\", \"keywords\": \"keyword1, keyword2, ...\"}",
-                  },
-                  {
-                    type: "image_url",
-                    image_url: {
-                      url: imageUrl,
-                    },
-                  },
-                ],
-              },
-            ],
-            max_tokens: 500,
-          }),
-        })
+        const result = await generateProductDetails(provider, imageUrl, promptTemplate)
 
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({}))
-          console.error(`OpenAI API error for ${imageUrl}:`, errorData)
+        if (!result.success) {
+          console.error(`${provider.id} (${provider.model}) failed for ${imageUrl}: ${result.reason}`)
           failedUrls.push(imageUrl)
-          return { success: false, url: imageUrl, error: "OpenAI API error" }
-        }
-
-        const data = await response.json()
-        const content = data.choices?.[0]?.message?.content
-
-        if (!content) {
-          console.error(`No content returned for ${imageUrl}`)
-          failedUrls.push(imageUrl)
-          return { success: false, url: imageUrl, error: "No content returned" }
-        }
-
-        // Parse JSON response (handle code blocks if present)
-        let productData
-        try {
-          const jsonMatch = content.match(/\{[\s\S]*\}/)
-          if (jsonMatch) {
-            productData = JSON.parse(jsonMatch[0])
-          } else {
-            productData = JSON.parse(content)
-          }
-        } catch (parseError) {
-          console.error(`Failed to parse OpenAI response for ${imageUrl}:`, parseError)
-          // Fallback: create basic product from URL
-          const urlParts = imageUrl.split("/").pop() || "Product"
-          const baseName = urlParts.split(".")[0].replace(/[-_]/g, " ")
-          productData = {
-            name: baseName.charAt(0).toUpperCase() + baseName.slice(1),
-            description: `Product image: ${urlParts}`,
-            keywords: "product,digital",
-          }
+          return { success: false, url: imageUrl, error: result.reason }
         }
 
-        // Ensure required fields
-        const product: Product = {
-          name: productData.name || `Product ${products.length + 1}`,
-          description: productData.description || "",
+        products.push({
+          ...result.product,
           price: String(priceValue),
           categoryId,
           imageUrl,
           downloadUrl: imageUrl, // Same as imageUrl as requested
-          keywords: productData.keywords
-            ? productData.keywords.split(",").map((k: string) => k.trim()).filter(Boolean)
-            : [],
-        }
-
-        // Validate name length
-        if (product.name.length > 100) {
-          product.name = product.name.substring(0, 97) + "..."
-        }
-
-        // Validate description length
-        if (product.description.length > 1000) {
-          product.description = product.description.substring(0, 997) + "..."
-        }
-
-        products.push(product)
+          promptTemplateId,
+        })
         return { success: true, url: imageUrl }
       } catch (error) {
         console.error(`Error processing image ${imageUrl}:`, error)
@@ -234,7 +169,7 @@ export async function POST(
 
     if (products.length === 0) {
       return NextResponse.json(
-        { error: "Failed to generate any products. Please check your image URLs and OpenAI API key." },
+        { error: "Failed to generate any products. Please check your image URLs and vision provider settings." },
         { status: 500 }
       )
     }
@@ -242,6 +177,7 @@ export async function POST(
     return NextResponse.json({
       success: true,
       products,
+      promptTemplateVersion: promptTemplate?.version ?? null,
       generated: products.length,
       total: imageUrls.length,
       failed: failedUrls.length,
@@ -1,12 +1,28 @@
 import { NextRequest, NextResponse } from "next/server"
-import { getJob } from "@/lib/job-store"
+import { auth } from "@clerk/nextjs/server"
+import { getGenerationJob } from "@/lib/generation-jobs"
+import prismadb from "@/lib/prismadb"
 
 export async function GET(
   req: NextRequest,
   { params }: { params: Promise<{ storeId: string }> }
 ) {
   try {
-    await params // storeId available if needed for future use
+    const { storeId } = await params
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 })
+    }
+
+    const store = await prismadb.store.findFirst({
+      where: { id: storeId, userId },
+    })
+
+    if (!store) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 })
+    }
+
     const { searchParams } = new URL(req.url)
     const jobId = searchParams.get("jobId")
 
@@ -14,22 +30,13 @@ export async function GET(
       return NextResponse.json({ error: "Job ID is required" }, { status: 400 })
     }
 
-    const job = getJob(jobId)
+    const job = await getGenerationJob(storeId, jobId)
 
     if (!job) {
       return NextResponse.json({ error: "Job not found" }, { status: 404 })
     }
 
-    return NextResponse.json({
-      jobId,
-      status: job.status,
-      products: job.products || [],
-      processed: job.processed || 0,
-      failed: job.failed || 0,
-      total: job.total || 0,
-      error: job.error,
-      createdAt: job.createdAt,
-    })
+    return NextResponse.json(job)
   } catch (error) {
     console.error("Get job status error:", error)
     return NextResponse.json(
@@ -38,4 +45,3 @@ export async function GET(
     )
   }
 }
-
@@ -2,8 +2,11 @@ import { NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import prismadb from "@/lib/prismadb";
 import { Prisma } from "@prisma/client";
-import { syncProductToTypesense } from "@/lib/sync-product-to-typesense";
+import { enqueueSearchSync, requestSearchSync } from "@/lib/search-outbox";
 import { filterProductsWithValidMedia } from "@/lib/utils/check-image-url";
+import { getCategoryFilterIds } from "@/lib/categories";
+import { syncProductFiles } from "@/lib/product-files";
+import { productFilesSchema } from "@/lib/validation/product-file-schema";
 
 
 const getCorsHeaders = (origin: string | null) => {
@@ -68,6 +71,10 @@ export async function POST(
     if (!categoryId) return new NextResponse("Category is required", { status: 400, headers: corsHeaders });
     if (!storeId) return new NextResponse("Store ID is required", { status: 400, headers: corsHeaders });
 
+    const files = productFilesSchema.safeParse(body.files);
+    if (!files.success) {
+      return new NextResponse(files.error.errors[0]?.message ?? "Invalid files", { status: 400, headers: corsHeaders });
+    }
 
     const storeByUserId = await prismadb.store.findFirst({
       where: {
@@ -91,33 +98,40 @@ export async function POST(
       return new NextResponse("Product with this name already exists.", { status: 409, headers: corsHeaders });
     }
 
-    const product = await prismadb.products.create({
-      data: {
-        id: crypto.randomUUID(),
-        name: name.trim(),
-        price,
-        categoryId,
-        isArchived,
-        isFeatured,
-        storeId,
-        description,
-        downloadUrl,
-        videoUrl,
-        keywords,
-        Image: {
-          createMany: {
-            data: Image.map((img: { url: string }) => img),
+    const productId = crypto.randomUUID();
+    const [product] = await prismadb.$transaction([
+      prismadb.products.create({
+        data: {
+          id: productId,
+          name: name.trim(),
+          price,
+          categoryId,
+          isArchived,
+          isFeatured,
+          storeId,
+          description,
+          downloadUrl,
+          videoUrl,
+          keywords,
+          Image: {
+            createMany: {
+              data: Image.map((img: { url: string }) => img),
+            },
           },
+          updatedAt: new Date(),
         },
-        updatedAt: new Date(),
-      },
-      include: {
-        Category: true,
-      },
-    });
+        include: {
+          Category: true,
+        },
+      }),
+      enqueueSearchSync(storeId, [productId], "UPSERT"),
+    ]);
 
-    // Sync to Typesense (non-blocking)
-    syncProductToTypesense(product.id).catch(console.error);
+    if (files.data.length > 0) {
+      await syncProductFiles(product.id, files.data);
+    }
+
+    await requestSearchSync();
 
     return NextResponse.json(product, { headers: corsHeaders });
   } catch (error) {
@@ -189,8 +203,9 @@ export async function GET(
       ],
     };
 
+    // Parent categories also list the products of their subcategories
     if (categoryId) {
-      whereClause.categoryId = categoryId;
+      whereClause.categoryId = { in: await getCategoryFilterIds(storeId, categoryId) };
     }
 
     if (priceFilter === "free") {
@@ -286,11 +301,23 @@ export async function DELETE(
       return new NextResponse("Unauthorized", { status: 403, headers: corsHeaders });
     }
 
-    const deleteResult = await prismadb.products.deleteMany({
-      where: {
-        storeId,
-      },
+    const products = await prismadb.products.findMany({
+      where: { storeId },
+      select: { id: true },
     });
+    const productIds = products.map((product) => product.id);
+
+    const [deleteResult] = await prismadb.$transaction([
+      prismadb.products.deleteMany({
+        where: {
+          storeId,
+          id: { in: productIds },
+        },
+      }),
+      enqueueSearchSync(storeId, productIds, "DELETE"),
+    ]);
+
+    await requestSearchSync();
 
     return NextResponse.json({
       message: `Successfully deleted ${deleteResult.count} products`,
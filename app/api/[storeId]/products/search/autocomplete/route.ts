@@ -1,5 +1,7 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest, NextResponse, after } from "next/server";
 import { typesenseSearch, PRODUCT_COLLECTION_NAME } from "@/lib/typesense";
+import { getCategoryFilterIds } from "@/lib/categories";
+import { logSearchQuery } from "@/lib/search-analytics";
 
 export async function GET(
   req: NextRequest,
@@ -21,7 +23,14 @@ export async function GET(
   try {
     let filterBy = `storeId:=${storeId} && isArchived:=false`;
     if (categoryId) {
-      filterBy += ` && categoryId:=${categoryId}`;
+      const categoryIds = await getCategoryFilterIds(storeId, categoryId);
+      if (categoryIds.length === 0) {
+        return NextResponse.json(
+          { suggestions: [] },
+          { headers: { "Access-Control-Allow-Origin": "*" } }
+        );
+      }
+      filterBy += ` && categoryId:=[${categoryIds.join(",")}]`;
     }
 
     const searchResults = await typesenseSearch
@@ -46,6 +55,18 @@ export async function GET(
 
     const suggestions = Array.from(suggestionsSet).slice(0, limit);
 
+    // Written after the response, so suggestions don't wait on the analytics write
+    const userId = req.headers.get("x-user-id");
+    after(() =>
+      logSearchQuery({
+        storeId,
+        source: "AUTOCOMPLETE",
+        query,
+        resultCount: searchResults.found,
+        userId,
+      })
+    );
+
     return NextResponse.json(
       { suggestions },
       { headers: { "Access-Control-Allow-Origin": "*" } }
@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { recordSearchClick } from "@/lib/search-analytics";
+import { searchClickSchema } from "@/lib/validation/product-search-schema";
+
+const getCorsHeaders = (origin: string | null) => {
+  const allowedOrigins = [
+    "https://brandexme.com",
+    "https://www.brandexme.com",
+    "http://localhost:3000",
+    "http://localhost:3001",
+  ];
+
+  const allowOrigin = origin && allowedOrigins.includes(origin) ? origin : "*";
+
+  return {
+    "Access-Control-Allow-Origin": allowOrigin,
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type, x-user-id",
+    "Access-Control-Allow-Credentials": allowOrigin !== "*" ? "true" : "false",
+    "Access-Control-Max-Age": "86400",
+  };
+};
+
+export async function OPTIONS(req: Request): Promise<Response> {
+  const origin = req.headers.get("origin");
+  return new NextResponse(null, {
+    status: 204,
+    headers: getCorsHeaders(origin),
+  });
+}
+
+// POST: A shopper opened a product from search results ({ searchId, productId, position })
+export async function POST(
+  req: Request,
+  context: { params: Promise<{ storeId: string }> }
+) {
+  const corsHeaders = getCorsHeaders(req.headers.get("origin"));
+
+  try {
+    const { storeId } = await context.params;
+    const parsed = searchClickSchema.safeParse(await req.json().catch(() => null));
+
+    if (!parsed.success) {
+      return new NextResponse(parsed.error.errors[0]?.message ?? "Invalid click", { status: 400, headers: corsHeaders });
+    }
+
+    const result = await recordSearchClick(storeId, {
+      ...parsed.data,
+      userId: req.headers.get("x-user-id"),
+    });
+
+    if (!result.success) {
+      return new NextResponse(result.reason, { status: 404, headers: corsHeaders });
+    }
+
+    return new NextResponse(null, { status: 204, headers: corsHeaders });
+  } catch (error) {
+    console.error("[SEARCH_CLICK_POST]", error);
+    return new NextResponse("Internal Server Error", { status: 500, headers: corsHeaders });
+  }
+}
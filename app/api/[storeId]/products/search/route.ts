@@ -1,7 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
-import { typesenseSearch, PRODUCT_COLLECTION_NAME } from "@/lib/typesense";
 import prismadb from "@/lib/prismadb";
 import { filterProductsWithValidMedia } from "@/lib/utils/check-image-url";
+import { getCategoryFilterIds } from "@/lib/categories";
+import {
+  buildProductSearchWhere,
+  productSearchOrderBy,
+  readProductSearchParams,
+  searchProducts,
+} from "@/lib/product-search";
+import { logSearchQuery } from "@/lib/search-analytics";
+import { productSearchSchema } from "@/lib/validation/product-search-schema";
 import { translate } from 'google-translate-api-x';
 
 export async function GET(
@@ -10,14 +18,12 @@ export async function GET(
 ) {
   const { storeId } = await params;
   const { searchParams } = new URL(req.url);
-  const query = searchParams.get("query");
-  const categoryId = searchParams.get("categoryId");
-  const page = parseInt(searchParams.get("page") || "1", 10);
-  const limit = parseInt(searchParams.get("limit") || "48", 10);
 
-  if (!query || !storeId) {
+  const parsed = productSearchSchema.safeParse(readProductSearchParams(searchParams));
+
+  if (!storeId || !parsed.success) {
     return NextResponse.json(
-      { error: "Missing query or storeId" },
+      { error: parsed.success ? "Missing storeId" : parsed.error.errors[0]?.message },
       {
         status: 400,
         headers: { "Access-Control-Allow-Origin": "*" },
@@ -25,6 +31,12 @@ export async function GET(
     );
   }
 
+  const filters = parsed.data;
+  const { page, limit } = filters;
+  // Without a query the filters alone select the products
+  const query = filters.query || "";
+  const userId = req.headers.get("x-user-id");
+
   let finalQuery = query;
   let isTranslated = false;
 
@@ -46,39 +58,23 @@ export async function GET(
 
   // Build the enhanced query: Translated + Original for maximum accuracy
   // This allows Typesense to match against Arabic keywords if present, or English via translation
-  const searchQ = isTranslated ? `${finalQuery} ${query}` : query;
-
-  try {
-    // Build Typesense filter
-    let filterBy = `storeId:=${storeId} && isArchived:=false`;
-    if (categoryId) {
-      filterBy += ` && categoryId:=${categoryId}`;
-    }
+  const searchQ = isTranslated ? `${finalQuery} ${query}` : query || "*";
 
-    // Search with Typesense (High-Accuracy tuning)
-    const searchResults = await typesenseSearch
-      .collections(PRODUCT_COLLECTION_NAME)
-      .documents()
-      .search({
-        q: searchQ,
-        // Boost Name (10x) and Category (4x) / Keywords (4x) over Description (1x)
-        query_by: 'name,keywords,categoryName,description',
-        query_by_weights: '10,4,4,1',
-        filter_by: filterBy,
-        sort_by: '_text_match:desc,downloadsCount:desc',
-        per_page: limit,
-        page: page,
-        prefix: true,
-        num_typos: 2,
-        min_len_1typo: 4, // Don't allow typos on very short words to keep it accurate
-        min_len_2typo: 7,
-        drop_tokens_threshold: 1, // Only drop tokens if absolutely necessary
-        prioritize_exact_match: true,
-        highlight_full_fields: 'name',
-      });
+  // Parent categories also match products in their subcategories
+  const categoryIds = filters.categoryId.length > 0 ? await getCategoryFilterIds(storeId, filters.categoryId) : null;
 
-    // Get product IDs from search results
-    const productIds = searchResults.hits?.map(hit => (hit.document as { id: string }).id) || [];
+  try {
+    const { productIds, found, facets } = await searchProducts(storeId, searchQ, filters, categoryIds);
+
+    const searchId = await logSearchQuery({
+      storeId,
+      source: "SEARCH",
+      query,
+      translatedQuery: isTranslated ? finalQuery : null,
+      resultCount: found,
+      userId,
+      searchId: filters.searchId,
+    });
 
     if (productIds.length === 0) {
       return NextResponse.json(
@@ -88,6 +84,10 @@ export async function GET(
           page,
           pageCount: 0,
           limit,
+          found,
+          facets,
+          sortBy: filters.sortBy,
+          searchId,
           debug: {
             originalQuery: query,
             finalQuery: finalQuery,
@@ -131,6 +131,10 @@ export async function GET(
         page,
         pageCount: Math.ceil(validProducts.length / limit),
         limit,
+        found,
+        facets,
+        sortBy: filters.sortBy,
+        searchId,
         debug: {
           originalQuery: query,
           finalQuery: finalQuery,
@@ -149,26 +153,37 @@ export async function GET(
     try {
       const products = await prismadb.products.findMany({
         where: {
-          storeId,
-          isArchived: false,
-          OR: [
-            { name: { contains: query, mode: "insensitive" } },
-            { name: { contains: finalQuery, mode: "insensitive" } },
-            { description: { contains: query, mode: "insensitive" } },
-            { description: { contains: finalQuery, mode: "insensitive" } }
-          ],
-          ...(categoryId && { categoryId }),
+          ...buildProductSearchWhere(storeId, filters, categoryIds),
+          ...(query && {
+            OR: [
+              { name: { contains: query, mode: "insensitive" } },
+              { name: { contains: finalQuery, mode: "insensitive" } },
+              { description: { contains: query, mode: "insensitive" } },
+              { description: { contains: finalQuery, mode: "insensitive" } }
+            ],
+          }),
         },
         include: {
           Image: true,
           Category: true,
         },
+        orderBy: productSearchOrderBy(filters.sortBy),
         take: limit,
         skip: (page - 1) * limit,
       });
 
       const validProducts = await filterProductsWithValidMedia(products);
 
+      const searchId = await logSearchQuery({
+        storeId,
+        source: "SEARCH",
+        query,
+        translatedQuery: isTranslated ? finalQuery : null,
+        resultCount: validProducts.length,
+        userId,
+        searchId: filters.searchId,
+      });
+
       return NextResponse.json(
         {
           results: validProducts.map(p => ({ ...p, images: p.Image })),
@@ -176,6 +191,9 @@ export async function GET(
           page,
           pageCount: Math.ceil(validProducts.length / limit),
           limit,
+          facets: null,
+          sortBy: filters.sortBy,
+          searchId,
           debug: {
             originalQuery: query,
             finalQuery: finalQuery,
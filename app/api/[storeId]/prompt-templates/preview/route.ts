@@ -0,0 +1,57 @@
+import prismadb from "@/lib/prismadb";
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { getCurrentPromptTemplate } from "@/lib/prompt-templates";
+import { createVisionProvider, generateProductDetails, getVisionSettings } from "@/lib/vision";
+
+// POST: Generate one product from a sample image with the store's current template, without saving it
+export async function POST(
+  req: Request,
+  context: { params: Promise<{ storeId: string }> }
+) {
+  try {
+    const { storeId } = await context.params;
+    const { userId } = await auth();
+
+    if (!userId) {
+      return new NextResponse("Unauthenticated", { status: 401 });
+    }
+
+    const { imageUrl } = await req.json();
+
+    if (typeof imageUrl !== "string" || !/^https?:\/\/.+/.test(imageUrl)) {
+      return new NextResponse("A valid image URL is required", { status: 400 });
+    }
+
+    const storeByUserId = await prismadb.store.findFirst({
+      where: { id: storeId, userId },
+    });
+
+    if (!storeByUserId) {
+      return new NextResponse("Unauthorized", { status: 403 });
+    }
+
+    const providerResult = createVisionProvider(await getVisionSettings(storeId));
+
+    if (!providerResult.success) {
+      return new NextResponse(providerResult.reason, { status: 500 });
+    }
+
+    const template = await getCurrentPromptTemplate(storeId);
+    const result = await generateProductDetails(providerResult.provider, imageUrl, template);
+
+    if (!result.success) {
+      return new NextResponse(result.reason, { status: result.rateLimited ? 429 : 422 });
+    }
+
+    return NextResponse.json({
+      product: result.product,
+      promptTemplateVersion: template?.version ?? null,
+      provider: providerResult.provider.id,
+      model: providerResult.provider.model,
+    });
+  } catch (error) {
+    console.error("[PromptTemplates_PREVIEW]", error);
+    return new NextResponse("Internal Server Error", { status: 500 });
+  }
+}
@@ -0,0 +1,75 @@
+import prismadb from "@/lib/prismadb";
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { savePromptTemplate } from "@/lib/prompt-templates";
+import { promptTemplateSchema } from "@/lib/validation/generation-schema";
+
+// GET: The store's prompt template versions, newest first
+export async function GET(
+  req: Request,
+  context: { params: Promise<{ storeId: string }> }
+) {
+  try {
+    const { storeId } = await context.params;
+    const { userId } = await auth();
+
+    if (!userId) {
+      return new NextResponse("Unauthenticated", { status: 401 });
+    }
+
+    const storeByUserId = await prismadb.store.findFirst({
+      where: { id: storeId, userId },
+    });
+
+    if (!storeByUserId) {
+      return new NextResponse("Unauthorized", { status: 403 });
+    }
+
+    const templates = await prismadb.promptTemplate.findMany({
+      where: { storeId },
+      orderBy: { version: "desc" },
+      include: { _count: { select: { products: true } } },
+    });
+
+    return NextResponse.json(templates);
+  } catch (error) {
+    console.error("[PromptTemplates_GET]", error);
+    return new NextResponse("Internal Server Error", { status: 500 });
+  }
+}
+
+// POST: Save the prompt settings as a new template version
+export async function POST(
+  req: Request,
+  context: { params: Promise<{ storeId: string }> }
+) {
+  try {
+    const { storeId } = await context.params;
+    const { userId } = await auth();
+
+    if (!userId) {
+      return new NextResponse("Unauthenticated", { status: 401 });
+    }
+
+    const parsed = promptTemplateSchema.safeParse(await req.json());
+
+    if (!parsed.success) {
+      return new NextResponse(parsed.error.errors[0]?.message ?? "Invalid template", { status: 400 });
+    }
+
+    const storeByUserId = await prismadb.store.findFirst({
+      where: { id: storeId, userId },
+    });
+
+    if (!storeByUserId) {
+      return new NextResponse("Unauthorized", { status: 403 });
+    }
+
+    const template = await savePromptTemplate(storeId, parsed.data);
+
+    return NextResponse.json(template);
+  } catch (error) {
+    console.error("[PromptTemplates_POST]", error);
+    return new NextResponse("Internal Server Error", { status: 500 });
+  }
+}
@@ -0,0 +1,79 @@
+import prismadb from "@/lib/prismadb";
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { inngest } from "@/app/inngest/inngest";
+import {
+  createSearchReconciliation,
+  failSearchReconciliation,
+  getLatestSearchReconciliation,
+  SEARCH_RECONCILE_EVENT,
+} from "@/lib/search-reconciliation";
+
+// GET: The store's latest search index drift check
+export async function GET(
+  req: Request,
+  context: { params: Promise<{ storeId: string }> }
+) {
+  try {
+    const { storeId } = await context.params;
+    const { userId } = await auth();
+
+    if (!userId) {
+      return new NextResponse("Unauthenticated", { status: 401 });
+    }
+
+    const storeByUserId = await prismadb.store.findFirst({
+      where: { id: storeId, userId },
+    });
+
+    if (!storeByUserId) {
+      return new NextResponse("Unauthorized", { status: 403 });
+    }
+
+    return NextResponse.json(await getLatestSearchReconciliation(storeId));
+  } catch (error) {
+    console.error("[SEARCH_RECONCILE_GET]", error);
+    return new NextResponse("Internal Server Error", { status: 500 });
+  }
+}
+
+// POST: Check the store's search documents for drift now and repair it
+export async function POST(
+  req: Request,
+  context: { params: Promise<{ storeId: string }> }
+) {
+  try {
+    const { storeId } = await context.params;
+    const { userId } = await auth();
+
+    if (!userId) {
+      return new NextResponse("Unauthenticated", { status: 401 });
+    }
+
+    const storeByUserId = await prismadb.store.findFirst({
+      where: { id: storeId, userId },
+    });
+
+    if (!storeByUserId) {
+      return new NextResponse("Unauthorized", { status: 403 });
+    }
+
+    const reconciliationId = await createSearchReconciliation(storeId, "MANUAL");
+
+    if (!reconciliationId) {
+      return new NextResponse("A search index check is already running", { status: 409 });
+    }
+
+    try {
+      await inngest.send({ name: SEARCH_RECONCILE_EVENT, data: { storeId, reconciliationId } });
+    } catch (error) {
+      await failSearchReconciliation(reconciliationId, "Could not start the check");
+      throw error;
+    }
+
+    return NextResponse.json(await getLatestSearchReconciliation(storeId), { status: 202 });
+  } catch (error) {
+    console.error("[SEARCH_RECONCILE_POST]", error);
+    return new NextResponse("Internal Server Error", { status: 500 });
+  }
+}
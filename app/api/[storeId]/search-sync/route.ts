@@ -0,0 +1,66 @@
+import prismadb from "@/lib/prismadb";
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { getSearchSyncStatus, requestSearchSync, retryFailedSearchSync } from "@/lib/search-outbox";
+
+// GET: Pending and failed search index changes of the store
+export async function GET(
+  req: Request,
+  context: { params: Promise<{ storeId: string }> }
+) {
+  try {
+    const { storeId } = await context.params;
+    const { userId } = await auth();
+
+    if (!userId) {
+      return new NextResponse("Unauthenticated", { status: 401 });
+    }
+
+    const storeByUserId = await prismadb.store.findFirst({
+      where: { id: storeId, userId },
+    });
+
+    if (!storeByUserId) {
+      return new NextResponse("Unauthorized", { status: 403 });
+    }
+
+    return NextResponse.json(await getSearchSyncStatus(storeId));
+  } catch (error) {
+    console.error("[SEARCH_SYNC_GET]", error);
+    return new NextResponse("Internal Server Error", { status: 500 });
+  }
+}
+
+// POST: Requeue the store's failed search index changes
+export async function POST(
+  req: Request,
+  context: { params: Promise<{ storeId: string }> }
+) {
+  try {
+    const { storeId } = await context.params;
+    const { userId } = await auth();
+
+    if (!userId) {
+      return new NextResponse("Unauthenticated", { status: 401 });
+    }
+
+    const storeByUserId = await prismadb.store.findFirst({
+      where: { id: storeId, userId },
+    });
+
+    if (!storeByUserId) {
+      return new NextResponse("Unauthorized", { status: 403 });
+    }
+
+    const requeued = await retryFailedSearchSync(storeId);
+
+    if (requeued > 0) {
+      await requestSearchSync();
+    }
+
+    return NextResponse.json({ requeued, ...(await getSearchSyncStatus(storeId)) });
+  } catch (error) {
+    console.error("[SEARCH_SYNC_POST]", error);
+    return new NextResponse("Internal Server Error", { status: 500 });
+  }
+}
@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { stripe } from "@/lib/stripe";
 import { verifyCustomerTokenWithData } from "@/lib/verify-customer-token";
 import prismadb from "@/lib/prismadb";
+import { findPlanByPriceId } from "@/lib/plans";
 import Stripe from "stripe";
 
 const getCorsHeaders = (origin: string | null) => {
@@ -134,21 +135,38 @@ export async function POST(
       });
     }
 
-    const monthlyPriceId = process.env.STRIPE_PREMIUM_MONTHLY_PRICE_ID;
-    const yearlyPriceId = process.env.STRIPE_PREMIUM_YEARLY_PRICE_ID;
+    // The price must belong to one of the store's plans. Stores that haven't
+    // set up plans yet keep using the legacy env-configured premium prices.
+    const storePlanCount = await prismadb.plan.count({
+      where: { storeId, isArchived: false },
+    });
 
-    if (!monthlyPriceId || !yearlyPriceId) {
-      return new NextResponse("Subscription pricing not configured.", {
-        status: 500,
-        headers: corsHeaders,
-      });
-    }
+    const plan = storePlanCount > 0 ? await findPlanByPriceId(storeId, priceId) : null;
 
-    if (priceId !== monthlyPriceId && priceId !== yearlyPriceId) {
-      return new NextResponse("Invalid price ID.", {
-        status: 400,
-        headers: corsHeaders,
-      });
+    if (storePlanCount > 0) {
+      if (!plan) {
+        return new NextResponse("Invalid price ID.", {
+          status: 400,
+          headers: corsHeaders,
+        });
+      }
+    } else {
+      const monthlyPriceId = process.env.STRIPE_PREMIUM_MONTHLY_PRICE_ID;
+      const yearlyPriceId = process.env.STRIPE_PREMIUM_YEARLY_PRICE_ID;
+
+      if (!monthlyPriceId || !yearlyPriceId) {
+        return new NextResponse("Subscription pricing not configured.", {
+          status: 500,
+          headers: corsHeaders,
+        });
+      }
+
+      if (priceId !== monthlyPriceId && priceId !== yearlyPriceId) {
+        return new NextResponse("Invalid price ID.", {
+          status: 400,
+          headers: corsHeaders,
+        });
+      }
     }
 
     const userId = userData.userId;
@@ -223,10 +241,11 @@ export async function POST(
 
     const frontendUrl = process.env.FRONTEND_STORE_URL || "http://localhost:3000";
 
-    // Determine trial eligibility: ONLY first-time users get trials
-    const TRIAL_DAYS = 7;
-    const isEligibleForTrial = !userHadTrialBefore;
-    const trialDays = isEligibleForTrial ? TRIAL_DAYS : undefined;
+    // Determine trial eligibility: ONLY first-time users get trials,
+    // and only if the plan offers one (legacy pricing keeps the 7-day trial)
+    const planTrialDays = plan ? plan.trialDays : 7;
+    const isEligibleForTrial = !userHadTrialBefore && planTrialDays > 0;
+    const trialDays = isEligibleForTrial ? planTrialDays : undefined;
 
     if (userHadTrialBefore) {
       console.log("[SUBSCRIPTION_CHECKOUT_TRIAL_CHECK] ❌ NO TRIAL - User ineligible:", {
@@ -235,9 +254,9 @@ export async function POST(
         previousTrialEnd: userSubscriptionRecord?.trialEnd,
         previousStripeId: userSubscriptionRecord?.stripeSubscriptionId,
       });
-    } else {
+    } else if (isEligibleForTrial) {
       console.log("[SUBSCRIPTION_CHECKOUT_TRIAL_CHECK] ✅ TRIAL ELIGIBLE - First-time user:", {
-        trialDays: TRIAL_DAYS,
+        trialDays: planTrialDays,
         willCharge: "after trial ends",
       });
     }
@@ -248,6 +267,7 @@ export async function POST(
         userId,
         storeId,
         email,
+        planId: plan?.id ?? "",
         hadTrialBefore: userHadTrialBefore.toString(),
         isEligibleForTrial: isEligibleForTrial.toString(),
         checkoutTimestamp: new Date().toISOString(),
@@ -344,6 +364,7 @@ export async function POST(
         storeId,
         email,
         priceId,
+        planId: plan?.id ?? "",
         idempotencyKey,
         checkoutTimestamp: new Date().toISOString(),
       },
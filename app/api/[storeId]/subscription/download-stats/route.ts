@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { verifyCustomerToken } from "@/lib/verify-customer-token";
 import { hasActiveSubscription } from "@/lib/subscription";
 import prismadb from "@/lib/prismadb";
+import { getDownloadAllowance } from "@/lib/download-quota";
 
 // Dynamic CORS headers based on origin
 const getCorsHeaders = (origin: string | null) => {
@@ -117,10 +118,14 @@ export async function GET(
       },
     });
 
+    // Remaining premium allowance under the store's fair-use quota
+    const allowance = await getDownloadAllowance(userId, storeId);
+
     const stats = {
       totalDownloads,
       premiumDownloads,
       freeDownloads,
+      quota: allowance,
     };
 
     return NextResponse.json(stats, { headers: corsHeaders });
@@ -136,6 +136,14 @@ export async function GET(
               name: subscription.Store.name,
             }
           : null,
+        plan: subscription.Plan
+          ? {
+              id: subscription.Plan.id,
+              name: subscription.Plan.name,
+              categoryIds: subscription.Plan.categoryIds,
+              downloadQuota: subscription.Plan.downloadQuota,
+            }
+          : null,
       },
     };
 
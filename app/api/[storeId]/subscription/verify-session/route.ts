@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { stripe } from "@/lib/stripe";
 import { verifyCustomerToken } from "@/lib/verify-customer-token";
 import { getSubscriptionStatus } from "@/lib/subscription";
+import { resolvePlanId } from "@/lib/plans";
 import prismadb from "@/lib/prismadb";
 import { SubscriptionStatus } from "@prisma/client";
 
@@ -160,6 +161,7 @@ export async function GET(
             stripeSubscriptionId: stripeSubscription.id, // This will update to the NEW subscription ID
             stripeCustomerId: stripeSubscription.customer as string,
             status, // This will update to ACTIVE/TRIALING from CANCELED
+            planId: await resolvePlanId(storeId, stripeSubscription),
             currentPeriodStart: stripeSubscription.current_period_start
               ? new Date(stripeSubscription.current_period_start * 1000)
               : null,
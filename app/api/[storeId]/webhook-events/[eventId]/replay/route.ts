@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import prismadb from "@/lib/prismadb";
+import { replayWebhookEvent } from "@/lib/webhooks/event-log";
+
+// POST: Re-run the handler for a stored webhook event
+export async function POST(
+  req: Request,
+  context: { params: Promise<{ storeId: string; eventId: string }> }
+) {
+  try {
+    const { storeId, eventId } = await context.params;
+    const { userId } = await auth();
+
+    if (!userId) {
+      return new NextResponse("Unauthenticated", { status: 401 });
+    }
+
+    const store = await prismadb.store.findFirst({
+      where: { id: storeId, userId },
+    });
+
+    if (!store) {
+      return new NextResponse("Unauthorized", { status: 403 });
+    }
+
+    const result = await replayWebhookEvent(storeId, eventId);
+
+    if (!result) {
+      return new NextResponse("Webhook event not found", { status: 404 });
+    }
+
+    if (result.status === "duplicate") {
+      return new NextResponse("Webhook event is already being processed", { status: 409 });
+    }
+
+    if (result.status === "failed") {
+      return new NextResponse(result.error, { status: 422 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("[WEBHOOK_EVENT_REPLAY]", error);
+    return new NextResponse("Internal Server Error", { status: 500 });
+  }
+}
@@ -7,6 +7,13 @@ import {
   sendWeeklyReport,
   sendMonthlyReport,
 } from "@/app/inngest/functions/scheduled-reports";
+import {
+  reconcileSearchIndex,
+  scheduleSearchReconciliation,
+} from "@/app/inngest/functions/reconcileSearchIndex";
+import { reindexSearchCollection } from "@/app/inngest/functions/reindexSearchCollection";
+import { releaseAbandonedCheckouts } from "@/app/inngest/functions/releaseAbandonedCheckouts";
+import { syncSearchOutbox } from "@/app/inngest/functions/syncSearchOutbox";
 
 import { inngest } from "@/app/inngest/inngest";
 
@@ -18,6 +25,11 @@ export const { GET, POST, PUT } = serve({
     sendDailyReport,
     sendWeeklyReport,
     sendMonthlyReport,
+    syncSearchOutbox,
+    reconcileSearchIndex,
+    scheduleSearchReconciliation,
+    reindexSearchCollection,
+    releaseAbandonedCheckouts,
   ],
   servePath: "/api/inngest",
 });
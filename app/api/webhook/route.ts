@@ -1,8 +1,8 @@
 import Stripe from "stripe";
 import { NextResponse } from "next/server";
 import { stripe } from "@/lib/stripe";
-import prismadb from "@/lib/prismadb";
-import { sendOrderNotificationToAdmin } from "@/lib/email";
+import { WebhookSource } from "@prisma/client";
+import { processWebhookEvent } from "@/lib/webhooks/event-log";
 
 export async function POST(req: Request) {
   const body = await req.text();
@@ -21,61 +21,15 @@ export async function POST(req: Request) {
     return new NextResponse(`Webhook Error: ${error}`, { status: 400 });
   }
 
-  if (event.type === "checkout.session.completed") {
-    const session = event.data.object as Stripe.Checkout.Session;
+  const result = await processWebhookEvent({
+    source: WebhookSource.STRIPE,
+    eventId: event.id,
+    type: event.type,
+    payload: event,
+  });
 
-    const orderId = session?.metadata?.orderId;
-    if (!orderId) {
-      console.warn("⚠️ No orderId in session metadata");
-      return new NextResponse("No order ID", { status: 400 });
-    }
-
-    try {
-      const updatedOrder = await prismadb.order.update({
-        where: { id: orderId },
-        data: { isPaid: true },
-        include: {
-          OrderItem: {
-            include: {
-              products: true,
-            },
-          },
-          Store: true,
-        },
-      });
-
-      console.log("✅ Order marked as paid:", updatedOrder.id);
-
-      // Get actual payment amount from Stripe (amount_total is in cents)
-      const actualPaymentAmount = session.amount_total
-        ? session.amount_total / 100
-        : updatedOrder.price?.toNumber() || 0;
-
-      console.log("💰 Payment Amount - Order Price:", updatedOrder.price?.toNumber() || 0);
-      console.log("💰 Payment Amount - Actual Paid (Stripe):", actualPaymentAmount);
-
-      const emailData = {
-        orderId: updatedOrder.id,
-        customerEmail: updatedOrder.email || "unknown@customer.com",
-        customerName: session.customer_details?.name ?? undefined,
-        totalAmount: actualPaymentAmount, // Use actual payment amount
-        products: updatedOrder.OrderItem.map((item) => ({
-          name: item.products.name,
-          price: item.products.price.toNumber(),
-        })),
-        storeName: updatedOrder.Store.name,
-        paymentMethod: session.payment_method_types?.[0] ?? "Stripe",
-        orderDate: updatedOrder.createdAt,
-      };
-
-      console.log("📧 Sending admin email to:", process.env.ADMIN_EMAIL);
-      console.log("📧 Email will show payment amount: $", actualPaymentAmount.toFixed(2));
-      await sendOrderNotificationToAdmin(emailData);
-
-    } catch (error) {
-      console.error("❌ Error updating order in DB:", error);
-      return new NextResponse("Database update error", { status: 500 });
-    }
+  if (result.status === "failed") {
+    return new NextResponse(`Webhook processing error: ${result.error}`, { status: 500 });
   }
 
   return new NextResponse(null, { status: 200 });
@@ -1,6 +1,10 @@
 import { inngest } from "@/app/inngest/inngest";
 import prismadb from "@/lib/prismadb";
 import { Decimal } from "@prisma/client/runtime/library";
+import type { Prisma } from "@prisma/client";
+import { recordImportChange } from "@/lib/import-rollback";
+import { splitImportList } from "@/lib/validation/product-import-schema";
+import { enqueueSearchSync, requestSearchSync } from "@/lib/search-outbox";
 
 interface ProductRow {
   name: string;
@@ -13,6 +17,8 @@ interface ProductRow {
   isArchived: boolean;
   keywords: string[];
   videoUrl?: string | null;
+  // Set for rows generated by the CSV Maker
+  promptTemplateId?: string | null;
 }
 
 // eslint-disable-next-line  @typescript-eslint/no-unused-vars
@@ -22,6 +28,8 @@ interface BulkImportEvent {
     storeId: string;
     items: ProductRow[];
     importId?: string;
+    // Offset of this chunk in the submitted rows, for failure row numbers
+    startRow?: number;
   };
 }
 
@@ -31,17 +39,31 @@ export const bulkImport = inngest.createFunction(
     name: "Bulk Import Products",
     concurrency: {
       limit: 5,
-    }
+    },
+    // A chunk that failed for good counts its rows as failed, so the import still finishes
+    onFailure: async ({ event, error }) => {
+      const { importId, items } = event.data.event.data;
+      console.error(`❌ [Inngest] Bulk import chunk failed (ImportID: ${importId || 'none'}):`, error.message);
+
+      if (importId) {
+        await prismadb.product_import_logs.update({
+          where: { id: importId },
+          data: { failedRows: { increment: items.length } },
+        });
+        await settleImportLog(importId);
+      }
+    },
   },
   { event: "bulk.import" },
   async ({ event, step }) => {
-    const { items, storeId, importId } = event.data;
+    const { items, storeId, importId, startRow = 0 } = event.data;
     const CHUNK_SIZE = 100;
 
     console.log(`🚀 [Inngest] Starting bulk import for store ${storeId} (ImportID: ${importId || 'none'})`);
     console.log(`📊 [Inngest] Processing ${items.length} items in chunks of ${CHUNK_SIZE}`);
 
     const totalChunks = Math.ceil(items.length / CHUNK_SIZE);
+    let cancelled = false;
 
     // Initialize accumulator in a step to persist across replays
     // Limit failed items to prevent state size issues (max 100 failed items)
@@ -56,7 +78,25 @@ export const bulkImport = inngest.createFunction(
 
       console.log(`🔄 [Inngest] Processing chunk ${chunkNumber}/${totalChunks} (${chunk.length} items)`);
 
+      // Writes the rows and counts them on the import log in one step, so the
+      // log never lags behind what was written
       const chunkResult = await step.run(`insert-batch-${i}`, async () => {
+        // Chunks that start after a cancel leave their rows untouched
+        if (importId) {
+          const importLog = await prismadb.product_import_logs.findUnique({
+            where: { id: importId },
+            select: { status: true },
+          });
+          if (importLog?.status === "CANCELLING" || importLog?.status === "CANCELLED") {
+            await prismadb.product_import_logs.update({
+              where: { id: importId },
+              data: { skippedRows: { increment: items.length - i } },
+            });
+            await settleImportLog(importId);
+            return { success: 0, failed: 0, failedItems: [], cancelled: true };
+          }
+        }
+
         // Process each item individually with error handling
         const results = await Promise.allSettled(
           chunk.map(async (row: ProductRow) => {
@@ -67,8 +107,8 @@ export const bulkImport = inngest.createFunction(
                 if (Array.isArray(row.imageUrl)) {
                   imageUrls = row.imageUrl.filter((url) => url && typeof url === 'string' && url.trim().length > 0);
                 } else if (typeof row.imageUrl === 'string') {
-                  // Handle comma-separated string
-                  imageUrls = row.imageUrl.split(',').map(url => url.trim()).filter(url => url.length > 0);
+                  // Handle a pipe- or comma-separated string
+                  imageUrls = splitImportList(row.imageUrl);
                 }
               }
 
@@ -101,34 +141,49 @@ export const bulkImport = inngest.createFunction(
                   const imagesDifferent = JSON.stringify(existingImageUrls) !== JSON.stringify(newImageUrls);
 
                   if (imagesDifferent) {
-                    await prismadb.image.deleteMany({ where: { productId: existing.id } });
-                    if (imageUrls.length > 0) {
-                      await prismadb.image.createMany({
-                        data: imageUrls.map((url: string) => ({
-                          id: crypto.randomUUID(),
-                          url: url.trim(),
-                          productId: existing.id,
-                          updatedAt: new Date()
-                        })),
-                      });
+                    if (importId) {
+                      await recordImportChange(importId, existing.id, existing);
                     }
+                    // Queued like every other product write of the import
+                    await prismadb.$transaction([
+                      prismadb.image.deleteMany({ where: { productId: existing.id } }),
+                      ...(imageUrls.length > 0
+                        ? [
+                            prismadb.image.createMany({
+                              data: imageUrls.map((url: string) => ({
+                                id: crypto.randomUUID(),
+                                url: url.trim(),
+                                productId: existing.id,
+                                updatedAt: new Date()
+                              })),
+                            }),
+                          ]
+                        : []),
+                      enqueueSearchSync(storeId, [existing.id], "UPSERT"),
+                    ]);
                   }
                   return { success: true, name: row.name };
                 }
 
-                await prismadb.products.update({
-                  where: { id: existing.id },
-                  data: {
-                    description: row.description,
-                    price: rowPrice,
-                    categoryId: row.categoryId,
-                    downloadUrl: row.downloadUrl ?? null,
-                    isFeatured: row.isFeatured,
-                    isArchived: row.isArchived,
-                    keywords: row.keywords,
-                    videoUrl: row.videoUrl ?? null,
-                  },
-                });
+                if (importId) {
+                  await recordImportChange(importId, existing.id, existing);
+                }
+                await prismadb.$transaction([
+                  prismadb.products.update({
+                    where: { id: existing.id },
+                    data: {
+                      description: row.description,
+                      price: rowPrice,
+                      categoryId: row.categoryId,
+                      downloadUrl: row.downloadUrl ?? null,
+                      isFeatured: row.isFeatured,
+                      isArchived: row.isArchived,
+                      keywords: row.keywords,
+                      videoUrl: row.videoUrl ?? null,
+                    },
+                  }),
+                  enqueueSearchSync(storeId, [existing.id], "UPSERT"),
+                ]);
 
                 // Always update images if provided
                 await prismadb.image.deleteMany({ where: { productId: existing.id } });
@@ -147,22 +202,30 @@ export const bulkImport = inngest.createFunction(
                 let product;
                 try {
                   console.log(`➕ [Inngest] Creating new product: "${row.name}"`);
-                  product = await prismadb.products.create({
-                    data: {
-                      id: crypto.randomUUID(),
-                      name: row.name,
-                      description: row.description,
-                      price: rowPrice,
-                      categoryId: row.categoryId,
-                      downloadUrl: row.downloadUrl ?? null,
-                      isFeatured: row.isFeatured,
-                      isArchived: row.isArchived,
-                      keywords: row.keywords,
-                      videoUrl: row.videoUrl ?? null,
-                      storeId: storeId,
-                      updatedAt: new Date(),
-                    },
-                  });
+                  const productId = crypto.randomUUID();
+                  if (importId) {
+                    await recordImportChange(importId, productId, null);
+                  }
+                  [product] = await prismadb.$transaction([
+                    prismadb.products.create({
+                      data: {
+                        id: productId,
+                        name: row.name,
+                        description: row.description,
+                        price: rowPrice,
+                        categoryId: row.categoryId,
+                        downloadUrl: row.downloadUrl ?? null,
+                        isFeatured: row.isFeatured,
+                        isArchived: row.isArchived,
+                        keywords: row.keywords,
+                        videoUrl: row.videoUrl ?? null,
+                        promptTemplateId: row.promptTemplateId ?? null,
+                        storeId: storeId,
+                        updatedAt: new Date(),
+                      },
+                    }),
+                    enqueueSearchSync(storeId, [productId], "UPSERT"),
+                  ]);
                   console.log(`✅ [Inngest] Successfully created product: "${row.name}" (ID: ${product.id})`);
                 } catch (createError: unknown) {
                   // If unique constraint violation, product already exists - fetch and update it
@@ -179,20 +242,26 @@ export const bulkImport = inngest.createFunction(
 
                     if (existingProduct) {
                       console.log(`🔄 [Inngest] Found existing product "${row.name}", updating...`);
+                      if (importId) {
+                        await recordImportChange(importId, existingProduct.id, existingProduct);
+                      }
                       // Update existing product
-                      await prismadb.products.update({
-                        where: { id: existingProduct.id },
-                        data: {
-                          description: row.description,
-                          price: rowPrice,
-                          categoryId: row.categoryId,
-                          downloadUrl: row.downloadUrl ?? null,
-                          isFeatured: row.isFeatured,
-                          isArchived: row.isArchived,
-                          keywords: row.keywords,
-                          videoUrl: row.videoUrl ?? null,
-                        },
-                      });
+                      await prismadb.$transaction([
+                        prismadb.products.update({
+                          where: { id: existingProduct.id },
+                          data: {
+                            description: row.description,
+                            price: rowPrice,
+                            categoryId: row.categoryId,
+                            downloadUrl: row.downloadUrl ?? null,
+                            isFeatured: row.isFeatured,
+                            isArchived: row.isArchived,
+                            keywords: row.keywords,
+                            videoUrl: row.videoUrl ?? null,
+                          },
+                        }),
+                        enqueueSearchSync(storeId, [existingProduct.id], "UPSERT"),
+                      ]);
 
                       // Update images
                       await prismadb.image.deleteMany({ where: { productId: existingProduct.id } });
@@ -255,7 +324,9 @@ export const bulkImport = inngest.createFunction(
         let chunkFailed = 0;
         const chunkFailedItems: Array<{ name: string; error: string }> = [];
 
-        results.forEach((result) => {
+        const failures: Array<{ rowNumber: number; row: ProductRow; name: string; error: string }> = [];
+
+        results.forEach((result, index) => {
           if (result.status === "fulfilled") {
             if (result.value?.success) {
               chunkSuccess++;
@@ -267,9 +338,45 @@ export const bulkImport = inngest.createFunction(
               chunkFailedItems.push(errorInfo);
               console.error(`❌ [Inngest] Failed to import: ${errorInfo.name} - ${errorInfo.error}`);
             }
+            failures.push({
+              rowNumber: startRow + i + index + 1,
+              row: chunk[index],
+              name: chunk[index].name,
+              error: errorInfo?.error ?? "Unknown error",
+            });
           }
         });
 
+        if (chunkSuccess > 0) {
+          await requestSearchSync();
+        }
+
+        // Keep the failed rows themselves so they can be downloaded from the import history
+        if (importId && failures.length > 0) {
+          await prismadb.product_import_failures.createMany({
+            data: failures.map((failure) => ({
+              id: crypto.randomUUID(),
+              importId,
+              rowNumber: failure.rowNumber,
+              name: failure.name,
+              row: failure.row as unknown as Prisma.InputJsonValue,
+              error: failure.error,
+            })),
+            skipDuplicates: true,
+          });
+        }
+
+        if (importId) {
+          await prismadb.product_import_logs.update({
+            where: { id: importId },
+            data: {
+              processedRows: { increment: chunkSuccess },
+              failedRows: { increment: chunkFailed },
+            },
+          });
+          await settleImportLog(importId);
+        }
+
         console.log(`✅ [Inngest] Chunk ${chunkNumber}/${totalChunks} completed: ${chunkSuccess} success, ${chunkFailed} failed`);
 
         // Return counts from this chunk
@@ -277,31 +384,14 @@ export const bulkImport = inngest.createFunction(
           success: chunkSuccess,
           failed: chunkFailed,
           failedItems: chunkFailedItems,
+          cancelled: false,
         };
       });
 
-      // Update Import Log if ID is present
-      if (importId) {
-        await step.run(`update-log-${i}`, async () => {
-          const updatedLog = await prismadb.product_import_logs.update({
-            where: { id: importId },
-            data: {
-              processedRows: { increment: chunkResult.success },
-              failedRows: { increment: chunkResult.failed },
-            }
-          });
-
-          // Check completion
-          if ((updatedLog.processedRows || 0) + (updatedLog.failedRows || 0) >= updatedLog.totalRows) {
-            await prismadb.product_import_logs.update({
-              where: { id: importId },
-              data: {
-                status: "COMPLETED",
-                completedAt: new Date()
-              }
-            });
-          }
-        });
+      if (chunkResult.cancelled) {
+        console.log(`🛑 [Inngest] Import ${importId} was cancelled, skipping remaining chunks`);
+        cancelled = true;
+        break;
       }
 
       // Accumulate counts in a persistent step
@@ -330,7 +420,7 @@ export const bulkImport = inngest.createFunction(
     }
 
     return {
-      status: "completed",
+      status: cancelled ? "cancelled" : "completed",
       totalItems: items.length,
       successCount: accumulator.successCount,
       failedCount: accumulator.failedCount,
@@ -338,3 +428,34 @@ export const bulkImport = inngest.createFunction(
     };
   }
 );
+
+/**
+ * Close the import log once every row is accounted for. A running import
+ * completes; a cancelled one only becomes CANCELLED here, after its last
+ * chunk has stopped writing, so it can't be rolled back mid-write.
+ */
+async function settleImportLog(importId: string): Promise<void> {
+  const importLog = await prismadb.product_import_logs.findUnique({ where: { id: importId } });
+
+  if (!importLog) {
+    return;
+  }
+
+  const failedRows = importLog.failedRows || 0;
+  if ((importLog.processedRows || 0) + failedRows + importLog.skippedRows < importLog.totalRows) {
+    return;
+  }
+
+  const completedAt = new Date();
+  const processingTimeMs = importLog.startedAt ? completedAt.getTime() - importLog.startedAt.getTime() : null;
+
+  await prismadb.product_import_logs.updateMany({
+    where: { id: importId, status: "PROCESSING" },
+    data: { status: failedRows > 0 ? "COMPLETED_WITH_ERRORS" : "COMPLETED", completedAt, processingTimeMs },
+  });
+  // Also catches a cancel that landed between the read above and the update
+  await prismadb.product_import_logs.updateMany({
+    where: { id: importId, status: "CANCELLING" },
+    data: { status: "CANCELLED", completedAt, processingTimeMs },
+  });
+}
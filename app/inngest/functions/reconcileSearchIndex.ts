@@ -0,0 +1,65 @@
+import { inngest } from "@/app/inngest/inngest";
+import {
+  createStoreReconciliations,
+  failSearchReconciliation,
+  reconcileSearchIndex as reconcileStoreSearchIndex,
+  removeDeletedStoreDocuments,
+  SEARCH_RECONCILE_EVENT,
+} from "@/lib/search-reconciliation";
+
+// Checks one store's search documents for drift and queues the repairs.
+// Sent by the dashboard action and by the nightly fan-out below.
+export const reconcileSearchIndex = inngest.createFunction(
+  {
+    id: "reconcile-search-index",
+    name: "Reconcile Search Index",
+    // One check per store at a time; each reads the whole store
+    concurrency: { limit: 1, key: "event.data.storeId" },
+  },
+  { event: SEARCH_RECONCILE_EVENT },
+  async ({ event, step }) => {
+    const { reconciliationId } = event.data;
+
+    try {
+      const report = await step.run("reconcile", async () => {
+        return reconcileStoreSearchIndex(reconciliationId);
+      });
+
+      console.log(
+        `🔎 [Inngest] Search reconciliation ${reconciliationId}: ${report.missingCount} missing, ${report.orphanedCount} orphaned, ${report.staleCount} stale`
+      );
+
+      return report;
+    } catch (error) {
+      console.error(`❌ [Inngest] Search reconciliation ${reconciliationId} failed:`, error);
+
+      await failSearchReconciliation(reconciliationId, error instanceof Error ? error.message : String(error));
+
+      throw error;
+    }
+  }
+);
+
+// Nightly drift check of every store, plus cleanup of documents left behind by deleted stores
+export const scheduleSearchReconciliation = inngest.createFunction(
+  { id: "schedule-search-reconciliation", name: "Schedule Search Index Reconciliation" },
+  { cron: "0 3 * * *" }, // Every day at 3 AM
+  async ({ step }) => {
+    const removed = await step.run("remove-deleted-store-documents", async () => {
+      return removeDeletedStoreDocuments();
+    });
+
+    const reconciliations = await step.run("create-reconciliations", async () => {
+      return createStoreReconciliations("SCHEDULED");
+    });
+
+    if (reconciliations.length > 0) {
+      await step.sendEvent(
+        "request-reconciliations",
+        reconciliations.map((data) => ({ name: SEARCH_RECONCILE_EVENT, data }))
+      );
+    }
+
+    return { removed, scheduled: reconciliations.length };
+  }
+);
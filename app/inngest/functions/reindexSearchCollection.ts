@@ -0,0 +1,95 @@
+import { inngest } from "@/app/inngest/inngest";
+import {
+  getProductAliasTarget,
+  indexProductPage,
+  prepareProductCollection,
+  SEARCH_REINDEX_EVENT,
+  swapProductAlias,
+  verifyProductCollection,
+} from "@/lib/search-collections";
+import { createStoreReconciliations, SEARCH_RECONCILE_EVENT } from "@/lib/search-reconciliation";
+import { productCollectionName } from "@/lib/typesense";
+
+const PAGE_SIZE = 1000;
+
+// Builds the collection for the current PRODUCT_SCHEMA_VERSION from the
+// database while searches keep using the live one, then swaps the alias.
+// The outbox keeps writing to the live collection during the build: products
+// written since the build started are indexed again just before the swap, and
+// a drift check of every store afterwards repairs anything that still raced it.
+export const reindexSearchCollection = inngest.createFunction(
+  {
+    id: "reindex-search-collection",
+    name: "Reindex Search Collection",
+    concurrency: { limit: 1 },
+  },
+  { event: SEARCH_REINDEX_EVENT },
+  async ({ step }) => {
+    const collectionName = productCollectionName();
+
+    const build = await step.run("prepare-collection", async () => {
+      if ((await getProductAliasTarget()) === collectionName) {
+        return null;
+      }
+
+      await prepareProductCollection(collectionName);
+      return { startedAt: new Date().toISOString() };
+    });
+
+    if (!build) {
+      console.log(`ℹ️ [Inngest] Search alias already points at ${collectionName}, nothing to reindex`);
+      return { status: "skipped", collectionName };
+    }
+
+    console.log(`🚀 [Inngest] Building search collection ${collectionName}`);
+
+    let cursor: string | null = null;
+    let indexed = 0;
+    let failed = 0;
+
+    for (let page = 0; ; page++) {
+      const result = await step.run(`index-page-${page}`, async () => {
+        return indexProductPage(collectionName, cursor, PAGE_SIZE);
+      });
+
+      indexed += result.indexed;
+      failed += result.failed;
+      cursor = result.cursor;
+
+      if (!cursor) {
+        break;
+      }
+    }
+
+    const replaced = await step.run("swap-alias", async () => {
+      // Catch up on writes made while the build ran
+      let catchUpCursor: string | null = null;
+      do {
+        const result = await indexProductPage(collectionName, catchUpCursor, PAGE_SIZE, new Date(build.startedAt));
+        catchUpCursor = result.cursor;
+      } while (catchUpCursor);
+
+      // A failed check fails the run and leaves searches on the live collection
+      await verifyProductCollection(collectionName, failed);
+
+      return swapProductAlias(collectionName);
+    });
+
+    const reconciliations = await step.run("create-reconciliations", async () => {
+      return createStoreReconciliations("SCHEDULED");
+    });
+
+    if (reconciliations.length > 0) {
+      await step.sendEvent(
+        "request-reconciliations",
+        reconciliations.map((data) => ({ name: SEARCH_RECONCILE_EVENT, data }))
+      );
+    }
+
+    console.log(
+      `✅ [Inngest] Search alias now points at ${collectionName}: ${indexed} indexed, ${failed} failed, replaced ${replaced.join(", ") || "nothing"}`
+    );
+
+    return { status: "completed", collectionName, indexed, failed, replaced };
+  }
+);
@@ -0,0 +1,16 @@
+import { inngest } from "@/app/inngest/inngest";
+import { releaseAbandonedCouponRedemptions } from "@/lib/coupons";
+
+// Frees the coupon redemptions of PayPal checkouts that were never paid.
+// Stripe checkouts release theirs on checkout.session.expired.
+export const releaseAbandonedCheckouts = inngest.createFunction(
+  { id: "release-abandoned-checkouts", name: "Release Abandoned Checkout Coupons" },
+  { cron: "0 * * * *" }, // Every hour
+  async ({ step }) => {
+    const released = await step.run("release-coupon-redemptions", async () => {
+      return releaseAbandonedCouponRedemptions();
+    });
+
+    return { released };
+  }
+);
@@ -0,0 +1,40 @@
+import { inngest } from "@/app/inngest/inngest";
+import { processSearchOutbox, SEARCH_OUTBOX_EVENT } from "@/lib/search-outbox";
+
+const BATCH_SIZE = 100;
+const MAX_BATCHES_PER_RUN = 50;
+
+// Drains the Typesense outbox. Product writes send SEARCH_OUTBOX_EVENT; the
+// cron picks up anything whose event was lost and rows waiting on a retry.
+export const syncSearchOutbox = inngest.createFunction(
+  {
+    id: "sync-search-outbox",
+    name: "Sync Search Outbox to Typesense",
+    // A single consumer, so two runs never race on the same rows
+    concurrency: { limit: 1 },
+  },
+  [{ event: SEARCH_OUTBOX_EVENT }, { cron: "* * * * *" }],
+  async ({ step }) => {
+    let synced = 0;
+    let failed = 0;
+
+    for (let batch = 0; batch < MAX_BATCHES_PER_RUN; batch++) {
+      const result = await step.run(`sync-batch-${batch}`, async () => {
+        return processSearchOutbox(BATCH_SIZE);
+      });
+
+      synced += result.synced;
+      failed += result.failed;
+
+      if (result.synced + result.failed < BATCH_SIZE) {
+        break;
+      }
+    }
+
+    if (synced > 0 || failed > 0) {
+      console.log(`🔎 [Inngest] Search outbox: ${synced} synced, ${failed} failed`);
+    }
+
+    return { synced, failed };
+  }
+);
@@ -4,7 +4,7 @@ import { useState, useCallback, useMemo, useEffect } from "react"
 import { useDropzone } from "react-dropzone"
 import Papa from "papaparse"
 import { toast } from "react-hot-toast"
-import { UploadCloud, AlertCircle, TableIcon, CheckCircle, Download, FileText, Loader2 } from "lucide-react"
+import { UploadCloud, AlertCircle, TableIcon, CheckCircle, Download, FileText, Loader2, Ban } from "lucide-react"
 import {
   validateProductBatch,
   type ProductImportRow,
@@ -19,9 +19,17 @@ import { Progress } from "@/components/ui/progress"
 import { Badge } from "@/components/ui/badge"
 import { Separator } from "@/components/ui/separator"
 import { ErrorManagement } from "./error-management"
+import { ImportPreview } from "./import-preview"
+import { RollbackImportButton } from "./rollback-import-button"
+import { MissingCategories } from "./missing-categories"
+import type { CategoryTreeItem } from "@/lib/category-tree"
+import type { ImportPreview as ImportPreviewData } from "@/lib/import-preview"
 
 interface CsvImportPageProps {
   storeId: string
+  // Store categories, so rows can name their category instead of giving its ID
+  categories: CategoryTreeItem[]
+  billboards: { id: string; label: string }[]
   onImportSuccess?: () => void
 }
 
@@ -38,14 +46,16 @@ interface ImportResult {
   errors: ValidationError[]
   failedRows: ProductImportRow[]
   importId?: string
+  rolledBack?: boolean
+  cancelled?: boolean
 }
 
-type ImportStatus = "idle" | "parsing" | "uploading" | "completed" | "error"
+type ImportStatus = "idle" | "parsing" | "previewing" | "uploading" | "completed" | "error"
 
 const MAX_FILE_SIZE = 50 * 1024 * 1024 // 50MB
 const PREVIEW_ROWS = 5
 
-export default function CsvImportPage({ storeId, onImportSuccess }: CsvImportPageProps) {
+export default function CsvImportPage({ storeId, categories, billboards, onImportSuccess }: CsvImportPageProps) {
   const [rows, setRows] = useState<ValidatedProductImportRow[]>([])
   const [validationErrors, setValidationErrors] = useState<ValidationError[]>([])
   const [status, setStatus] = useState<ImportStatus>("idle")
@@ -54,14 +64,19 @@ export default function CsvImportPage({ storeId, onImportSuccess }: CsvImportPag
   const [fileName, setFileName] = useState<string>("")
   const [showErrorManagement, setShowErrorManagement] = useState(false)
   const [originalRows, setOriginalRows] = useState<ProductImportRow[]>([])
+  const [preview, setPreview] = useState<ImportPreviewData | null>(null)
+  const [previewItems, setPreviewItems] = useState<unknown[]>([])
+  const [categoryList, setCategoryList] = useState<CategoryTreeItem[]>(categories)
+  const [missingCategories, setMissingCategories] = useState<string[]>([])
 
   // Monitoring state
   const [monitoring, setMonitoring] = useState(false)
   const [currentImportId, setCurrentImportId] = useState<string | null>(null)
+  const [cancelling, setCancelling] = useState(false)
 
-  const isLoading = status === "parsing" || status === "uploading" || monitoring
+  const isLoading = status === "parsing" || status === "previewing" || status === "uploading" || monitoring
   const hasErrors = validationErrors.length > 0
-  const canImport = rows.length > 0 && !hasErrors && !isLoading
+  const canImport = rows.length > 0 && !hasErrors && !isLoading && !preview
 
   // Polling effect
   useEffect(() => {
@@ -89,7 +104,8 @@ export default function CsvImportPage({ storeId, onImportSuccess }: CsvImportPag
             processed: data.processedRows || 0,
             failed: data.failedRows || 0,
             errors: [],
-            failedRows: [] // We don't have these details in the poll response yet
+            failedRows: [], // We don't have these details in the poll response yet
+            importId: currentImportId,
           })
 
           if (data.status === "FAILED") {
@@ -97,6 +113,19 @@ export default function CsvImportPage({ storeId, onImportSuccess }: CsvImportPag
           } else {
             toast.success("Import completed!")
           }
+        } else if (data.status === "CANCELLED") {
+          setMonitoring(false)
+          setStatus("completed")
+          setImportResult({
+            success: false,
+            processed: data.processedRows || 0,
+            failed: data.failedRows || 0,
+            errors: [],
+            failedRows: [],
+            importId: currentImportId,
+            cancelled: true,
+          })
+          toast(`Import cancelled. ${data.processedRows || 0} of ${data.totalRows} rows were already applied.`)
         }
       } catch (error) {
         console.error("Polling error:", error)
@@ -124,6 +153,7 @@ export default function CsvImportPage({ storeId, onImportSuccess }: CsvImportPag
     setFileName(file.name)
     setValidationErrors([])
     setRows([])
+    setPreview(null)
 
     Papa.parse<ProductImportRow>(file, {
       header: true,
@@ -138,11 +168,15 @@ export default function CsvImportPage({ storeId, onImportSuccess }: CsvImportPag
             return
           }
 
-          setOriginalRows(results.data)
-          const { validRows, errors } = validateProductBatch(results.data)
+          const { validRows, errors, rows: resolvedRows, missingCategories: missing } = validateProductBatch(
+            results.data,
+            categoryList
+          )
 
+          setOriginalRows(resolvedRows)
           setRows(validRows)
           setValidationErrors(errors)
+          setMissingCategories(missing)
           setStatus("completed")
 
           if (errors.length > 0) {
@@ -166,7 +200,7 @@ export default function CsvImportPage({ storeId, onImportSuccess }: CsvImportPag
         setStatus("error")
       },
     })
-  }, [])
+  }, [categoryList])
 
   const { getRootProps, getInputProps, isDragActive, fileRejections } = useDropzone({
     onDrop,
@@ -185,8 +219,50 @@ export default function CsvImportPage({ storeId, onImportSuccess }: CsvImportPag
     </div>
   ))
 
-  const handleImport = async (): Promise<void> => {
+  // Dry run first: nothing is queued until the rows are approved in the preview
+  const requestPreview = async (items: unknown[]): Promise<void> => {
+    if (items.length === 0) return
+
+    setStatus("previewing")
+
+    try {
+      const response = await fetch(`/api/${storeId}/products/bulk-import`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          storeId,
+          items,
+          dryRun: true,
+        }),
+      })
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`)
+      }
+
+      const result: ImportPreviewData = await response.json()
+
+      setPreviewItems(items)
+      setPreview(result)
+      setShowErrorManagement(false)
+      setStatus("completed")
+    } catch (error) {
+      console.error("Preview error:", error)
+      toast.error("Could not preview the import. Please try again.")
+      setStatus("error")
+    }
+  }
+
+  const handlePreview = async (): Promise<void> => {
     if (!canImport) return
+    await requestPreview(rows)
+  }
+
+  const handleConfirmImport = async (indexes: number[]): Promise<void> => {
+    const items = indexes.map((index) => previewItems[index])
+    if (items.length === 0) return
 
     setStatus("uploading")
     setUploadProgress(0)
@@ -199,15 +275,18 @@ export default function CsvImportPage({ storeId, onImportSuccess }: CsvImportPag
         },
         body: JSON.stringify({
           storeId,
-          items: rows,
+          items,
+          fileName,
         }),
       })
 
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`)
+        // Rows the server rejects come back as "Row N: <reason>"
+        throw new Error(await response.text())
       }
 
       const result = await response.json()
+      setPreview(null)
 
       if (result.success && result.importId) {
         // Start monitoring
@@ -228,11 +307,33 @@ export default function CsvImportPage({ storeId, onImportSuccess }: CsvImportPag
       }
     } catch (error) {
       console.error("Import error:", error)
-      toast.error("Import failed. Please try again or contact support.")
+      toast.error(error instanceof Error && error.message ? error.message : "Import failed. Please try again or contact support.")
       setStatus("error")
     }
   }
 
+  const handleCancelImport = async (): Promise<void> => {
+    if (!currentImportId) return
+
+    setCancelling(true)
+
+    try {
+      const response = await fetch(`/api/${storeId}/import-status/${currentImportId}/cancel`, {
+        method: "POST",
+      })
+
+      if (!response.ok) {
+        throw new Error(await response.text())
+      }
+      // Polling picks up the CANCELLED status once the running chunks stop, and reports the applied rows
+    } catch (error) {
+      console.error("Cancel error:", error)
+      toast.error(error instanceof Error && error.message ? error.message : "Could not cancel the import.")
+    } finally {
+      setCancelling(false)
+    }
+  }
+
   const handleExportFailedRows = (): void => {
     if (!importResult?.failedRows.length) return
 
@@ -254,6 +355,24 @@ export default function CsvImportPage({ storeId, onImportSuccess }: CsvImportPag
     setFileName("")
     setShowErrorManagement(false)
     setOriginalRows([])
+    setPreview(null)
+    setPreviewItems([])
+    setMissingCategories([])
+  }
+
+  // New categories may resolve rows that failed on their category name
+  const handleCategoriesCreated = (updated: CategoryTreeItem[]): void => {
+    const { validRows, errors, rows: resolvedRows, missingCategories: missing } = validateProductBatch(
+      originalRows,
+      updated
+    )
+
+    setCategoryList(updated)
+    setOriginalRows(resolvedRows)
+    setRows(validRows)
+    setValidationErrors(errors)
+    setMissingCategories(missing)
+    setShowErrorManagement(errors.length > 0)
   }
 
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
@@ -263,15 +382,6 @@ export default function CsvImportPage({ storeId, onImportSuccess }: CsvImportPag
     toast.success(`${fixedRows.length} rows added to import queue`)
   }
 
-  const handleImportSuccess = (): void => {
-    setShowErrorManagement(false)
-    setRows([])
-    setValidationErrors([])
-    setOriginalRows([])
-    setImportResult(null)
-    toast.success("Import completed successfully!")
-  }
-
   return (
     <div className="max-w-6xl mx-auto p-6 space-y-6">
       {/* Header */}
@@ -399,22 +509,36 @@ export default function CsvImportPage({ storeId, onImportSuccess }: CsvImportPag
             {isLoading && (
               <div className="space-y-2">
                 <div className="flex items-center justify-between text-sm">
-                  <span>{status === "parsing" ? "Parsing CSV..." : "Importing products..."}</span>
+                  <span>
+                    {status === "parsing" ? "Parsing CSV..." : status === "previewing" ? "Comparing with catalog..." : "Importing products..."}
+                  </span>
                   <span>{Math.round(uploadProgress)}%</span>
                 </div>
                 <Progress value={uploadProgress} className="h-2" />
+                {monitoring && (
+                  <div className="flex justify-end">
+                    <Button variant="outline" size="sm" onClick={handleCancelImport} disabled={cancelling}>
+                      {cancelling ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <Ban className="mr-2 h-4 w-4" />
+                      )}
+                      Cancel Import
+                    </Button>
+                  </div>
+                )}
               </div>
             )}
 
             <div className="flex gap-2">
-              <Button onClick={handleImport} disabled={!canImport} className="flex-1">
+              <Button onClick={handlePreview} disabled={!canImport} className="flex-1">
                 {isLoading ? (
                   <>
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    {status === "parsing" ? "Parsing..." : "Importing..."}
+                    {status === "parsing" ? "Parsing..." : status === "previewing" ? "Previewing..." : "Importing..."}
                   </>
                 ) : (
-                  `Import ${stats.validRows} Products`
+                  `Preview ${stats.validRows} Products`
                 )}
               </Button>
 
@@ -455,6 +579,28 @@ export default function CsvImportPage({ storeId, onImportSuccess }: CsvImportPag
               </div>
             </div>
 
+            {importResult.cancelled && !importResult.rolledBack && (
+              <p className="text-sm text-muted-foreground">
+                This import was cancelled. Rows processed before the cancel stay applied; undo the import to revert them.
+              </p>
+            )}
+
+            {importResult.rolledBack && (
+              <p className="text-sm text-muted-foreground">
+                This import was undone. Created products were removed and updated products restored.
+              </p>
+            )}
+
+            {(importResult.success || importResult.cancelled) && importResult.importId && !importResult.rolledBack && (
+              <div className="flex justify-end">
+                <RollbackImportButton
+                  storeId={storeId}
+                  importId={importResult.importId}
+                  onRolledBack={() => setImportResult((current) => current && { ...current, rolledBack: true })}
+                />
+              </div>
+            )}
+
             {importResult.failed > 0 && importResult.failedRows.length > 0 && (
               <div className="space-y-2">
                 <Separator />
@@ -469,17 +615,36 @@ export default function CsvImportPage({ storeId, onImportSuccess }: CsvImportPag
       )}
 
       {/* Error Management */}
+      {showErrorManagement && missingCategories.length > 0 && (
+        <MissingCategories
+          storeId={storeId}
+          names={missingCategories}
+          billboards={billboards}
+          onCreated={handleCategoriesCreated}
+        />
+      )}
       {showErrorManagement && (
         <ErrorManagement
-          storeId={storeId}
+          key={categoryList.length}
           originalRows={originalRows}
           validationErrors={validationErrors}
-          onImportSuccess={handleImportSuccess}
+          categories={categoryList}
+          onReview={requestPreview}
+        />
+      )}
+
+      {/* Dry-run Preview */}
+      {preview && (
+        <ImportPreview
+          preview={preview}
+          importing={status === "uploading"}
+          onConfirm={handleConfirmImport}
+          onCancel={() => setPreview(null)}
         />
       )}
 
       {/* Data Preview */}
-      {rows.length > 0 && !hasErrors && !showErrorManagement && (
+      {rows.length > 0 && !hasErrors && !showErrorManagement && !preview && (
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useMemo } from "react"
+import { useState, useMemo, useCallback } from "react"
 import { toast } from "react-hot-toast"
 import { AlertCircle, Edit3, Save, X, CheckCircle, RefreshCw, Download, Search, Filter, Trash2, Copy, Wand2 } from "lucide-react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
@@ -18,6 +18,7 @@ import {
   type ProductImportRow,  
 } from "@/lib/validation/product-import-schema"
 import { exportFailedRowsAsCsv } from "@/lib/utils/export-failed-rows"
+import type { CategoryTreeItem } from "@/lib/category-tree"
 
 interface ValidationError {
   row: number
@@ -26,10 +27,12 @@ interface ValidationError {
 }
 
 interface ErrorManagementProps {
-  storeId: string
   originalRows: ProductImportRow[]
   validationErrors: ValidationError[]
-  onImportSuccess: () => void
+  // Used to resolve category names while rows are edited
+  categories: CategoryTreeItem[]
+  // Rows go through the import preview before anything is queued
+  onReview: (items: unknown[]) => Promise<void>
 }
 
 interface EditableRow extends ProductImportRow {
@@ -39,10 +42,10 @@ interface EditableRow extends ProductImportRow {
 }
 
 export function ErrorManagement({ 
-  storeId, 
   originalRows, 
   validationErrors, 
-  onImportSuccess 
+  categories,
+  onReview 
 }: ErrorManagementProps) {
   const [editableRows, setEditableRows] = useState<EditableRow[]>(() => {
     const errorRowIndices = new Set(validationErrors.map(err => err.row - 1))
@@ -62,10 +65,10 @@ export function ErrorManagement({
   const [errorFilter, setErrorFilter] = useState("all")
   const [selectedRows, setSelectedRows] = useState<Set<string>>(new Set()) // استخدام uniqueId بدلاً من originalIndex
 
-  const validateRow = (row: ProductImportRow): ValidationError[] => {
-    const result = validateProductBatch([row])
+  const validateRow = useCallback((row: ProductImportRow): ValidationError[] => {
+    const result = validateProductBatch([row], categories)
     return result.errors.map(e => ({ ...e, row: (row as EditableRow).originalIndex + 1 }))
-  }
+  }, [categories])
   
   const errorTypes = useMemo(() => {
     const types = new Set<string>()
@@ -73,7 +76,7 @@ export function ErrorManagement({
       validateRow(row).forEach(error => types.add(error.field))
     })
     return Array.from(types)
-  }, [editableRows])
+  }, [editableRows, validateRow])
   
   const { errorRows, fixedRows } = useMemo(() => {
     const errorRows: EditableRow[] = []
@@ -86,7 +89,7 @@ export function ErrorManagement({
       }
     })
     return { errorRows, fixedRows }
-  }, [editableRows])
+  }, [editableRows, validateRow])
 
   const filteredErrorRows = useMemo(() => {
     let filtered = errorRows
@@ -101,7 +104,7 @@ export function ErrorManagement({
       )
     }
     return filtered
-  }, [errorRows, searchTerm, errorFilter])
+  }, [errorRows, searchTerm, errorFilter, validateRow])
 
   const toggleSelectAll = (checked: boolean) => {
     if (checked) {
@@ -217,16 +220,7 @@ export function ErrorManagement({
     }))
 
     try {
-      const response = await fetch(`/api/${storeId}/products/bulk-import`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ storeId, items: itemsToImport }),
-      })
-      if (!response.ok) throw new Error(await response.text())
-      toast.success(`Successfully imported ${itemsToImport.length} valid products!`)
-    } catch {
-      console.error("Import error:")
-      toast.error(`Import failed:`)
+      await onReview(itemsToImport)
     } finally {
       setImporting(false)
     }
@@ -250,17 +244,7 @@ export function ErrorManagement({
     })
 
     try {
-      const response = await fetch(`/api/${storeId}/products/bulk-import`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ storeId, items: itemsToImport }),
-      })
-      if (!response.ok) throw new Error(await response.text())
-      toast.success(`Successfully imported ${itemsToImport.length} fixed products!`)
-      onImportSuccess()
-    } catch {
-      console.error("Import error:")
-      toast.error(`Import failed:`)
+      await onReview(itemsToImport)
     } finally {
       setImporting(false)
     }
@@ -477,10 +461,10 @@ export function ErrorManagement({
                   <Button onClick={importFixedRows} disabled={importing} className="w-full">
                     {importing ? (
                       <>
-                        <RefreshCw className="mr-2 h-4 w-4 animate-spin" /> Importing...
+                        <RefreshCw className="mr-2 h-4 w-4 animate-spin" /> Previewing...
                       </>
                     ) : (
-                      `Import ${fixedRows.length} Fixed Products`
+                      `Preview ${fixedRows.length} Fixed Products`
                     )}
                   </Button>
                 </div>
@@ -500,7 +484,7 @@ export function ErrorManagement({
                     <CheckCircle className="h-4 w-4" />
                     <AlertTitle>Valid Rows Ready</AlertTitle>
                     <AlertDescription>
-                      {validOriginalRowsCount} rows from your original file are valid and can be imported immediately.
+                      {validOriginalRowsCount} rows from your original file are valid and can be previewed and imported immediately.
                     </AlertDescription>
                   </Alert>
                   <div className="rounded-md border overflow-hidden">
@@ -541,10 +525,10 @@ export function ErrorManagement({
                   <Button onClick={importValidRows} disabled={importing} className="w-full">
                     {importing ? (
                       <>
-                        <RefreshCw className="mr-2 h-4 w-4 animate-spin" /> Importing...
+                        <RefreshCw className="mr-2 h-4 w-4 animate-spin" /> Previewing...
                       </>
                     ) : (
-                      `Import ${validOriginalRowsCount} Valid Products`
+                      `Preview ${validOriginalRowsCount} Valid Products`
                     )}
                   </Button>
                 </div>
@@ -0,0 +1,197 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { ArrowRight, CheckCircle, Eye, Loader2 } from "lucide-react"
+import type { ImportPreview as ImportPreviewData, ImportPreviewAction, ImportPreviewRow } from "@/lib/import-preview"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+
+interface ImportPreviewProps {
+  preview: ImportPreviewData
+  importing: boolean
+  onConfirm: (indexes: number[]) => void
+  onCancel: () => void
+}
+
+const PAGE_SIZE = 100
+
+const ACTION_LABELS: Record<ImportPreviewAction, string> = {
+  create: "Create",
+  update: "Update",
+  unchanged: "Unchanged",
+  invalid: "Invalid",
+}
+
+const ACTION_STYLES: Record<ImportPreviewAction, string> = {
+  create: "bg-green-100 text-green-800 hover:bg-green-100",
+  update: "bg-blue-100 text-blue-800 hover:bg-blue-100",
+  unchanged: "bg-muted text-muted-foreground hover:bg-muted",
+  invalid: "bg-red-100 text-red-800 hover:bg-red-100",
+}
+
+const isSelectable = (row: ImportPreviewRow) => row.action === "create" || row.action === "update"
+
+export function ImportPreview({ preview, importing, onConfirm, onCancel }: ImportPreviewProps) {
+  const [filter, setFilter] = useState<ImportPreviewAction | "all">("all")
+  const [visible, setVisible] = useState(PAGE_SIZE)
+  // Creates and updates are approved by default; unchanged rows have nothing to import
+  const [approved, setApproved] = useState<Set<number>>(
+    () => new Set(preview.rows.filter(isSelectable).map((row) => row.index))
+  )
+
+  const filteredRows = useMemo(
+    () => (filter === "all" ? preview.rows : preview.rows.filter((row) => row.action === filter)),
+    [preview.rows, filter]
+  )
+
+  const selectableFiltered = filteredRows.filter(isSelectable)
+  const allFilteredApproved = selectableFiltered.length > 0 && selectableFiltered.every((row) => approved.has(row.index))
+
+  const toggleRow = (index: number, checked: boolean) => {
+    setApproved((current) => {
+      const next = new Set(current)
+      if (checked) {
+        next.add(index)
+      } else {
+        next.delete(index)
+      }
+      return next
+    })
+  }
+
+  const toggleFiltered = (checked: boolean) => {
+    setApproved((current) => {
+      const next = new Set(current)
+      selectableFiltered.forEach((row) => (checked ? next.add(row.index) : next.delete(row.index)))
+      return next
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Eye className="h-5 w-5" />
+          Review Changes
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Nothing has been imported yet. Approve the rows to create or update, then start the import.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Tabs
+          value={filter}
+          onValueChange={(value) => {
+            setFilter(value as ImportPreviewAction | "all")
+            setVisible(PAGE_SIZE)
+          }}
+        >
+          <TabsList>
+            <TabsTrigger value="all">All ({preview.rows.length})</TabsTrigger>
+            {(Object.keys(ACTION_LABELS) as ImportPreviewAction[]).map((action) => (
+              <TabsTrigger key={action} value={action}>
+                {ACTION_LABELS[action]} ({preview.summary[action]})
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        <div className="rounded-md border overflow-hidden">
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10">
+                    <Checkbox
+                      checked={allFilteredApproved}
+                      disabled={selectableFiltered.length === 0 || importing}
+                      onCheckedChange={(checked) => toggleFiltered(checked === true)}
+                    />
+                  </TableHead>
+                  <TableHead className="w-16">Row</TableHead>
+                  <TableHead>Product</TableHead>
+                  <TableHead className="w-28">Action</TableHead>
+                  <TableHead>Details</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredRows.slice(0, visible).map((row) => (
+                  <TableRow key={row.index}>
+                    <TableCell>
+                      <Checkbox
+                        checked={approved.has(row.index)}
+                        disabled={!isSelectable(row) || importing}
+                        onCheckedChange={(checked) => toggleRow(row.index, checked === true)}
+                      />
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{row.index + 1}</TableCell>
+                    <TableCell className="font-medium">{row.name || "—"}</TableCell>
+                    <TableCell>
+                      <Badge className={ACTION_STYLES[row.action]}>{ACTION_LABELS[row.action]}</Badge>
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      {row.action === "invalid" && (
+                        <div className="space-y-1 text-destructive">
+                          {row.errors.map((error, index) => (
+                            <div key={index}>{error}</div>
+                          ))}
+                        </div>
+                      )}
+                      {row.action === "update" && (
+                        <div className="space-y-1">
+                          {row.changes.map((change) => (
+                            <div key={change.field} className="flex flex-wrap items-center gap-1">
+                              <span className="font-medium">{change.field}:</span>
+                              <span className="line-through text-muted-foreground break-all">{change.before || "(empty)"}</span>
+                              <ArrowRight className="h-3 w-3 shrink-0" />
+                              <span className="break-all">{change.after || "(empty)"}</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      {row.action === "create" && <span className="text-muted-foreground">New product</span>}
+                      {row.action === "unchanged" && <span className="text-muted-foreground">Matches the catalog</span>}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+
+        {filteredRows.length > visible && (
+          <Button variant="ghost" className="w-full" onClick={() => setVisible((count) => count + PAGE_SIZE)}>
+            Show more ({filteredRows.length - visible} remaining)
+          </Button>
+        )}
+
+        <div className="flex gap-2">
+          <Button
+            onClick={() => onConfirm(Array.from(approved).sort((a, b) => a - b))}
+            disabled={approved.size === 0 || importing}
+            className="flex-1"
+          >
+            {importing ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Importing...
+              </>
+            ) : (
+              <>
+                <CheckCircle className="mr-2 h-4 w-4" />
+                Import {approved.size} Approved {approved.size === 1 ? "Row" : "Rows"}
+              </>
+            )}
+          </Button>
+          <Button variant="outline" onClick={onCancel} disabled={importing}>
+            Back
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,93 @@
+"use client"
+
+import { useState } from "react"
+import axios from "axios"
+import { toast } from "react-hot-toast"
+import { FolderPlus, Loader2 } from "lucide-react"
+import type { CategoryTreeItem } from "@/lib/category-tree"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+
+interface MissingCategoriesProps {
+  storeId: string
+  names: string[]
+  billboards: { id: string; label: string }[]
+  onCreated: (categories: CategoryTreeItem[]) => void
+}
+
+interface CreateCategoriesResponse {
+  created: number
+  categories: CategoryTreeItem[]
+}
+
+export function MissingCategories({ storeId, names, billboards, onCreated }: MissingCategoriesProps) {
+  const [billboardId, setBillboardId] = useState(billboards[0]?.id ?? "")
+  const [creating, setCreating] = useState(false)
+
+  const createCategories = async () => {
+    if (!billboardId) return
+
+    try {
+      setCreating(true)
+      const { data } = await axios.post<CreateCategoriesResponse>(`/api/${storeId}/categories/import`, {
+        references: names,
+        billboardId,
+      })
+      toast.success(`Created ${data.created} ${data.created === 1 ? "category" : "categories"}.`)
+      onCreated(data.categories)
+    } catch (error) {
+      const message = axios.isAxiosError(error) && typeof error.response?.data === "string"
+        ? error.response.data
+        : "Something went wrong"
+      toast.error(message)
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  return (
+    <Alert>
+      <FolderPlus className="h-4 w-4" />
+      <AlertTitle>
+        {names.length} {names.length === 1 ? "category doesn't" : "categories don't"} exist yet
+      </AlertTitle>
+      <AlertDescription className="space-y-3">
+        <div className="flex flex-wrap gap-1 mt-2 max-h-24 overflow-y-auto">
+          {names.map((name) => (
+            <Badge key={name} variant="outline" className="font-mono text-xs">
+              {name}
+            </Badge>
+          ))}
+        </div>
+        {billboards.length > 0 ? (
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Select value={billboardId} onValueChange={setBillboardId} disabled={creating}>
+              <SelectTrigger className="w-full sm:w-64">
+                <SelectValue placeholder="Select a billboard" />
+              </SelectTrigger>
+              <SelectContent>
+                {billboards.map((billboard) => (
+                  <SelectItem key={billboard.id} value={billboard.id}>
+                    {billboard.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={createCategories} disabled={!billboardId || creating}>
+              {creating ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <FolderPlus className="mr-2 h-4 w-4" />
+              )}
+              Create {names.length === 1 ? "Category" : `${names.length} Categories`}
+            </Button>
+          </div>
+        ) : (
+          <p className="text-sm">Create a billboard first to add missing categories automatically.</p>
+        )}
+      </AlertDescription>
+    </Alert>
+  )
+}
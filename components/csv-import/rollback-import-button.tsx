@@ -0,0 +1,53 @@
+"use client"
+
+import { useState } from "react"
+import axios from "axios"
+import { toast } from "react-hot-toast"
+import { Undo2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { AleartModal } from "@/components/modals/alert-modal"
+
+interface RollbackImportButtonProps {
+  storeId: string
+  importId: string
+  onRolledBack?: () => void
+}
+
+interface RollbackResponse {
+  deleted: number
+  archived: number
+  restored: number
+}
+
+export function RollbackImportButton({ storeId, importId, onRolledBack }: RollbackImportButtonProps) {
+  const [open, setOpen] = useState(false)
+  const [loading, setLoading] = useState(false)
+
+  const onConfirm = async () => {
+    try {
+      setLoading(true)
+      const { data } = await axios.post<RollbackResponse>(`/api/${storeId}/import-status/${importId}/rollback`)
+      const archived = data.archived > 0 ? `, archived ${data.archived} ordered since` : ""
+      toast.success(`Import undone: deleted ${data.deleted}${archived}, restored ${data.restored} products.`)
+      onRolledBack?.()
+    } catch (error) {
+      const message = axios.isAxiosError(error) && typeof error.response?.data === "string"
+        ? error.response.data
+        : "Something went wrong"
+      toast.error(message)
+    } finally {
+      setLoading(false)
+      setOpen(false)
+    }
+  }
+
+  return (
+    <>
+      <AleartModal isOpen={open} onClose={() => setOpen(false)} onConfirm={onConfirm} loading={loading} />
+      <Button variant="outline" onClick={() => setOpen(true)} disabled={loading}>
+        <Undo2 className="mr-2 h-4 w-4" />
+        Undo Import
+      </Button>
+    </>
+  )
+}
@@ -1,8 +1,8 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { toast } from "react-hot-toast"
-import { Wand2, Image as ImageIcon, Download, Upload, Loader2, Plus, X } from "lucide-react"
+import { Wand2, Image as ImageIcon, Download, Upload, Loader2, Plus, X, AlertCircle } from "lucide-react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -12,6 +12,7 @@ import { Textarea } from "@/components/ui/textarea"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Separator } from "@/components/ui/separator"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { PromptPreview } from "@/components/csv-maker/prompt-preview"
 
 interface CsvMakerPageProps {
   storeId: string
@@ -27,8 +28,17 @@ interface GeneratedProduct {
   price: string
   categoryId: string
   keywords?: string[]
+  // Prompt template version the product was generated with, passed on to the import
+  promptTemplateId?: string | null
 }
 
+interface GenerationFailure {
+  imageUrl: string
+  reason: string
+}
+
+type JobStatus = "pending" | "processing" | "completed" | "failed"
+
 export default function CsvMakerPage({ storeId, categories, onImportSuccess }: CsvMakerPageProps) {
   const [imageUrls, setImageUrls] = useState<string[]>([])
   const [currentUrl, setCurrentUrl] = useState("")
@@ -41,7 +51,74 @@ export default function CsvMakerPage({ storeId, categories, onImportSuccess }: C
   const [progress, setProgress] = useState({ current: 0, total: 0 })
   const [useBulkInput, setUseBulkInput] = useState(false)
   const [jobId, setJobId] = useState<string | null>(null)
-  const [jobStatus, setJobStatus] = useState<"pending" | "processing" | "completed" | "failed" | null>(null)
+  const [jobStatus, setJobStatus] = useState<JobStatus | null>(null)
+  const [generationFailures, setGenerationFailures] = useState<GenerationFailure[]>([])
+
+  // The running background job is remembered per store, so a reload picks it back up
+  const jobStorageKey = `csv-maker-job-${storeId}`
+
+  useEffect(() => {
+    const storedJobId = window.localStorage.getItem(jobStorageKey)
+    if (storedJobId) {
+      setJobId(storedJobId)
+      setIsGenerating(true)
+    }
+  }, [jobStorageKey])
+
+  // Poll the background job until it completes or fails
+  useEffect(() => {
+    if (!jobId) return
+
+    const stopPolling = () => {
+      clearInterval(pollInterval)
+      window.localStorage.removeItem(jobStorageKey)
+      setIsGenerating(false)
+    }
+
+    const poll = async () => {
+      try {
+        const statusResponse = await fetch(`/api/${storeId}/products/generate-job-status?jobId=${jobId}`)
+
+        if (!statusResponse.ok) {
+          if (statusResponse.status === 404) {
+            stopPolling()
+            toast.error("Generation job not found")
+            return
+          }
+          console.error(`Failed to fetch job status: ${statusResponse.status}`)
+          return
+        }
+
+        const statusData = await statusResponse.json()
+        setJobStatus(statusData.status)
+        setProgress({
+          current: (statusData.processed || 0) + (statusData.failed || 0),
+          total: statusData.total || 0,
+        })
+
+        if (statusData.status === "completed") {
+          stopPolling()
+          setGeneratedProducts(statusData.products || [])
+          setGenerationFailures(statusData.failures || [])
+          toast.success(
+            `Successfully generated ${statusData.processed || 0} out of ${statusData.total || 0} products!`
+          )
+        } else if (statusData.status === "failed") {
+          stopPolling()
+          setGeneratedProducts(statusData.products || [])
+          setGenerationFailures(statusData.failures || [])
+          toast.error(statusData.error || "Job failed")
+        }
+      } catch (error) {
+        console.error("Error polling job status:", error)
+      }
+    }
+
+    const pollInterval = setInterval(poll, 2000) // Poll every 2 seconds
+    poll()
+
+    return () => clearInterval(pollInterval)
+  }, [jobId, jobStorageKey, storeId])
 
   const addImageUrl = () => {
     if (!currentUrl.trim()) {
@@ -180,10 +257,13 @@ export default function CsvMakerPage({ storeId, categories, onImportSuccess }: C
 
     setIsGenerating(true)
     setGeneratedProducts([])
+    setGenerationFailures([])
     setProgress({ current: 0, total: imageUrls.length })
     setJobId(null)
     setJobStatus(null)
 
+    let queued = false
+
     try {
       // Use Inngest for large batches (100+ URLs) to avoid timeouts
       const USE_INNGEST_THRESHOLD = 100
@@ -216,60 +296,11 @@ export default function CsvMakerPage({ storeId, categories, onImportSuccess }: C
           throw new Error("No job ID returned")
         }
 
+        queued = true
+        window.localStorage.setItem(jobStorageKey, currentJobId)
         setJobId(currentJobId)
         setJobStatus("pending")
-        toast.success(`Job queued! Processing ${imageUrls.length} images in the background...`)
-
-        // Poll for job status
-        const pollInterval = setInterval(async () => {
-          try {
-            const statusResponse = await fetch(
-              `/api/${storeId}/products/generate-job-status?jobId=${currentJobId}`
-            )
-
-            if (!statusResponse.ok) {
-              // Job might not exist yet (timing issue) or might be in a different process
-              // Don't spam errors, just silently continue polling
-              if (statusResponse.status === 404) {
-                console.log(`Job ${currentJobId} not found yet, waiting...`)
-                return
-              }
-              console.error(`Failed to fetch job status: ${statusResponse.status}`)
-              return
-            }
-
-            const statusData = await statusResponse.json()
-            setJobStatus(statusData.status)
-            setProgress({
-              current: statusData.processed || 0,
-              total: statusData.total || imageUrls.length,
-            })
-
-            if (statusData.status === "completed") {
-              clearInterval(pollInterval)
-              setGeneratedProducts(statusData.products || [])
-              setIsGenerating(false)
-              toast.success(
-                `Successfully generated ${statusData.processed || 0} out of ${imageUrls.length} products!`
-              )
-            } else if (statusData.status === "failed") {
-              clearInterval(pollInterval)
-              setIsGenerating(false)
-              toast.error(statusData.error || "Job failed")
-            }
-          } catch (error) {
-            console.error("Error polling job status:", error)
-          }
-        }, 2000) // Poll every 2 seconds
-
-        // Cleanup interval after 30 minutes (safety timeout)
-        setTimeout(() => {
-          clearInterval(pollInterval)
-          const finalStatus = jobStatus
-          if (finalStatus !== "completed" && finalStatus !== "failed") {
-            toast("Job is still processing. Check back later or refresh the page.")
-          }
-        }, 30 * 60 * 1000)
+        toast.success(`Job queued! Processing ${data.total ?? imageUrls.length} images in the background...`)
 
         return
       }
@@ -335,9 +366,9 @@ export default function CsvMakerPage({ storeId, categories, onImportSuccess }: C
       console.error("Generation error:", error)
       toast.error(error instanceof Error ? error.message : "Failed to generate products")
     } finally {
-      setIsGenerating(false)
-      if (!jobId) {
-        // Only reset progress if not using Inngest
+      // A queued job keeps generating until polling sees it finish
+      if (!queued) {
+        setIsGenerating(false)
         setProgress({ current: 0, total: 0 })
       }
     }
@@ -406,7 +437,7 @@ export default function CsvMakerPage({ storeId, categories, onImportSuccess }: C
       })
 
       if (!response.ok) {
-        throw new Error("Failed to import products")
+        throw new Error(await response.text())
       }
 
       const result = await response.json()
@@ -416,7 +447,7 @@ export default function CsvMakerPage({ storeId, categories, onImportSuccess }: C
       onImportSuccess?.()
     } catch (error) {
       console.error("Import error:", error)
-      toast.error("Failed to import products. Please try again.")
+      toast.error(error instanceof Error && error.message ? error.message : "Failed to import products. Please try again.")
     } finally {
       setIsImporting(false)
     }
@@ -431,7 +462,7 @@ export default function CsvMakerPage({ storeId, categories, onImportSuccess }: C
           CSV Maker with AI Vision
         </h1>
         <p className="text-muted-foreground">
-          Generate product data from images using OpenAI Vision API. Add image URLs, select category and price, then generate CSV or import directly.
+          Generate product data from images with your store&apos;s vision provider and prompt template. Add image URLs, select category and price, then generate CSV or import directly.
         </p>
       </div>
 
@@ -532,6 +563,7 @@ export default function CsvMakerPage({ storeId, categories, onImportSuccess }: C
                     </div>
                   ))}
                 </div>
+                <PromptPreview storeId={storeId} imageUrls={imageUrls} />
               </div>
             )}
           </div>
@@ -604,6 +636,24 @@ export default function CsvMakerPage({ storeId, categories, onImportSuccess }: C
             </div>
           )}
 
+          {!isGenerating && generationFailures.length > 0 && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                <p className="font-medium">
+                  {generationFailures.length} image{generationFailures.length !== 1 ? "s" : ""} could not be processed
+                </p>
+                <ul className="mt-2 max-h-40 overflow-y-auto space-y-1 text-xs">
+                  {generationFailures.map((failure) => (
+                    <li key={failure.imageUrl} className="break-all">
+                      <span className="font-mono">{failure.imageUrl}</span>: {failure.reason}
+                    </li>
+                  ))}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+
           {/* Generate Button */}
           <Button onClick={generateProducts} disabled={isGenerating || imageUrls.length === 0} className="w-full">
             {isGenerating ? (
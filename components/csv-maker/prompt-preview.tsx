@@ -0,0 +1,90 @@
+"use client"
+
+import { useState } from "react"
+import axios from "axios"
+import { toast } from "react-hot-toast"
+import { Eye, Loader2 } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+
+interface PromptPreviewProps {
+  storeId: string
+  imageUrls: string[]
+}
+
+interface PreviewResponse {
+  product: { name: string; description: string; keywords: string[] }
+  promptTemplateVersion: number | null
+  provider: string
+  model: string
+}
+
+export function PromptPreview({ storeId, imageUrls }: PromptPreviewProps) {
+  const [sampleUrl, setSampleUrl] = useState(imageUrls[0] ?? "")
+  const [loading, setLoading] = useState(false)
+  const [preview, setPreview] = useState<PreviewResponse | null>(null)
+
+  // Fall back to the first image when the chosen one was removed
+  const imageUrl = imageUrls.includes(sampleUrl) ? sampleUrl : imageUrls[0] ?? ""
+
+  const runPreview = async () => {
+    if (!imageUrl) return
+
+    try {
+      setLoading(true)
+      const { data } = await axios.post<PreviewResponse>(`/api/${storeId}/prompt-templates/preview`, { imageUrl })
+      setPreview(data)
+    } catch (error) {
+      const message = axios.isAxiosError(error) && typeof error.response?.data === "string"
+        ? error.response.data
+        : "Something went wrong"
+      toast.error(message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Select value={imageUrl} onValueChange={setSampleUrl} disabled={loading}>
+          <SelectTrigger className="sm:flex-1 min-w-0">
+            <SelectValue placeholder="Select a sample image" />
+          </SelectTrigger>
+          <SelectContent>
+            {imageUrls.map((url) => (
+              <SelectItem key={url} value={url}>
+                <span className="truncate">{url}</span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" onClick={runPreview} disabled={!imageUrl || loading} type="button">
+          {loading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Eye className="mr-2 h-4 w-4" />}
+          Preview Template
+        </Button>
+      </div>
+
+      {preview && (
+        <div className="space-y-2 text-sm">
+          <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+            <Badge variant="outline">
+              {preview.promptTemplateVersion ? `Template v${preview.promptTemplateVersion}` : "Built-in prompt"}
+            </Badge>
+            {preview.provider} · {preview.model}
+          </div>
+          <p className="font-medium">{preview.product.name}</p>
+          <p className="text-muted-foreground whitespace-pre-line">{preview.product.description}</p>
+          <div className="flex flex-wrap gap-1">
+            {preview.product.keywords.map((keyword) => (
+              <Badge key={keyword} variant="secondary" className="text-xs">
+                {keyword}
+              </Badge>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -26,12 +26,15 @@ interface DataTableProps<TData, TValue> {
   columns: ColumnDef<TData, TValue>[]
   data: TData[]
   searchKey: string;
+  // Lets the page reuse the search, e.g. to export the same rows
+  onSearchChange?: (value: string) => void;
 }
 
 export function DataTable<TData, TValue>({
   columns,
   data,
   searchKey,
+  onSearchChange,
 }: DataTableProps<TData, TValue>) {
 
     const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>(
@@ -56,9 +59,10 @@ export function DataTable<TData, TValue>({
             <Input
             placeholder="Search"
             value={(table.getColumn(searchKey)?.getFilterValue() as string) ?? ""}
-            onChange={(event) =>
+            onChange={(event) => {
                 table.getColumn(searchKey)?.setFilterValue(event.target.value)
-            }
+                onSearchChange?.(event.target.value)
+            }}
             className="max-w-sm"
             />
         </div>
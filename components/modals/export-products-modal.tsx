@@ -0,0 +1,143 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Modal } from "@/components/ui/modal";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface ExportProductsModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    storeId: string;
+    categories: { id: string; name: string }[];
+    initialCategoryId?: string;
+}
+
+export const ExportProductsModal: React.FC<ExportProductsModalProps> = ({
+    isOpen,
+    onClose,
+    storeId,
+    categories,
+    initialCategoryId = "all",
+}) => {
+    const [isMounted, setIsMounted] = useState(false);
+    const [format, setFormat] = useState("csv");
+    const [categoryId, setCategoryId] = useState(initialCategoryId);
+    const [archived, setArchived] = useState("all");
+    const [featured, setFeatured] = useState("all");
+    const [priceFilter, setPriceFilter] = useState("all");
+
+    useEffect(() => {
+        setIsMounted(true);
+    }, [])
+
+    useEffect(() => {
+        if (isOpen) {
+            setCategoryId(initialCategoryId);
+        }
+    }, [isOpen, initialCategoryId])
+
+    if(!isMounted) {
+        return null;
+    }
+
+    const onExport = () => {
+        const params = new URLSearchParams({ format });
+        if (categoryId !== "all") params.set("categoryId", categoryId);
+        if (archived !== "all") params.set("archived", archived);
+        if (featured !== "all") params.set("featured", featured);
+        if (priceFilter !== "all") params.set("priceFilter", priceFilter);
+
+        // The endpoint responds with an attachment, so the page stays where it is
+        window.location.href = `/api/${storeId}/products/export?${params.toString()}`;
+        onClose();
+    };
+
+    return(
+        <Modal
+            title="Export Products"
+            description="Download the catalog with the same columns the bulk import accepts, edit it in a spreadsheet and import it back."
+            isOpen={isOpen}
+            onClose={onClose}
+        >
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                    <Label>Format</Label>
+                    <Select value={format} onValueChange={setFormat}>
+                        <SelectTrigger>
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="csv">CSV</SelectItem>
+                            <SelectItem value="xlsx">Excel (XLSX)</SelectItem>
+                        </SelectContent>
+                    </Select>
+                </div>
+                <div className="space-y-2">
+                    <Label>Category</Label>
+                    <Select value={categoryId} onValueChange={setCategoryId}>
+                        <SelectTrigger>
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="all">All Categories</SelectItem>
+                            {categories.map((category) => (
+                                <SelectItem key={category.id} value={category.id}>
+                                    {category.name}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+                <div className="space-y-2">
+                    <Label>Status</Label>
+                    <Select value={archived} onValueChange={setArchived}>
+                        <SelectTrigger>
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="all">All products</SelectItem>
+                            <SelectItem value="false">Active only</SelectItem>
+                            <SelectItem value="true">Archived only</SelectItem>
+                        </SelectContent>
+                    </Select>
+                </div>
+                <div className="space-y-2">
+                    <Label>Featured</Label>
+                    <Select value={featured} onValueChange={setFeatured}>
+                        <SelectTrigger>
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="all">All products</SelectItem>
+                            <SelectItem value="true">Featured only</SelectItem>
+                            <SelectItem value="false">Not featured</SelectItem>
+                        </SelectContent>
+                    </Select>
+                </div>
+                <div className="space-y-2">
+                    <Label>Price</Label>
+                    <Select value={priceFilter} onValueChange={setPriceFilter}>
+                        <SelectTrigger>
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="all">Free and paid</SelectItem>
+                            <SelectItem value="free">Free only</SelectItem>
+                            <SelectItem value="paid">Paid only</SelectItem>
+                        </SelectContent>
+                    </Select>
+                </div>
+            </div>
+            <div className="pt-6 space-x-2 flex items-center justify-end w-full">
+                <Button variant="outline" onClick={onClose}>
+                    Cancel
+                </Button>
+                <Button onClick={onExport}>
+                    Export
+                </Button>
+            </div>
+        </Modal>
+    );
+};
@@ -0,0 +1,79 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Modal } from "@/components/ui/modal";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { formatter } from "@/lib/utils";
+
+interface RefundModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onConfirm: (amount: number | undefined) => void;
+    loading: boolean;
+    remainingAmount: number;
+}
+
+export const RefundModal: React.FC<RefundModalProps> = ({
+    isOpen,
+    onClose,
+    onConfirm,
+    loading,
+    remainingAmount,
+}) => {
+    const [isMounted, setIsMounted] = useState(false);
+    const [amount, setAmount] = useState("");
+
+    useEffect(() => {
+        setIsMounted(true);
+    }, [])
+
+    useEffect(() => {
+        if (isOpen) {
+            setAmount("");
+        }
+    }, [isOpen])
+
+    if(!isMounted) {
+        return null;
+    }
+
+    const parsedAmount = amount ? Number(amount) : undefined;
+    const isInvalid = parsedAmount !== undefined
+        && (Number.isNaN(parsedAmount) || parsedAmount <= 0 || parsedAmount > remainingAmount);
+
+    return(
+        <Modal
+            title="Refund Order"
+            description={`Up to ${formatter.format(remainingAmount)} can be refunded. Customers lose download access once an order is fully refunded.`}
+            isOpen={isOpen}
+            onClose={onClose}
+        >
+            <div className="space-y-2">
+                <Label htmlFor="refund-amount">Amount</Label>
+                <Input
+                    id="refund-amount"
+                    inputMode="decimal"
+                    placeholder={`${remainingAmount.toFixed(2)} (full refund)`}
+                    value={amount}
+                    disabled={loading}
+                    onChange={(e) => setAmount(e.target.value)}
+                />
+                {isInvalid && (
+                    <p className="text-sm text-destructive">
+                        Enter an amount between 0.01 and {remainingAmount.toFixed(2)}
+                    </p>
+                )}
+            </div>
+            <div className="pt-6 space-x-2 flex items-center justify-end w-full">
+                <Button disabled={loading} variant="outline" onClick={onClose}>
+                    Cancel
+                </Button>
+                <Button disabled={loading || isInvalid} variant="destructive" onClick={() => onConfirm(parsedAmount)}>
+                    Refund
+                </Button>
+            </div>
+        </Modal>
+    );
+};
@@ -0,0 +1,167 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import axios from "axios"
+import { toast } from "react-hot-toast"
+import { AlertTriangle, CheckCircle2, Loader2, RefreshCw, Search, ScanSearch } from "lucide-react"
+import type { SearchSyncStatus as SearchSyncStatusData } from "@/lib/search-outbox"
+import type { SearchReconciliationReport } from "@/lib/search-reconciliation"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+
+interface SearchSyncStatusProps {
+  storeId: string
+  initialStatus: SearchSyncStatusData
+  initialReconciliation: SearchReconciliationReport | null
+}
+
+const POLL_INTERVAL_MS = 10_000
+
+export function SearchSyncStatus({ storeId, initialStatus, initialReconciliation }: SearchSyncStatusProps) {
+  const [status, setStatus] = useState(initialStatus)
+  const [reconciliation, setReconciliation] = useState(initialReconciliation)
+  const [retrying, setRetrying] = useState(false)
+  const [checking, setChecking] = useState(false)
+
+  const reconciliationActive = reconciliation?.status === "PENDING" || reconciliation?.status === "RUNNING"
+
+  // Keep polling while changes are waiting to reach the index
+  useEffect(() => {
+    if (status.pending === 0) return
+
+    const interval = setInterval(async () => {
+      try {
+        const { data } = await axios.get<SearchSyncStatusData>(`/api/${storeId}/search-sync`)
+        setStatus(data)
+      } catch (error) {
+        console.error("Error polling search sync status:", error)
+      }
+    }, POLL_INTERVAL_MS)
+
+    return () => clearInterval(interval)
+  }, [status.pending, storeId])
+
+  // Follow a drift check until it finishes, then pick up the repairs it queued
+  useEffect(() => {
+    if (!reconciliationActive) return
+
+    const interval = setInterval(async () => {
+      try {
+        const { data } = await axios.get<SearchReconciliationReport | null>(`/api/${storeId}/search-sync/reconcile`)
+        setReconciliation(data)
+
+        if (data?.status !== "PENDING" && data?.status !== "RUNNING") {
+          const { data: syncStatus } = await axios.get<SearchSyncStatusData>(`/api/${storeId}/search-sync`)
+          setStatus(syncStatus)
+        }
+      } catch (error) {
+        console.error("Error polling search index check:", error)
+      }
+    }, POLL_INTERVAL_MS)
+
+    return () => clearInterval(interval)
+  }, [reconciliationActive, storeId])
+
+  const checkIndex = async () => {
+    try {
+      setChecking(true)
+      const { data } = await axios.post<SearchReconciliationReport>(`/api/${storeId}/search-sync/reconcile`)
+      setReconciliation(data)
+      toast.success("Search index check started.")
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 409) {
+        toast.error("A search index check is already running.")
+      } else {
+        toast.error("Something went wrong")
+      }
+    } finally {
+      setChecking(false)
+    }
+  }
+
+  const retryFailed = async () => {
+    try {
+      setRetrying(true)
+      const { data } = await axios.post<SearchSyncStatusData & { requeued: number }>(`/api/${storeId}/search-sync`)
+      setStatus(data)
+      toast.success(`Requeued ${data.requeued} search index ${data.requeued === 1 ? "change" : "changes"}.`)
+    } catch {
+      toast.error("Something went wrong")
+    } finally {
+      setRetrying(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-sm font-medium">Search Index</CardTitle>
+        <div className="rounded-full bg-primary/10 p-2">
+          <Search className="h-4 w-4 text-primary" />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {status.pending === 0 && status.failed === 0 ? (
+          <p className="flex items-center gap-2 text-sm text-muted-foreground">
+            <CheckCircle2 className="h-4 w-4 text-green-500" />
+            Up to date
+          </p>
+        ) : (
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            {status.pending > 0 && (
+              <span className="flex items-center gap-2">
+                <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                {status.pending} pending
+              </span>
+            )}
+            {status.failed > 0 && (
+              <span className="flex items-center gap-2 text-destructive">
+                <AlertTriangle className="h-4 w-4" />
+                {status.failed} failed
+              </span>
+            )}
+            {status.failed > 0 && (
+              <Button variant="outline" size="sm" onClick={retryFailed} disabled={retrying}>
+                <RefreshCw className={`mr-2 h-4 w-4 ${retrying ? "animate-spin" : ""}`} />
+                Retry
+              </Button>
+            )}
+          </div>
+        )}
+        {status.failed > 0 && status.lastError && (
+          <p className="text-xs text-muted-foreground break-all">Last error: {status.lastError}</p>
+        )}
+        <div className="flex flex-wrap items-center justify-between gap-2 border-t pt-2">
+          <p className="text-xs text-muted-foreground">{describeReconciliation(reconciliation)}</p>
+          <Button variant="outline" size="sm" onClick={checkIndex} disabled={checking || reconciliationActive}>
+            <ScanSearch className="mr-2 h-4 w-4" />
+            Check index
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+function describeReconciliation(reconciliation: SearchReconciliationReport | null): string {
+  if (!reconciliation) {
+    return "Never checked against the database"
+  }
+
+  switch (reconciliation.status) {
+    case "PENDING":
+    case "RUNNING":
+      return "Checking the index against the database..."
+    case "FAILED":
+      return `Last check failed: ${reconciliation.error ?? "Unknown error"}`
+    case "COMPLETED": {
+      const checkedAt = new Date(reconciliation.completedAt ?? reconciliation.createdAt).toLocaleString()
+      const { missingCount, orphanedCount, staleCount } = reconciliation
+
+      if (missingCount + orphanedCount + staleCount === 0) {
+        return `Checked ${checkedAt}: no drift`
+      }
+      return `Checked ${checkedAt}: ${missingCount} missing, ${orphanedCount} orphaned, ${staleCount} stale (queued for repair)`
+    }
+  }
+}
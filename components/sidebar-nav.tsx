@@ -13,6 +13,11 @@ import {
   ChevronLeft,
   Import,
   Download,
+  Crown,
+  TicketPercent,
+  Webhook,
+  Users,
+  Search,
 } from "lucide-react"
 
 import {
@@ -85,16 +90,41 @@ export function SidebarNav({ className, storeSwitcher, userButton, ...props }: S
       label: "Orders",
       icon: ShoppingCart,
     },
+    {
+      href: `/${params.storeId}/customers`,
+      label: "Customers",
+      icon: Users,
+    },
+    {
+      href: `/${params.storeId}/plans`,
+      label: "Plans",
+      icon: Crown,
+    },
+    {
+      href: `/${params.storeId}/coupons`,
+      label: "Coupons",
+      icon: TicketPercent,
+    },
     {
       href: `/${params.storeId}/downloads`,
       label: "Downloads",
       icon: Download,
     },
+    {
+      href: `/${params.storeId}/search-analytics`,
+      label: "Search Insights",
+      icon: Search,
+    },
     {
       href: `/${params.storeId}/CSV`,
       label: "Bulk Import",
       icon: Import,
     },
+    {
+      href: `/${params.storeId}/webhooks`,
+      label: "Webhooks",
+      icon: Webhook,
+    },
     {
       href: `/${params.storeId}/settings`,
       label: "Settings",
@@ -0,0 +1,140 @@
+import prismadb from "@/lib/prismadb";
+import type { Prisma } from "@prisma/client";
+import { getCategoryFilterIds } from "@/lib/categories";
+import { getCategoryBreadcrumbs } from "@/lib/category-tree";
+import { IMPORT_LIST_SEPARATOR, type ProductImportColumn } from "@/lib/validation/product-import-schema";
+
+const EXPORT_BATCH_SIZE = 500;
+
+export type CatalogExportFormat = "csv" | "xlsx";
+
+export interface CatalogExportFilters {
+  categoryId?: string;
+  isArchived?: boolean;
+  isFeatured?: boolean;
+  priceFilter?: "free" | "paid";
+}
+
+/**
+ * A product as one row of the import CSV
+ */
+export type CatalogExportRow = Record<ProductImportColumn, string>;
+
+const parseBoolean = (value: string | null) =>
+  value === "true" ? true : value === "false" ? false : undefined;
+
+/**
+ * Read export filters from the query string.
+ * Unknown or "all" values mean no filter.
+ *
+ * @param searchParams - ?categoryId=&archived=&featured=&priceFilter=
+ * @returns CatalogExportFilters
+ */
+export function parseCatalogExportFilters(searchParams: URLSearchParams): CatalogExportFilters {
+  const priceFilter = searchParams.get("priceFilter");
+
+  return {
+    categoryId: searchParams.get("categoryId") || undefined,
+    isArchived: parseBoolean(searchParams.get("archived")),
+    isFeatured: parseBoolean(searchParams.get("featured")),
+    priceFilter: priceFilter === "free" || priceFilter === "paid" ? priceFilter : undefined,
+  };
+}
+
+/**
+ * Prisma filter for the products to export.
+ * A category filter includes the category's subcategories.
+ */
+export async function buildCatalogExportWhere(
+  storeId: string,
+  filters: CatalogExportFilters
+): Promise<Prisma.productsWhereInput> {
+  const where: Prisma.productsWhereInput = { storeId };
+
+  if (filters.categoryId) {
+    where.categoryId = { in: await getCategoryFilterIds(storeId, filters.categoryId) };
+  }
+  if (filters.isArchived !== undefined) {
+    where.isArchived = filters.isArchived;
+  }
+  if (filters.isFeatured !== undefined) {
+    where.isFeatured = filters.isFeatured;
+  }
+  if (filters.priceFilter === "free") {
+    where.price = { equals: 0 };
+  } else if (filters.priceFilter === "paid") {
+    where.price = { gt: 0 };
+  }
+
+  return where;
+}
+
+/**
+ * Read matching products in batches, already shaped as import rows, so large
+ * catalogs can be streamed without loading every product at once
+ *
+ * @param storeId - Store ID
+ * @param where - Filter from buildCatalogExportWhere
+ * @returns Batches of CatalogExportRow, ordered by name
+ */
+export async function* readCatalogExportRows(
+  storeId: string,
+  where: Prisma.productsWhereInput
+): AsyncGenerator<CatalogExportRow[]> {
+  const categories = await prismadb.category.findMany({
+    where: { storeId },
+    select: { id: true, name: true, parentId: true },
+  });
+  const categoryPaths = new Map(
+    categories.map((category) => [
+      category.id,
+      getCategoryBreadcrumbs(categories, category.id).map((crumb) => crumb.name).join(" / "),
+    ])
+  );
+  let last: { name: string; id: string } | undefined;
+
+  while (true) {
+    // Keyed on the sort columns rather than a Prisma cursor, which returns
+    // nothing once the cursor's own product has been deleted
+    const products = await prismadb.products.findMany({
+      where: last
+        ? {
+            AND: [
+              where,
+              { OR: [{ name: { gt: last.name } }, { name: last.name, id: { gt: last.id } }] },
+            ],
+          }
+        : where,
+      include: {
+        Image: { select: { url: true }, orderBy: { createdAt: "asc" } },
+      },
+      orderBy: [{ name: "asc" }, { id: "asc" }],
+      take: EXPORT_BATCH_SIZE,
+    });
+
+    if (products.length === 0) {
+      return;
+    }
+
+    yield products.map((product) => ({
+      name: product.name,
+      description: product.description ?? "",
+      price: product.price.toFixed(2),
+      categoryId: product.categoryId,
+      category: categoryPaths.get(product.categoryId) ?? "",
+      downloadUrl: product.downloadUrl ?? "",
+      videoUrl: product.videoUrl ?? "",
+      imageUrl: product.Image.map((image) => image.url).join(IMPORT_LIST_SEPARATOR),
+      isFeatured: String(product.isFeatured),
+      isArchived: String(product.isArchived),
+      keywords: product.keywords.join(IMPORT_LIST_SEPARATOR),
+    }));
+
+    if (products.length < EXPORT_BATCH_SIZE) {
+      return;
+    }
+
+    const { name, id } = products[products.length - 1];
+    last = { name, id };
+  }
+}
@@ -0,0 +1,196 @@
+import prismadb from "@/lib/prismadb";
+import {
+  collectDescendantIds,
+  normalizeCategoryName,
+  resolveCategoryReference,
+  splitCategoryPath,
+  type CategoryTreeItem,
+} from "@/lib/category-tree";
+
+export interface CategoryMove {
+  id: string;
+  parentId: string | null;
+  position: number;
+}
+
+export type CategoryMoveResult =
+  | { success: true }
+  | { success: false; reason: string };
+
+/**
+ * Category IDs to filter products by, so listing a parent category
+ * also lists products from its subcategories
+ *
+ * @param storeId - Store ID
+ * @param categoryId - Category selected by the shopper, or several for a multi-select filter
+ * @returns IDs of the categories and all of their descendants. IDs that aren't
+ * one of the store's categories are dropped, so the result is safe to put in a
+ * search filter and is empty when nothing selected exists.
+ */
+export async function getCategoryFilterIds(storeId: string, categoryId: string | string[]): Promise<string[]> {
+  const categories = await prismadb.category.findMany({
+    where: { storeId },
+    select: { id: true, parentId: true },
+  });
+  const existingIds = new Set(categories.map((category) => category.id));
+
+  const selected = (Array.isArray(categoryId) ? categoryId : [categoryId]).filter((id) => existingIds.has(id));
+  return Array.from(new Set(selected.flatMap((id) => collectDescendantIds(categories, id))));
+}
+
+/**
+ * Check that a category can be placed under a new parent
+ *
+ * @param storeId - Store ID
+ * @param categoryId - Category being moved (null when creating a category)
+ * @param parentId - Proposed parent, or null for a root category
+ * @returns CategoryMoveResult with the reason the move was rejected
+ */
+export async function validateCategoryParent(
+  storeId: string,
+  categoryId: string | null,
+  parentId: string | null
+): Promise<CategoryMoveResult> {
+  if (!parentId) {
+    return { success: true };
+  }
+
+  const categories = await prismadb.category.findMany({
+    where: { storeId },
+    select: { id: true, parentId: true },
+  });
+
+  if (!categories.some((category) => category.id === parentId)) {
+    return { success: false, reason: "Parent category not found" };
+  }
+
+  if (categoryId && collectDescendantIds(categories, categoryId).includes(parentId)) {
+    return { success: false, reason: "A category cannot be moved under itself or one of its subcategories" };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Next free position at the end of a parent's children
+ */
+export async function getNextCategoryPosition(storeId: string, parentId: string | null): Promise<number> {
+  const last = await prismadb.category.aggregate({
+    where: { storeId, parentId },
+    _max: { position: true },
+  });
+
+  return (last._max.position ?? -1) + 1;
+}
+
+/**
+ * Apply a batch of moves from the tree editor.
+ * The resulting tree is validated as a whole before anything is written,
+ * so a drag that would nest a category inside itself is rejected.
+ *
+ * @param storeId - Store ID
+ * @param moves - New parent and position for each moved category
+ * @returns CategoryMoveResult with the reason the batch was rejected
+ */
+export async function moveCategories(storeId: string, moves: CategoryMove[]): Promise<CategoryMoveResult> {
+  const categories = await prismadb.category.findMany({
+    where: { storeId },
+    select: { id: true, parentId: true },
+  });
+
+  const parents = new Map(categories.map((category) => [category.id, category.parentId]));
+
+  for (const move of moves) {
+    if (!parents.has(move.id)) {
+      return { success: false, reason: `Category ${move.id} not found` };
+    }
+    if (move.parentId && !parents.has(move.parentId)) {
+      return { success: false, reason: `Parent category ${move.parentId} not found` };
+    }
+    parents.set(move.id, move.parentId);
+  }
+
+  // Every category must reach a root without revisiting itself
+  for (const id of Array.from(parents.keys())) {
+    const visited = new Set<string>();
+    let current: string | null | undefined = id;
+    while (current) {
+      if (visited.has(current)) {
+        return { success: false, reason: "A category cannot be moved under itself or one of its subcategories" };
+      }
+      visited.add(current);
+      current = parents.get(current);
+    }
+  }
+
+  await prismadb.$transaction(
+    moves.map((move) =>
+      prismadb.category.update({
+        where: { id: move.id },
+        data: { parentId: move.parentId, position: move.position, updatedAt: new Date() },
+      })
+    )
+  );
+
+  return { success: true };
+}
+
+/**
+ * Create the categories a bulk import refers to by name but that don't exist yet.
+ * A path such as "Mockups / Phones" creates whichever levels are missing,
+ * starting from the root; references that already resolve are left alone.
+ *
+ * @param storeId - Store ID
+ * @param references - Category names or paths from the import rows
+ * @param billboardId - Billboard for the new categories
+ * @returns Number of categories created and the store's categories afterwards
+ */
+export async function createMissingCategories(
+  storeId: string,
+  references: string[],
+  billboardId: string
+): Promise<{ created: number; categories: CategoryTreeItem[] }> {
+  const categories: CategoryTreeItem[] = await prismadb.category.findMany({
+    where: { storeId },
+    select: { id: true, name: true, parentId: true, position: true },
+  });
+  let created = 0;
+
+  for (const reference of references) {
+    const resolved = resolveCategoryReference(categories, reference);
+    if (resolved.success || !resolved.missing) {
+      continue;
+    }
+
+    let parentId: string | null = null;
+    for (const name of splitCategoryPath(reference)) {
+      const existing = categories.find(
+        (category) => category.parentId === parentId && normalizeCategoryName(category.name) === normalizeCategoryName(name)
+      );
+
+      if (existing) {
+        parentId = existing.id;
+        continue;
+      }
+
+      const category: CategoryTreeItem = await prismadb.category.create({
+        data: {
+          id: crypto.randomUUID(),
+          storeId,
+          billboardId,
+          name,
+          parentId,
+          position: await getNextCategoryPosition(storeId, parentId),
+          updatedAt: new Date(),
+        },
+        select: { id: true, name: true, parentId: true, position: true },
+      });
+
+      categories.push(category);
+      parentId = category.id;
+      created++;
+    }
+  }
+
+  return { created, categories };
+}
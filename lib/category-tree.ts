@@ -0,0 +1,177 @@
+import type { Category } from "@prisma/client";
+
+/**
+ * Categories form a tree per store through parentId. Siblings are ordered by
+ * position; a category with no parent is a root category.
+ */
+export type CategoryTreeNode<T extends CategoryTreeItem = CategoryTreeItem> = T & {
+  children: CategoryTreeNode<T>[];
+};
+
+export type CategoryTreeItem = Pick<Category, "id" | "name" | "parentId" | "position">;
+
+export interface CategoryBreadcrumb {
+  id: string;
+  name: string;
+}
+
+/**
+ * Sort order for categories that share a parent
+ */
+export const compareCategorySiblings = (a: CategoryTreeItem, b: CategoryTreeItem) =>
+  a.position - b.position || a.name.localeCompare(b.name);
+
+/**
+ * Nest a flat list of categories into a tree.
+ * Categories whose parent is missing from the list are treated as roots.
+ *
+ * @param categories - Categories of one store
+ * @returns Root categories with their children, siblings sorted by position
+ */
+export function buildCategoryTree<T extends CategoryTreeItem>(categories: T[]): CategoryTreeNode<T>[] {
+  const nodes = new Map<string, CategoryTreeNode<T>>(
+    categories.map((category) => [category.id, { ...category, children: [] }])
+  );
+  const roots: CategoryTreeNode<T>[] = [];
+
+  for (const node of Array.from(nodes.values())) {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  const sort = (list: CategoryTreeNode<T>[]) => {
+    list.sort(compareCategorySiblings);
+    list.forEach((node) => sort(node.children));
+  };
+  sort(roots);
+
+  return roots;
+}
+
+/**
+ * Walk up from a category to its root
+ *
+ * @param categories - Categories of one store
+ * @param categoryId - Category to build the trail for
+ * @returns Breadcrumbs from the root down to (and including) the category
+ */
+export function getCategoryBreadcrumbs(
+  categories: Pick<Category, "id" | "name" | "parentId">[],
+  categoryId: string
+): CategoryBreadcrumb[] {
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  const trail: CategoryBreadcrumb[] = [];
+  const visited = new Set<string>();
+
+  let current = byId.get(categoryId);
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id);
+    trail.unshift({ id: current.id, name: current.name });
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+
+  return trail;
+}
+
+/**
+ * Collect a category and everything nested under it
+ *
+ * @param categories - Categories of one store
+ * @param categoryId - Category at the top of the subtree
+ * @returns IDs of the category and all of its descendants
+ */
+export function collectDescendantIds(
+  categories: Pick<Category, "id" | "parentId">[],
+  categoryId: string
+): string[] {
+  const childrenByParent = new Map<string, string[]>();
+  for (const category of categories) {
+    if (!category.parentId) continue;
+    childrenByParent.set(category.parentId, [...(childrenByParent.get(category.parentId) ?? []), category.id]);
+  }
+
+  const ids: string[] = [];
+  const queue = [categoryId];
+  const visited = new Set<string>();
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (visited.has(id)) continue;
+    visited.add(id);
+    ids.push(id);
+    queue.push(...(childrenByParent.get(id) ?? []));
+  }
+
+  return ids;
+}
+
+export type CategoryReferenceResult =
+  | { success: true; id: string }
+  | { success: false; reason: string; missing: boolean };
+
+/**
+ * Compare category names the way spreadsheets write them:
+ * "Phone Mockups", "phone mockups" and "phone-mockups" are the same category
+ */
+export const normalizeCategoryName = (name: string) => name.trim().toLowerCase().replace(/[\s_-]+/g, "-");
+
+/**
+ * Split a category path such as "Mockups / Phones" or "Mockups > Phones" into its names
+ */
+export const splitCategoryPath = (reference: string) =>
+  reference.split(/\s*[/>]\s*/).map((segment) => segment.trim()).filter(Boolean);
+
+/**
+ * Find the category a spreadsheet refers to, by ID, name, slug or path.
+ * A path may start at any level of the tree, e.g. "Phones / iPhone".
+ *
+ * @param categories - Categories of one store
+ * @param reference - Category ID, name, slug or path from an import row
+ * @returns The category ID, or why it could not be resolved (missing is false when the reference is ambiguous)
+ */
+export function resolveCategoryReference(
+  categories: Pick<Category, "id" | "name" | "parentId">[],
+  reference: string
+): CategoryReferenceResult {
+  const value = reference.trim();
+
+  const byId = categories.find((category) => category.id === value);
+  if (byId) {
+    return { success: true, id: byId.id };
+  }
+
+  const segments = splitCategoryPath(value);
+  // A whole-name match wins, so names containing "/" still resolve
+  const candidates = [[value], ...(segments.length > 1 ? [segments] : [])];
+
+  for (const names of candidates) {
+    let matches = categories.filter((category) => normalizeCategoryName(category.name) === normalizeCategoryName(names[0]));
+
+    for (const name of names.slice(1)) {
+      const parentIds = new Set(matches.map((category) => category.id));
+      matches = categories.filter(
+        (category) =>
+          category.parentId !== null &&
+          parentIds.has(category.parentId) &&
+          normalizeCategoryName(category.name) === normalizeCategoryName(name)
+      );
+    }
+
+    if (matches.length === 1) {
+      return { success: true, id: matches[0].id };
+    }
+    if (matches.length > 1) {
+      return {
+        success: false,
+        reason: `Category "${value}" matches ${matches.length} categories, use its full path (e.g. Parent / ${names[names.length - 1]})`,
+        missing: false,
+      };
+    }
+  }
+
+  return { success: false, reason: `Category "${value}" not found`, missing: true };
+}
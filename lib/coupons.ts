@@ -0,0 +1,233 @@
+import prismadb from "@/lib/prismadb";
+import { collectDescendantIds } from "@/lib/category-tree";
+import { CouponType, type Category, type Coupon, type Prisma } from "@prisma/client";
+
+export interface CouponLineItem {
+  id: string;
+  categoryId: string;
+  price: number;
+}
+
+// Buyers capture when they come back from PayPal, so a PayPal order still
+// unpaid after this long was abandoned
+const ABANDONED_PAYPAL_ORDER_MS = 24 * 60 * 60 * 1000;
+
+export type CouponValidationResult =
+  | {
+      valid: true;
+      coupon: Coupon;
+      eligibleProductIds: string[];
+      subtotal: number;
+      discount: number;
+      total: number;
+    }
+  | {
+      valid: false;
+      reason: string;
+    };
+
+const roundToCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Coupon codes are matched case-insensitively and stored uppercase
+ */
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Check if a coupon applies to a product.
+ * A coupon with no product or category restrictions applies to everything,
+ * and a listed category includes its subcategories.
+ *
+ * @param coupon - Coupon with its restrictions
+ * @param product - Product in the cart
+ * @param categories - The store's categories, to resolve subcategories
+ */
+export function isProductEligibleForCoupon(
+  coupon: Pick<Coupon, "productIds" | "categoryIds">,
+  product: Pick<CouponLineItem, "id" | "categoryId">,
+  categories: Pick<Category, "id" | "parentId">[]
+): boolean {
+  if (coupon.productIds.length === 0 && coupon.categoryIds.length === 0) {
+    return true;
+  }
+
+  return (
+    coupon.productIds.includes(product.id) ||
+    coupon.categoryIds.some((id) => collectDescendantIds(categories, id).includes(product.categoryId))
+  );
+}
+
+/**
+ * Validate a coupon code against a cart and compute the discount
+ *
+ * @param storeId - Store ID
+ * @param code - Coupon code as typed by the customer
+ * @param userId - Clerk user ID (required for per-customer limits)
+ * @param products - Products in the cart
+ * @returns CouponValidationResult with the discount in dollars, or the reason it was rejected
+ */
+export async function validateCoupon({
+  storeId,
+  code,
+  userId,
+  products,
+}: {
+  storeId: string;
+  code: string;
+  userId: string | null;
+  products: CouponLineItem[];
+}): Promise<CouponValidationResult> {
+  if (!code?.trim()) {
+    return { valid: false, reason: "Coupon code is required." };
+  }
+
+  const coupon = await prismadb.coupon.findUnique({
+    where: {
+      storeId_code: {
+        storeId,
+        code: normalizeCouponCode(code),
+      },
+    },
+  });
+
+  if (!coupon || !coupon.isActive) {
+    return { valid: false, reason: "This coupon code is not valid." };
+  }
+
+  const now = new Date();
+
+  if (coupon.startsAt && now < coupon.startsAt) {
+    return { valid: false, reason: "This coupon is not active yet." };
+  }
+
+  if (coupon.expiresAt && now > coupon.expiresAt) {
+    return { valid: false, reason: "This coupon has expired." };
+  }
+
+  // Checkouts claim their redemption with claimCouponRedemption; this only rejects early
+  if (coupon.maxRedemptions !== null && coupon.redemptionCount >= coupon.maxRedemptions) {
+    return { valid: false, reason: "This coupon has reached its usage limit." };
+  }
+
+  if (coupon.maxPerCustomer !== null) {
+    if (!userId) {
+      return { valid: false, reason: "Sign in to use this coupon." };
+    }
+
+    const customerRedemptions = await prismadb.order.count({
+      where: { couponId: coupon.id, userId, isPaid: true },
+    });
+
+    if (customerRedemptions >= coupon.maxPerCustomer) {
+      return { valid: false, reason: "You have already used this coupon." };
+    }
+  }
+
+  const categories =
+    coupon.categoryIds.length > 0
+      ? await prismadb.category.findMany({ where: { storeId }, select: { id: true, parentId: true } })
+      : [];
+  const eligibleProducts = products.filter((product) => isProductEligibleForCoupon(coupon, product, categories));
+
+  if (eligibleProducts.length === 0) {
+    return { valid: false, reason: "This coupon does not apply to the products in your cart." };
+  }
+
+  const subtotal = roundToCents(products.reduce((sum, product) => sum + product.price, 0));
+  const eligibleSubtotal = eligibleProducts.reduce((sum, product) => sum + product.price, 0);
+  const amount = coupon.amount.toNumber();
+
+  const rawDiscount =
+    coupon.type === CouponType.PERCENTAGE
+      ? eligibleSubtotal * (Math.min(amount, 100) / 100)
+      : Math.min(amount, eligibleSubtotal);
+
+  const discount = roundToCents(rawDiscount);
+
+  return {
+    valid: true,
+    coupon,
+    eligibleProductIds: eligibleProducts.map((product) => product.id),
+    subtotal,
+    discount,
+    total: roundToCents(subtotal - discount),
+  };
+}
+
+/**
+ * Claim one of a coupon's redemptions for a new order. The limit is checked
+ * in the same UPDATE, so concurrent checkouts can't both take the last one.
+ * Run it in the transaction that creates the order, so a failed create
+ * doesn't keep the redemption.
+ *
+ * @param couponId - Coupon ID
+ * @param tx - Transaction the order is created in
+ * @returns true when claimed (always for coupons without a limit)
+ */
+export async function claimCouponRedemption(couponId: string, tx: Prisma.TransactionClient): Promise<boolean> {
+  const { count } = await tx.coupon.updateMany({
+    where: {
+      id: couponId,
+      OR: [{ maxRedemptions: null }, { redemptionCount: { lt: prismadb.coupon.fields.maxRedemptions } }],
+    },
+    data: { redemptionCount: { increment: 1 } },
+  });
+
+  return count > 0;
+}
+
+/**
+ * Give back the redemption an unpaid order claimed, e.g. when its checkout
+ * expired. The coupon is detached from the order first, so a replayed event
+ * can't release it twice.
+ *
+ * @param orderId - Order that will never be paid
+ */
+export async function releaseCouponRedemption(orderId: string): Promise<void> {
+  const order = await prismadb.order.findFirst({
+    where: { id: orderId, isPaid: false },
+    select: { couponId: true },
+  });
+
+  if (!order?.couponId) {
+    return;
+  }
+
+  const { count } = await prismadb.order.updateMany({
+    where: { id: orderId, isPaid: false, couponId: order.couponId },
+    data: { couponId: null, updatedAt: new Date() },
+  });
+
+  if (count > 0) {
+    await prismadb.coupon.updateMany({
+      where: { id: order.couponId, redemptionCount: { gt: 0 } },
+      data: { redemptionCount: { decrement: 1 } },
+    });
+  }
+}
+
+/**
+ * Give back the redemptions of PayPal orders the buyer never came back to
+ * pay. Stripe reports these as expired sessions; PayPal sends no such event.
+ *
+ * @returns Number of orders whose redemption was released
+ */
+export async function releaseAbandonedCouponRedemptions(): Promise<number> {
+  const orders = await prismadb.order.findMany({
+    where: {
+      isPaid: false,
+      paymentProvider: "paypal",
+      couponId: { not: null },
+      createdAt: { lt: new Date(Date.now() - ABANDONED_PAYPAL_ORDER_MS) },
+    },
+    select: { id: true },
+  });
+
+  for (const order of orders) {
+    await releaseCouponRedemption(order.id);
+  }
+
+  return orders.length;
+}
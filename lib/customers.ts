@@ -0,0 +1,269 @@
+import prismadb from "@/lib/prismadb";
+import { Prisma, SubscriptionStatus, WebhookSource } from "@prisma/client";
+
+/**
+ * Customers are identified by their Clerk user ID, or by email for guest activity
+ * (rows with no user ID). Guest activity is not merged into signed-in customers.
+ * The key doubles as the customer's URL segment in the dashboard.
+ */
+export type CustomerIdentity = { userId: string } | { email: string };
+
+export interface CustomerSummary {
+  key: string;
+  userId: string | null;
+  email: string | null;
+  orders: number;
+  paidOrders: number;
+  lifetimeSpend: number;
+  downloads: number;
+  subscriptionStatus: SubscriptionStatus | null;
+  planName: string | null;
+  firstSeen: Date;
+  lastSeen: Date;
+}
+
+export function parseCustomerKey(key: string): CustomerIdentity {
+  return key.includes("@") ? { email: key.toLowerCase() } : { userId: key };
+}
+
+/**
+ * Prisma filter for rows (orders, downloads) that belong to a customer
+ */
+function customerWhere(identity: CustomerIdentity) {
+  return "userId" in identity
+    ? { userId: identity.userId }
+    : { userId: null, email: { equals: identity.email, mode: Prisma.QueryMode.insensitive } };
+}
+
+const minDate = (a: Date, b: Date | null | undefined) => (b && b < a ? b : a);
+const maxDate = (a: Date, b: Date | null | undefined) => (b && b > a ? b : a);
+
+/**
+ * Build the customer directory for a store from orders, downloads and subscriptions
+ *
+ * @param storeId - Store ID
+ * @returns Customers sorted by most recently seen
+ */
+export async function getCustomers(storeId: string): Promise<CustomerSummary[]> {
+  const [orderGroups, paidOrderGroups, downloadGroups, subscriptions] = await Promise.all([
+    prismadb.order.groupBy({
+      by: ["userId", "email"],
+      where: { storeId },
+      _count: { id: true },
+      _min: { createdAt: true },
+      _max: { createdAt: true },
+    }),
+    prismadb.order.groupBy({
+      by: ["userId", "email"],
+      where: { storeId, isPaid: true },
+      _count: { id: true },
+      _sum: { price: true, refundedAmount: true },
+    }),
+    prismadb.downloads.groupBy({
+      by: ["userId", "email"],
+      where: { storeId, OR: [{ userId: { not: null } }, { email: { not: null } }] },
+      _count: { id: true },
+      _min: { createdAt: true },
+      _max: { createdAt: true },
+    }),
+    prismadb.subscriptions.findMany({
+      where: { storeId },
+      select: {
+        userId: true,
+        status: true,
+        createdAt: true,
+        updatedAt: true,
+        Plan: { select: { name: true } },
+      },
+    }),
+  ]);
+
+  const customers = new Map<string, CustomerSummary>();
+
+  const resolve = (userId: string | null, email: string | null, seen: Date): CustomerSummary | null => {
+    const normalizedEmail = email?.toLowerCase() ?? null;
+    const key = userId ?? normalizedEmail;
+
+    if (!key) {
+      return null;
+    }
+
+    let customer = customers.get(key);
+    if (!customer) {
+      customer = {
+        key,
+        userId,
+        email: normalizedEmail,
+        orders: 0,
+        paidOrders: 0,
+        lifetimeSpend: 0,
+        downloads: 0,
+        subscriptionStatus: null,
+        planName: null,
+        firstSeen: seen,
+        lastSeen: seen,
+      };
+      customers.set(key, customer);
+    }
+
+    if (!customer.email && normalizedEmail) {
+      customer.email = normalizedEmail;
+    }
+
+    return customer;
+  };
+
+  for (const group of orderGroups) {
+    const customer = resolve(group.userId, group.email, group._min.createdAt ?? new Date());
+    if (!customer) continue;
+
+    customer.orders += group._count.id;
+    customer.firstSeen = minDate(customer.firstSeen, group._min.createdAt);
+    customer.lastSeen = maxDate(customer.lastSeen, group._max.createdAt);
+  }
+
+  for (const group of paidOrderGroups) {
+    const customer = resolve(group.userId, group.email, new Date());
+    if (!customer) continue;
+
+    customer.paidOrders += group._count.id;
+    customer.lifetimeSpend +=
+      (group._sum.price?.toNumber() ?? 0) - (group._sum.refundedAmount?.toNumber() ?? 0);
+  }
+
+  for (const group of downloadGroups) {
+    const customer = resolve(group.userId, group.email, group._min.createdAt ?? new Date());
+    if (!customer) continue;
+
+    customer.downloads += group._count.id;
+    customer.firstSeen = minDate(customer.firstSeen, group._min.createdAt);
+    customer.lastSeen = maxDate(customer.lastSeen, group._max.createdAt);
+  }
+
+  for (const subscription of subscriptions) {
+    const customer = resolve(subscription.userId, null, subscription.createdAt);
+    if (!customer) continue;
+
+    customer.subscriptionStatus = subscription.status;
+    customer.planName = subscription.Plan?.name ?? null;
+    customer.firstSeen = minDate(customer.firstSeen, subscription.createdAt);
+    customer.lastSeen = maxDate(customer.lastSeen, subscription.updatedAt);
+  }
+
+  return Array.from(customers.values())
+    .map((customer) => ({ ...customer, lifetimeSpend: Math.round(customer.lifetimeSpend * 100) / 100 }))
+    .sort((a, b) => b.lastSeen.getTime() - a.lastSeen.getTime());
+}
+
+/**
+ * Load everything the dashboard shows on a customer's profile
+ *
+ * @param storeId - Store ID
+ * @param key - Customer key (user ID or email)
+ * @returns Orders, downloads by category, subscription and its event history
+ */
+export async function getCustomerProfile(storeId: string, key: string) {
+  const identity = parseCustomerKey(key);
+  const where = { storeId, ...customerWhere(identity) };
+
+  const [orders, downloadGroups, subscription] = await Promise.all([
+    prismadb.order.findMany({
+      where,
+      include: {
+        OrderItem: {
+          include: { products: { select: { id: true, name: true } } },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+    }),
+    prismadb.downloads.groupBy({
+      by: ["productId", "isFree"],
+      where,
+      _count: { id: true },
+      _min: { createdAt: true },
+      _max: { createdAt: true },
+    }),
+    "userId" in identity
+      ? prismadb.subscriptions.findUnique({
+          where: { userId_storeId: { userId: identity.userId, storeId } },
+          include: { Plan: { select: { id: true, name: true } } },
+        })
+      : null,
+  ]);
+
+  const products = await prismadb.products.findMany({
+    where: { id: { in: downloadGroups.map((group) => group.productId) } },
+    select: { id: true, Category: { select: { id: true, name: true } } },
+  });
+  const categoryByProduct = new Map(products.map((product) => [product.id, product.Category]));
+
+  const downloadsByCategory = new Map<string, { categoryId: string; name: string; free: number; premium: number }>();
+  for (const group of downloadGroups) {
+    const category = categoryByProduct.get(group.productId);
+    const categoryId = category?.id ?? "uncategorized";
+    const entry = downloadsByCategory.get(categoryId) ?? {
+      categoryId,
+      name: category?.name ?? "Deleted products",
+      free: 0,
+      premium: 0,
+    };
+
+    if (group.isFree) {
+      entry.free += group._count.id;
+    } else {
+      entry.premium += group._count.id;
+    }
+    downloadsByCategory.set(categoryId, entry);
+  }
+
+  // Subscription history comes from the Stripe webhook log
+  const subscriptionEvents = subscription?.stripeSubscriptionId
+    ? await prismadb.webhookEvent.findMany({
+        where: {
+          source: WebhookSource.STRIPE_SUBSCRIPTION,
+          OR: [
+            { payload: { path: ["data", "object", "id"], equals: subscription.stripeSubscriptionId } },
+            { payload: { path: ["data", "object", "subscription"], equals: subscription.stripeSubscriptionId } },
+          ],
+        },
+        select: { id: true, type: true, status: true, receivedAt: true },
+        orderBy: { receivedAt: "desc" },
+        take: 50,
+      })
+    : [];
+
+  const seen = [
+    ...orders.map((order) => order.createdAt),
+    ...downloadGroups.flatMap((group) => [group._min.createdAt, group._max.createdAt]),
+    subscription?.createdAt,
+    subscription?.updatedAt,
+  ].filter((date): date is Date => !!date);
+
+  if (seen.length === 0) {
+    return null;
+  }
+
+  const email =
+    "email" in identity ? identity.email : orders.find((order) => order.email)?.email?.toLowerCase() ?? null;
+
+  return {
+    key,
+    userId: "userId" in identity ? identity.userId : null,
+    email,
+    orders,
+    lifetimeSpend:
+      Math.round(
+        orders
+          .filter((order) => order.isPaid)
+          .reduce((sum, order) => sum + (order.price?.toNumber() ?? 0) - order.refundedAmount.toNumber(), 0) * 100
+      ) / 100,
+    downloadsByCategory: Array.from(downloadsByCategory.values()).sort(
+      (a, b) => b.free + b.premium - (a.free + a.premium)
+    ),
+    totalDownloads: downloadGroups.reduce((sum, group) => sum + group._count.id, 0),
+    subscription,
+    subscriptionEvents,
+    firstSeen: new Date(Math.min(...seen.map((date) => date.getTime()))),
+    lastSeen: new Date(Math.max(...seen.map((date) => date.getTime()))),
+  };
+}
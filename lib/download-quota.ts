@@ -0,0 +1,219 @@
+import prismadb from "@/lib/prismadb";
+import { REVOKED_ORDER_STATUS } from "@/lib/refunds";
+import { hasPurchasedFile, hasPurchasedProduct } from "@/lib/subscription";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type QuotaScope = "period" | "daily";
+
+export interface QuotaUsage {
+  limit: number | null; // null = unlimited
+  used: number;
+  remaining: number | null;
+  resetsAt: Date | null;
+}
+
+export interface DownloadAllowance {
+  enabled: boolean;
+  period: QuotaUsage;
+  daily: QuotaUsage;
+  exceeded: QuotaScope | null;
+}
+
+/**
+ * Resolve the billing window quotas are counted in.
+ * Falls back to the current calendar month (UTC) when the subscription
+ * has no period dates yet.
+ */
+function getBillingWindow(subscription: {
+  currentPeriodStart: Date | null;
+  currentPeriodEnd: Date | null;
+} | null): { start: Date; end: Date } {
+  if (subscription?.currentPeriodStart && subscription.currentPeriodEnd) {
+    return {
+      start: new Date(subscription.currentPeriodStart),
+      end: new Date(subscription.currentPeriodEnd),
+    };
+  }
+
+  const now = new Date();
+  return {
+    start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+  };
+}
+
+function buildUsage(limit: number | null, used: number, resetsAt: Date): QuotaUsage {
+  return {
+    limit,
+    used,
+    remaining: limit === null ? null : Math.max(limit - used, 0),
+    resetsAt: limit === null ? null : resetsAt,
+  };
+}
+
+/**
+ * Compute a subscriber's premium download allowance for the store's quota rules.
+ * Only downloads granted through the subscription are counted; products the
+ * user bought are theirs to download without limit.
+ *
+ * @param userId - Clerk user ID
+ * @param storeId - Store ID
+ * @returns DownloadAllowance with per-period and per-day usage
+ */
+export async function getDownloadAllowance(
+  userId: string,
+  storeId: string
+): Promise<DownloadAllowance> {
+  const [quota, subscription, purchasedProductIds] = await Promise.all([
+    prismadb.downloadQuota.findUnique({
+      where: { storeId },
+    }),
+    prismadb.subscriptions.findUnique({
+      where: {
+        userId_storeId: {
+          userId,
+          storeId,
+        },
+      },
+      select: {
+        currentPeriodStart: true,
+        currentPeriodEnd: true,
+        Plan: {
+          select: {
+            downloadQuota: true,
+          },
+        },
+      },
+    }),
+    getPurchasedProductIds(userId, storeId),
+  ]);
+
+  // A plan's own download quota takes precedence over the store-wide period limit
+  const storeRulesEnabled = !!quota?.isEnabled;
+  const periodLimit =
+    subscription?.Plan?.downloadQuota ??
+    (storeRulesEnabled ? quota?.premiumPerPeriod ?? null : null);
+  const dailyLimit = storeRulesEnabled ? quota?.premiumPerDay ?? null : null;
+  const enabled = periodLimit !== null || dailyLimit !== null;
+
+  const window = getBillingWindow(subscription);
+  const now = Date.now();
+  const dayStart = new Date(now - DAY_MS);
+
+  // Downloads of purchased products never count against the quota
+  const metered = {
+    userId,
+    storeId,
+    isFree: false,
+    ...(purchasedProductIds.length > 0 && { productId: { notIn: purchasedProductIds } }),
+  };
+
+  const [periodUsed, dailyUsed] = await Promise.all([
+    prismadb.downloads.count({
+      where: {
+        ...metered,
+        createdAt: { gte: window.start },
+      },
+    }),
+    prismadb.downloads.count({
+      where: {
+        ...metered,
+        createdAt: { gte: dayStart },
+      },
+    }),
+  ]);
+
+  // Rolling 24h burst window: the oldest download in it frees up a slot first
+  let dailyResetsAt = new Date(now + DAY_MS);
+  if (dailyLimit !== null && dailyUsed >= dailyLimit) {
+    const oldestInWindow = await prismadb.downloads.findFirst({
+      where: {
+        ...metered,
+        createdAt: { gte: dayStart },
+      },
+      orderBy: { createdAt: "asc" },
+      select: { createdAt: true },
+    });
+
+    if (oldestInWindow) {
+      dailyResetsAt = new Date(oldestInWindow.createdAt.getTime() + DAY_MS);
+    }
+  }
+
+  const period = buildUsage(periodLimit, periodUsed, window.end);
+  const daily = buildUsage(dailyLimit, dailyUsed, dailyResetsAt);
+
+  let exceeded: QuotaScope | null = null;
+  if (period.remaining === 0) {
+    exceeded = "period";
+  } else if (daily.remaining === 0) {
+    exceeded = "daily";
+  }
+
+  return { enabled, period, daily, exceeded };
+}
+
+/**
+ * IDs of the products the user bought in the store, from paid orders that
+ * weren't refunded
+ */
+async function getPurchasedProductIds(userId: string, storeId: string): Promise<string[]> {
+  const items = await prismadb.orderItem.findMany({
+    where: {
+      Order: { userId, storeId, isPaid: true, status: { notIn: REVOKED_ORDER_STATUS } },
+      fileId: null,
+    },
+    select: { productId: true },
+    distinct: ["productId"],
+  });
+
+  return items.map((item) => item.productId);
+}
+
+/**
+ * Quota check for a premium download. Purchased products are never metered,
+ * only downloads granted through the subscription count against the quota.
+ *
+ * @param userId - Clerk user ID
+ * @param productId - Product being downloaded
+ * @param storeId - Store ID
+ * @param separateFileId - File sold on its own, when that is what is being downloaded
+ * @returns DownloadAllowance, or null when the download is not metered
+ */
+export async function checkDownloadQuota(
+  userId: string,
+  productId: string,
+  storeId: string,
+  separateFileId?: string | null
+): Promise<DownloadAllowance | null> {
+  const purchased = separateFileId
+    ? await hasPurchasedFile(userId, separateFileId, storeId)
+    : await hasPurchasedProduct(userId, productId, storeId);
+
+  if (purchased) {
+    return null;
+  }
+
+  return getDownloadAllowance(userId, storeId);
+}
+
+/**
+ * Build the 429 response body returned when a quota is exhausted
+ */
+export function buildQuotaExceededBody(allowance: DownloadAllowance) {
+  const scope = allowance.exceeded ?? "period";
+  const usage = allowance[scope];
+
+  return {
+    error: "DOWNLOAD_QUOTA_EXCEEDED",
+    message:
+      scope === "period"
+        ? "You have reached the premium download limit for your current billing period."
+        : "You have reached the daily premium download limit. Please try again later.",
+    scope,
+    limit: usage.limit,
+    used: usage.used,
+    resetsAt: usage.resetsAt?.toISOString() ?? null,
+  };
+}
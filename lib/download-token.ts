@@ -0,0 +1,115 @@
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import { Prisma } from "@prisma/client";
+import prismadb from "@/lib/prismadb";
+
+const DEFAULT_TTL_SECONDS = 5 * 60;
+
+/**
+ * Claims carried by a signed download token
+ */
+export interface DownloadTokenPayload {
+  userId: string | null;
+  productId: string;
+  fileId?: string | null; // Specific product file; absent for the product's main download
+  storeId: string;
+  jti: string; // Unique token ID, so each token can only be redeemed once
+  exp: number; // Unix timestamp (seconds)
+}
+
+function getSecret(): string {
+  const secret = process.env.DOWNLOAD_TOKEN_SECRET;
+
+  if (!secret) {
+    throw new Error("DOWNLOAD_TOKEN_SECRET is not configured");
+  }
+
+  return secret;
+}
+
+function sign(encodedPayload: string): string {
+  return createHmac("sha256", getSecret()).update(encodedPayload).digest("base64url");
+}
+
+/**
+ * Issue a short-lived HMAC-signed download token
+ *
+ * @param claims - User, product (and file) and store the token is bound to
+ * @param ttlSeconds - Lifetime of the token (default: 5 minutes)
+ * @returns The token and its expiry date
+ */
+export function createDownloadToken(
+  claims: Omit<DownloadTokenPayload, "jti" | "exp">,
+  ttlSeconds: number = DEFAULT_TTL_SECONDS
+): { token: string; expiresAt: Date } {
+  const exp = Math.floor(Date.now() / 1000) + ttlSeconds;
+  const payload: DownloadTokenPayload = { ...claims, jti: randomUUID(), exp };
+
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  const token = `${encodedPayload}.${sign(encodedPayload)}`;
+
+  return { token, expiresAt: new Date(exp * 1000) };
+}
+
+/**
+ * Verify a signed download token and return its claims
+ *
+ * @param token - Token issued by createDownloadToken
+ * @returns DownloadTokenPayload
+ * @throws Error if the token is malformed, tampered with or expired
+ */
+export function verifyDownloadToken(token: string): DownloadTokenPayload {
+  const [encodedPayload, signature] = token.split(".");
+
+  if (!encodedPayload || !signature) {
+    throw new Error("Invalid download token format");
+  }
+
+  const expected = Buffer.from(sign(encodedPayload));
+  const received = Buffer.from(signature);
+
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    throw new Error("Invalid download token signature");
+  }
+
+  let payload: DownloadTokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encodedPayload, "base64url").toString("utf8"));
+  } catch {
+    throw new Error("Invalid download token payload");
+  }
+
+  if (!payload.productId || !payload.storeId || !payload.jti || typeof payload.exp !== "number") {
+    throw new Error("Invalid download token payload");
+  }
+
+  if (Math.floor(Date.now() / 1000) > payload.exp) {
+    throw new Error("Download token has expired");
+  }
+
+  return payload;
+}
+
+/**
+ * Mark a verified token as redeemed. Expired redemptions are pruned on the way,
+ * since their tokens fail verification anyway.
+ *
+ * @param payload - Claims returned by verifyDownloadToken
+ * @returns false when the token was already redeemed
+ */
+export async function claimDownloadToken(payload: DownloadTokenPayload): Promise<boolean> {
+  await prismadb.download_token_redemptions.deleteMany({
+    where: { expiresAt: { lt: new Date() } },
+  });
+
+  try {
+    await prismadb.download_token_redemptions.create({
+      data: { jti: payload.jti, expiresAt: new Date(payload.exp * 1000) },
+    });
+    return true;
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return false;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,53 @@
+import prismadb from "@/lib/prismadb";
+import { enqueueSearchSync } from "@/lib/search-outbox";
+import { SearchOutboxStatus } from "@prisma/client";
+
+export interface RecordDownloadInput {
+  productId: string;
+  storeId: string;
+  userId: string | null;
+  isFree: boolean;
+  fileId?: string | null;
+}
+
+/**
+ * Record a product download: bumps the product's downloadsCount
+ * (queueing its search document, which sorts by it) and inserts a row
+ * into the downloads table. A product that already has a pending outbox row
+ * isn't queued again; that row re-reads the product, count included.
+ *
+ * @param input - Product, store, (optional) user that downloaded and the file they got
+ */
+export async function recordDownload({
+  productId,
+  storeId,
+  userId,
+  isFree,
+  fileId,
+}: RecordDownloadInput): Promise<void> {
+  const pending = await prismadb.search_outbox.findFirst({
+    where: { productId, status: SearchOutboxStatus.PENDING },
+    select: { id: true },
+  });
+
+  await prismadb.$transaction([
+    prismadb.products.update({
+      where: { id: productId },
+      data: {
+        downloadsCount: { increment: 1 },
+      },
+    }),
+    prismadb.downloads.create({
+      data: {
+        id: crypto.randomUUID(),
+        productId,
+        storeId,
+        userId: userId || null,
+        email: null,
+        isFree,
+        fileId: fileId ?? null,
+      },
+    }),
+    ...(pending ? [] : [enqueueSearchSync(storeId, [productId], "UPSERT")]),
+  ]);
+}
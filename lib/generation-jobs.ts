@@ -0,0 +1,187 @@
+import prismadb from "@/lib/prismadb";
+import { GenerationJobStatus, GenerationResultStatus } from "@prisma/client";
+
+/**
+ * A product generated from an image, in the CSV Maker's row shape
+ */
+export interface GeneratedProduct {
+  name: string;
+  description: string;
+  price: string;
+  categoryId: string;
+  imageUrl: string;
+  downloadUrl: string;
+  keywords: string[];
+}
+
+export interface GenerationFailure {
+  imageUrl: string;
+  reason: string;
+}
+
+/**
+ * What one Inngest batch produced: generated products (with the product ID
+ * when it was saved, or why it wasn't) and the images that failed
+ */
+export interface GenerationBatchResult {
+  products: Array<GeneratedProduct & { productId: string | null; reason?: string }>;
+  failures: GenerationFailure[];
+}
+
+/**
+ * Start tracking a generation run before its events are sent
+ *
+ * @param storeId - Store ID
+ * @param userId - User who started the run, if known
+ * @param total - Number of images in the run
+ * @param promptTemplateId - Prompt template version the whole run uses, if the store has one
+ * @returns The new job ID
+ */
+export async function createGenerationJob(
+  storeId: string,
+  userId: string | null,
+  total: number,
+  promptTemplateId: string | null
+): Promise<string> {
+  const job = await prismadb.generation_jobs.create({
+    data: {
+      id: crypto.randomUUID(),
+      storeId,
+      userId,
+      total,
+      promptTemplateId,
+      updatedAt: new Date(),
+    },
+  });
+
+  return job.id;
+}
+
+/**
+ * Flag a job as started. Later events of the same job leave it as is.
+ */
+export async function markGenerationJobProcessing(jobId: string): Promise<void> {
+  await prismadb.generation_jobs.updateMany({
+    where: { id: jobId, status: GenerationJobStatus.PENDING },
+    data: { status: GenerationJobStatus.PROCESSING, updatedAt: new Date() },
+  });
+}
+
+/**
+ * Store one batch's per-image results and add them to the job's counts.
+ * Results are keyed by image, so a retried step neither duplicates rows nor
+ * counts them twice. The job completes once every image has a result.
+ *
+ * @param jobId - generation_jobs ID
+ * @param batch - Generated products and failures of the batch
+ */
+export async function recordGenerationResults(jobId: string, batch: GenerationBatchResult): Promise<void> {
+  const [succeeded, failed] = await prismadb.$transaction([
+    prismadb.generation_job_results.createMany({
+      data: batch.products.map((product) => ({
+        id: crypto.randomUUID(),
+        jobId,
+        imageUrl: product.imageUrl,
+        status: GenerationResultStatus.SUCCEEDED,
+        name: product.name,
+        description: product.description,
+        keywords: product.keywords,
+        price: product.price,
+        categoryId: product.categoryId,
+        productId: product.productId,
+        reason: product.reason ?? null,
+      })),
+      skipDuplicates: true,
+    }),
+    prismadb.generation_job_results.createMany({
+      data: batch.failures.map((failure) => ({
+        id: crypto.randomUUID(),
+        jobId,
+        imageUrl: failure.imageUrl,
+        status: GenerationResultStatus.FAILED,
+        reason: failure.reason,
+      })),
+      skipDuplicates: true,
+    }),
+  ]);
+
+  const job = await prismadb.generation_jobs.update({
+    where: { id: jobId },
+    data: {
+      processed: { increment: succeeded.count },
+      failed: { increment: failed.count },
+      updatedAt: new Date(),
+    },
+  });
+
+  if (job.processed + job.failed >= job.total) {
+    await prismadb.generation_jobs.updateMany({
+      where: { id: jobId, status: { in: [GenerationJobStatus.PENDING, GenerationJobStatus.PROCESSING] } },
+      data: { status: GenerationJobStatus.COMPLETED, completedAt: new Date(), updatedAt: new Date() },
+    });
+  }
+}
+
+/**
+ * Mark a job as failed, e.g. when the vision provider isn't configured
+ */
+export async function failGenerationJob(jobId: string, error: string): Promise<void> {
+  await prismadb.generation_jobs.updateMany({
+    where: { id: jobId },
+    data: { status: GenerationJobStatus.FAILED, error, completedAt: new Date(), updatedAt: new Date() },
+  });
+}
+
+/**
+ * A job with its results, shaped for the CSV Maker
+ *
+ * @param storeId - Store ID
+ * @param jobId - generation_jobs ID
+ * @returns Job counts, generated products and failures, or null when not found
+ */
+export async function getGenerationJob(storeId: string, jobId: string) {
+  const job = await prismadb.generation_jobs.findFirst({
+    where: { id: jobId, storeId },
+    include: {
+      results: { orderBy: { createdAt: "asc" } },
+      PromptTemplate: { select: { version: true } },
+    },
+  });
+
+  if (!job) {
+    return null;
+  }
+
+  const products = job.results
+    .filter((result) => result.status === GenerationResultStatus.SUCCEEDED)
+    .map((result) => ({
+      name: result.name ?? "",
+      description: result.description ?? "",
+      price: result.price ?? "0",
+      categoryId: result.categoryId ?? "",
+      imageUrl: result.imageUrl,
+      downloadUrl: result.imageUrl,
+      keywords: result.keywords,
+      productId: result.productId,
+      reason: result.reason,
+      promptTemplateId: job.promptTemplateId,
+    }));
+
+  const failures: GenerationFailure[] = job.results
+    .filter((result) => result.status === GenerationResultStatus.FAILED)
+    .map((result) => ({ imageUrl: result.imageUrl, reason: result.reason ?? "Unknown error" }));
+
+  return {
+    jobId: job.id,
+    status: job.status.toLowerCase() as "pending" | "processing" | "completed" | "failed",
+    total: job.total,
+    processed: job.processed,
+    failed: job.failed,
+    error: job.error,
+    createdAt: job.createdAt,
+    completedAt: job.completedAt,
+    promptTemplateVersion: job.PromptTemplate?.version ?? null,
+    products,
+    failures,
+  };
+}
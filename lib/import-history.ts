@@ -0,0 +1,142 @@
+import prismadb from "@/lib/prismadb";
+import { clerkClient } from "@clerk/nextjs/server";
+import type { Prisma } from "@prisma/client";
+import { IMPORT_LIST_SEPARATOR, type ProductImportRow } from "@/lib/validation/product-import-schema";
+
+const HISTORY_LIMIT = 200;
+
+export interface FailedImportRow {
+  rowNumber: number;
+  name: string;
+  error: string;
+  row: ProductImportRow;
+}
+
+const joinList = (value: unknown) =>
+  Array.isArray(value) ? value.join(IMPORT_LIST_SEPARATOR) : typeof value === "string" ? value : "";
+const toText = (value: unknown) => (value === null || value === undefined ? "" : String(value));
+
+/**
+ * Turn a stored failed row back into the CSV shape, so it can be fixed and re-imported
+ *
+ * @param row - The row as it was sent to bulk.import
+ * @returns ProductImportRow with list fields joined by IMPORT_LIST_SEPARATOR
+ */
+export function toFailedImportCsvRow(row: Prisma.JsonValue): ProductImportRow {
+  const data = (row ?? {}) as Record<string, unknown>;
+
+  return {
+    name: toText(data.name),
+    description: toText(data.description),
+    price: toText(data.price),
+    categoryId: toText(data.categoryId),
+    category: toText(data.category),
+    downloadUrl: toText(data.downloadUrl),
+    videoUrl: toText(data.videoUrl),
+    imageUrl: joinList(data.imageUrl),
+    isFeatured: toText(data.isFeatured),
+    isArchived: toText(data.isArchived),
+    keywords: joinList(data.keywords),
+  };
+}
+
+/**
+ * How long a run took, e.g. "2m 5s", or "—" while it is still running
+ *
+ * @param log - Import log timing fields
+ * @returns Human-readable duration
+ */
+export function formatImportDuration(log: {
+  processingTimeMs: number | null;
+  startedAt: Date | null;
+  completedAt: Date | null;
+}): string {
+  const ms = log.processingTimeMs
+    ?? (log.startedAt && log.completedAt ? log.completedAt.getTime() - log.startedAt.getTime() : null);
+
+  if (ms === null) {
+    return "—";
+  }
+
+  const seconds = Math.max(Math.round(ms / 1000), 0);
+  const minutes = Math.floor(seconds / 60);
+
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+/**
+ * Display labels (email, or name) for the users who ran imports.
+ * Falls back to the raw user ID when Clerk can't be reached.
+ *
+ * @param userIds - Clerk user IDs
+ * @returns Map of user ID to label
+ */
+export async function getImportUserLabels(userIds: string[]): Promise<Map<string, string>> {
+  const labels = new Map(userIds.map((id) => [id, id]));
+  const uniqueIds = Array.from(new Set(userIds));
+
+  if (uniqueIds.length === 0) {
+    return labels;
+  }
+
+  try {
+    const client = await clerkClient();
+    const { data: users } = await client.users.getUserList({ userId: uniqueIds, limit: uniqueIds.length });
+
+    users.forEach((user) => {
+      const email = user.primaryEmailAddress?.emailAddress ?? user.emailAddresses[0]?.emailAddress;
+      const name = [user.firstName, user.lastName].filter(Boolean).join(" ");
+      labels.set(user.id, email || name || user.id);
+    });
+  } catch (error) {
+    console.error("[IMPORT_HISTORY_USERS]", error);
+  }
+
+  return labels;
+}
+
+/**
+ * Recent import runs for a store, newest first
+ *
+ * @param storeId - Store ID
+ * @returns Import logs with the number of stored failed rows
+ */
+export async function getImportHistory(storeId: string) {
+  return prismadb.product_import_logs.findMany({
+    where: { storeId },
+    include: { _count: { select: { failures: true } } },
+    orderBy: { createdAt: "desc" },
+    take: HISTORY_LIMIT,
+  });
+}
+
+/**
+ * One import run with its failed rows
+ *
+ * @param storeId - Store ID
+ * @param importId - product_import_logs ID
+ * @returns The import log and its failed rows in row order, or null when not found
+ */
+export async function getImportDetail(storeId: string, importId: string) {
+  const importLog = await prismadb.product_import_logs.findFirst({
+    where: { id: importId, storeId },
+    include: {
+      failures: { orderBy: { rowNumber: "asc" } },
+      _count: { select: { changes: true } },
+    },
+  });
+
+  if (!importLog) {
+    return null;
+  }
+
+  const { failures, ...log } = importLog;
+  const failedRows: FailedImportRow[] = failures.map((failure) => ({
+    rowNumber: failure.rowNumber,
+    name: failure.name,
+    error: failure.error,
+    row: toFailedImportCsvRow(failure.row),
+  }));
+
+  return { log, failedRows };
+}
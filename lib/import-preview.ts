@@ -0,0 +1,159 @@
+import prismadb from "@/lib/prismadb";
+import { Prisma } from "@prisma/client";
+import { productImportItemSchema, type ProductImportItem } from "@/lib/validation/product-import-schema";
+
+/**
+ * What the bulk import would do with a row:
+ * create a product, update the product with the same name, leave it as is, or reject the row
+ */
+export type ImportPreviewAction = "create" | "update" | "unchanged" | "invalid";
+
+export interface ImportFieldChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+export interface ImportPreviewRow {
+  index: number;
+  name: string;
+  action: ImportPreviewAction;
+  productId: string | null;
+  changes: ImportFieldChange[];
+  errors: string[];
+  item: ProductImportItem | null;
+}
+
+export interface ImportPreview {
+  rows: ImportPreviewRow[];
+  summary: Record<ImportPreviewAction, number>;
+}
+
+type ExistingProduct = Prisma.productsGetPayload<{ include: { Image: { select: { url: true } } } }>;
+
+const display = (value: string | null | undefined) => value ?? "";
+const displayList = (values: string[]) => values.join(", ");
+
+/**
+ * Field-level differences between a row and the product it would update.
+ * Mirrors what bulkImport writes: a missing description or keywords column
+ * leaves the stored value alone, while empty URLs clear it.
+ */
+function diffProduct(existing: ExistingProduct, item: ProductImportItem): ImportFieldChange[] {
+  const changes: ImportFieldChange[] = [];
+  const push = (field: string, before: string, after: string) => {
+    if (before !== after) {
+      changes.push({ field, before, after });
+    }
+  };
+
+  if (item.description !== undefined) {
+    push("description", display(existing.description), display(item.description));
+  }
+  if (!existing.price.equals(new Prisma.Decimal(item.price))) {
+    changes.push({ field: "price", before: existing.price.toFixed(2), after: item.price.toFixed(2) });
+  }
+  push("categoryId", existing.categoryId, item.categoryId);
+  push("downloadUrl", display(existing.downloadUrl), display(item.downloadUrl));
+  push("videoUrl", display(existing.videoUrl), display(item.videoUrl));
+  push("isFeatured", String(existing.isFeatured), String(item.isFeatured));
+  push("isArchived", String(existing.isArchived), String(item.isArchived));
+  if (item.keywords !== undefined) {
+    push("keywords", displayList(existing.keywords), displayList(item.keywords));
+  }
+
+  // Images are compared as a set, like bulkImport does
+  const beforeImages = existing.Image.map((image) => image.url.trim()).sort();
+  const afterImages = [...item.imageUrl].map((url) => url.trim()).sort();
+  push("imageUrl", displayList(beforeImages), displayList(afterImages));
+
+  return changes;
+}
+
+/**
+ * Dry-run a bulk import: classify every row without writing anything
+ *
+ * @param storeId - Store ID
+ * @param items - Rows in the shape the import UI sends to the bulk import endpoint
+ * @returns ImportPreview with one entry per row, in the original order
+ */
+export async function previewProductImport(storeId: string, items: unknown[]): Promise<ImportPreview> {
+  const parsed = items.map((item) => productImportItemSchema.safeParse(item));
+  const validItems = parsed.flatMap((result) => (result.success ? [result.data] : []));
+
+  const [categories, existingProducts] = await Promise.all([
+    prismadb.category.findMany({
+      where: { storeId, id: { in: Array.from(new Set(validItems.map((item) => item.categoryId))) } },
+      select: { id: true },
+    }),
+    prismadb.products.findMany({
+      where: { storeId, name: { in: Array.from(new Set(validItems.map((item) => item.name))) } },
+      include: { Image: { select: { url: true } } },
+    }),
+  ]);
+
+  const categoryIds = new Set(categories.map((category) => category.id));
+  const productsByName = new Map(existingProducts.map((product) => [product.name, product]));
+  const firstRowByName = new Map<string, number>();
+
+  const rows = parsed.map((result, index): ImportPreviewRow => {
+    const rawName = (items[index] as { name?: unknown } | null)?.name;
+    const name = typeof rawName === "string" ? rawName : "";
+
+    if (!result.success) {
+      return {
+        index,
+        name,
+        action: "invalid",
+        productId: null,
+        changes: [],
+        errors: result.error.errors.map((error) => `${error.path.join(".") || "row"}: ${error.message}`),
+        item: null,
+      };
+    }
+
+    const item = result.data;
+    const errors: string[] = [];
+
+    if (!categoryIds.has(item.categoryId)) {
+      errors.push("categoryId: Category does not exist in this store");
+    }
+
+    // Rows are upserted by name, so a repeated name would overwrite the earlier row
+    const firstRow = firstRowByName.get(item.name);
+    if (firstRow !== undefined) {
+      errors.push(`name: Duplicate of row ${firstRow + 1}`);
+    } else {
+      firstRowByName.set(item.name, index);
+    }
+
+    if (errors.length > 0) {
+      return { index, name: item.name, action: "invalid", productId: null, changes: [], errors, item: null };
+    }
+
+    const existing = productsByName.get(item.name);
+
+    if (!existing) {
+      return { index, name: item.name, action: "create", productId: null, changes: [], errors: [], item };
+    }
+
+    const changes = diffProduct(existing, item);
+
+    return {
+      index,
+      name: item.name,
+      action: changes.length > 0 ? "update" : "unchanged",
+      productId: existing.id,
+      changes,
+      errors: [],
+      item,
+    };
+  });
+
+  const summary: Record<ImportPreviewAction, number> = { create: 0, update: 0, unchanged: 0, invalid: 0 };
+  rows.forEach((row) => {
+    summary[row.action] += 1;
+  });
+
+  return { rows, summary };
+}
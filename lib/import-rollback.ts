@@ -0,0 +1,170 @@
+import prismadb from "@/lib/prismadb";
+import { ImportStatus, Prisma, type product_import_logs } from "@prisma/client";
+import { enqueueSearchSync, requestSearchSync } from "@/lib/search-outbox";
+
+/**
+ * Imports in these states have stopped writing and can be undone
+ */
+export const ROLLBACK_IMPORT_STATUS: ImportStatus[] = [
+  ImportStatus.COMPLETED,
+  ImportStatus.COMPLETED_WITH_ERRORS,
+  ImportStatus.CANCELLED,
+];
+
+/**
+ * The fields a bulk import overwrites, captured before the write
+ */
+export interface ImportProductSnapshot {
+  description: string | null;
+  price: string;
+  categoryId: string;
+  downloadUrl: string | null;
+  videoUrl: string | null;
+  isFeatured: boolean;
+  isArchived: boolean;
+  keywords: string[];
+  imageUrls: string[];
+}
+
+export type ImportRollbackResult =
+  | { success: true; deleted: number; archived: number; restored: number }
+  | { success: false; reason: string };
+
+type ProductWithImages = Prisma.productsGetPayload<{ include: { Image: true } }>;
+
+/**
+ * Record that an import is about to create or update a product.
+ * Call this before writing: the first record per product wins, so a retried
+ * chunk keeps the state from before the import rather than its own output.
+ *
+ * @param importId - product_import_logs ID
+ * @param productId - Product being written (the new ID when creating)
+ * @param existing - Current product with its images, or null when creating
+ */
+export async function recordImportChange(
+  importId: string,
+  productId: string,
+  existing: ProductWithImages | null
+): Promise<void> {
+  const snapshot: ImportProductSnapshot | null = existing && {
+    description: existing.description,
+    price: existing.price.toString(),
+    categoryId: existing.categoryId,
+    downloadUrl: existing.downloadUrl,
+    videoUrl: existing.videoUrl,
+    isFeatured: existing.isFeatured,
+    isArchived: existing.isArchived,
+    keywords: existing.keywords,
+    imageUrls: existing.Image.map((image) => image.url),
+  };
+
+  await prismadb.product_import_changes.createMany({
+    data: [
+      {
+        id: crypto.randomUUID(),
+        importId,
+        productId,
+        action: existing ? "UPDATED" : "CREATED",
+        snapshot: snapshot ? (snapshot as unknown as Prisma.InputJsonValue) : Prisma.JsonNull,
+      },
+    ],
+    skipDuplicates: true,
+  });
+}
+
+/**
+ * Undo a finished or cancelled import: delete the products it created and restore the
+ * products it updated to their recorded state, queueing the search index changes.
+ * Created products that have been ordered since are archived instead of
+ * deleted, so order history is kept.
+ *
+ * @param importLog - Import to roll back, already scoped to the store
+ * @returns ImportRollbackResult with counts, or the reason the rollback was refused
+ */
+export async function rollbackImport(importLog: product_import_logs): Promise<ImportRollbackResult> {
+  const { id: importId, storeId } = importLog;
+
+  if (!ROLLBACK_IMPORT_STATUS.includes(importLog.status)) {
+    return { success: false, reason: `Only completed or cancelled imports can be rolled back (status: ${importLog.status})` };
+  }
+
+  const changes = await prismadb.product_import_changes.findMany({
+    where: { importId },
+  });
+
+  const createdIds = changes.filter((change) => change.action === "CREATED").map((change) => change.productId);
+  const updates = changes.filter((change) => change.action === "UPDATED" && change.snapshot);
+
+  const ordered = await prismadb.orderItem.findMany({
+    where: { productId: { in: createdIds } },
+    select: { productId: true },
+    distinct: ["productId"],
+  });
+  const orderedIds = new Set(ordered.map((item) => item.productId));
+  const deleteIds = createdIds.filter((id) => !orderedIds.has(id));
+  const archiveIds = createdIds.filter((id) => orderedIds.has(id));
+
+  // Products deleted since the import cannot be restored
+  const existingUpdated = await prismadb.products.findMany({
+    where: { id: { in: updates.map((change) => change.productId) }, storeId },
+    select: { id: true },
+  });
+  const existingIds = new Set(existingUpdated.map((product) => product.id));
+
+  const restoreOperations = updates
+    .filter((change) => existingIds.has(change.productId))
+    .flatMap((change) => {
+      const snapshot = change.snapshot as unknown as ImportProductSnapshot;
+      return [
+        prismadb.products.update({
+          where: { id: change.productId },
+          data: {
+            description: snapshot.description,
+            price: new Prisma.Decimal(snapshot.price),
+            categoryId: snapshot.categoryId,
+            downloadUrl: snapshot.downloadUrl,
+            videoUrl: snapshot.videoUrl,
+            isFeatured: snapshot.isFeatured,
+            isArchived: snapshot.isArchived,
+            keywords: snapshot.keywords,
+            updatedAt: new Date(),
+          },
+        }),
+        prismadb.image.deleteMany({ where: { productId: change.productId } }),
+        prismadb.image.createMany({
+          data: snapshot.imageUrls.map((url) => ({
+            id: crypto.randomUUID(),
+            url,
+            productId: change.productId,
+            updatedAt: new Date(),
+          })),
+        }),
+      ];
+    });
+
+  const restoredIds = updates.map((change) => change.productId).filter((id) => existingIds.has(id));
+
+  const [deleted, archived] = await prismadb.$transaction([
+    prismadb.products.deleteMany({ where: { id: { in: deleteIds }, storeId } }),
+    prismadb.products.updateMany({
+      where: { id: { in: archiveIds }, storeId },
+      data: { isArchived: true, updatedAt: new Date() },
+    }),
+    ...restoreOperations,
+    prismadb.product_import_logs.update({
+      where: { id: importId },
+      data: { status: ImportStatus.ROLLED_BACK, rolledBackAt: new Date() },
+    }),
+    enqueueSearchSync(storeId, deleteIds, "DELETE"),
+    enqueueSearchSync(storeId, [...archiveIds, ...restoredIds], "UPSERT"),
+  ]);
+
+  await requestSearchSync();
+
+  return {
+    success: true,
+    deleted: (deleted as Prisma.BatchPayload).count,
+    archived: (archived as Prisma.BatchPayload).count,
+    restored: restoredIds.length,
+  };
+}
@@ -1,6 +1,74 @@
+/**
+ * PayPal REST client shared by checkout, refunds and the webhook.
+ * PAYPAL_CLIENT_SECRET is the canonical secret; PAYPAL_SECRET is still read
+ * for deployments configured before the two were unified.
+ */
+
+export interface PayPalOrderItem {
+  name: string;
+  price: number;
+}
+
+export interface PayPalLink {
+  href: string;
+  rel: string;
+  method?: string;
+}
+
+export interface PayPalOrder {
+  id: string;
+  status: string;
+  links?: PayPalLink[];
+  purchase_units?: {
+    custom_id?: string;
+    payments?: {
+      captures?: {
+        id: string;
+        status: string;
+        custom_id?: string;
+        amount?: { value: string; currency_code: string };
+      }[];
+    };
+  }[];
+}
+
+// Capture failures that mean the buyer didn't pay, rather than an error on our side
+const DECLINED_CAPTURE_ISSUES = ["INSTRUMENT_DECLINED", "ORDER_NOT_APPROVED", "PAYER_ACTION_REQUIRED"];
+
+/**
+ * A non-2xx PayPal response. The message carries PayPal's response body, so
+ * it is for logs only and never goes back to the storefront.
+ */
+export class PayPalRequestError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly issue: string | null
+  ) {
+    super(message);
+    this.name = "PayPalRequestError";
+  }
+}
+
+/**
+ * Whether a failed capture was declined or never approved by the buyer
+ */
+export function isDeclinedPayPalCapture(error: unknown): boolean {
+  return (
+    error instanceof PayPalRequestError &&
+    (error.status === 422 || (error.issue !== null && DECLINED_CAPTURE_ISSUES.includes(error.issue)))
+  );
+}
+
+function getPayPalSecret() {
+  return process.env.PAYPAL_CLIENT_SECRET ?? process.env.PAYPAL_SECRET;
+}
+
+const formatAmount = (value: number) => value.toFixed(2);
+
 export async function getPayPalAccessToken() {
   const base64 = Buffer.from(
-    `${process.env.PAYPAL_CLIENT_ID}:${process.env.PAYPAL_SECRET}`
+    `${process.env.PAYPAL_CLIENT_ID}:${getPayPalSecret()}`
   ).toString("base64");
 
   const res = await fetch(`${process.env.PAYPAL_API_URL}/v1/oauth2/token`, {
@@ -19,3 +87,143 @@ export async function getPayPalAccessToken() {
   const data = await res.json();
   return data.access_token;
 }
+
+/**
+ * Authenticated JSON request against the PayPal REST API
+ */
+async function paypalRequest<T>(path: string, body?: unknown): Promise<T> {
+  const accessToken = await getPayPalAccessToken();
+
+  const res = await fetch(`${process.env.PAYPAL_API_URL}${path}`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(body ?? {}),
+  });
+
+  if (!res.ok) {
+    const details = await res.text();
+    let issue: string | null = null;
+    try {
+      issue = JSON.parse(details).details?.[0]?.issue ?? null;
+    } catch {
+      // Not a JSON error body
+    }
+    throw new PayPalRequestError(`PayPal request to ${path} failed (${res.status}): ${details}`, res.status, issue);
+  }
+
+  return res.json();
+}
+
+/**
+ * Create a PayPal order for one of our orders
+ *
+ * @param orderId - Our order ID, stored as custom_id so webhooks can find the order
+ * @param items - Products being bought, at list price
+ * @param discount - Coupon discount in dollars
+ * @param returnUrl - Where PayPal sends the buyer after approving
+ * @param cancelUrl - Where PayPal sends the buyer after cancelling
+ * @returns PayPal order (use the "payer-action" link to redirect the buyer)
+ */
+export async function createPayPalOrder({
+  orderId,
+  items,
+  discount,
+  returnUrl,
+  cancelUrl,
+}: {
+  orderId: string;
+  items: PayPalOrderItem[];
+  discount: number;
+  returnUrl: string;
+  cancelUrl: string;
+}): Promise<PayPalOrder> {
+  const itemTotal = items.reduce((sum, item) => sum + item.price, 0);
+  const total = Math.round((itemTotal - discount) * 100) / 100;
+
+  return paypalRequest<PayPalOrder>("/v2/checkout/orders", {
+    intent: "CAPTURE",
+    purchase_units: [
+      {
+        reference_id: orderId,
+        custom_id: orderId,
+        amount: {
+          currency_code: "USD",
+          value: formatAmount(total),
+          breakdown: {
+            item_total: { currency_code: "USD", value: formatAmount(itemTotal) },
+            discount: { currency_code: "USD", value: formatAmount(discount) },
+          },
+        },
+        items: items.map((item) => ({
+          name: item.name.slice(0, 127),
+          quantity: "1",
+          category: "DIGITAL_GOODS",
+          unit_amount: { currency_code: "USD", value: formatAmount(item.price) },
+        })),
+      },
+    ],
+    payment_source: {
+      paypal: {
+        experience_context: {
+          shipping_preference: "NO_SHIPPING",
+          user_action: "PAY_NOW",
+          return_url: returnUrl,
+          cancel_url: cancelUrl,
+        },
+      },
+    },
+  });
+}
+
+/**
+ * Capture an approved PayPal order
+ *
+ * @param paypalOrderId - PayPal order ID
+ * @returns Captured PayPal order
+ */
+export async function capturePayPalOrder(paypalOrderId: string): Promise<PayPalOrder> {
+  return paypalRequest<PayPalOrder>(`/v2/checkout/orders/${paypalOrderId}/capture`);
+}
+
+/**
+ * Refund a captured PayPal payment
+ *
+ * @param captureId - PayPal capture ID (stored as the order's transactionId)
+ * @param amount - Amount in dollars; omit to refund the remaining captured amount
+ * @returns PayPal refund resource
+ */
+export async function refundPayPalCapture(captureId: string, amount?: number) {
+  return paypalRequest(
+    `/v2/payments/captures/${captureId}/refund`,
+    amount !== undefined
+      ? { amount: { value: formatAmount(amount), currency_code: "USD" } }
+      : {}
+  );
+}
+
+/**
+ * Verify a webhook delivery with PayPal's verify-webhook-signature API
+ *
+ * @param rawBody - Raw request body
+ * @param headers - Request headers (paypal-* transmission headers)
+ * @returns true if PayPal confirms the signature
+ */
+export async function verifyPayPalWebhookSignature(rawBody: string, headers: Headers): Promise<boolean> {
+  const result = await paypalRequest<{ verification_status: string }>(
+    "/v1/notifications/verify-webhook-signature",
+    {
+      auth_algo: headers.get("paypal-auth-algo"),
+      cert_url: headers.get("paypal-cert-url"),
+      transmission_id: headers.get("paypal-transmission-id"),
+      transmission_sig: headers.get("paypal-transmission-sig"),
+      transmission_time: headers.get("paypal-transmission-time"),
+      webhook_id: process.env.PAYPAL_WEBHOOK_ID,
+      webhook_event: JSON.parse(rawBody),
+    }
+  );
+
+  return result.verification_status === "SUCCESS";
+}
@@ -0,0 +1,86 @@
+import prismadb from "@/lib/prismadb";
+import { collectDescendantIds } from "@/lib/category-tree";
+import type { Category, Plan } from "@prisma/client";
+import type Stripe from "stripe";
+
+/**
+ * Find the active plan a Stripe price belongs to
+ *
+ * @param storeId - Store ID
+ * @param priceId - Stripe price ID (monthly or yearly)
+ * @returns Plan or null if the price is not part of any active plan
+ */
+export async function findPlanByPriceId(
+  storeId: string,
+  priceId: string
+): Promise<Plan | null> {
+  if (!storeId || !priceId) {
+    return null;
+  }
+
+  return prismadb.plan.findFirst({
+    where: {
+      storeId,
+      isArchived: false,
+      OR: [
+        { stripeMonthlyPriceId: priceId },
+        { stripeYearlyPriceId: priceId },
+      ],
+    },
+  });
+}
+
+/**
+ * Resolve which plan a Stripe subscription is on.
+ * Prefers the subscription's current price (covers plan switches made in the
+ * billing portal), then falls back to the planId stamped into metadata at checkout.
+ *
+ * @param storeId - Store ID
+ * @param subscription - Stripe subscription
+ * @returns Plan ID or null
+ */
+export async function resolvePlanId(
+  storeId: string,
+  subscription: Stripe.Subscription
+): Promise<string | null> {
+  const priceId = subscription.items?.data?.[0]?.price?.id;
+
+  if (priceId) {
+    const plan = await findPlanByPriceId(storeId, priceId);
+    if (plan) {
+      return plan.id;
+    }
+  }
+
+  const metadataPlanId = subscription.metadata?.planId;
+  if (metadataPlanId) {
+    const plan = await prismadb.plan.findFirst({
+      where: { id: metadataPlanId, storeId },
+      select: { id: true },
+    });
+    return plan?.id ?? null;
+  }
+
+  return null;
+}
+
+/**
+ * Check if a plan entitles its subscribers to a category.
+ * A plan with no categories listed includes the whole catalog, and a listed
+ * category includes its subcategories.
+ *
+ * @param plan - Plan with its categories
+ * @param categoryId - Category of the product being accessed
+ * @param categories - The store's categories, to resolve subcategories
+ */
+export function isCategoryIncludedInPlan(
+  plan: Pick<Plan, "categoryIds">,
+  categoryId: string,
+  categories: Pick<Category, "id" | "parentId">[]
+): boolean {
+  if (plan.categoryIds.length === 0) {
+    return true;
+  }
+
+  return plan.categoryIds.some((id) => collectDescendantIds(categories, id).includes(categoryId));
+}
@@ -0,0 +1,186 @@
+import prismadb from "@/lib/prismadb";
+import type { Prisma, ProductFile, products } from "@prisma/client";
+import type { ValidatedProductFileInput } from "@/lib/validation/product-file-schema";
+
+/**
+ * The file a download request resolves to
+ */
+export interface DownloadTarget {
+  url: string;
+  fileId: string | null;
+  label: string | null;
+  isFree: boolean;
+  /** File with its own price, bought on its own rather than with the product */
+  isSoldSeparately: boolean;
+}
+
+/**
+ * A file with its own price, together with the product it belongs to
+ */
+export type SellableProductFile = ProductFile & { price: Prisma.Decimal; products: products };
+
+/**
+ * Public view of a product file; the URL is only handed out by the download route.
+ * The size in bytes and the price are plain numbers for JSON.
+ */
+export type PublicProductFile = Omit<ProductFile, "url" | "size" | "price"> & {
+  size: number | null;
+  price: number | null;
+};
+
+/**
+ * Price a file is sold at: its own price, or the product's when it comes with the product
+ */
+export function getEffectiveFilePrice(
+  file: Pick<ProductFile, "price">,
+  product: Pick<products, "price">
+): Prisma.Decimal {
+  return file.price ?? product.price;
+}
+
+/**
+ * Resolve which file a download request is for.
+ * Without a file ID this is the product's downloadUrl, falling back to its
+ * first file for products that only have per-format files. A file without
+ * a price comes with the product; one with a price is sold on its own.
+ *
+ * @param product - Product being downloaded
+ * @param fileId - Requested file (optional)
+ * @returns DownloadTarget, or null if the product has no such file
+ */
+export async function resolveDownloadTarget(
+  product: Pick<products, "id" | "price" | "downloadUrl">,
+  fileId?: string | null
+): Promise<DownloadTarget | null> {
+  if (!fileId && product.downloadUrl) {
+    return {
+      url: product.downloadUrl,
+      fileId: null,
+      label: null,
+      isFree: product.price.equals(0),
+      isSoldSeparately: false,
+    };
+  }
+
+  const file = await prismadb.productFile.findFirst({
+    where: fileId ? { id: fileId, productId: product.id } : { productId: product.id },
+    orderBy: { position: "asc" },
+  });
+
+  if (!file) {
+    return null;
+  }
+
+  return {
+    url: file.url,
+    fileId: file.id,
+    label: file.label,
+    isFree: getEffectiveFilePrice(file, product).equals(0),
+    isSoldSeparately: file.price !== null,
+  };
+}
+
+/**
+ * Load files a checkout sells on their own. Files without a price of their
+ * own, or of another store, are left out, so callers compare the count.
+ *
+ * @param storeId - Store ID
+ * @param fileIds - Requested file IDs
+ * @returns The files with their products
+ */
+export async function getSellableFiles(storeId: string, fileIds: string[]): Promise<SellableProductFile[]> {
+  const files = await prismadb.productFile.findMany({
+    where: { id: { in: fileIds }, price: { not: null }, products: { storeId } },
+    include: { products: true },
+  });
+
+  return files.filter((file): file is SellableProductFile => file.price !== null);
+}
+
+/**
+ * One line of a checkout: a product, or a file sold on its own
+ */
+export interface CheckoutLine {
+  productId: string;
+  fileId: string | null;
+  name: string;
+  categoryId: string;
+  price: Prisma.Decimal;
+}
+
+/**
+ * Cart products and separately sold files as checkout lines, products first
+ */
+export function buildCheckoutLines(cartProducts: products[], files: SellableProductFile[]): CheckoutLine[] {
+  return [
+    ...cartProducts.map((product) => ({
+      productId: product.id,
+      fileId: null,
+      name: product.name,
+      categoryId: product.categoryId,
+      price: product.price,
+    })),
+    ...files.map((file) => ({
+      productId: file.productId,
+      fileId: file.id,
+      name: `${file.products.name} (${file.label})`,
+      categoryId: file.products.categoryId,
+      price: file.price,
+    })),
+  ];
+}
+
+/**
+ * Strip download URLs from files before returning them from public endpoints
+ */
+export function toPublicProductFile(file: ProductFile): PublicProductFile {
+  return {
+    id: file.id,
+    productId: file.productId,
+    label: file.label,
+    format: file.format,
+    size: file.size === null ? null : Number(file.size),
+    price: file.price?.toNumber() ?? null,
+    position: file.position,
+    createdAt: file.createdAt,
+    updatedAt: file.updatedAt,
+  };
+}
+
+/**
+ * Replace a product's files with the list from the product form.
+ * Files are matched by ID so existing files (and the downloads that
+ * reference them) keep their identity; files missing from the list are removed.
+ *
+ * @param productId - Product ID
+ * @param files - Files in display order
+ */
+export async function syncProductFiles(productId: string, files: ValidatedProductFileInput[]): Promise<void> {
+  const existing = await prismadb.productFile.findMany({
+    where: { productId },
+    select: { id: true },
+  });
+  const existingIds = new Set(existing.map((file) => file.id));
+  const keptIds = files.map((file) => file.id).filter((id): id is string => !!id && existingIds.has(id));
+
+  await prismadb.$transaction([
+    prismadb.productFile.deleteMany({
+      where: { productId, id: { notIn: keptIds } },
+    }),
+    ...files.map((file, position) => {
+      const data = {
+        label: file.label,
+        format: file.format.toUpperCase(),
+        size: file.size ?? null,
+        url: file.url,
+        price: file.price ?? null,
+        position,
+        updatedAt: new Date(),
+      };
+
+      return file.id && existingIds.has(file.id)
+        ? prismadb.productFile.update({ where: { id: file.id }, data })
+        : prismadb.productFile.create({ data: { id: crypto.randomUUID(), productId, ...data } });
+    }),
+  ]);
+}
@@ -0,0 +1,259 @@
+import prismadb from "@/lib/prismadb";
+import { getCategoryBreadcrumbs } from "@/lib/category-tree";
+import type { Prisma } from "@prisma/client";
+import { PRODUCT_COLLECTION_NAME, typesenseSearch, type ProductDocument } from "@/lib/typesense";
+import type { ProductSearchParams } from "@/lib/validation/product-search-schema";
+
+const MAX_CATEGORY_FACETS = 50;
+const MAX_KEYWORD_FACETS = 30;
+
+// Boost Name (10x) and Category (4x) / Keywords (4x) over Description (1x)
+const TEXT_MATCH_PARAMS = {
+  query_by: "name,keywords,categoryName,description",
+  query_by_weights: "10,4,4,1",
+  prefix: true,
+  num_typos: 2,
+  min_len_1typo: 4, // Don't allow typos on very short words to keep it accurate
+  min_len_2typo: 7,
+  drop_tokens_threshold: 1, // Only drop tokens if absolutely necessary
+  prioritize_exact_match: true,
+};
+
+/**
+ * Counts for the storefront's filter sidebar. Each group is counted without
+ * its own filter, so selecting a category still shows how many products the
+ * other categories would add. A category's count includes its subcategories,
+ * matching what selecting it filters on.
+ */
+export interface ProductSearchFacets {
+  categories: Array<{ id: string; name: string; count: number }>;
+  keywords: Array<{ value: string; count: number }>;
+  price: { free: number; paid: number; min: number | null; max: number | null };
+  featured: number;
+}
+
+export interface ProductSearchResult {
+  /** Matching product IDs of the requested page, in ranking order */
+  productIds: string[];
+  /** Matches across all pages */
+  found: number;
+  facets: ProductSearchFacets;
+}
+
+type FilterGroup = "category" | "keywords" | "price";
+
+/**
+ * Read the query string into the shape productSearchSchema parses
+ *
+ * @param searchParams - ?query=&categoryId=&keywords=&priceFilter=&minPrice=&maxPrice=&featured=&sortBy=&page=&limit=&searchId=
+ */
+export function readProductSearchParams(searchParams: URLSearchParams) {
+  const single = (name: string) => searchParams.get(name) || undefined;
+
+  return {
+    query: single("query"),
+    categoryId: searchParams.getAll("categoryId"),
+    keywords: searchParams.getAll("keywords"),
+    priceFilter: single("priceFilter"),
+    minPrice: single("minPrice"),
+    maxPrice: single("maxPrice"),
+    featured: single("featured"),
+    sortBy: single("sortBy"),
+    page: single("page"),
+    limit: single("limit"),
+    searchId: single("searchId"),
+  };
+}
+
+/**
+ * Search a store's products in Typesense with facet counts. The page of hits
+ * and the facet counts come from one multi-search request.
+ *
+ * @param storeId - Store ID
+ * @param q - Text query, or "*" to browse by filters alone
+ * @param params - Validated filters, sort and page
+ * @param categoryIds - Selected categories with their subcategories, or null for all
+ * @returns Product IDs of the page, total matches and facet counts
+ */
+export async function searchProducts(
+  storeId: string,
+  q: string,
+  params: ProductSearchParams,
+  categoryIds: string[] | null
+): Promise<ProductSearchResult> {
+  // None of the selected categories exist, so nothing can match
+  if (categoryIds && categoryIds.length === 0) {
+    return {
+      productIds: [],
+      found: 0,
+      facets: { categories: [], keywords: [], price: { free: 0, paid: 0, min: null, max: null }, featured: 0 },
+    };
+  }
+
+  const filterBy = (without?: FilterGroup) => buildFilter(storeId, params, categoryIds, without);
+
+  const { results } = await typesenseSearch.multiSearch.perform<ProductDocument[]>(
+    {
+      searches: [
+        {
+          filter_by: filterBy(),
+          sort_by: sortFor(params.sortBy, q),
+          facet_by: "isFeatured",
+          per_page: params.limit,
+          page: params.page,
+          highlight_full_fields: "name",
+        },
+        { filter_by: filterBy("category"), facet_by: "categoryId", max_facet_values: MAX_CATEGORY_FACETS, per_page: 0 },
+        { filter_by: filterBy("keywords"), facet_by: "keywords", max_facet_values: MAX_KEYWORD_FACETS, per_page: 0 },
+        { filter_by: filterBy("price"), facet_by: "price", per_page: 0 },
+        { filter_by: `${filterBy("price")} && price:=0`, per_page: 0 },
+      ],
+    },
+    { collection: PRODUCT_COLLECTION_NAME, q, ...TEXT_MATCH_PARAMS }
+  );
+
+  // A multi-search reports failures per search instead of rejecting. Only the
+  // page of hits is required; a failed facet search leaves its group empty.
+  const searchError = (result: (typeof results)[number]) => (result as { error?: string }).error;
+  results.slice(1).forEach((result, index) => {
+    if (searchError(result)) {
+      console.error(`[PRODUCT_SEARCH_FACETS] Facet search ${index + 1} failed:`, searchError(result));
+    }
+  });
+
+  const [main, categorySearch, keywordSearch, priceSearch, freeSearch] = results;
+  if (searchError(main)) {
+    throw new Error(`Typesense search failed: ${searchError(main)}`);
+  }
+
+  const facetCounts = (search: typeof main, field: string) =>
+    searchError(search) ? undefined : search.facet_counts?.find((facet) => facet.field_name === field);
+  const foundCount = (search: typeof main) => (searchError(search) ? 0 : search.found);
+
+  // Products are counted under their own category; add each count to the
+  // category's ancestors so parents show everything they filter on
+  const categories = await prismadb.category.findMany({
+    where: { storeId },
+    select: { id: true, name: true, parentId: true },
+  });
+  const categoryNames = new Map(categories.map((category) => [category.id, category.name]));
+  const categoryTotals = new Map<string, number>();
+  (facetCounts(categorySearch, "categoryId")?.counts ?? []).forEach((count) => {
+    getCategoryBreadcrumbs(categories, count.value).forEach((crumb) => {
+      categoryTotals.set(crumb.id, (categoryTotals.get(crumb.id) ?? 0) + count.count);
+    });
+  });
+  const priceStats = facetCounts(priceSearch, "price")?.stats;
+
+  return {
+    productIds: (main.hits ?? []).map((hit) => (hit.document as { id: string }).id),
+    found: main.found,
+    facets: {
+      categories: Array.from(categoryTotals, ([id, count]) => ({ id, name: categoryNames.get(id)!, count })).sort(
+        (a, b) => b.count - a.count
+      ),
+      keywords: (facetCounts(keywordSearch, "keywords")?.counts ?? []).map((count) => ({
+        value: count.value,
+        count: count.count,
+      })),
+      price: {
+        free: foundCount(freeSearch),
+        paid: Math.max(foundCount(priceSearch) - foundCount(freeSearch), 0),
+        min: priceStats?.min ?? null,
+        max: priceStats?.max ?? null,
+      },
+      featured: facetCounts(main, "isFeatured")?.counts.find((count) => count.value === "true")?.count ?? 0,
+    },
+  };
+}
+
+/**
+ * The same filters as a Prisma where clause, for the database fallback
+ *
+ * @param storeId - Store ID
+ * @param params - Validated filters
+ * @param categoryIds - Selected categories with their subcategories, or null for all
+ */
+export function buildProductSearchWhere(
+  storeId: string,
+  params: ProductSearchParams,
+  categoryIds: string[] | null
+): Prisma.productsWhereInput {
+  const price: Prisma.DecimalFilter<"products"> = {};
+  if (params.priceFilter === "free") price.equals = 0;
+  if (params.priceFilter === "paid") price.gt = 0;
+  if (params.minPrice !== undefined) price.gte = params.minPrice;
+  if (params.maxPrice !== undefined) price.lte = params.maxPrice;
+
+  return {
+    storeId,
+    isArchived: false,
+    ...(categoryIds && { categoryId: { in: categoryIds } }),
+    ...(params.keywords.length > 0 && { keywords: { hasSome: params.keywords } }),
+    ...(Object.keys(price).length > 0 && { price }),
+    ...(params.featured !== undefined && { isFeatured: params.featured }),
+  };
+}
+
+/**
+ * Sort order for the database fallback; relevance falls back to popularity
+ */
+export function productSearchOrderBy(sortBy: ProductSearchParams["sortBy"]): Prisma.productsOrderByWithRelationInput {
+  switch (sortBy) {
+    case "newest":
+      return { createdAt: "desc" };
+    case "priceLow":
+      return { price: "asc" };
+    case "priceHigh":
+      return { price: "desc" };
+    default:
+      return { downloadsCount: "desc" };
+  }
+}
+
+function sortFor(sortBy: ProductSearchParams["sortBy"], q: string): string {
+  switch (sortBy) {
+    case "mostPopular":
+      return "downloadsCount:desc,_text_match:desc";
+    case "newest":
+      return "createdAt:desc,_text_match:desc";
+    case "priceLow":
+      return "price:asc,downloadsCount:desc";
+    case "priceHigh":
+      return "price:desc,downloadsCount:desc";
+    default:
+      return q === "*" ? "downloadsCount:desc" : "_text_match:desc,downloadsCount:desc";
+  }
+}
+
+/**
+ * Typesense filter_by for the search, optionally leaving one filter group out
+ * so that group's facet counts cover every option
+ */
+function buildFilter(
+  storeId: string,
+  params: ProductSearchParams,
+  categoryIds: string[] | null,
+  without?: FilterGroup
+): string {
+  const clauses = [`storeId:=${storeId}`, "isArchived:=false"];
+
+  if (categoryIds && without !== "category") {
+    clauses.push(`categoryId:=[${categoryIds.join(",")}]`);
+  }
+  if (params.keywords.length > 0 && without !== "keywords") {
+    // Backticks quote values that contain commas or spaces
+    clauses.push(`keywords:=[${params.keywords.map((keyword) => `\`${keyword.replace(/`/g, "")}\``).join(",")}]`);
+  }
+  if (without !== "price") {
+    if (params.priceFilter === "free") clauses.push("price:=0");
+    if (params.priceFilter === "paid") clauses.push("price:>0");
+    if (params.minPrice !== undefined) clauses.push(`price:>=${params.minPrice}`);
+    if (params.maxPrice !== undefined) clauses.push(`price:<=${params.maxPrice}`);
+  }
+  if (params.featured !== undefined) {
+    clauses.push(`isFeatured:=${params.featured}`);
+  }
+
+  return clauses.join(" && ");
+}
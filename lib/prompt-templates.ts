@@ -0,0 +1,110 @@
+import prismadb from "@/lib/prismadb";
+import type { PromptTemplate } from "@prisma/client";
+import type { GeneratedProductDetails, PromptTemplateInput } from "@/lib/validation/generation-schema";
+import { promptTemplateSchema } from "@/lib/validation/generation-schema";
+import type { VisionRequest } from "@/lib/vision/types";
+
+export type PromptTemplateSettings = Pick<
+  PromptTemplate,
+  "tone" | "language" | "keywordCount" | "namingConvention" | "forbiddenWords"
+>;
+
+const BASE_SYSTEM_PROMPT =
+  "You are a product description generator for an e-commerce platform. Analyze the image and generate a product name, description, and relevant keywords. The product name should be concise (under 100 characters) and the description detailed but under 1000 characters.";
+
+/**
+ * The system and user prompt for a template; the built-in prompt when the store has none
+ *
+ * @param template - Store prompt settings, or null
+ * @returns Instructions for the vision provider
+ */
+export function buildVisionPrompt(template: PromptTemplateSettings | null): Omit<VisionRequest, "imageUrl"> {
+  const keywordCount = template?.keywordCount;
+  const rules = [
+    template?.language && `Write the name, description and keywords in ${template.language}.`,
+    template?.tone && `Use this tone of voice: ${template.tone}.`,
+    template?.namingConvention && `Name products following this convention: ${template.namingConvention}.`,
+    template?.forbiddenWords.length && `Never use these words: ${template.forbiddenWords.join(", ")}.`,
+  ].filter(Boolean);
+
+  return {
+    system: [BASE_SYSTEM_PROMPT, ...rules].join("\n"),
+    prompt: `Analyze this product image and provide:\n1. A product name (concise, under 100 characters)\n2. A detailed product description (under 1000 characters)\n3. ${keywordCount ? `Exactly ${keywordCount}` : "5-10"} search keywords`,
+  };
+}
+
+/**
+ * Hold generated details to the template: drop forbidden keywords, cap the
+ * keyword count, and reject names or descriptions using a forbidden word
+ *
+ * @param product - Validated provider output
+ * @param template - Store prompt settings, or null
+ * @returns The adjusted details, or the forbidden word that was used
+ */
+export function applyPromptTemplate(
+  product: GeneratedProductDetails,
+  template: PromptTemplateSettings | null
+): { success: true; product: GeneratedProductDetails } | { success: false; reason: string } {
+  if (!template) {
+    return { success: true, product };
+  }
+
+  const forbidden = template.forbiddenWords.map((word) => word.toLowerCase());
+  const containsWord = (text: string, word: string) =>
+    new RegExp(`(^|[^\\p{L}\\p{N}])${word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}($|[^\\p{L}\\p{N}])`, "iu").test(text);
+
+  const used = forbidden.find((word) => containsWord(product.name, word) || containsWord(product.description, word));
+  if (used) {
+    return { success: false, reason: `Generated text uses the forbidden word "${used}"` };
+  }
+
+  return {
+    success: true,
+    product: {
+      ...product,
+      keywords: product.keywords
+        .filter((keyword) => !forbidden.some((word) => containsWord(keyword, word)))
+        .slice(0, template.keywordCount),
+    },
+  };
+}
+
+/**
+ * The store's current (latest) prompt template
+ *
+ * @param storeId - Store ID
+ * @returns The latest version, or null when the store uses the built-in prompt
+ */
+export async function getCurrentPromptTemplate(storeId: string): Promise<PromptTemplate | null> {
+  return prismadb.promptTemplate.findFirst({
+    where: { storeId },
+    orderBy: { version: "desc" },
+  });
+}
+
+/**
+ * Save prompt settings as the store's next template version.
+ * Earlier versions are kept, as products refer to them.
+ *
+ * @param storeId - Store ID
+ * @param input - Validated prompt settings
+ * @returns The new version
+ */
+export async function savePromptTemplate(storeId: string, input: PromptTemplateInput): Promise<PromptTemplate> {
+  const data = promptTemplateSchema.parse(input);
+  const current = await getCurrentPromptTemplate(storeId);
+
+  // The (storeId, version) unique index rejects a concurrent save of the same version
+  return prismadb.promptTemplate.create({
+    data: {
+      id: crypto.randomUUID(),
+      storeId,
+      version: (current?.version ?? 0) + 1,
+      tone: data.tone || null,
+      language: data.language,
+      keywordCount: data.keywordCount,
+      namingConvention: data.namingConvention || null,
+      forbiddenWords: Array.from(new Set(data.forbiddenWords)),
+    },
+  });
+}
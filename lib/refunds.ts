@@ -0,0 +1,143 @@
+import prismadb from "@/lib/prismadb";
+import { stripe } from "@/lib/stripe";
+import { refundPayPalCapture } from "@/lib/paypal";
+import { OrderStatus, type Order } from "@prisma/client";
+
+export const REFUNDABLE_ORDER_STATUS: OrderStatus[] = [
+  OrderStatus.PAID,
+  OrderStatus.PARTIALLY_REFUNDED,
+];
+
+/**
+ * Orders in these states no longer grant access to their products
+ */
+export const REVOKED_ORDER_STATUS: OrderStatus[] = [OrderStatus.REFUNDED];
+
+export type RefundResult =
+  | {
+      success: true;
+      status: OrderStatus;
+      refundedAmount: number;
+    }
+  | {
+      success: false;
+      reason: string;
+    };
+
+const roundToCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Status for an order given the total refunded so far
+ */
+export function getRefundStatus(price: number, refundedTotal: number): OrderStatus {
+  if (refundedTotal <= 0) {
+    return OrderStatus.PAID;
+  }
+
+  return refundedTotal >= price ? OrderStatus.REFUNDED : OrderStatus.PARTIALLY_REFUNDED;
+}
+
+/**
+ * Record a refund on an order.
+ * Takes the cumulative refunded total (what providers report), so replaying
+ * the same webhook or racing the dashboard action never double counts.
+ *
+ * @param orderId - Order ID
+ * @param refundedTotal - Total refunded for the order so far, in dollars
+ * @returns Updated order
+ */
+export async function applyRefundToOrder(orderId: string, refundedTotal: number): Promise<Order> {
+  const order = await prismadb.order.findUniqueOrThrow({
+    where: { id: orderId },
+  });
+
+  const price = order.price?.toNumber() ?? 0;
+  const previousTotal = order.refundedAmount.toNumber();
+  const total = roundToCents(Math.max(previousTotal, refundedTotal));
+
+  return prismadb.order.update({
+    where: { id: orderId },
+    data: {
+      refundedAmount: total,
+      refundedAt: total > previousTotal ? new Date() : order.refundedAt,
+      status: getRefundStatus(price, total),
+      updatedAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Find the Stripe payment intent for an order, falling back to the
+ * checkout session for orders paid before transactionId was stored
+ */
+async function getStripePaymentIntentId(order: Order): Promise<string | null> {
+  if (order.transactionId?.startsWith("pi_")) {
+    return order.transactionId;
+  }
+
+  if (!order.sessionId) {
+    return null;
+  }
+
+  const session = await stripe.checkout.sessions.retrieve(order.sessionId);
+
+  if (typeof session.payment_intent === "string") {
+    return session.payment_intent;
+  }
+
+  return session.payment_intent?.id ?? null;
+}
+
+/**
+ * Refund an order through the provider that took the payment
+ *
+ * @param order - Order to refund
+ * @param amount - Amount in dollars; omit to refund whatever hasn't been refunded yet
+ * @returns RefundResult with the new status, or the reason the refund was rejected
+ */
+export async function refundOrder(order: Order, amount?: number): Promise<RefundResult> {
+  if (!REFUNDABLE_ORDER_STATUS.includes(order.status)) {
+    return { success: false, reason: `Orders that are ${order.status.toLowerCase()} can't be refunded` };
+  }
+
+  const price = order.price?.toNumber() ?? 0;
+  const alreadyRefunded = order.refundedAmount.toNumber();
+  const remaining = roundToCents(price - alreadyRefunded);
+  const refundAmount = roundToCents(amount ?? remaining);
+
+  if (refundAmount <= 0) {
+    return { success: false, reason: "Refund amount must be greater than 0" };
+  }
+
+  if (refundAmount > remaining) {
+    return { success: false, reason: `Refund amount cannot exceed the remaining ${remaining.toFixed(2)}` };
+  }
+
+  if (order.paymentProvider === "paypal") {
+    if (!order.transactionId) {
+      return { success: false, reason: "Order has no PayPal capture to refund" };
+    }
+
+    await refundPayPalCapture(order.transactionId, refundAmount);
+  } else {
+    const paymentIntentId = await getStripePaymentIntentId(order);
+
+    if (!paymentIntentId) {
+      return { success: false, reason: "Order has no Stripe payment to refund" };
+    }
+
+    await stripe.refunds.create({
+      payment_intent: paymentIntentId,
+      amount: Math.round(refundAmount * 100),
+      metadata: { orderId: order.id },
+    });
+  }
+
+  const updated = await applyRefundToOrder(order.id, alreadyRefunded + refundAmount);
+
+  return {
+    success: true,
+    status: updated.status,
+    refundedAmount: updated.refundedAmount.toNumber(),
+  };
+}
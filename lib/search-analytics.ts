@@ -0,0 +1,194 @@
+import prismadb from "@/lib/prismadb";
+import { SearchQuerySource } from "@prisma/client";
+
+const MAX_QUERY_LENGTH = 200;
+const REPORT_ROWS = 20;
+
+export interface SearchQueryLog {
+  storeId: string;
+  source: SearchQuerySource;
+  query: string;
+  translatedQuery?: string | null;
+  resultCount: number;
+  userId?: string | null;
+  /** Search ID returned for an earlier page of the same query */
+  searchId?: string | null;
+}
+
+export interface SearchClickInput {
+  searchId: string;
+  productId: string;
+  position?: number;
+  userId?: string | null;
+}
+
+export type SearchClickResult =
+  | { success: true }
+  | { success: false; reason: string };
+
+export interface SearchAnalyticsReport {
+  days: number;
+  searches: number;
+  zeroResultSearches: number;
+  clickedSearches: number;
+  autocompleteLookups: number;
+  topQueries: Array<{ query: string; searches: number; averageResults: number; clickThroughRate: number }>;
+  zeroResultQueries: Array<{ query: string; searches: number; lastSearchedAt: Date | null }>;
+}
+
+/**
+ * Lowercased, trimmed and single-spaced, so "Logo  Mockup" and "logo mockup"
+ * count as the same query in the report
+ */
+export function normalizeSearchQuery(query: string): string {
+  return query.trim().replace(/\s+/g, " ").toLowerCase().substring(0, MAX_QUERY_LENGTH);
+}
+
+/**
+ * Record a storefront search. Best effort: a failed write is logged and the
+ * search response goes out without a search ID. Further pages, sorts and
+ * filters of the same query send its search ID back and reuse that row, so
+ * they don't count as searches of their own.
+ *
+ * @param entry - The query, its translation and how many results it returned
+ * @returns The search ID to send back with result clicks, or null when it wasn't recorded
+ */
+export async function logSearchQuery(entry: SearchQueryLog): Promise<string | null> {
+  const normalizedQuery = normalizeSearchQuery(entry.query);
+
+  if (!normalizedQuery) {
+    return null;
+  }
+
+  try {
+    if (entry.searchId) {
+      const previous = await prismadb.search_queries.findFirst({
+        where: { id: entry.searchId, storeId: entry.storeId, source: entry.source, normalizedQuery },
+        select: { id: true },
+      });
+
+      if (previous) {
+        return previous.id;
+      }
+    }
+
+    const search = await prismadb.search_queries.create({
+      data: {
+        id: crypto.randomUUID(),
+        storeId: entry.storeId,
+        source: entry.source,
+        query: entry.query.trim().substring(0, MAX_QUERY_LENGTH),
+        normalizedQuery,
+        translatedQuery: entry.translatedQuery?.substring(0, MAX_QUERY_LENGTH) ?? null,
+        resultCount: entry.resultCount,
+        userId: entry.userId ?? null,
+      },
+      select: { id: true },
+    });
+
+    return search.id;
+  } catch (error) {
+    console.error("[SEARCH_ANALYTICS_LOG]", error);
+    return null;
+  }
+}
+
+/**
+ * Record that a shopper opened a product from a search's results
+ *
+ * @param storeId - Store ID
+ * @param click - Search ID from the search response, the product and its position in the results
+ * @returns SearchClickResult with the reason the click was rejected
+ */
+export async function recordSearchClick(storeId: string, click: SearchClickInput): Promise<SearchClickResult> {
+  const search = await prismadb.search_queries.findFirst({
+    where: { id: click.searchId, storeId },
+    select: { id: true },
+  });
+
+  if (!search) {
+    return { success: false, reason: "Search not found" };
+  }
+
+  await prismadb.search_clicks.create({
+    data: {
+      id: crypto.randomUUID(),
+      searchQueryId: search.id,
+      productId: click.productId,
+      position: click.position ?? null,
+      userId: click.userId ?? null,
+    },
+  });
+
+  return { success: true };
+}
+
+/**
+ * What shoppers searched for over a period: the most frequent queries with
+ * their click-through rate, and the queries that found nothing.
+ * Autocomplete lookups are only counted, since every keystroke is one.
+ *
+ * @param storeId - Store ID
+ * @param days - Length of the period, ending now
+ * @returns SearchAnalyticsReport
+ */
+export async function getSearchAnalytics(storeId: string, days: number): Promise<SearchAnalyticsReport> {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  const where = { storeId, source: SearchQuerySource.SEARCH, createdAt: { gte: since } };
+
+  const [searches, zeroResultSearches, clickedSearches, autocompleteLookups, topQueries, zeroResultQueries] =
+    await Promise.all([
+      prismadb.search_queries.count({ where }),
+      prismadb.search_queries.count({ where: { ...where, resultCount: 0 } }),
+      prismadb.search_queries.count({ where: { ...where, clicks: { some: {} } } }),
+      prismadb.search_queries.count({
+        where: { storeId, source: SearchQuerySource.AUTOCOMPLETE, createdAt: { gte: since } },
+      }),
+      prismadb.search_queries.groupBy({
+        by: ["normalizedQuery"],
+        where,
+        _count: { _all: true },
+        _avg: { resultCount: true },
+        orderBy: { _count: { normalizedQuery: "desc" } },
+        take: REPORT_ROWS,
+      }),
+      prismadb.search_queries.groupBy({
+        by: ["normalizedQuery"],
+        where: { ...where, resultCount: 0 },
+        _count: { _all: true },
+        _max: { createdAt: true },
+        orderBy: { _count: { normalizedQuery: "desc" } },
+        take: REPORT_ROWS,
+      }),
+    ]);
+
+  const clickedByQuery = await prismadb.search_queries.groupBy({
+    by: ["normalizedQuery"],
+    where: {
+      ...where,
+      normalizedQuery: { in: topQueries.map((row) => row.normalizedQuery) },
+      clicks: { some: {} },
+    },
+    _count: { _all: true },
+  });
+  const clicked = new Map(clickedByQuery.map((row) => [row.normalizedQuery, row._count._all]));
+
+  return {
+    days,
+    searches,
+    zeroResultSearches,
+    clickedSearches,
+    autocompleteLookups,
+    topQueries: topQueries.map((row) => ({
+      query: row.normalizedQuery,
+      searches: row._count._all,
+      averageResults: Math.round(row._avg.resultCount ?? 0),
+      clickThroughRate: (clicked.get(row.normalizedQuery) ?? 0) / row._count._all,
+    })),
+    zeroResultQueries: zeroResultQueries.map((row) => ({
+      query: row.normalizedQuery,
+      searches: row._count._all,
+      lastSearchedAt: row._max.createdAt,
+    })),
+  };
+}
@@ -0,0 +1,185 @@
+import { Errors } from "typesense";
+import prismadb from "@/lib/prismadb";
+import {
+  PRODUCT_COLLECTION_NAME,
+  productCollectionName,
+  productSchema,
+  toTypesenseDocument,
+  typesenseAdmin,
+} from "@/lib/typesense";
+
+export const SEARCH_REINDEX_EVENT = "search/reindex.requested";
+
+// Share of products a built collection may lack and still go live
+const MAX_MISSING_RATIO = 0.01;
+
+export interface ProductIndexPage {
+  indexed: number;
+  failed: number;
+  /** Last product ID of the page, or null when there are no more pages */
+  cursor: string | null;
+}
+
+/**
+ * The collection the products alias currently points at
+ *
+ * @returns Collection name, or null when the alias doesn't exist yet
+ */
+export async function getProductAliasTarget(): Promise<string | null> {
+  try {
+    const alias = await typesenseAdmin.aliases(PRODUCT_COLLECTION_NAME).retrieve();
+    return alias.collection_name;
+  } catch (error) {
+    if (error instanceof Errors.ObjectNotFound) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Create an empty collection to build the index into. A collection of the
+ * same name left over from an interrupted build is dropped first; the live
+ * one is never touched.
+ *
+ * @param name - Versioned collection name, e.g. products_v2
+ */
+export async function prepareProductCollection(name: string): Promise<void> {
+  if (name === (await getProductAliasTarget())) {
+    throw new Error(`Collection ${name} is live and can't be rebuilt in place`);
+  }
+
+  try {
+    await typesenseAdmin.collections(name).delete();
+  } catch (error) {
+    if (!(error instanceof Errors.ObjectNotFound)) {
+      throw error;
+    }
+  }
+
+  await typesenseAdmin.collections().create({ ...productSchema, name });
+}
+
+/**
+ * Make sure the alias resolves, creating the current version's collection
+ * when there is none (e.g. a fresh Typesense instance). Products are then
+ * added by the reconciliation job.
+ */
+export async function ensureProductCollection(): Promise<void> {
+  if (await getProductAliasTarget()) {
+    return;
+  }
+
+  const name = productCollectionName();
+
+  try {
+    await typesenseAdmin.collections().create({ ...productSchema, name });
+  } catch (error) {
+    // A concurrent caller got there first
+    if (!(error instanceof Errors.ObjectAlreadyExists)) {
+      throw error;
+    }
+  }
+
+  await typesenseAdmin.aliases().upsert(PRODUCT_COLLECTION_NAME, { collection_name: name });
+}
+
+/**
+ * Index one page of products into a collection, in ID order
+ *
+ * @param collectionName - Collection being built
+ * @param cursor - Last product ID of the previous page, or null to start
+ * @param pageSize - Products per page
+ * @param updatedSince - Only products written after this time, for the catch-up before the swap
+ * @returns Indexed and failed counts, and the cursor for the next page
+ */
+export async function indexProductPage(
+  collectionName: string,
+  cursor: string | null,
+  pageSize: number,
+  updatedSince?: Date
+): Promise<ProductIndexPage> {
+  // Keyed on the ID rather than a Prisma cursor, which returns nothing once
+  // the cursor's own product has been deleted
+  const products = await prismadb.products.findMany({
+    where: {
+      ...(cursor && { id: { gt: cursor } }),
+      ...(updatedSince && { updatedAt: { gte: updatedSince } }),
+    },
+    include: { Category: true },
+    orderBy: { id: "asc" },
+    take: pageSize,
+  });
+
+  if (products.length === 0) {
+    return { indexed: 0, failed: 0, cursor: null };
+  }
+
+  const results = await typesenseAdmin
+    .collections(collectionName)
+    .documents()
+    .import(products.map(toTypesenseDocument), { action: "upsert", throwOnFail: false });
+  const failed = results.filter((result) => !result.success).length;
+
+  return {
+    indexed: products.length - failed,
+    failed,
+    cursor: products.length < pageSize ? null : products[products.length - 1].id,
+  };
+}
+
+/**
+ * Check that a built collection holds the whole catalog before it goes live.
+ * Products created after the catch-up may still be on their way, so a small
+ * shortfall is allowed; the drift check after the swap indexes them.
+ *
+ * @param name - Collection that was built
+ * @param failed - Documents the build failed to import
+ * @throws When any import failed or the collection is well short of the database
+ */
+export async function verifyProductCollection(name: string, failed: number): Promise<void> {
+  if (failed > 0) {
+    throw new Error(`${failed} products failed to index into ${name}; keeping the live collection`);
+  }
+
+  const [collection, productCount] = await Promise.all([
+    typesenseAdmin.collections(name).retrieve(),
+    prismadb.products.count(),
+  ]);
+
+  if (collection.num_documents < productCount * (1 - MAX_MISSING_RATIO)) {
+    throw new Error(
+      `${name} holds ${collection.num_documents} of ${productCount} products; keeping the live collection`
+    );
+  }
+}
+
+/**
+ * Point the alias at a freshly built collection in one atomic call, then drop
+ * the collections it replaced. Searches switch over with the alias, so none
+ * of them hit a missing or half-built collection.
+ *
+ * @param name - Collection to make live
+ * @returns Names of the dropped collections
+ */
+export async function swapProductAlias(name: string): Promise<string[]> {
+  await typesenseAdmin.aliases().upsert(PRODUCT_COLLECTION_NAME, { collection_name: name });
+
+  // Includes the unversioned collection from before aliases were used. Typesense
+  // resolves a real collection before an alias of the same name, so searches
+  // only move to the alias once it is dropped.
+  const collections = await typesenseAdmin.collections().retrieve();
+  const replaced = collections
+    .map((collection) => collection.name)
+    .filter(
+      (collectionName) =>
+        collectionName !== name &&
+        (collectionName === PRODUCT_COLLECTION_NAME || collectionName.startsWith(`${PRODUCT_COLLECTION_NAME}_v`))
+    );
+
+  for (const collectionName of replaced) {
+    await typesenseAdmin.collections(collectionName).delete();
+  }
+
+  return replaced;
+}
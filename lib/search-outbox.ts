@@ -0,0 +1,167 @@
+import { inngest } from "@/app/inngest/inngest";
+import prismadb from "@/lib/prismadb";
+import { PRODUCT_COLLECTION_NAME, toTypesenseDocument, typesenseAdmin } from "@/lib/typesense";
+import { SearchOutboxOperation, SearchOutboxStatus } from "@prisma/client";
+
+const MAX_ATTEMPTS = 8;
+const RETRY_BASE_MS = 30_000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+
+export const SEARCH_OUTBOX_EVENT = "search/outbox.flush";
+
+export interface SearchOutboxRunResult {
+  synced: number;
+  failed: number;
+}
+
+export interface SearchSyncStatus {
+  pending: number;
+  failed: number;
+  lastError: string | null;
+}
+
+/**
+ * Outbox rows for products whose search document must change.
+ * Returns the write without running it: put it in the same `$transaction`
+ * as the product write, so the index can't miss a committed change.
+ *
+ * @param storeId - Store ID
+ * @param productIds - Products that were created, updated or deleted
+ * @param operation - UPSERT for writes, DELETE for deletes
+ */
+export function enqueueSearchSync(storeId: string, productIds: string[], operation: SearchOutboxOperation) {
+  return prismadb.search_outbox.createMany({
+    data: productIds.map((productId) => ({
+      id: crypto.randomUUID(),
+      storeId,
+      productId,
+      operation,
+    })),
+  });
+}
+
+/**
+ * Ask the consumer to flush the outbox now instead of on its next scheduled run.
+ * Best effort: the rows are already committed, so a failed send only delays the sync.
+ */
+export async function requestSearchSync(): Promise<void> {
+  try {
+    await inngest.send({ name: SEARCH_OUTBOX_EVENT, data: {} });
+  } catch (error) {
+    console.error("[SEARCH_OUTBOX_NOTIFY]", error);
+  }
+}
+
+/**
+ * Sync one batch of due outbox rows to Typesense.
+ * Each product is re-read, so its current state is indexed (or its document
+ * deleted when it is gone) whatever operations were queued for it.
+ * Synced rows are removed; failed ones back off and are marked FAILED after
+ * MAX_ATTEMPTS.
+ *
+ * @param batchSize - Maximum rows to take
+ * @returns Counts of synced and failed rows; both 0 when the outbox is drained
+ */
+export async function processSearchOutbox(batchSize: number): Promise<SearchOutboxRunResult> {
+  const entries = await prismadb.search_outbox.findMany({
+    where: { status: SearchOutboxStatus.PENDING, availableAt: { lte: new Date() } },
+    orderBy: { createdAt: "asc" },
+    take: batchSize,
+  });
+
+  if (entries.length === 0) {
+    return { synced: 0, failed: 0 };
+  }
+
+  const productIds = Array.from(new Set(entries.map((entry) => entry.productId)));
+  const products = await prismadb.products.findMany({
+    where: { id: { in: productIds } },
+    include: { Category: true },
+  });
+  const existingIds = new Set(products.map((product) => product.id));
+  const deleteIds = productIds.filter((id) => !existingIds.has(id));
+  const errors = new Map<string, string>();
+  const documents = typesenseAdmin.collections(PRODUCT_COLLECTION_NAME).documents();
+
+  if (products.length > 0) {
+    try {
+      const results = await documents.import(products.map(toTypesenseDocument), {
+        action: "upsert",
+        throwOnFail: false,
+      });
+      results.forEach((result, index) => {
+        if (!result.success) {
+          errors.set(products[index].id, result.error);
+        }
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      products.forEach((product) => errors.set(product.id, message));
+    }
+  }
+
+  if (deleteIds.length > 0) {
+    try {
+      await documents.delete({ filter_by: `id:[${deleteIds.join(",")}]` });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      deleteIds.forEach((id) => errors.set(id, message));
+    }
+  }
+
+  const synced = entries.filter((entry) => !errors.has(entry.productId));
+  const failed = entries.filter((entry) => errors.has(entry.productId));
+
+  await prismadb.$transaction([
+    prismadb.search_outbox.deleteMany({ where: { id: { in: synced.map((entry) => entry.id) } } }),
+    ...failed.map((entry) => {
+      const attempts = entry.attempts + 1;
+      return prismadb.search_outbox.update({
+        where: { id: entry.id },
+        data: {
+          attempts,
+          lastError: errors.get(entry.productId)?.substring(0, 1000),
+          status: attempts >= MAX_ATTEMPTS ? SearchOutboxStatus.FAILED : SearchOutboxStatus.PENDING,
+          availableAt: new Date(Date.now() + Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS)),
+        },
+      });
+    }),
+  ]);
+
+  return { synced: synced.length, failed: failed.length };
+}
+
+/**
+ * Outbox backlog of a store, for the dashboard indicator
+ *
+ * @param storeId - Store ID
+ * @returns Pending and failed row counts, and the latest failure message
+ */
+export async function getSearchSyncStatus(storeId: string): Promise<SearchSyncStatus> {
+  const [pending, failed, latestFailure] = await Promise.all([
+    prismadb.search_outbox.count({ where: { storeId, status: SearchOutboxStatus.PENDING } }),
+    prismadb.search_outbox.count({ where: { storeId, status: SearchOutboxStatus.FAILED } }),
+    prismadb.search_outbox.findFirst({
+      where: { storeId, status: SearchOutboxStatus.FAILED },
+      orderBy: { availableAt: "desc" },
+      select: { lastError: true },
+    }),
+  ]);
+
+  return { pending, failed, lastError: latestFailure?.lastError ?? null };
+}
+
+/**
+ * Put a store's failed rows back in the queue with a fresh retry budget
+ *
+ * @param storeId - Store ID
+ * @returns Number of rows requeued
+ */
+export async function retryFailedSearchSync(storeId: string): Promise<number> {
+  const { count } = await prismadb.search_outbox.updateMany({
+    where: { storeId, status: SearchOutboxStatus.FAILED },
+    data: { status: SearchOutboxStatus.PENDING, attempts: 0, availableAt: new Date() },
+  });
+
+  return count;
+}
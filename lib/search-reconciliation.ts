@@ -0,0 +1,319 @@
+import { Errors } from "typesense";
+import prismadb from "@/lib/prismadb";
+import { ensureProductCollection } from "@/lib/search-collections";
+import { enqueueSearchSync, requestSearchSync } from "@/lib/search-outbox";
+import { PRODUCT_COLLECTION_NAME, toTypesenseDocument, typesenseAdmin } from "@/lib/typesense";
+import { SearchOutboxStatus, SearchReconciliationStatus, type SearchReconciliationTrigger } from "@prisma/client";
+
+const PRODUCT_PAGE_SIZE = 1000;
+const ENQUEUE_CHUNK_SIZE = 1000;
+const MAX_SAMPLE_IDS = 20;
+
+export const SEARCH_RECONCILE_EVENT = "search/reconcile.requested";
+
+/**
+ * Product IDs of each kind of drift, capped for display
+ */
+export interface SearchDriftSamples {
+  missing: string[];
+  orphaned: string[];
+  stale: string[];
+}
+
+export interface SearchReconciliationReport {
+  id: string;
+  status: SearchReconciliationStatus;
+  trigger: SearchReconciliationTrigger;
+  productCount: number;
+  documentCount: number;
+  missingCount: number;
+  orphanedCount: number;
+  staleCount: number;
+  sampleIds: SearchDriftSamples | null;
+  error: string | null;
+  createdAt: Date;
+  completedAt: Date | null;
+}
+
+const reportSelect = {
+  id: true,
+  status: true,
+  trigger: true,
+  productCount: true,
+  documentCount: true,
+  missingCount: true,
+  orphanedCount: true,
+  staleCount: true,
+  sampleIds: true,
+  error: true,
+  createdAt: true,
+  completedAt: true,
+} as const;
+
+/**
+ * Start tracking a drift check before its event is sent.
+ * A store runs one check at a time, so nothing is created while another is
+ * pending or running.
+ *
+ * @param storeId - Store ID
+ * @param trigger - SCHEDULED for the nightly run, MANUAL for the dashboard action
+ * @returns The new reconciliation ID, or null when a check is already in progress
+ */
+export async function createSearchReconciliation(
+  storeId: string,
+  trigger: SearchReconciliationTrigger
+): Promise<string | null> {
+  const active = await prismadb.search_reconciliations.findFirst({
+    where: {
+      storeId,
+      status: { in: [SearchReconciliationStatus.PENDING, SearchReconciliationStatus.RUNNING] },
+    },
+    select: { id: true },
+  });
+
+  if (active) {
+    return null;
+  }
+
+  const reconciliation = await prismadb.search_reconciliations.create({
+    data: { id: crypto.randomUUID(), storeId, trigger },
+  });
+
+  return reconciliation.id;
+}
+
+/**
+ * Start a drift check for every store that isn't already running one
+ *
+ * @param trigger - What asked for the checks
+ * @returns The created reconciliations, ready to be sent as SEARCH_RECONCILE_EVENT data
+ */
+export async function createStoreReconciliations(
+  trigger: SearchReconciliationTrigger
+): Promise<Array<{ storeId: string; reconciliationId: string }>> {
+  const stores = await prismadb.store.findMany({ select: { id: true } });
+  const created: Array<{ storeId: string; reconciliationId: string }> = [];
+
+  for (const store of stores) {
+    const reconciliationId = await createSearchReconciliation(store.id, trigger);
+    if (reconciliationId) {
+      created.push({ storeId: store.id, reconciliationId });
+    }
+  }
+
+  return created;
+}
+
+/**
+ * Mark a check as failed, e.g. when Typesense can't be reached
+ */
+export async function failSearchReconciliation(reconciliationId: string, error: string): Promise<void> {
+  await prismadb.search_reconciliations.updateMany({
+    where: { id: reconciliationId },
+    data: { status: SearchReconciliationStatus.FAILED, error: error.substring(0, 1000), completedAt: new Date() },
+  });
+}
+
+/**
+ * Compare a store's products with its search documents and queue the repairs.
+ * A document is missing when its product isn't indexed, orphaned when its
+ * product no longer exists, and stale when its syncHash differs from the one
+ * the product produces now. Products that already have a pending outbox row
+ * are on their way to the index and are left out.
+ *
+ * @param reconciliationId - search_reconciliations ID
+ * @returns The finished report
+ */
+export async function reconcileSearchIndex(reconciliationId: string): Promise<SearchReconciliationReport> {
+  const reconciliation = await prismadb.search_reconciliations.update({
+    where: { id: reconciliationId },
+    data: { status: SearchReconciliationStatus.RUNNING },
+  });
+  const { storeId } = reconciliation;
+
+  const [productHashes, documentHashes, pending] = await Promise.all([
+    loadProductHashes(storeId),
+    loadDocumentHashes(storeId),
+    prismadb.search_outbox.findMany({
+      where: { storeId, status: SearchOutboxStatus.PENDING },
+      select: { productId: true },
+      distinct: ["productId"],
+    }),
+  ]);
+  const inFlight = new Set(pending.map((entry) => entry.productId));
+
+  const missing: string[] = [];
+  const stale: string[] = [];
+  const orphaned: string[] = [];
+
+  productHashes.forEach((hash, id) => {
+    if (inFlight.has(id)) return;
+    if (!documentHashes.has(id)) {
+      missing.push(id);
+    } else if (documentHashes.get(id) !== hash) {
+      stale.push(id);
+    }
+  });
+  documentHashes.forEach((_, id) => {
+    if (!inFlight.has(id) && !productHashes.has(id)) {
+      orphaned.push(id);
+    }
+  });
+
+  const upsertIds = [...missing, ...stale];
+  for (let i = 0; i < upsertIds.length; i += ENQUEUE_CHUNK_SIZE) {
+    await enqueueSearchSync(storeId, upsertIds.slice(i, i + ENQUEUE_CHUNK_SIZE), "UPSERT");
+  }
+  for (let i = 0; i < orphaned.length; i += ENQUEUE_CHUNK_SIZE) {
+    await enqueueSearchSync(storeId, orphaned.slice(i, i + ENQUEUE_CHUNK_SIZE), "DELETE");
+  }
+  if (upsertIds.length > 0 || orphaned.length > 0) {
+    await requestSearchSync();
+  }
+
+  const sampleIds: SearchDriftSamples = {
+    missing: missing.slice(0, MAX_SAMPLE_IDS),
+    orphaned: orphaned.slice(0, MAX_SAMPLE_IDS),
+    stale: stale.slice(0, MAX_SAMPLE_IDS),
+  };
+
+  const report = await prismadb.search_reconciliations.update({
+    where: { id: reconciliationId },
+    data: {
+      status: SearchReconciliationStatus.COMPLETED,
+      productCount: productHashes.size,
+      documentCount: documentHashes.size,
+      missingCount: missing.length,
+      orphanedCount: orphaned.length,
+      staleCount: stale.length,
+      sampleIds: { ...sampleIds },
+      completedAt: new Date(),
+    },
+    select: reportSelect,
+  });
+
+  return { ...report, sampleIds };
+}
+
+/**
+ * Delete the search documents of stores that no longer exist. Their products
+ * are gone with the store, so no outbox row can be queued for them.
+ *
+ * @returns Number of documents deleted
+ */
+export async function removeDeletedStoreDocuments(): Promise<number> {
+  const documents = typesenseAdmin.collections(PRODUCT_COLLECTION_NAME).documents();
+  let result;
+
+  try {
+    result = await documents.search({
+      q: "*",
+      query_by: "name",
+      facet_by: "storeId",
+      max_facet_values: 10_000,
+      per_page: 0,
+    });
+  } catch (error) {
+    if (error instanceof Errors.ObjectNotFound) {
+      return 0;
+    }
+    throw error;
+  }
+
+  const indexedStoreIds = (result.facet_counts?.[0]?.counts ?? []).map((count) => count.value);
+  if (indexedStoreIds.length === 0) {
+    return 0;
+  }
+
+  const stores = await prismadb.store.findMany({
+    where: { id: { in: indexedStoreIds } },
+    select: { id: true },
+  });
+  const existingIds = new Set(stores.map((store) => store.id));
+  const deletedIds = indexedStoreIds.filter((id) => !existingIds.has(id));
+
+  if (deletedIds.length === 0) {
+    return 0;
+  }
+
+  const { num_deleted } = await documents.delete({ filter_by: `storeId:=[${deletedIds.join(",")}]` });
+  return num_deleted;
+}
+
+/**
+ * The store's most recent drift check, for the dashboard indicator
+ *
+ * @param storeId - Store ID
+ * @returns The latest report, or null when the store was never checked
+ */
+export async function getLatestSearchReconciliation(storeId: string): Promise<SearchReconciliationReport | null> {
+  const reconciliation = await prismadb.search_reconciliations.findFirst({
+    where: { storeId },
+    orderBy: { createdAt: "desc" },
+    select: reportSelect,
+  });
+
+  if (!reconciliation) {
+    return null;
+  }
+
+  return { ...reconciliation, sampleIds: reconciliation.sampleIds as SearchDriftSamples | null };
+}
+
+/**
+ * The syncHash each of the store's products would be indexed with, read in pages
+ */
+async function loadProductHashes(storeId: string): Promise<Map<string, string>> {
+  const hashes = new Map<string, string>();
+  let cursor: string | undefined;
+
+  for (;;) {
+    // Keyed on the ID so a product deleted mid-read doesn't end the scan early
+    const products = await prismadb.products.findMany({
+      where: { storeId, ...(cursor && { id: { gt: cursor } }) },
+      include: { Category: true },
+      orderBy: { id: "asc" },
+      take: PRODUCT_PAGE_SIZE,
+    });
+
+    products.forEach((product) => hashes.set(product.id, toTypesenseDocument(product).syncHash));
+
+    if (products.length < PRODUCT_PAGE_SIZE) {
+      return hashes;
+    }
+    cursor = products[products.length - 1].id;
+  }
+}
+
+/**
+ * The syncHash of each of the store's indexed documents. Documents indexed
+ * before the field existed get an empty hash, so they show up as stale.
+ * A missing index is created, leaving every product to be reported missing.
+ */
+async function loadDocumentHashes(storeId: string): Promise<Map<string, string>> {
+  let exported: string;
+
+  try {
+    exported = await typesenseAdmin
+      .collections(PRODUCT_COLLECTION_NAME)
+      .documents()
+      .export({ filter_by: `storeId:=${storeId}`, include_fields: "id,syncHash" });
+  } catch (error) {
+    if (!(error instanceof Errors.ObjectNotFound)) {
+      throw error;
+    }
+    await ensureProductCollection();
+    return new Map();
+  }
+
+  const hashes = new Map<string, string>();
+  exported
+    .split("\n")
+    .filter((line) => line.trim().length > 0)
+    .forEach((line) => {
+      const document = JSON.parse(line) as { id: string; syncHash?: string };
+      hashes.set(document.id, document.syncHash ?? "");
+    });
+
+  return hashes;
+}
@@ -1,5 +1,7 @@
 import prismadb from "@/lib/prismadb";
 import { SubscriptionStatus, subscriptions } from "@prisma/client";
+import { isCategoryIncludedInPlan } from "@/lib/plans";
+import { REVOKED_ORDER_STATUS } from "@/lib/refunds";
 
 const ACTIVE_SUBSCRIPTION_STATUS: SubscriptionStatus[] = [
   SubscriptionStatus.ACTIVE,
@@ -67,7 +69,10 @@ export async function hasActiveSubscription(
 export async function getSubscriptionStatus(
   userId: string,
   storeId: string
-): Promise<(subscriptions & { Store: { id: string; name: string } }) | null> {
+): Promise<(subscriptions & {
+  Store: { id: string; name: string };
+  Plan: { id: string; name: string; categoryIds: string[]; downloadQuota: number | null } | null;
+}) | null> {
   try {
     if (!userId || !storeId) {
       return null;
@@ -87,6 +92,14 @@ export async function getSubscriptionStatus(
             name: true,
           },
         },
+        Plan: {
+          select: {
+            id: true,
+            name: true,
+            categoryIds: true,
+            downloadQuota: true,
+          },
+        },
       },
     });
 
@@ -114,10 +127,20 @@ export async function isPremiumUser(
   return hasActiveSubscription(userId, storeId);
 }
 
+/**
+ * Check if a user may download a paid product or file, through their plan or a purchase
+ *
+ * @param userId - Clerk user ID
+ * @param productId - Product ID
+ * @param storeId - Store ID
+ * @param separateFileId - File sold on its own at its own price, which needs its own purchase
+ * @returns Promise<boolean> - true if the user has access
+ */
 export async function checkSubscriptionAccess(
   userId: string,
   productId: string,
-  storeId: string
+  storeId: string,
+  separateFileId?: string | null
 ): Promise<boolean> {
   try {
     if (!userId || !productId || !storeId) {
@@ -125,38 +148,146 @@ export async function checkSubscriptionAccess(
     }
 
     // First, check if user has active subscription (premium access)
+    // and that their plan covers this product's category
     const hasSubscription = await hasActiveSubscription(userId, storeId);
 
-    if (hasSubscription) {
+    if (hasSubscription && (await hasPlanEntitlement(userId, productId, storeId))) {
       return true;
     }
 
-    // If no subscription, check if user has purchased this product
-    const purchasedOrder = await prismadb.order.findFirst({
-      where: {
+    // If no subscription, check if user has purchased this product (or file)
+    return separateFileId
+      ? await hasPurchasedFile(userId, separateFileId, storeId)
+      : await hasPurchasedProduct(userId, productId, storeId);
+  } catch {
+    // Fail securely: return false on error
+    return false;
+  }
+}
+
+/**
+ * Check if the user's subscription plan includes the product's category.
+ * Subscriptions without a plan (legacy single-tier) include everything.
+ *
+ * @param userId - Clerk user ID
+ * @param productId - Product ID
+ * @param storeId - Store ID
+ * @returns Promise<boolean> - true if the plan covers the product
+ */
+export async function hasPlanEntitlement(
+  userId: string,
+  productId: string,
+  storeId: string
+): Promise<boolean> {
+  const subscription = await prismadb.subscriptions.findUnique({
+    where: {
+      userId_storeId: {
         userId,
         storeId,
-        isPaid: true,
-        OrderItem: {
-          some: {
-            productId,
-          },
-        },
       },
-      select: {
-        id: true,
+    },
+    select: {
+      Plan: {
+        select: {
+          categoryIds: true,
+        },
       },
-    });
+    },
+  });
 
-    if (purchasedOrder) {
-      return true;
-    }
+  if (!subscription?.Plan) {
+    return true;
+  }
 
-    return false;
-  } catch {
-    // Fail securely: return false on error
+  const product = await prismadb.products.findFirst({
+    where: { id: productId, storeId },
+    select: { categoryId: true },
+  });
+
+  if (!product) {
     return false;
   }
+
+  const categories = await prismadb.category.findMany({
+    where: { storeId },
+    select: { id: true, parentId: true },
+  });
+
+  return isCategoryIncludedInPlan(subscription.Plan, product.categoryId, categories);
+}
+
+/**
+ * Check if a user has a paid order containing the product.
+ * Fully refunded orders no longer count as a purchase, and neither does
+ * buying one of the product's separately sold files.
+ *
+ * @param userId - Clerk user ID
+ * @param productId - Product ID
+ * @param storeId - Store ID
+ * @returns Promise<boolean> - true if the product was purchased
+ */
+export async function hasPurchasedProduct(
+  userId: string,
+  productId: string,
+  storeId: string
+): Promise<boolean> {
+  const purchasedOrder = await prismadb.order.findFirst({
+    where: {
+      userId,
+      storeId,
+      isPaid: true,
+      status: {
+        notIn: REVOKED_ORDER_STATUS,
+      },
+      OrderItem: {
+        some: {
+          productId,
+          fileId: null,
+        },
+      },
+    },
+    select: {
+      id: true,
+    },
+  });
+
+  return !!purchasedOrder;
+}
+
+/**
+ * Check if a user has a paid order containing a file sold on its own.
+ * Fully refunded orders no longer count as a purchase.
+ *
+ * @param userId - Clerk user ID
+ * @param fileId - ProductFile ID
+ * @param storeId - Store ID
+ * @returns Promise<boolean> - true if the file was purchased
+ */
+export async function hasPurchasedFile(
+  userId: string,
+  fileId: string,
+  storeId: string
+): Promise<boolean> {
+  const purchasedOrder = await prismadb.order.findFirst({
+    where: {
+      userId,
+      storeId,
+      isPaid: true,
+      status: {
+        notIn: REVOKED_ORDER_STATUS,
+      },
+      OrderItem: {
+        some: {
+          fileId,
+        },
+      },
+    },
+    select: {
+      id: true,
+    },
+  });
+
+  return !!purchasedOrder;
 }
 
 /**
@@ -1,4 +1,5 @@
 import "dotenv/config";
+import { createHash } from 'crypto';
 import Typesense from 'typesense';
 import { Prisma } from '@prisma/client';
 
@@ -25,11 +26,19 @@ export const typesenseSearch = new Typesense.Client({
   numRetries: 2,
 });
 
-// Collection name
+// Alias every read and write goes through; it points at the live versioned collection
 export const PRODUCT_COLLECTION_NAME = 'products';
 
+// Bump when productSchema changes, then run scripts/reindex-typesense.ts to
+// build the new collection and swap the alias over to it
+export const PRODUCT_SCHEMA_VERSION = 3;
+
+export function productCollectionName(version: number = PRODUCT_SCHEMA_VERSION): string {
+  return `${PRODUCT_COLLECTION_NAME}_v${version}`;
+}
+
 export const productSchema = {
-  name: PRODUCT_COLLECTION_NAME,
+  name: productCollectionName(),
   fields: [
     { name: 'id', type: 'string' as const },
     { name: 'storeId', type: 'string' as const, facet: true },
@@ -38,11 +47,13 @@ export const productSchema = {
     { name: 'keywords', type: 'string[]' as const, optional: true, facet: true },
     { name: 'categoryId', type: 'string' as const, facet: true },
     { name: 'categoryName', type: 'string' as const, facet: true, optional: true },
-    { name: 'price', type: 'float' as const, optional: true },
+    { name: 'price', type: 'float' as const, optional: true, facet: true },
     { name: 'downloadsCount', type: 'int32' as const },
     { name: 'isArchived', type: 'bool' as const, facet: true },
     { name: 'isFeatured', type: 'bool' as const, facet: true },
     { name: 'createdAt', type: 'int64' as const },
+    // Stored for drift checks only, never searched
+    { name: 'syncHash', type: 'string' as const, optional: true, index: false },
   ],
   default_sorting_field: 'downloadsCount'
 };
@@ -60,6 +71,7 @@ export type ProductDocument = {
   isArchived: boolean;
   isFeatured: boolean;
   createdAt: number;
+  syncHash: string;
 };
 
 type ProductWithCategory = Prisma.productsGetPayload<{
@@ -67,7 +79,7 @@ type ProductWithCategory = Prisma.productsGetPayload<{
 }>;
 
 export function toTypesenseDocument(product: ProductWithCategory): ProductDocument {
-  return {
+  const document = {
     id: product.id,
     storeId: product.storeId,
     name: product.name,
@@ -81,5 +93,15 @@ export function toTypesenseDocument(product: ProductWithCategory): ProductDocume
     isFeatured: product.isFeatured || false,
     createdAt: Math.floor(new Date(product.createdAt).getTime() / 1000),
   };
+
+  return { ...document, syncHash: hashDocument(document) };
+}
+
+/**
+ * Fingerprint of a document's indexed fields. The reconciliation job compares
+ * it with the stored one to find documents that no longer match their product.
+ */
+function hashDocument(document: Omit<ProductDocument, 'syncHash'>): string {
+  return createHash('sha1').update(JSON.stringify(document)).digest('hex');
 }
 
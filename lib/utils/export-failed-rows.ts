@@ -1,10 +1,10 @@
 import Papa from "papaparse"
-import type { ProductImportRow } from "@/lib/validation/product-import-schema"
+import { PRODUCT_IMPORT_COLUMNS, type ProductImportRow } from "@/lib/validation/product-import-schema"
 
 export function exportFailedRowsAsCsv(failedRows: ProductImportRow[]) {
   const csv = Papa.unparse(failedRows, {
     header: true,
-    columns: ["name", "description", "price", "categoryId", "downloadUrl", "isFeatured", "isArchived"],
+    columns: [...PRODUCT_IMPORT_COLUMNS],
   })
 
   const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" })
@@ -1,5 +1,5 @@
 import Papa from "papaparse";
-import { ProductImportRow, productImportSchema } from "@/lib/validation/product-import-schema";
+import { ProductImportRow, productImportSchema, splitImportList } from "@/lib/validation/product-import-schema";
 
 export async function parseCsvFile(buffer: Buffer): Promise<ProductImportRow[]> {
   const text = buffer.toString("utf-8");
@@ -11,8 +11,8 @@ export async function parseCsvFile(buffer: Buffer): Promise<ProductImportRow[]>
       complete: (results) => {
         const data = results.data.map((row) => ({
           ...row,
-          imageUrl: typeof row.imageUrl === "string" ? row.imageUrl.split(",").map((x) => x.trim()) : [],
-          keywords: typeof row.keywords === "string" ? row.keywords.split(",").map((x) => x.trim()) : [],
+          imageUrl: typeof row.imageUrl === "string" ? splitImportList(row.imageUrl) : [],
+          keywords: typeof row.keywords === "string" ? splitImportList(row.keywords) : [],
         }));
 
         const valid = data.filter((row) => productImportSchema.safeParse(row).success);
@@ -0,0 +1,25 @@
+import { z } from "zod"
+
+export const categoryReorderSchema = z.object({
+  moves: z
+    .array(
+      z.object({
+        id: z.string().min(1, "Category ID is required"),
+        parentId: z.string().min(1).nullable(),
+        position: z.number().int().min(0, "Position cannot be negative"),
+      })
+    )
+    .min(1, "Nothing to reorder"),
+})
+
+export type CategoryReorderInput = z.input<typeof categoryReorderSchema>
+
+export const categoryImportSchema = z.object({
+  references: z
+    .array(z.string().trim().min(1, "Category name is required"))
+    .min(1, "No categories to create")
+    .max(500, "Too many categories at once"),
+  billboardId: z.string().min(1, "Billboard is required"),
+})
+
+export type CategoryImportInput = z.input<typeof categoryImportSchema>
@@ -0,0 +1,41 @@
+import { z } from "zod"
+
+const optionalDate = z
+  .union([z.string(), z.date()])
+  .optional()
+  .nullable()
+  .transform((val) => (val ? new Date(val) : null))
+  .refine((val) => val === null || !isNaN(val.getTime()), "Invalid date")
+
+const optionalLimit = z.coerce.number().int().min(1, "Limit must be at least 1").optional().nullable()
+
+export const couponSchema = z
+  .object({
+    code: z
+      .string()
+      .trim()
+      .min(3, "Code must be at least 3 characters")
+      .max(32, "Code must be less than 32 characters")
+      .regex(/^[A-Za-z0-9_-]+$/, "Code can only contain letters, numbers, dashes and underscores")
+      .transform((val) => val.toUpperCase()),
+    type: z.enum(["PERCENTAGE", "FIXED"]),
+    amount: z.coerce.number().positive("Amount must be greater than 0"),
+    startsAt: optionalDate,
+    expiresAt: optionalDate,
+    maxRedemptions: optionalLimit,
+    maxPerCustomer: optionalLimit,
+    productIds: z.array(z.string()).default([]),
+    categoryIds: z.array(z.string()).default([]),
+    isActive: z.boolean().default(true),
+  })
+  .refine((coupon) => coupon.type !== "PERCENTAGE" || coupon.amount <= 100, {
+    message: "Percentage discounts cannot exceed 100%",
+    path: ["amount"],
+  })
+  .refine((coupon) => !coupon.startsAt || !coupon.expiresAt || coupon.startsAt < coupon.expiresAt, {
+    message: "Expiry must be after the start date",
+    path: ["expiresAt"],
+  })
+
+export type CouponInput = z.input<typeof couponSchema>
+export type ValidatedCouponInput = z.output<typeof couponSchema>
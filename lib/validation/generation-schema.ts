@@ -0,0 +1,46 @@
+import { z } from "zod"
+import { VisionProvider } from "@prisma/client"
+import { productImportSchema } from "@/lib/validation/product-import-schema"
+
+export const MAX_GENERATED_KEYWORDS = 20
+
+/**
+ * What a vision provider must return for one image. Name and description
+ * reuse the import limits, so a generated product always imports cleanly.
+ */
+export const generatedProductSchema = z.object({
+  name: productImportSchema.shape.name,
+  description: productImportSchema.shape.description.transform((val) => val ?? ""),
+  keywords: z
+    .union([z.string(), z.array(z.string())])
+    .default([])
+    .transform((val) => (typeof val === "string" ? val.split(",") : val).map((k) => k.trim()).filter(Boolean))
+    .pipe(z.array(z.string()).max(MAX_GENERATED_KEYWORDS, `At most ${MAX_GENERATED_KEYWORDS} keywords`)),
+})
+
+export type GeneratedProductDetails = z.output<typeof generatedProductSchema>
+
+export const generationSettingsSchema = z.object({
+  provider: z.nativeEnum(VisionProvider, { errorMap: () => ({ message: "Unknown provider" }) }),
+  // Leave empty to use the provider's default model
+  model: z.string().trim().max(100, "Model must be less than 100 characters").optional().nullable(),
+})
+
+export type GenerationSettingsInput = z.input<typeof generationSettingsSchema>
+
+export const promptTemplateSchema = z.object({
+  tone: z.string().trim().max(200, "Tone must be less than 200 characters").optional().nullable(),
+  language: z.string().trim().min(1, "Language is required").max(50, "Language must be less than 50 characters"),
+  keywordCount: z.coerce
+    .number()
+    .int("Keyword count must be a whole number")
+    .min(1, "At least 1 keyword")
+    .max(MAX_GENERATED_KEYWORDS, `At most ${MAX_GENERATED_KEYWORDS} keywords`),
+  namingConvention: z.string().trim().max(300, "Naming convention must be less than 300 characters").optional().nullable(),
+  forbiddenWords: z
+    .array(z.string().trim().min(1).max(50, "Forbidden words must be less than 50 characters"))
+    .max(100, "At most 100 forbidden words")
+    .default([]),
+})
+
+export type PromptTemplateInput = z.input<typeof promptTemplateSchema>
@@ -0,0 +1,25 @@
+import { z } from "zod"
+
+const stripePriceId = z
+  .string()
+  .trim()
+  .regex(/^price_[A-Za-z0-9]+$/, "Stripe price IDs start with price_")
+
+export const planSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required").max(100, "Name must be less than 100 characters"),
+    description: z.string().max(500, "Description must be less than 500 characters").optional().nullable(),
+    stripeMonthlyPriceId: stripePriceId.optional().nullable().or(z.literal("").transform(() => null)),
+    stripeYearlyPriceId: stripePriceId.optional().nullable().or(z.literal("").transform(() => null)),
+    trialDays: z.coerce.number().int().min(0, "Trial days cannot be negative").max(365).default(0),
+    categoryIds: z.array(z.string()).default([]),
+    downloadQuota: z.coerce.number().int().min(0, "Download quota cannot be negative").optional().nullable(),
+    isArchived: z.boolean().default(false),
+  })
+  .refine((plan) => !!plan.stripeMonthlyPriceId || !!plan.stripeYearlyPriceId, {
+    message: "At least one Stripe price ID (monthly or yearly) is required",
+    path: ["stripeMonthlyPriceId"],
+  })
+
+export type PlanInput = z.input<typeof planSchema>
+export type ValidatedPlanInput = z.output<typeof planSchema>
@@ -0,0 +1,17 @@
+import { z } from "zod"
+
+export const productFileSchema = z.object({
+  // Present for files that already exist; new files get an ID on save
+  id: z.string().optional(),
+  label: z.string().trim().min(1, "File label is required").max(100, "File label must be less than 100 characters"),
+  format: z.string().trim().min(1, "File format is required").max(20, "File format must be less than 20 characters"),
+  size: z.coerce.number().int().min(0, "File size cannot be negative").optional().nullable(),
+  url: z.string().trim().url("File URL must be a valid URL"),
+  // Leave empty to sell the file with its product
+  price: z.coerce.number().min(0, "File price cannot be negative").optional().nullable(),
+})
+
+export const productFilesSchema = z.array(productFileSchema).default([])
+
+export type ProductFileInput = z.input<typeof productFileSchema>
+export type ValidatedProductFileInput = z.output<typeof productFileSchema>
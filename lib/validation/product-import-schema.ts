@@ -1,4 +1,18 @@
 import { z } from "zod"
+import { resolveCategoryReference, type CategoryTreeItem } from "@/lib/category-tree"
+
+/**
+ * Separator of the list cells (imageUrl, keywords) in exported CSVs. Unlike a
+ * comma, a pipe can't appear unencoded in a URL. Cells without one are split
+ * on commas, so hand-written CSVs keep working.
+ */
+export const IMPORT_LIST_SEPARATOR = "|"
+
+export const splitImportList = (val: string) =>
+  val
+    .split(val.includes(IMPORT_LIST_SEPARATOR) ? IMPORT_LIST_SEPARATOR : ",")
+    .map((item) => item.trim())
+    .filter(Boolean)
 
 export const productImportSchema = z.object({
   name: z
@@ -33,6 +47,9 @@ export const productImportSchema = z.object({
 
   categoryId: z.string().uuid("Category ID must be a valid UUID format"),
 
+  // Name, slug or path ("Mockups / Phones"), resolved to categoryId by validateProductBatch
+  category: z.string().optional(),
+
   downloadUrl: z.string().optional(),
 
   videoUrl: z
@@ -54,7 +71,7 @@ export const productImportSchema = z.object({
     .optional()
     .transform((val) => {
       if (typeof val === "string") {
-        return val.split(",").map((url) => url.trim()).filter(Boolean);
+        return splitImportList(val);
       }
       return val;
     }),
@@ -76,21 +93,95 @@ export const productImportSchema = z.object({
     .optional()
     .transform((val) => {
       if (typeof val === "string") {
-        return val.split(",").map((k) => k.trim()).filter(Boolean);
+        return splitImportList(val);
       }
       return val;
     }),
 })
 
+const splitList = (val: string | string[] | null | undefined) => {
+  if (typeof val === "string") {
+    return splitImportList(val)
+  }
+  return val ?? []
+}
+
+/**
+ * A row as the import UI sends it to the bulk import endpoint,
+ * i.e. after productImportSchema (or the error editor) has normalized it
+ */
+export const productImportItemSchema = z.object({
+  name: z.string().refine((val) => val.trim().length > 0, "Product name is required"),
+  description: z.string().optional().nullable(),
+  price: z.coerce.number().min(0, "Price must be 0 or greater"),
+  categoryId: z.string().uuid("Category ID must be a valid UUID format"),
+  downloadUrl: z.string().optional().nullable(),
+  videoUrl: z.string().optional().nullable(),
+  imageUrl: z.union([z.string(), z.array(z.string())]).optional().nullable().transform(splitList),
+  isFeatured: z.boolean().default(false),
+  isArchived: z.boolean().default(false),
+  keywords: z.union([z.string(), z.array(z.string())]).optional().transform((val) => (val === undefined ? undefined : splitList(val))),
+})
+
+export type ProductImportItem = z.output<typeof productImportItemSchema>
+
+/**
+ * CSV columns the importer reads, in the order exports write them
+ */
+export const PRODUCT_IMPORT_COLUMNS = [
+  "name",
+  "description",
+  "price",
+  "categoryId",
+  "category",
+  "downloadUrl",
+  "videoUrl",
+  "imageUrl",
+  "isFeatured",
+  "isArchived",
+  "keywords",
+] as const
+
+export type ProductImportColumn = (typeof PRODUCT_IMPORT_COLUMNS)[number]
+
 export type ProductImportRow = z.input<typeof productImportSchema>
 export type ValidatedProductImportRow = z.output<typeof productImportSchema>
 
-export const validateProductBatch = (rows: ProductImportRow[]) => {
+/**
+ * Validate parsed CSV rows.
+ * When the store's categories are given, rows without a categoryId are
+ * resolved from their category column, and unresolved names become row errors.
+ *
+ * @param rows - Rows as parsed from the CSV
+ * @param categories - Categories of the store, to resolve category names
+ * @returns Valid rows, row errors, every row with its resolved categoryId, and the category names that don't exist yet
+ */
+export const validateProductBatch = (rows: ProductImportRow[], categories?: CategoryTreeItem[]) => {
   const validRows: ValidatedProductImportRow[] = []
   const errors: Array<{ row: number; field: string; message: string }> = []
+  const resolvedRows: ProductImportRow[] = []
+  const missingCategories = new Set<string>()
 
   rows.forEach((row, index) => {
-    const result = productImportSchema.safeParse(row)
+    let candidate = row
+
+    if (categories && !row.categoryId?.trim() && row.category?.trim()) {
+      const resolved = resolveCategoryReference(categories, row.category)
+
+      if (!resolved.success) {
+        errors.push({ row: index + 1, field: "category", message: resolved.reason })
+        if (resolved.missing) {
+          missingCategories.add(row.category.trim())
+        }
+        resolvedRows.push(row)
+        return
+      }
+
+      candidate = { ...row, categoryId: resolved.id }
+    }
+
+    resolvedRows.push(candidate)
+    const result = productImportSchema.safeParse(candidate)
 
     if (result.success) {
       validRows.push(result.data)
@@ -105,5 +196,5 @@ export const validateProductBatch = (rows: ProductImportRow[]) => {
     }
   })
 
-  return { validRows, errors }
+  return { validRows, errors, rows: resolvedRows, missingCategories: Array.from(missingCategories) }
 }
@@ -0,0 +1,42 @@
+import { z } from "zod"
+
+// Same names as the product listing's sortBy, plus relevance for text queries
+export const PRODUCT_SEARCH_SORTS = ["relevance", "mostPopular", "newest", "priceLow", "priceHigh"] as const
+
+// Repeated params and comma-separated lists both select several values
+const multiValue = z
+  .array(z.string())
+  .transform((values) =>
+    Array.from(new Set(values.flatMap((value) => value.split(",")).map((value) => value.trim()).filter(Boolean)))
+  )
+
+export const productSearchSchema = z
+  .object({
+    query: z.string().trim().optional(),
+    categoryId: multiValue.refine((ids) => ids.length <= 50, "Too many categories"),
+    keywords: multiValue.refine((keywords) => keywords.length <= 20, "Too many keywords"),
+    priceFilter: z.enum(["free", "paid", "all"]).default("all"),
+    minPrice: z.coerce.number().min(0, "Minimum price cannot be negative").optional(),
+    maxPrice: z.coerce.number().min(0, "Maximum price cannot be negative").optional(),
+    featured: z
+      .enum(["true", "false"])
+      .transform((value) => value === "true")
+      .optional(),
+    sortBy: z.enum(PRODUCT_SEARCH_SORTS).default("relevance"),
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(48),
+    // searchId of the first page, so later pages aren't logged as new searches
+    searchId: z.string().optional(),
+  })
+  .refine(
+    (params) => params.minPrice === undefined || params.maxPrice === undefined || params.minPrice <= params.maxPrice,
+    "Minimum price cannot be above the maximum price"
+  )
+
+export type ProductSearchParams = z.output<typeof productSearchSchema>
+
+export const searchClickSchema = z.object({
+  searchId: z.string().min(1, "Search ID is required"),
+  productId: z.string().min(1, "Product ID is required"),
+  position: z.number().int().min(0, "Position cannot be negative").optional(),
+})
@@ -0,0 +1,9 @@
+import { z } from "zod"
+
+export const refundSchema = z.object({
+  // Omit to refund the remaining balance of the order
+  amount: z.coerce.number().positive("Refund amount must be greater than 0").optional().nullable(),
+  reason: z.string().max(500, "Reason must be less than 500 characters").optional().nullable(),
+})
+
+export type RefundInput = z.input<typeof refundSchema>
@@ -0,0 +1,79 @@
+import { readErrorMessage, readRetryAfter } from "@/lib/vision/http";
+import { PRODUCT_OUTPUT_SCHEMA, type VisionProvider } from "@/lib/vision/types";
+
+const ANTHROPIC_API_URL = "https://api.anthropic.com/v1/messages";
+const ANTHROPIC_VERSION = "2023-06-01";
+const OUTPUT_TOOL = "record_product";
+
+/**
+ * Messages API provider. Structured output is a forced tool call whose input
+ * follows PRODUCT_OUTPUT_SCHEMA.
+ */
+export function createAnthropicProvider(apiKey: string, model: string): VisionProvider {
+  return {
+    id: "ANTHROPIC",
+    model,
+    async describe({ imageUrl, system, prompt }) {
+      const response = await fetch(ANTHROPIC_API_URL, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-key": apiKey,
+          "anthropic-version": ANTHROPIC_VERSION,
+        },
+        body: JSON.stringify({
+          model,
+          max_tokens: 1000,
+          system,
+          tools: [
+            {
+              name: OUTPUT_TOOL,
+              description: "Record the generated product details",
+              input_schema: PRODUCT_OUTPUT_SCHEMA,
+            },
+          ],
+          tool_choice: { type: "tool", name: OUTPUT_TOOL },
+          messages: [
+            {
+              role: "user",
+              content: [
+                { type: "image", source: { type: "url", url: imageUrl } },
+                { type: "text", text: prompt },
+              ],
+            },
+          ],
+        }),
+      });
+
+      // 529 means the API is overloaded, which is worth waiting out like a rate limit
+      if (response.status === 429 || response.status === 529) {
+        return {
+          success: false,
+          reason: await readErrorMessage(response, "Anthropic"),
+          rateLimited: true,
+          retryAfterMs: readRetryAfter(response),
+        };
+      }
+
+      if (!response.ok) {
+        return { success: false, reason: await readErrorMessage(response, "Anthropic") };
+      }
+
+      const data = await response.json();
+
+      if (data.stop_reason === "refusal") {
+        return { success: false, reason: "Model refused to describe the image" };
+      }
+
+      const toolUse = (data.content ?? []).find(
+        (block: { type: string; name?: string }) => block.type === "tool_use" && block.name === OUTPUT_TOOL
+      );
+
+      if (!toolUse?.input) {
+        return { success: false, reason: "No content returned" };
+      }
+
+      return { success: true, output: toolUse.input };
+    },
+  };
+}
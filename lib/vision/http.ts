@@ -0,0 +1,26 @@
+/**
+ * The provider's Retry-After hint in milliseconds, from either the seconds or
+ * the HTTP-date form of the header
+ */
+export function readRetryAfter(response: Response): number | undefined {
+  const header = response.headers.get("retry-after");
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(seconds * 1000, 0);
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+/**
+ * The error message of a failed provider response, e.g. "OpenAI API error (400): Invalid image URL"
+ */
+export async function readErrorMessage(response: Response, label: string): Promise<string> {
+  const errorData = await response.json().catch(() => ({}));
+  const message = (errorData as { error?: { message?: string } })?.error?.message;
+
+  return `${label} API error (${response.status})${message ? `: ${message}` : ""}`;
+}
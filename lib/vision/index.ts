@@ -0,0 +1,135 @@
+import prismadb from "@/lib/prismadb";
+import type { VisionProvider as VisionProviderId } from "@prisma/client";
+import { applyPromptTemplate, buildVisionPrompt, type PromptTemplateSettings } from "@/lib/prompt-templates";
+import { generatedProductSchema, type GeneratedProductDetails } from "@/lib/validation/generation-schema";
+import { createAnthropicProvider } from "@/lib/vision/anthropic";
+import { createMockProvider } from "@/lib/vision/mock";
+import { createOpenAIProvider } from "@/lib/vision/openai";
+import type { VisionProvider } from "@/lib/vision/types";
+
+export type { VisionProvider } from "@/lib/vision/types";
+
+const MAX_ATTEMPTS = 4;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30_000;
+
+export const DEFAULT_VISION_MODELS: Record<VisionProviderId, string> = {
+  OPENAI: "gpt-4o",
+  ANTHROPIC: "claude-sonnet-4-5",
+  LOCAL: process.env.LOCAL_VISION_MODEL || "llava",
+  MOCK: "mock",
+};
+
+export interface VisionSettings {
+  provider: VisionProviderId;
+  model: string | null;
+}
+
+export type VisionProviderResult =
+  | { success: true; provider: VisionProvider }
+  | { success: false; reason: string };
+
+export type ProductDetailsResult =
+  | { success: true; product: GeneratedProductDetails }
+  | { success: false; reason: string; rateLimited?: boolean; retryAfterMs?: number };
+
+/**
+ * The store's vision provider choice, OpenAI with its default model when unset
+ *
+ * @param storeId - Store ID
+ * @returns Provider and model override
+ */
+export async function getVisionSettings(storeId: string): Promise<VisionSettings> {
+  const settings = await prismadb.generationSettings.findUnique({
+    where: { storeId },
+    select: { provider: true, model: true },
+  });
+
+  return settings ?? { provider: "OPENAI", model: null };
+}
+
+/**
+ * Build the provider for a store's settings from the server's credentials
+ *
+ * @param settings - Provider and model override
+ * @returns The provider, or why it can't be used on this server
+ */
+export function createVisionProvider(settings: VisionSettings): VisionProviderResult {
+  const model = settings.model || DEFAULT_VISION_MODELS[settings.provider];
+
+  switch (settings.provider) {
+    case "OPENAI": {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        return { success: false, reason: "OpenAI API key not configured. Please set OPENAI_API_KEY in your environment variables." };
+      }
+      return {
+        success: true,
+        provider: createOpenAIProvider({ id: "OPENAI", label: "OpenAI", baseUrl: "https://api.openai.com/v1", apiKey, model }),
+      };
+    }
+    case "ANTHROPIC": {
+      const apiKey = process.env.ANTHROPIC_API_KEY;
+      if (!apiKey) {
+        return { success: false, reason: "Anthropic API key not configured. Please set ANTHROPIC_API_KEY in your environment variables." };
+      }
+      return { success: true, provider: createAnthropicProvider(apiKey, model) };
+    }
+    case "LOCAL": {
+      const baseUrl = process.env.LOCAL_VISION_API_URL;
+      if (!baseUrl) {
+        return { success: false, reason: "Local vision endpoint not configured. Please set LOCAL_VISION_API_URL in your environment variables." };
+      }
+      return {
+        success: true,
+        provider: createOpenAIProvider({ id: "LOCAL", label: "Local model", baseUrl, apiKey: process.env.LOCAL_VISION_API_KEY, model }),
+      };
+    }
+    case "MOCK":
+      return { success: true, provider: createMockProvider() };
+  }
+}
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Describe one image and validate the result against the import limits and
+ * the store's prompt template. Rate-limited calls are retried with exponential
+ * backoff (or the provider's Retry-After); if the limit persists the result
+ * says so, so the caller can reschedule the image instead of failing it.
+ *
+ * @param provider - Vision provider
+ * @param imageUrl - Image to describe
+ * @param template - Store prompt template, or null for the built-in prompt
+ * @returns Validated product details, or why none could be generated
+ */
+export async function generateProductDetails(
+  provider: VisionProvider,
+  imageUrl: string,
+  template: PromptTemplateSettings | null = null
+): Promise<ProductDetailsResult> {
+  const instructions = buildVisionPrompt(template);
+
+  for (let attempt = 1; ; attempt++) {
+    const response = await provider.describe({ imageUrl, ...instructions });
+
+    if (!response.success) {
+      if (!response.rateLimited || attempt >= MAX_ATTEMPTS) {
+        return response;
+      }
+
+      const backoff = Math.min(BASE_DELAY_MS * 2 ** (attempt - 1) + Math.random() * 250, MAX_DELAY_MS);
+      await delay(Math.min(response.retryAfterMs ?? backoff, MAX_DELAY_MS));
+      continue;
+    }
+
+    const result = generatedProductSchema.safeParse(response.output);
+
+    if (!result.success) {
+      const issue = result.error.errors[0];
+      return { success: false, reason: `Invalid model output: ${issue ? `${issue.path.join(".")} ${issue.message}` : "unknown"}` };
+    }
+
+    return applyPromptTemplate(result.data, template);
+  }
+}
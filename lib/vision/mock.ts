@@ -0,0 +1,39 @@
+import type { VisionProvider } from "@/lib/vision/types";
+
+const MOCK_KEYWORDS = ["digital", "download", "design", "template", "graphic", "print", "art", "bundle"];
+
+// FNV-1a, so the same URL always yields the same product
+const hash = (value: string) => {
+  let result = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    result ^= value.charCodeAt(i);
+    result = Math.imul(result, 0x01000193);
+  }
+  return result >>> 0;
+};
+
+/**
+ * Deterministic provider for tests and local development: no network, the
+ * product is derived from the image's file name
+ */
+export function createMockProvider(): VisionProvider {
+  return {
+    id: "MOCK",
+    model: "mock",
+    async describe({ imageUrl }) {
+      const fileName = decodeURIComponent(imageUrl.split("?")[0].split("/").pop() || "product");
+      const words = fileName.replace(/\.[^.]+$/, "").split(/[-_\s]+/).filter(Boolean);
+      const title = words.map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join(" ") || "Product";
+      const seed = hash(imageUrl);
+
+      return {
+        success: true,
+        output: {
+          name: `${title} ${(seed % 900) + 100}`,
+          description: `Mock description for ${fileName}.`,
+          keywords: [...words.map((word) => word.toLowerCase()), MOCK_KEYWORDS[seed % MOCK_KEYWORDS.length]],
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,79 @@
+import type { VisionProvider as VisionProviderId } from "@prisma/client";
+import { readErrorMessage, readRetryAfter } from "@/lib/vision/http";
+import { PRODUCT_OUTPUT_SCHEMA, type VisionProvider } from "@/lib/vision/types";
+
+interface OpenAIProviderOptions {
+  id: VisionProviderId;
+  label: string;
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+}
+
+/**
+ * Chat completions provider with JSON-schema structured output.
+ * Serves both OpenAI and local OpenAI-compatible servers (vLLM, Ollama, LM Studio).
+ */
+export function createOpenAIProvider({ id, label, baseUrl, apiKey, model }: OpenAIProviderOptions): VisionProvider {
+  return {
+    id,
+    model,
+    async describe({ imageUrl, system, prompt }) {
+      const response = await fetch(`${baseUrl.replace(/\/$/, "")}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          messages: [
+            { role: "system", content: system },
+            {
+              role: "user",
+              content: [
+                { type: "text", text: prompt },
+                { type: "image_url", image_url: { url: imageUrl } },
+              ],
+            },
+          ],
+          max_tokens: 1000,
+          response_format: {
+            type: "json_schema",
+            json_schema: { name: "product", strict: true, schema: PRODUCT_OUTPUT_SCHEMA },
+          },
+        }),
+      });
+
+      if (response.status === 429) {
+        return {
+          success: false,
+          reason: await readErrorMessage(response, label),
+          rateLimited: true,
+          retryAfterMs: readRetryAfter(response),
+        };
+      }
+
+      if (!response.ok) {
+        return { success: false, reason: await readErrorMessage(response, label) };
+      }
+
+      const data = await response.json();
+      const message = data.choices?.[0]?.message;
+
+      if (message?.refusal) {
+        return { success: false, reason: `Model refused: ${String(message.refusal).substring(0, 200)}` };
+      }
+
+      if (!message?.content) {
+        return { success: false, reason: "No content returned" };
+      }
+
+      try {
+        return { success: true, output: JSON.parse(message.content) };
+      } catch {
+        return { success: false, reason: `Model returned invalid JSON: ${String(message.content).substring(0, 200)}` };
+      }
+    },
+  };
+}
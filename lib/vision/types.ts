@@ -0,0 +1,39 @@
+import type { VisionProvider as VisionProviderId } from "@prisma/client";
+
+/**
+ * One image to describe, with the instructions for the model
+ */
+export interface VisionRequest {
+  imageUrl: string;
+  system: string;
+  prompt: string;
+}
+
+/**
+ * A provider's raw answer. `output` is the parsed structured output and is
+ * validated by the caller. Rate-limited responses carry `rateLimited` (and the
+ * provider's retry-after hint when it sent one) so the caller can back off.
+ */
+export type VisionResponse =
+  | { success: true; output: unknown }
+  | { success: false; reason: string; rateLimited?: boolean; retryAfterMs?: number };
+
+export interface VisionProvider {
+  id: VisionProviderId;
+  model: string;
+  describe(request: VisionRequest): Promise<VisionResponse>;
+}
+
+/**
+ * JSON schema of the structured output every provider asks for
+ */
+export const PRODUCT_OUTPUT_SCHEMA = {
+  type: "object",
+  properties: {
+    name: { type: "string", description: "Concise product name" },
+    description: { type: "string", description: "Detailed product description" },
+    keywords: { type: "array", items: { type: "string" }, description: "Search keywords" },
+  },
+  required: ["name", "description", "keywords"],
+  additionalProperties: false,
+} as const;
@@ -0,0 +1,233 @@
+import prismadb from "@/lib/prismadb";
+import { Prisma, WebhookEventStatus, WebhookSource, type WebhookEvent } from "@prisma/client";
+import type Stripe from "stripe";
+import { handleStripeOrderEvent } from "@/lib/webhooks/stripe-orders";
+import { handleStripeSubscriptionEvent } from "@/lib/webhooks/stripe-subscriptions";
+import { handlePayPalEvent, type PayPalWebhookEvent } from "@/lib/webhooks/paypal";
+
+// An event stuck in RECEIVED this long is assumed abandoned (e.g. the function timed out)
+// and may be picked up again by a redelivery
+const STALE_EVENT_MS = 5 * 60 * 1000;
+
+const WEBHOOK_HANDLERS: Record<WebhookSource, (payload: Prisma.JsonValue) => Promise<void>> = {
+  [WebhookSource.STRIPE]: (payload) => handleStripeOrderEvent(payload as unknown as Stripe.Event),
+  [WebhookSource.STRIPE_SUBSCRIPTION]: (payload) =>
+    handleStripeSubscriptionEvent(payload as unknown as Stripe.Event),
+  [WebhookSource.PAYPAL]: (payload) => handlePayPalEvent(payload as unknown as PayPalWebhookEvent),
+};
+
+export type WebhookProcessResult =
+  | { status: "processed" }
+  | { status: "duplicate" }
+  | { status: "failed"; error: string };
+
+type PayloadObject = Record<string, unknown> | undefined;
+
+const readString = (value: unknown) => (typeof value === "string" && value ? value : null);
+
+/**
+ * The store an event belongs to, read from its payload: the order or
+ * subscription it names, or the order paid by the Stripe payment intent or
+ * PayPal capture it refers to. The webhook log and replays are scoped by it.
+ *
+ * @returns Store ID, or null when the event names nothing we know
+ */
+async function resolveWebhookStoreId(source: WebhookSource, payload: object): Promise<string | null> {
+  if (source === WebhookSource.PAYPAL) {
+    const resource = (payload as PayPalWebhookEvent).resource;
+    const orderId = readString(resource?.custom_id);
+    const captureIds = [
+      resource?.links?.find((link) => link.rel === "up")?.href.match(/\/captures\/([^/]+)$/)?.[1],
+      ...(resource?.disputed_transactions ?? []).map((transaction) => transaction.seller_transaction_id),
+    ].filter((id): id is string => !!id);
+
+    const order = await prismadb.order.findFirst({
+      where: orderId ? { id: orderId } : { paymentProvider: "paypal", transactionId: { in: captureIds } },
+      select: { storeId: true },
+    });
+    return order?.storeId ?? null;
+  }
+
+  const object = (payload as Stripe.Event).data?.object as unknown as PayloadObject;
+  const metadata = object?.metadata as PayloadObject;
+
+  if (source === WebhookSource.STRIPE_SUBSCRIPTION) {
+    const storeId = readString(metadata?.storeId);
+    if (storeId) return storeId;
+
+    const subscriptionId = readString(object?.subscription) ?? readString(object?.id);
+    if (!subscriptionId) return null;
+
+    const subscription = await prismadb.subscriptions.findFirst({
+      where: { stripeSubscriptionId: subscriptionId },
+      select: { storeId: true },
+    });
+    return subscription?.storeId ?? null;
+  }
+
+  const orderId = readString(metadata?.orderId);
+  const paymentIntentId = readString(object?.payment_intent);
+  if (!orderId && !paymentIntentId) return null;
+
+  const order = await prismadb.order.findFirst({
+    where: orderId ? { id: orderId } : { transactionId: paymentIntentId },
+    select: { storeId: true },
+  });
+  return order?.storeId ?? null;
+}
+
+/**
+ * Store an inbound event, or claim an existing one for another attempt.
+ * Returns null when the event was already processed (or is being processed).
+ */
+async function claimWebhookEvent({
+  source,
+  eventId,
+  type,
+  payload,
+}: {
+  source: WebhookSource;
+  eventId: string;
+  type: string;
+  payload: object;
+}): Promise<WebhookEvent | null> {
+  try {
+    return await prismadb.webhookEvent.create({
+      data: {
+        id: crypto.randomUUID(),
+        source,
+        eventId,
+        type,
+        payload: payload as Prisma.InputJsonValue,
+        storeId: await resolveWebhookStoreId(source, payload),
+        updatedAt: new Date(),
+      },
+    });
+  } catch (error) {
+    if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002")) {
+      throw error;
+    }
+  }
+
+  // Redelivery of a known event: only failed or abandoned attempts run again
+  const { count } = await prismadb.webhookEvent.updateMany({
+    where: {
+      source,
+      eventId,
+      OR: [
+        { status: WebhookEventStatus.FAILED },
+        {
+          status: WebhookEventStatus.RECEIVED,
+          updatedAt: { lt: new Date(Date.now() - STALE_EVENT_MS) },
+        },
+      ],
+    },
+    data: {
+      status: WebhookEventStatus.RECEIVED,
+      updatedAt: new Date(),
+    },
+  });
+
+  if (count === 0) {
+    return null;
+  }
+
+  return prismadb.webhookEvent.findUnique({
+    where: { source_eventId: { source, eventId } },
+  });
+}
+
+/**
+ * Run the handler for a stored event and record the outcome
+ */
+async function runWebhookEvent(record: WebhookEvent): Promise<WebhookProcessResult> {
+  try {
+    await WEBHOOK_HANDLERS[record.source](record.payload);
+
+    await prismadb.webhookEvent.update({
+      where: { id: record.id },
+      data: {
+        status: WebhookEventStatus.PROCESSED,
+        attempts: { increment: 1 },
+        error: null,
+        processedAt: new Date(),
+        updatedAt: new Date(),
+      },
+    });
+
+    return { status: "processed" };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("[WEBHOOK_EVENT_ERROR]", record.source, record.eventId, error);
+
+    await prismadb.webhookEvent.update({
+      where: { id: record.id },
+      data: {
+        status: WebhookEventStatus.FAILED,
+        attempts: { increment: 1 },
+        error: message,
+        updatedAt: new Date(),
+      },
+    });
+
+    return { status: "failed", error: message };
+  }
+}
+
+/**
+ * Log an inbound provider event and process it once.
+ * Redeliveries of an event that already succeeded are reported as duplicates
+ * without re-running any side effects.
+ *
+ * @param source - Webhook endpoint the event arrived on
+ * @param eventId - Provider event ID (Stripe evt_..., PayPal WH-...)
+ * @param type - Provider event type
+ * @param payload - Full verified event body
+ * @returns WebhookProcessResult
+ */
+export async function processWebhookEvent(input: {
+  source: WebhookSource;
+  eventId: string;
+  type: string;
+  payload: object;
+}): Promise<WebhookProcessResult> {
+  const record = await claimWebhookEvent(input);
+
+  if (!record) {
+    console.log("[WEBHOOK_EVENT] Duplicate event skipped:", input.source, input.eventId);
+    return { status: "duplicate" };
+  }
+
+  return runWebhookEvent(record);
+}
+
+/**
+ * Re-run the handler for one of a store's stored events, regardless of its
+ * previous outcome. The event is claimed first, so two replays (or a replay
+ * and a redelivery) never run it at the same time.
+ *
+ * @param storeId - Store the event must belong to
+ * @param id - WebhookEvent ID
+ * @returns WebhookProcessResult ("duplicate" while another attempt is running), or null if the event doesn't exist
+ */
+export async function replayWebhookEvent(storeId: string, id: string): Promise<WebhookProcessResult | null> {
+  const { count } = await prismadb.webhookEvent.updateMany({
+    where: {
+      id,
+      storeId,
+      status: { in: [WebhookEventStatus.FAILED, WebhookEventStatus.PROCESSED] },
+    },
+    data: { status: WebhookEventStatus.RECEIVED, updatedAt: new Date() },
+  });
+
+  if (count === 0) {
+    const exists = await prismadb.webhookEvent.count({ where: { id, storeId } });
+    return exists ? { status: "duplicate" } : null;
+  }
+
+  const record = await prismadb.webhookEvent.findUniqueOrThrow({
+    where: { id },
+  });
+
+  return runWebhookEvent(record);
+}
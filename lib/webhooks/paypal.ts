@@ -0,0 +1,186 @@
+import prismadb from "@/lib/prismadb";
+import { sendOrderNotificationToAdmin } from "@/lib/email";
+import { applyRefundToOrder } from "@/lib/refunds";
+import { OrderStatus } from "@prisma/client";
+
+export interface PayPalWebhookEvent {
+  id: string;
+  event_type: string;
+  resource?: {
+    id?: string;
+    custom_id?: string;
+    links?: { rel: string; href: string }[];
+    amount?: { value?: string };
+    seller_payable_breakdown?: { total_refunded_amount?: { value?: string } };
+    disputed_transactions?: { seller_transaction_id?: string }[];
+  };
+}
+
+/**
+ * Refund resources link back to the capture they refund via the "up" link
+ */
+function getRefundedCaptureId(resource: NonNullable<PayPalWebhookEvent["resource"]>): string | null {
+  const captureLink = resource.links?.find((link) => link.rel === "up");
+  const match = captureLink?.href.match(/\/captures\/([^/]+)$/);
+  return match?.[1] ?? null;
+}
+
+/**
+ * Mark an order paid by a PayPal capture and notify the admin.
+ * Shared by the capture endpoint and the PAYMENT.CAPTURE.COMPLETED webhook;
+ * whichever runs first wins, so the admin is only emailed once.
+ *
+ * @param orderId - Our order ID (the PayPal custom_id)
+ * @param captureId - PayPal capture ID
+ * @param amount - Captured amount in dollars, if PayPal reported one
+ */
+export async function markPayPalOrderPaid(orderId: string, captureId: string, amount?: number): Promise<void> {
+  const { count } = await prismadb.order.updateMany({
+    where: { id: orderId, isPaid: false },
+    data: {
+      isPaid: true,
+      status: OrderStatus.PAID,
+      paidAt: new Date(),
+      sessionVerified: true,
+      paymentProvider: "paypal",
+      transactionId: captureId,
+      updatedAt: new Date(),
+    },
+  });
+
+  if (count === 0) {
+    const exists = await prismadb.order.count({ where: { id: orderId } });
+    if (!exists) throw new Error(`Order ${orderId} not found`);
+
+    console.log(`Order ${orderId} already paid`);
+    return;
+  }
+
+  console.log(`Order ${orderId} marked paid via PayPal`);
+
+  const order = await prismadb.order.findUniqueOrThrow({
+    where: { id: orderId },
+    include: {
+      OrderItem: {
+        include: {
+          products: true,
+        },
+      },
+      Store: true,
+    },
+  });
+
+  // Get actual payment amount from PayPal
+  const actualPaymentAmount = amount ?? (order.price?.toNumber() || 0);
+
+  console.log("💰 Payment Amount - Order Price:", order.price?.toNumber() || 0);
+  console.log("💰 Payment Amount - Actual Paid (PayPal):", actualPaymentAmount);
+
+  if (order.email && !order.emailedAt) {
+    // Prepare email data
+    const emailData = {
+      orderId: order.id,
+      customerEmail: order.email,
+      totalAmount: actualPaymentAmount, // Use actual payment amount
+      products: order.OrderItem.map(item => ({
+        name: item.products.name,
+        price: item.products.price.toNumber(),
+      })),
+      storeName: order.Store.name,
+      paymentMethod: "PayPal",
+      orderDate: order.createdAt,
+    };
+
+    // Send notification to admin
+    console.log("📧 Sending admin email to:", process.env.ADMIN_EMAIL);
+    console.log("📧 Email will show payment amount: $", actualPaymentAmount.toFixed(2));
+    const emailed = await sendOrderNotificationToAdmin(emailData);
+    if (emailed) {
+      await prismadb.order.update({
+        where: { id: order.id },
+        data: { emailedAt: new Date() },
+      });
+    }
+  }
+}
+
+async function handleCaptureCompleted(event: PayPalWebhookEvent) {
+  const orderId = event.resource?.custom_id;
+  const captureId = event.resource?.id;
+  if (!orderId || !captureId) {
+    throw new Error("Missing order or capture ID");
+  }
+
+  const amount = event.resource?.amount?.value ? parseFloat(event.resource.amount.value) : undefined;
+  await markPayPalOrderPaid(orderId, captureId, amount);
+}
+
+async function handleCaptureRefunded(event: PayPalWebhookEvent) {
+  const resource = event.resource ?? {};
+  const captureId = getRefundedCaptureId(resource);
+
+  if (!captureId) {
+    throw new Error("Missing capture ID");
+  }
+
+  const order = await prismadb.order.findFirst({
+    where: { paymentProvider: "paypal", transactionId: captureId },
+  });
+
+  if (!order) throw new Error(`No order found for capture ${captureId}`);
+
+  // total_refunded_amount is cumulative; fall back to adding this refund's amount
+  const totalRefunded = resource.seller_payable_breakdown?.total_refunded_amount?.value;
+  const refundedTotal = totalRefunded
+    ? parseFloat(totalRefunded)
+    : order.refundedAmount.toNumber() + parseFloat(resource.amount?.value ?? "0");
+
+  const updated = await applyRefundToOrder(
+    order.id,
+    event.event_type === "PAYMENT.CAPTURE.REVERSED" ? order.price?.toNumber() ?? 0 : refundedTotal
+  );
+  console.log(`Order ${order.id} refunded via PayPal: ${updated.refundedAmount.toNumber()} (${updated.status})`);
+}
+
+async function handleDisputeCreated(event: PayPalWebhookEvent) {
+  const captureIds = (event.resource?.disputed_transactions ?? [])
+    .map((transaction) => transaction.seller_transaction_id)
+    .filter((id): id is string => !!id);
+
+  if (captureIds.length === 0) {
+    return;
+  }
+
+  const { count } = await prismadb.order.updateMany({
+    where: { paymentProvider: "paypal", transactionId: { in: captureIds } },
+    data: { status: OrderStatus.DISPUTED, updatedAt: new Date() },
+  });
+  console.log(`${count} PayPal order(s) marked disputed`);
+}
+
+/**
+ * Apply a verified PayPal webhook event.
+ * Throws when the event can't be applied so the caller can record the failure.
+ *
+ * @param event - Verified PayPal webhook event
+ */
+export async function handlePayPalEvent(event: PayPalWebhookEvent): Promise<void> {
+  switch (event.event_type) {
+    case "PAYMENT.CAPTURE.COMPLETED":
+      await handleCaptureCompleted(event);
+      break;
+
+    case "PAYMENT.CAPTURE.REFUNDED":
+    case "PAYMENT.CAPTURE.REVERSED":
+      await handleCaptureRefunded(event);
+      break;
+
+    case "CUSTOMER.DISPUTE.CREATED":
+      await handleDisputeCreated(event);
+      break;
+
+    default:
+      // Unhandled event type
+      break;
+  }
+}
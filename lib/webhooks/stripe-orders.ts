@@ -0,0 +1,206 @@
+import Stripe from "stripe";
+import { stripe } from "@/lib/stripe";
+import prismadb from "@/lib/prismadb";
+import { sendOrderNotificationToAdmin } from "@/lib/email";
+import { releaseCouponRedemption } from "@/lib/coupons";
+import { applyRefundToOrder, getRefundStatus } from "@/lib/refunds";
+import { OrderStatus } from "@prisma/client";
+
+/**
+ * Find the order a Stripe payment intent paid for. Orders created before
+ * transactionId was stored are resolved through their checkout session.
+ */
+async function findOrderIdByPaymentIntent(paymentIntentId: string): Promise<string | null> {
+  const order = await prismadb.order.findFirst({
+    where: { transactionId: paymentIntentId },
+    select: { id: true },
+  });
+
+  if (order) {
+    return order.id;
+  }
+
+  const sessions = await stripe.checkout.sessions.list({
+    payment_intent: paymentIntentId,
+    limit: 1,
+  });
+
+  return sessions.data[0]?.metadata?.orderId ?? null;
+}
+
+function getPaymentIntentId(paymentIntent: string | Stripe.PaymentIntent | null): string | null {
+  if (!paymentIntent) {
+    return null;
+  }
+
+  return typeof paymentIntent === "string" ? paymentIntent : paymentIntent.id;
+}
+
+async function handleCheckoutSessionCompleted(session: Stripe.Checkout.Session) {
+  const orderId = session?.metadata?.orderId;
+  if (!orderId) {
+    throw new Error("No orderId in session metadata");
+  }
+
+  // Only an unpaid order moves to PAID: a redelivered or replayed event must
+  // not undo a later refund or dispute
+  const { count } = await prismadb.order.updateMany({
+    where: { id: orderId, isPaid: false },
+    data: {
+      isPaid: true,
+      status: OrderStatus.PAID,
+      paidAt: new Date(),
+      paymentProvider: "stripe",
+      sessionId: session.id,
+      transactionId: getPaymentIntentId(session.payment_intent),
+      updatedAt: new Date(),
+    },
+  });
+
+  if (count === 0) {
+    const exists = await prismadb.order.count({ where: { id: orderId } });
+    if (!exists) throw new Error(`Order ${orderId} not found`);
+
+    console.log(`Order ${orderId} already paid`);
+    return;
+  }
+
+  const updatedOrder = await prismadb.order.findUniqueOrThrow({
+    where: { id: orderId },
+    include: {
+      OrderItem: {
+        include: {
+          products: true,
+        },
+      },
+      Store: true,
+    },
+  });
+
+  console.log("✅ Order marked as paid:", updatedOrder.id);
+
+  // Get actual payment amount from Stripe (amount_total is in cents)
+  const actualPaymentAmount = session.amount_total
+    ? session.amount_total / 100
+    : updatedOrder.price?.toNumber() || 0;
+
+  console.log("💰 Payment Amount - Order Price:", updatedOrder.price?.toNumber() || 0);
+  console.log("💰 Payment Amount - Actual Paid (Stripe):", actualPaymentAmount);
+
+  const emailData = {
+    orderId: updatedOrder.id,
+    customerEmail: updatedOrder.email || "unknown@customer.com",
+    customerName: session.customer_details?.name ?? undefined,
+    totalAmount: actualPaymentAmount, // Use actual payment amount
+    products: updatedOrder.OrderItem.map((item) => ({
+      name: item.products.name,
+      price: item.products.price.toNumber(),
+    })),
+    storeName: updatedOrder.Store.name,
+    paymentMethod: session.payment_method_types?.[0] ?? "Stripe",
+    orderDate: updatedOrder.createdAt,
+  };
+
+  console.log("📧 Sending admin email to:", process.env.ADMIN_EMAIL);
+  console.log("📧 Email will show payment amount: $", actualPaymentAmount.toFixed(2));
+  const emailed = await sendOrderNotificationToAdmin(emailData);
+  if (emailed) {
+    await prismadb.order.update({
+      where: { id: updatedOrder.id },
+      data: { emailedAt: new Date() },
+    });
+  }
+}
+
+async function handleChargeRefunded(charge: Stripe.Charge) {
+  const paymentIntentId = getPaymentIntentId(charge.payment_intent);
+
+  if (!paymentIntentId) {
+    console.warn("⚠️ Refunded charge has no payment intent:", charge.id);
+    return;
+  }
+
+  const orderId = await findOrderIdByPaymentIntent(paymentIntentId);
+
+  if (!orderId) {
+    console.warn("⚠️ No order found for refunded payment intent:", paymentIntentId);
+    return;
+  }
+
+  // amount_refunded is cumulative across all refunds on the charge
+  const order = await applyRefundToOrder(orderId, charge.amount_refunded / 100);
+  console.log(`↩️ Order ${order.id} refunded: ${order.refundedAmount.toNumber()} (${order.status})`);
+}
+
+async function handleDispute(dispute: Stripe.Dispute, isClosed: boolean) {
+  const paymentIntentId = getPaymentIntentId(dispute.payment_intent);
+
+  if (!paymentIntentId) {
+    return;
+  }
+
+  const orderId = await findOrderIdByPaymentIntent(paymentIntentId);
+
+  if (!orderId) {
+    console.warn("⚠️ No order found for disputed payment intent:", paymentIntentId);
+    return;
+  }
+
+  if (!isClosed) {
+    await prismadb.order.update({
+      where: { id: orderId },
+      data: { status: OrderStatus.DISPUTED, updatedAt: new Date() },
+    });
+    console.log(`⚠️ Order ${orderId} disputed`);
+  } else if (dispute.status === "lost") {
+    // A lost dispute returns the full amount to the customer
+    await applyRefundToOrder(orderId, dispute.amount / 100);
+    console.log(`↩️ Order ${orderId} dispute lost`);
+  } else {
+    const order = await prismadb.order.findUniqueOrThrow({ where: { id: orderId } });
+    await prismadb.order.update({
+      where: { id: orderId },
+      data: {
+        status: getRefundStatus(order.price?.toNumber() ?? 0, order.refundedAmount.toNumber()),
+        updatedAt: new Date(),
+      },
+    });
+    console.log(`✅ Order ${orderId} dispute closed: ${dispute.status}`);
+  }
+}
+
+/**
+ * Apply a Stripe event from the order checkout webhook.
+ * Throws when the event can't be applied so the caller can record the failure.
+ *
+ * @param event - Verified Stripe event
+ */
+export async function handleStripeOrderEvent(event: Stripe.Event): Promise<void> {
+  switch (event.type) {
+    case "checkout.session.completed":
+      await handleCheckoutSessionCompleted(event.data.object as Stripe.Checkout.Session);
+      break;
+
+    case "checkout.session.expired": {
+      // The order will never be paid; free the coupon redemption it claimed
+      const orderId = (event.data.object as Stripe.Checkout.Session).metadata?.orderId;
+      if (orderId) {
+        await releaseCouponRedemption(orderId);
+      }
+      break;
+    }
+
+    case "charge.refunded":
+      await handleChargeRefunded(event.data.object as Stripe.Charge);
+      break;
+
+    case "charge.dispute.created":
+    case "charge.dispute.closed":
+      await handleDispute(event.data.object as Stripe.Dispute, event.type === "charge.dispute.closed");
+      break;
+
+    default:
+      // Unhandled event type
+      break;
+  }
+}
@@ -15,6 +15,8 @@ const isPublicRoute = createRouteMatcher([
   "/api/:storeId/paypal/checkout(.*)",
   "/api/:storeId/order(.*)",
   "/api/:storeId/subscription(.*)",
+  "/api/:storeId/plans(.*)",
+  "/api/:storeId/coupons/validate",
   "/api/:storeId/downloads(.*)",
   "/api/:storeId/leaderboard(.*)",
 ]);
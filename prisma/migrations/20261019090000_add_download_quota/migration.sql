@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "DownloadQuota" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "isEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "premiumPerPeriod" INTEGER,
+    "premiumPerDay" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DownloadQuota_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DownloadQuota_storeId_key" ON "DownloadQuota"("storeId");
+
+-- AddForeignKey
+ALTER TABLE "DownloadQuota" ADD CONSTRAINT "DownloadQuota_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "Store"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE "Plan" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "stripeMonthlyPriceId" TEXT,
+    "stripeYearlyPriceId" TEXT,
+    "trialDays" INTEGER NOT NULL DEFAULT 0,
+    "categoryIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "downloadQuota" INTEGER,
+    "isArchived" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Plan_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "subscriptions" ADD COLUMN "planId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Plan_stripeMonthlyPriceId_key" ON "Plan"("stripeMonthlyPriceId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Plan_stripeYearlyPriceId_key" ON "Plan"("stripeYearlyPriceId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Plan_storeId_name_key" ON "Plan"("storeId", "name");
+
+-- CreateIndex
+CREATE INDEX "Plan_storeId_idx" ON "Plan"("storeId");
+
+-- CreateIndex
+CREATE INDEX "subscriptions_planId_idx" ON "subscriptions"("planId");
+
+-- AddForeignKey
+ALTER TABLE "Plan" ADD CONSTRAINT "Plan_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "Store"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "subscriptions" ADD CONSTRAINT "subscriptions_planId_fkey" FOREIGN KEY ("planId") REFERENCES "Plan"("id") ON DELETE SET NULL ON UPDATE CASCADE;
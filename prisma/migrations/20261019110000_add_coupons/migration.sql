@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "CouponType" AS ENUM ('PERCENTAGE', 'FIXED');
+
+-- CreateTable
+CREATE TABLE "Coupon" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "type" "CouponType" NOT NULL,
+    "amount" DECIMAL(65,30) NOT NULL,
+    "startsAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3),
+    "maxRedemptions" INTEGER,
+    "maxPerCustomer" INTEGER,
+    "productIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "categoryIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Coupon_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN "couponId" TEXT,
+ADD COLUMN "couponCode" TEXT,
+ADD COLUMN "discountAmount" DECIMAL(65,30) NOT NULL DEFAULT 0.00;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Coupon_storeId_code_key" ON "Coupon"("storeId", "code");
+
+-- CreateIndex
+CREATE INDEX "Coupon_storeId_idx" ON "Coupon"("storeId");
+
+-- CreateIndex
+CREATE INDEX "Order_couponId_idx" ON "Order"("couponId");
+
+-- AddForeignKey
+ALTER TABLE "Coupon" ADD CONSTRAINT "Coupon_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "Store"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Order" ADD CONSTRAINT "Order_couponId_fkey" FOREIGN KEY ("couponId") REFERENCES "Coupon"("id") ON DELETE SET NULL ON UPDATE CASCADE;
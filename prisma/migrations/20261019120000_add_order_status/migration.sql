@@ -0,0 +1,13 @@
+-- CreateEnum
+CREATE TYPE "OrderStatus" AS ENUM ('PENDING', 'PAID', 'PARTIALLY_REFUNDED', 'REFUNDED', 'DISPUTED');
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN "status" "OrderStatus" NOT NULL DEFAULT 'PENDING',
+ADD COLUMN "refundedAmount" DECIMAL(65,30) NOT NULL DEFAULT 0.00,
+ADD COLUMN "refundedAt" TIMESTAMP(3);
+
+-- Backfill existing paid orders
+UPDATE "Order" SET "status" = 'PAID' WHERE "isPaid" = true;
+
+-- CreateIndex
+CREATE INDEX "Order_storeId_status_idx" ON "Order"("storeId", "status");
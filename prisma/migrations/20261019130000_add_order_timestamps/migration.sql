@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN "paidAt" TIMESTAMP(3),
+ADD COLUMN "emailedAt" TIMESTAMP(3);
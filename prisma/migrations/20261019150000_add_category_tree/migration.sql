@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "Category" ADD COLUMN     "parentId" TEXT,
+ADD COLUMN     "position" INTEGER NOT NULL DEFAULT 0;
+
+-- Existing categories keep their alphabetical order as root categories
+UPDATE "Category" AS c
+SET "position" = ranked."rank"
+FROM (
+    SELECT "id", ROW_NUMBER() OVER (PARTITION BY "storeId" ORDER BY "name") - 1 AS "rank"
+    FROM "Category"
+) AS ranked
+WHERE c."id" = ranked."id";
+
+-- CreateIndex
+CREATE INDEX "Category_storeId_parentId_position_idx" ON "Category"("storeId", "parentId", "position");
+
+-- AddForeignKey
+ALTER TABLE "Category" ADD CONSTRAINT "Category_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Category"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
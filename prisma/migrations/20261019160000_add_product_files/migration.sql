@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "downloads" ADD COLUMN     "fileId" TEXT;
+
+-- CreateTable
+CREATE TABLE "ProductFile" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "size" INTEGER,
+    "url" TEXT NOT NULL,
+    "price" DECIMAL(65,30),
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProductFile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProductFile_productId_position_idx" ON "ProductFile"("productId", "position");
+
+-- CreateIndex
+CREATE INDEX "downloads_fileId_idx" ON "downloads"("fileId");
+
+-- AddForeignKey
+ALTER TABLE "ProductFile" ADD CONSTRAINT "ProductFile_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "downloads" ADD CONSTRAINT "downloads_fileId_fkey" FOREIGN KEY ("fileId") REFERENCES "ProductFile"("id") ON DELETE SET NULL ON UPDATE CASCADE;
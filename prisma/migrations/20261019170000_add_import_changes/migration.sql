@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "ImportChangeAction" AS ENUM ('CREATED', 'UPDATED');
+
+-- AlterEnum
+ALTER TYPE "ImportStatus" ADD VALUE 'ROLLED_BACK';
+
+-- AlterTable
+ALTER TABLE "product_import_logs" ADD COLUMN     "rolledBackAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "product_import_changes" (
+    "id" TEXT NOT NULL,
+    "importId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "action" "ImportChangeAction" NOT NULL,
+    "snapshot" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "product_import_changes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "product_import_changes_importId_productId_key" ON "product_import_changes"("importId", "productId");
+
+-- AddForeignKey
+ALTER TABLE "product_import_changes" ADD CONSTRAINT "product_import_changes_importId_fkey" FOREIGN KEY ("importId") REFERENCES "product_import_logs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
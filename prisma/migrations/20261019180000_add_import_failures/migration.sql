@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "product_import_failures" (
+    "id" TEXT NOT NULL,
+    "importId" TEXT NOT NULL,
+    "rowNumber" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "row" JSONB NOT NULL,
+    "error" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "product_import_failures_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "product_import_failures_importId_rowNumber_key" ON "product_import_failures"("importId", "rowNumber");
+
+-- AddForeignKey
+ALTER TABLE "product_import_failures" ADD CONSTRAINT "product_import_failures_importId_fkey" FOREIGN KEY ("importId") REFERENCES "product_import_logs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,52 @@
+-- CreateEnum
+CREATE TYPE "GenerationJobStatus" AS ENUM ('PENDING', 'PROCESSING', 'COMPLETED', 'FAILED');
+
+-- CreateEnum
+CREATE TYPE "GenerationResultStatus" AS ENUM ('SUCCEEDED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "generation_jobs" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "userId" TEXT,
+    "status" "GenerationJobStatus" NOT NULL DEFAULT 'PENDING',
+    "total" INTEGER NOT NULL,
+    "processed" INTEGER NOT NULL DEFAULT 0,
+    "failed" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "generation_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "generation_job_results" (
+    "id" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "imageUrl" TEXT NOT NULL,
+    "status" "GenerationResultStatus" NOT NULL,
+    "name" TEXT,
+    "description" TEXT,
+    "keywords" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "price" TEXT,
+    "categoryId" TEXT,
+    "productId" TEXT,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "generation_job_results_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "generation_jobs_storeId_createdAt_idx" ON "generation_jobs"("storeId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "generation_job_results_jobId_imageUrl_key" ON "generation_job_results"("jobId", "imageUrl");
+
+-- AddForeignKey
+ALTER TABLE "generation_jobs" ADD CONSTRAINT "generation_jobs_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "Store"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "generation_job_results" ADD CONSTRAINT "generation_job_results_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "generation_jobs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- CreateEnum
+CREATE TYPE "VisionProvider" AS ENUM ('OPENAI', 'ANTHROPIC', 'LOCAL', 'MOCK');
+
+-- CreateTable
+CREATE TABLE "GenerationSettings" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "provider" "VisionProvider" NOT NULL DEFAULT 'OPENAI',
+    "model" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "GenerationSettings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GenerationSettings_storeId_key" ON "GenerationSettings"("storeId");
+
+-- AddForeignKey
+ALTER TABLE "GenerationSettings" ADD CONSTRAINT "GenerationSettings_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "Store"("id") ON DELETE CASCADE ON UPDATE CASCADE;
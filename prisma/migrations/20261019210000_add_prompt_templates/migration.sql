@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "generation_jobs" ADD COLUMN "promptTemplateId" TEXT;
+
+-- AlterTable
+ALTER TABLE "products" ADD COLUMN "promptTemplateId" TEXT;
+
+-- CreateTable
+CREATE TABLE "PromptTemplate" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "tone" TEXT,
+    "language" TEXT NOT NULL DEFAULT 'English',
+    "keywordCount" INTEGER NOT NULL DEFAULT 8,
+    "namingConvention" TEXT,
+    "forbiddenWords" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PromptTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PromptTemplate_storeId_version_key" ON "PromptTemplate"("storeId", "version");
+
+-- CreateIndex
+CREATE INDEX "products_promptTemplateId_idx" ON "products"("promptTemplateId");
+
+-- AddForeignKey
+ALTER TABLE "PromptTemplate" ADD CONSTRAINT "PromptTemplate_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "Store"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "generation_jobs" ADD CONSTRAINT "generation_jobs_promptTemplateId_fkey" FOREIGN KEY ("promptTemplateId") REFERENCES "PromptTemplate"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "products" ADD CONSTRAINT "products_promptTemplateId_fkey" FOREIGN KEY ("promptTemplateId") REFERENCES "PromptTemplate"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "SearchOutboxOperation" AS ENUM ('UPSERT', 'DELETE');
+
+-- CreateEnum
+CREATE TYPE "SearchOutboxStatus" AS ENUM ('PENDING', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "search_outbox" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "operation" "SearchOutboxOperation" NOT NULL,
+    "status" "SearchOutboxStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "availableAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "search_outbox_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "search_outbox_status_availableAt_idx" ON "search_outbox"("status", "availableAt");
+
+-- CreateIndex
+CREATE INDEX "search_outbox_storeId_status_idx" ON "search_outbox"("storeId", "status");
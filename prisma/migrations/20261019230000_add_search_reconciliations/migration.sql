@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "SearchReconciliationStatus" AS ENUM ('PENDING', 'RUNNING', 'COMPLETED', 'FAILED');
+
+-- CreateEnum
+CREATE TYPE "SearchReconciliationTrigger" AS ENUM ('SCHEDULED', 'MANUAL');
+
+-- CreateTable
+CREATE TABLE "search_reconciliations" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "status" "SearchReconciliationStatus" NOT NULL DEFAULT 'PENDING',
+    "trigger" "SearchReconciliationTrigger" NOT NULL,
+    "productCount" INTEGER NOT NULL DEFAULT 0,
+    "documentCount" INTEGER NOT NULL DEFAULT 0,
+    "missingCount" INTEGER NOT NULL DEFAULT 0,
+    "orphanedCount" INTEGER NOT NULL DEFAULT 0,
+    "staleCount" INTEGER NOT NULL DEFAULT 0,
+    "sampleIds" JSONB,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "search_reconciliations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "search_reconciliations_storeId_createdAt_idx" ON "search_reconciliations"("storeId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "search_reconciliations" ADD CONSTRAINT "search_reconciliations_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "Store"("id") ON DELETE CASCADE ON UPDATE CASCADE;
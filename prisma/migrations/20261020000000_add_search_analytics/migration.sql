@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "SearchQuerySource" AS ENUM ('SEARCH', 'AUTOCOMPLETE');
+
+-- CreateTable
+CREATE TABLE "search_queries" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "source" "SearchQuerySource" NOT NULL,
+    "query" TEXT NOT NULL,
+    "normalizedQuery" TEXT NOT NULL,
+    "translatedQuery" TEXT,
+    "resultCount" INTEGER NOT NULL,
+    "userId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "search_queries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "search_clicks" (
+    "id" TEXT NOT NULL,
+    "searchQueryId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "position" INTEGER,
+    "userId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "search_clicks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "search_queries_storeId_source_createdAt_idx" ON "search_queries"("storeId", "source", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "search_queries_storeId_normalizedQuery_idx" ON "search_queries"("storeId", "normalizedQuery");
+
+-- CreateIndex
+CREATE INDEX "search_clicks_searchQueryId_idx" ON "search_clicks"("searchQueryId");
+
+-- AddForeignKey
+ALTER TABLE "search_queries" ADD CONSTRAINT "search_queries_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "Store"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "search_clicks" ADD CONSTRAINT "search_clicks_searchQueryId_fkey" FOREIGN KEY ("searchQueryId") REFERENCES "search_queries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
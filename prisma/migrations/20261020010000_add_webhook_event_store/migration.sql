@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "WebhookEvent" ADD COLUMN "storeId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "WebhookEvent_storeId_receivedAt_idx" ON "WebhookEvent"("storeId", "receivedAt");
+
+-- Backfill: Stripe checkout sessions and PayPal captures name their order
+UPDATE "WebhookEvent" AS e
+SET "storeId" = o."storeId"
+FROM "Order" AS o
+WHERE e."storeId" IS NULL
+  AND o."id" = COALESCE(
+    e."payload"->'data'->'object'->'metadata'->>'orderId',
+    e."payload"->'resource'->>'custom_id'
+  );
+
+-- Backfill: Stripe order events that only carry the payment intent
+UPDATE "WebhookEvent" AS e
+SET "storeId" = o."storeId"
+FROM "Order" AS o
+WHERE e."storeId" IS NULL
+  AND e."source" = 'STRIPE'
+  AND o."transactionId" = e."payload"->'data'->'object'->>'payment_intent';
+
+-- Backfill: subscription events carry the store in their metadata
+UPDATE "WebhookEvent" AS e
+SET "storeId" = s."id"
+FROM "Store" AS s
+WHERE e."storeId" IS NULL
+  AND e."source" = 'STRIPE_SUBSCRIPTION'
+  AND s."id" = e."payload"->'data'->'object'->'metadata'->>'storeId';
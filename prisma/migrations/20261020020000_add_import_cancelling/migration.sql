@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "ImportStatus" ADD VALUE 'CANCELLING' BEFORE 'CANCELLED';
+
+-- AlterTable
+ALTER TABLE "product_import_logs" ADD COLUMN "skippedRows" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,3 @@
+-- Sizes are in bytes; INTEGER stops at 2 GB
+-- AlterTable
+ALTER TABLE "ProductFile" ALTER COLUMN "size" SET DATA TYPE BIGINT;
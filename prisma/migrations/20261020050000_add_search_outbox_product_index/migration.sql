@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "search_outbox_productId_status_idx" ON "search_outbox"("productId", "status");
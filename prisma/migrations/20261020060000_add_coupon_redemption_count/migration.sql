@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Coupon" ADD COLUMN "redemptionCount" INTEGER NOT NULL DEFAULT 0;
+
+-- Existing orders, paid or still open, each hold a redemption
+UPDATE "Coupon" c
+SET "redemptionCount" = (SELECT COUNT(*) FROM "Order" o WHERE o."couponId" = c."id");
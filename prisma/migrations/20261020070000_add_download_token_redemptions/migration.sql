@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE "download_token_redemptions" (
+    "jti" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "download_token_redemptions_pkey" PRIMARY KEY ("jti")
+);
+
+-- CreateIndex
+CREATE INDEX "download_token_redemptions_expiresAt_idx" ON "download_token_redemptions"("expiresAt");
@@ -0,0 +1,25 @@
+import "dotenv/config";
+import { inngest } from "../app/inngest/inngest";
+import { getProductAliasTarget, SEARCH_REINDEX_EVENT } from "../lib/search-collections";
+import { productCollectionName } from "../lib/typesense";
+
+// Ask the reindex job to build the collection for the current schema version
+// and swap the products alias to it. Searches keep working throughout.
+async function main() {
+    const target = await getProductAliasTarget();
+    const collectionName = productCollectionName();
+
+    if (target === collectionName) {
+        console.log(`✅ The products alias already points at ${collectionName}.`);
+        return;
+    }
+
+    console.log(`🚀 Requesting reindex: ${target ?? "no alias"} → ${collectionName}`);
+    await inngest.send({ name: SEARCH_REINDEX_EVENT, data: {} });
+    console.log("✅ Reindex requested. Follow its progress in the Inngest dashboard.");
+}
+
+main().catch((error) => {
+    console.error("❌ Could not request the reindex:", error);
+    process.exit(1);
+});